@@ -1,8 +1,15 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { addAnalyzedArticle } from '@/utils/analyzedArticles'
+import type { AIAnalysis, ModelAnalyses } from '@/lib/ai'
+import { getModelColor, getModelDisplayName } from '@/lib/models'
+import { loadReliabilityWeights } from '@/lib/modelWeights'
+import { createClient } from '@/utils/supabase/client'
+import { AggregationMode, averageCategoryScores, DEFAULT_AGGREGATION_MODE, ModelWeights } from '@/utils/aggregation'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
+import AggregationModeToggle from '@/components/AggregationModeToggle'
 
 // Type for the analysis results
 interface AnalysisResult {
@@ -13,40 +20,8 @@ interface AnalysisResult {
     url: string
     source: string
   }
-  analysis: {
-    gemini: {
-      scores: {
-        category: string
-        score: number
-        explanation: string
-      }[]
-      summary: string
-    } | null
-    qwen: {
-      scores: {
-        category: string
-        score: number
-        explanation: string
-      }[]
-      summary: string
-    } | null
-    gptOss: {
-      scores: {
-        category: string
-        score: number
-        explanation: string
-      }[]
-      summary: string
-    } | null
-    llamaMaverick: {
-      scores: {
-        category: string
-        score: number
-        explanation: string
-      }[]
-      summary: string
-    } | null
-  }
+  analysis: ModelAnalyses // keyed by model ID, null = model failed
+  reused?: boolean        // URL matched an article we already had: stored scores, no new analysis
 }
 
 export default function AnalyzePage() {
@@ -57,6 +32,14 @@ export default function AnalyzePage() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [results, setResults] = useState<AnalysisResult | null>(null)
+  const [aggregation, setAggregation] = useState<AggregationMode>(DEFAULT_AGGREGATION_MODE)
+  const [weights, setWeights] = useState<ModelWeights | null>(null)
+
+  // Reliability weights are only needed once the weighted mode is selected
+  useEffect(() => {
+    if (aggregation !== 'weighted' || weights) return
+    loadReliabilityWeights(createClient()).then(result => setWeights(result.weights))
+  }, [aggregation, weights])
 
   // Handle form submission
   async function handleSubmit(e: React.FormEvent) {
@@ -192,8 +175,16 @@ export default function AnalyzePage() {
           <div className="space-y-5">
             <div className="flex items-center gap-2 text-green-600 dark:text-green-400 mb-4">
               <span className="text-xl">✓</span>
-              <span className="font-medium">Analysis Complete</span>
+              <span className="font-medium">{results.reused ? 'Already Analyzed' : 'Analysis Complete'}</span>
             </div>
+            {results.reused && (
+              <p className="text-sm text-stone-600 dark:text-stone-400 -mt-2">
+                This story is already in our database, so these are its stored scores.{' '}
+                <Link href={`/articles/${results.media.id}`} className="underline hover:text-stone-900 dark:hover:text-stone-100">
+                  View full analysis
+                </Link>
+              </p>
+            )}
 
             {/* Article Info */}
             <div className="p-5 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg">
@@ -202,44 +193,34 @@ export default function AnalyzePage() {
             </div>
 
             {/* Average Scores Header */}
-            <div className="mb-2">
-              <h3 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">Average Bias Scores</h3>
-              <p className="text-sm text-stone-600 dark:text-stone-400">
-                Averaged across {[results.analysis.gemini, results.analysis.qwen, results.analysis.gptOss, results.analysis.llamaMaverick].filter(Boolean).length} AI models (Google Gemini, Alibaba Qwen3, OpenAI GPT-OSS, Meta Llama 4)
-              </p>
+            <div className="mb-2 flex flex-wrap items-end justify-between gap-4">
+              <div>
+                <h3 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">Average Bias Scores</h3>
+                <p className="text-sm text-stone-600 dark:text-stone-400">
+                  Averaged across {Object.values(results.analysis).filter(Boolean).length} AI models ({Object.keys(results.analysis).map(getModelDisplayName).join(', ')})
+                </p>
+              </div>
+              <AggregationModeToggle mode={aggregation} onChange={setAggregation} />
             </div>
 
             {/* Calculate and Display Average Scores */}
             {(() => {
               // Collect all model analyses (filter out nulls with type guard)
-              const models = [
-                results.analysis.gemini,
-                results.analysis.qwen,
-                results.analysis.gptOss,
-                results.analysis.llamaMaverick
-              ].filter((m): m is NonNullable<typeof m> => m !== null)
+              const models = Object.entries(results.analysis)
+                .filter((entry): entry is [string, AIAnalysis] => entry[1] !== null)
 
               if (models.length === 0) return null
 
-              // Calculate average scores for each category
-              const categoryAverages = new Map<string, { sum: number; count: number }>()
-
-              models.forEach(model => {
-                model.scores.forEach(score => {
-                  const current = categoryAverages.get(score.category) || { sum: 0, count: 0 }
-                  categoryAverages.set(score.category, {
-                    sum: current.sum + score.score,
-                    count: current.count + 1
-                  })
-                })
-              })
-
-              // Convert to array and calculate averages
-              const averagedScores = Array.from(categoryAverages.entries()).map(([category, data]) => ({
-                category,
-                score: data.sum / data.count,
-                modelCount: data.count
-              }))
+              // Aggregate each category across models, with its spread and confidence
+              const averagedScores = averageCategoryScores(
+                models.flatMap(([modelId, analysis]) => analysis.scores.map(score => ({
+                  model: modelId,
+                  category: score.category,
+                  score: score.score,
+                  confidence: score.confidence
+                }))),
+                { mode: aggregation, weights }
+              )
 
               return (
                 <div className="space-y-3">
@@ -250,16 +231,14 @@ export default function AnalyzePage() {
                       className="p-5 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg"
                     >
                       <div className="flex items-center justify-between mb-3">
-                        <span className={`${getScoreColor(score.score)} text-sm px-3 py-1 rounded-full font-semibold capitalize`}>
+                        <span className={`${getScoreColor(score.avgScore)} text-sm px-3 py-1 rounded-full font-semibold capitalize`}>
                           {score.category}
                         </span>
                         <span className="text-2xl font-bold text-stone-900 dark:text-stone-100">
-                          {score.score > 0 ? '+' : ''}{score.score.toFixed(2)}
+                          {score.avgScore > 0 ? '+' : ''}{score.avgScore.toFixed(2)}
                         </span>
                       </div>
-                      <p className="text-xs text-stone-500 dark:text-stone-500">
-                        Average of {score.modelCount} model{score.modelCount > 1 ? 's' : ''}
-                      </p>
+                      <ScoreUncertainty average={score} />
                     </div>
                   ))}
                 </div>
@@ -286,14 +265,13 @@ export default function AnalyzePage() {
 
               {/* Model Results Grid */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {/* Gemini Results */}
-                {results.analysis.gemini && (
-                  <div className="bg-blue-100 dark:bg-blue-900/30 border border-blue-200 dark:border-blue-800 rounded-lg p-5">
-                    <h4 className="text-lg font-semibold text-blue-700 dark:text-blue-300 mb-4">
-                      Google Gemini 2.5 Flash
+                {Object.entries(results.analysis).map(([modelId, analysis]) => analysis && (
+                  <div key={modelId} className={`border rounded-lg p-5 ${getModelColor(modelId)}`}>
+                    <h4 className="text-lg font-semibold mb-4">
+                      {getModelDisplayName(modelId)}
                     </h4>
                     <div className="space-y-3 mb-4">
-                      {results.analysis.gemini.scores.map((score, idx) => (
+                      {analysis.scores.map((score, idx) => (
                         <div key={idx} className="bg-white/60 dark:bg-stone-900/60 rounded-lg p-3">
                           <div className="flex items-center justify-between mb-1">
                             <span className="text-sm font-medium capitalize text-stone-700 dark:text-stone-300">
@@ -313,122 +291,17 @@ export default function AnalyzePage() {
                         </div>
                       ))}
                     </div>
-                    <div className="pt-3 border-t border-blue-200 dark:border-blue-700">
-                      <p className="text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1">Summary</p>
-                      <p className="text-sm text-stone-700 dark:text-stone-300">
-                        {results.analysis.gemini.summary}
-                      </p>
-                    </div>
-                  </div>
-                )}
-
-                {/* Qwen Results */}
-                {results.analysis.qwen && (
-                  <div className="bg-orange-100 dark:bg-orange-900/30 border border-orange-200 dark:border-orange-800 rounded-lg p-5">
-                    <h4 className="text-lg font-semibold text-orange-700 dark:text-orange-300 mb-4">
-                      Alibaba Qwen3 32B
-                    </h4>
-                    <div className="space-y-3 mb-4">
-                      {results.analysis.qwen.scores.map((score, idx) => (
-                        <div key={idx} className="bg-white/60 dark:bg-stone-900/60 rounded-lg p-3">
-                          <div className="flex items-center justify-between mb-1">
-                            <span className="text-sm font-medium capitalize text-stone-700 dark:text-stone-300">
-                              {score.category}
-                            </span>
-                            <span className={`text-lg font-bold ${
-                              score.score > 0.3 ? 'text-blue-600 dark:text-blue-400' :
-                              score.score < -0.3 ? 'text-red-600 dark:text-red-400' :
-                              'text-green-600 dark:text-green-400'
-                            }`}>
-                              {score.score > 0 ? '+' : ''}{score.score.toFixed(2)}
-                            </span>
-                          </div>
-                          <p className="text-xs text-stone-600 dark:text-stone-400 leading-relaxed">
-                            {score.explanation}
-                          </p>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="pt-3 border-t border-orange-200 dark:border-orange-700">
-                      <p className="text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1">Summary</p>
-                      <p className="text-sm text-stone-700 dark:text-stone-300">
-                        {results.analysis.qwen.summary}
-                      </p>
-                    </div>
-                  </div>
-                )}
-
-                {/* GPT-OSS Results */}
-                {results.analysis.gptOss && (
-                  <div className="bg-green-100 dark:bg-green-900/30 border border-green-200 dark:border-green-800 rounded-lg p-5">
-                    <h4 className="text-lg font-semibold text-green-700 dark:text-green-300 mb-4">
-                      OpenAI GPT-OSS 120B
-                    </h4>
-                    <div className="space-y-3 mb-4">
-                      {results.analysis.gptOss.scores.map((score, idx) => (
-                        <div key={idx} className="bg-white/60 dark:bg-stone-900/60 rounded-lg p-3">
-                          <div className="flex items-center justify-between mb-1">
-                            <span className="text-sm font-medium capitalize text-stone-700 dark:text-stone-300">
-                              {score.category}
-                            </span>
-                            <span className={`text-lg font-bold ${
-                              score.score > 0.3 ? 'text-blue-600 dark:text-blue-400' :
-                              score.score < -0.3 ? 'text-red-600 dark:text-red-400' :
-                              'text-green-600 dark:text-green-400'
-                            }`}>
-                              {score.score > 0 ? '+' : ''}{score.score.toFixed(2)}
-                            </span>
-                          </div>
-                          <p className="text-xs text-stone-600 dark:text-stone-400 leading-relaxed">
-                            {score.explanation}
-                          </p>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="pt-3 border-t border-green-200 dark:border-green-700">
-                      <p className="text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1">Summary</p>
-                      <p className="text-sm text-stone-700 dark:text-stone-300">
-                        {results.analysis.gptOss.summary}
-                      </p>
-                    </div>
-                  </div>
-                )}
-
-                {/* Llama Maverick Results */}
-                {results.analysis.llamaMaverick && (
-                  <div className="bg-purple-100 dark:bg-purple-900/30 border border-purple-200 dark:border-purple-800 rounded-lg p-5">
-                    <h4 className="text-lg font-semibold text-purple-700 dark:text-purple-300 mb-4">
-                      Meta Llama 4 Maverick
-                    </h4>
-                    <div className="space-y-3 mb-4">
-                      {results.analysis.llamaMaverick.scores.map((score, idx) => (
-                        <div key={idx} className="bg-white/60 dark:bg-stone-900/60 rounded-lg p-3">
-                          <div className="flex items-center justify-between mb-1">
-                            <span className="text-sm font-medium capitalize text-stone-700 dark:text-stone-300">
-                              {score.category}
-                            </span>
-                            <span className={`text-lg font-bold ${
-                              score.score > 0.3 ? 'text-blue-600 dark:text-blue-400' :
-                              score.score < -0.3 ? 'text-red-600 dark:text-red-400' :
-                              'text-green-600 dark:text-green-400'
-                            }`}>
-                              {score.score > 0 ? '+' : ''}{score.score.toFixed(2)}
-                            </span>
-                          </div>
-                          <p className="text-xs text-stone-600 dark:text-stone-400 leading-relaxed">
-                            {score.explanation}
-                          </p>
-                        </div>
-                      ))}
-                    </div>
-                    <div className="pt-3 border-t border-purple-200 dark:border-purple-700">
-                      <p className="text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1">Summary</p>
-                      <p className="text-sm text-stone-700 dark:text-stone-300">
-                        {results.analysis.llamaMaverick.summary}
-                      </p>
-                    </div>
+                    {/* Stored scores (reused articles) have no summary */}
+                    {analysis.summary && (
+                      <div className="pt-3 border-t border-current/20">
+                        <p className="text-xs font-medium text-stone-500 dark:text-stone-400 uppercase tracking-wide mb-1">Summary</p>
+                        <p className="text-sm text-stone-700 dark:text-stone-300">
+                          {analysis.summary}
+                        </p>
+                      </div>
+                    )}
                   </div>
-                )}
+                ))}
               </div>
             </div>
 
@@ -1,13 +1,14 @@
 /**
  * API Route: /api/articles
- * Fetches news articles from GNews using lib function
+ * Fetches news articles from every enabled news source (lib/newsSources.ts) without storing them
  */
 import { NextResponse } from "next/server"
-import { fetchGNewsArticles } from '@/lib/gnews'
+import { fetchFromSources, getNewsSources } from '@/lib/newsSources'
+import { supabaseAdmin } from '@/utils/supabase/admin'
 
 export async function GET() {
   try {
-    const articles = await fetchGNewsArticles()
+    const articles = await fetchFromSources(getNewsSources(supabaseAdmin), supabaseAdmin)
     return NextResponse.json({ articles })
   } catch (error: any) {
     console.error('Error fetching articles:', error)
@@ -1,24 +1,33 @@
 /**
  * API Route: /api/ai_analyze
- * Analyzes articles for bias using 4 AI models
+ * Analyzes articles for bias using every enabled model in lib/models.ts
  *
  * Handles both:
  * - User-submitted articles (extracts metadata from URL, inserts to database with user_analyzed=true)
+ *   A URL that matches a stored article (utils/canonicalUrl.ts urlKey, before or after following
+ *   the page's canonical link) returns that article and its stored scores with reused: true
  * - Existing articles (analyzes directly with provided mediaId)
+ *
+ * Article text is cached in media_content: user submissions are scraped once (the same
+ * extraction builds the media row and feeds the models). Pass forceRefresh: true to re-scrape
+ * and re-score a stored article.
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { analyzeArticle } from '@/lib/ai'
 import { createClient } from '@/utils/supabase/server'
 import { supabaseAdmin } from '@/utils/supabase/admin'
-import { extract } from '@extractus/article-extractor'
+import { extractArticle, saveArticleContent } from '@/lib/articleContent'
+import { findExistingArticle, loadStoredAnalyses } from '@/lib/existingArticles'
+import { canonicalizeUrl, urlKey } from '@/utils/canonicalUrl'
 
 export async function POST(request: NextRequest) {
   try {
     const data = await request.json()
 
     const mediaId = data.mediaId
-    const url = data.url
+    let url = data.url
+    const forceRefresh = data.forceRefresh === true
     const supabase = await createClient()
 
     // Validate URL is provided
@@ -36,9 +45,13 @@ export async function POST(request: NextRequest) {
     let source = data.source
 
     if (!mediaId) {
-      // Extract article metadata from URL
-      try {
-        const extractedArticle = await extract(url)
+      // Same story already stored (tracking params, AMP, http/https variants of the URL)?
+      let existing = await findExistingArticle([url], supabaseAdmin)
+      let extractedArticle = null
+
+      if (!existing) {
+        // Extract article metadata from URL
+        extractedArticle = await extractArticle(url)
 
         if (!extractedArticle) {
           return NextResponse.json(
@@ -47,7 +60,15 @@ export async function POST(request: NextRequest) {
           )
         }
 
+        // The page's canonical link can match a stored URL the submitted one didn't
+        if (extractedArticle.url) {
+          existing = await findExistingArticle([extractedArticle.url], supabaseAdmin)
+        }
+      }
+
+      if (!existing && extractedArticle) {
         // Use extracted data, fallback to provided data or defaults
+        url = canonicalizeUrl(extractedArticle.url || url)
         title = extractedArticle.title || title || 'Untitled Article'
         source = extractedArticle.source || new URL(url).hostname.replace('www.', '')
 
@@ -60,6 +81,7 @@ export async function POST(request: NextRequest) {
           .insert({
             title,
             url,
+            url_key: urlKey(url),
             source,
             description,
             image_url: imageUrl,
@@ -69,47 +91,66 @@ export async function POST(request: NextRequest) {
           .select()
           .single()
 
-        if (insertError || !newMedia) {
-          console.error('Error inserting article:', insertError)
-          return NextResponse.json(
-            { error: 'Failed to save article to database' },
-            { status: 500 }
-          )
+        if (insertError?.code === '23505') {
+          // Another request stored the same url_key after our lookup: reuse its row
+          existing = await findExistingArticle([url], supabaseAdmin)
         }
 
-        finalMediaId = newMedia.id
-        mediaRecord = newMedia
-        console.log(`Inserted user article: ${title} (ID: ${finalMediaId})`)
+        if (!existing) {
+          if (insertError || !newMedia) {
+            console.error('Error inserting article:', insertError)
+            return NextResponse.json(
+              { error: 'Failed to save article to database' },
+              { status: 500 }
+            )
+          }
+
+          finalMediaId = newMedia.id
+          mediaRecord = newMedia
+          console.log(`Inserted user article: ${title} (ID: ${finalMediaId})`)
+
+          // Cache the extracted text so analyzeArticle doesn't scrape the page a second time
+          await saveArticleContent(finalMediaId, url, extractedArticle, supabaseAdmin)
+        }
+      }
 
-      } catch (extractError) {
-        console.error('Error extracting article:', extractError)
-        return NextResponse.json(
-          { error: 'Failed to extract article from URL. Please check the URL is accessible.' },
-          { status: 400 }
-        )
+      if (existing) {
+        // Reuse the stored article and its scores instead of scoring the story again.
+        // Archived articles are never re-scored; active ones are if they have no scores or on forceRefresh
+        const storedAnalyses = await loadStoredAnalyses(existing, supabaseAdmin)
+        if (existing.archived || (Object.keys(storedAnalyses).length > 0 && !forceRefresh)) {
+          console.log(`Reusing stored article for ${url}: ${existing.id}${existing.archived ? ' (archived)' : ''}`)
+          return NextResponse.json({
+            success: true,
+            reused: true,
+            media: { id: existing.id, title: existing.title, url: existing.url, source: existing.source },
+            analysis: storedAnalyses
+          })
+        }
+        finalMediaId = existing.id
+        url = existing.url
+        title = existing.title
+        source = existing.source
       }
     }
 
     // Run AI analysis on the article
     // Use supabaseAdmin to bypass RLS for inserting AI scores
-    const analysis = await analyzeArticle({
+    const { analyses } = await analyzeArticle({
       mediaId: finalMediaId,
       url,
       title,
       source,
-      supabaseClient: supabaseAdmin
+      supabaseClient: supabaseAdmin,
+      // A new submission's text was cached above; re-scraping it would fetch the page twice
+      forceRefresh: forceRefresh && !mediaRecord
     })
 
-    // Return media record and analysis from all 4 models
+    // Return media record and analysis from all models (keyed by model ID)
     return NextResponse.json({
       success: true,
       media: mediaRecord || { id: finalMediaId, title, url, source },
-      analysis: {
-        gemini: analysis.gemini,
-        qwen: analysis.qwen,
-        gptOss: analysis.gptOss,
-        llamaMaverick: analysis.llamaMaverick
-      }
+      analysis: analyses
     })
 
   } catch (error) {
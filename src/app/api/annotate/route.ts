@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { annotateArticle, ANNOTATION_COOLDOWN_MINUTES, AnnotationThrottledError, AnnotationUnavailableError } from '@/lib/passageAnnotations'
+
+export const maxDuration = 60
+
+/**
+ * POST endpoint for sentence-level annotations of one article (heatmap on /articles/[id])
+ *
+ * Body:
+ *   mediaId - article to annotate (required)
+ *   force   - re-annotate even if annotations exist (admin only)
+ *
+ * Anyone can request annotations for an article that has none yet. Existing
+ * annotations are returned without a model call, so repeated clicks cost nothing.
+ * Otherwise each article gets at most one model call per ANNOTATION_COOLDOWN_MINUTES
+ * (429 inside it), so failing or concurrent requests can't run up model quota.
+ * Re-annotating (force) spends model quota and requires the CRON_SECRET bearer token.
+ */
+export async function POST(request: NextRequest) {
+  let body: { mediaId?: unknown; force?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 })
+  }
+
+  if (typeof body.mediaId !== 'string' || body.mediaId === '') {
+    return NextResponse.json({ error: 'Missing required field: mediaId' }, { status: 400 })
+  }
+
+  const force = body.force === true
+  if (force && request.headers.get('authorization') !== `Bearer ${process.env.CRON_SECRET}`) {
+    console.error('[Annotate] ❌ UNAUTHORIZED force re-annotation attempt')
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const result = await annotateArticle({ mediaId: body.mediaId, supabaseClient: supabaseAdmin, force })
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    if (error instanceof AnnotationUnavailableError) {
+      return NextResponse.json({ error: errorMessage }, { status: 404 })
+    }
+    if (error instanceof AnnotationThrottledError) {
+      return NextResponse.json(
+        { error: errorMessage },
+        { status: 429, headers: { 'Retry-After': String(ANNOTATION_COOLDOWN_MINUTES * 60) } }
+      )
+    }
+    console.error(`[Annotate] ❌ Annotation failed: ${errorMessage}`)
+    return NextResponse.json({ error: 'Annotation failed', message: errorMessage }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runAnalysisWorker } from '@/lib/analysisJobs'
+
+// Vercel function limit for this route. The worker starts no model call after its budget,
+// so the gap (60s by default) only has to cover calls already in flight
+export const maxDuration = 300
+
+/**
+ * Vercel Cron Job endpoint that drains the analysis job queue
+ * Runs every 15 minutes; each invocation processes a bounded slice of analysis_jobs
+ * News events are regrouped by their own cron (/api/cron/news-events)
+ *
+ * The 15-minute schedule in vercel.json needs a Vercel plan that allows sub-daily
+ * crons (Pro or above; Hobby runs crons at most once a day). On Hobby, change the
+ * schedule to daily (e.g. "30 14 * * *", after the archive cron) and drain the rest of
+ * the queue with `npm run worker` (scripts/analysisWorker.ts).
+ *
+ * Limits (env): ANALYSIS_WORKER_MAX_JOBS (default 10), ANALYSIS_WORKER_BUDGET_MS (default 240000)
+ *
+ * Security: Requires CRON_SECRET environment variable for authorization
+ */
+export async function GET(request: NextRequest) {
+  const runId = `jobs-${Date.now()}`
+
+  // Verify Vercel Cron authorization
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    console.error(`[Cron ${runId}] ❌ UNAUTHORIZED access attempt`)
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  console.log(`[Cron ${runId}] ========== ANALYSIS WORKER STARTED ==========`)
+
+  try {
+    const result = await runAnalysisWorker({
+      workerId: runId,
+      maxJobs: Number(process.env.ANALYSIS_WORKER_MAX_JOBS) || 10,
+      timeBudgetMs: Number(process.env.ANALYSIS_WORKER_BUDGET_MS) || 240000
+    })
+
+    console.log(`[Cron ${runId}] ========== ANALYSIS WORKER COMPLETED ==========`)
+    return NextResponse.json({
+      success: true,
+      runId,
+      timestamp: new Date().toISOString(),
+      ...result
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[Cron ${runId}] ❌ Analysis worker failed: ${errorMessage}`)
+
+    return NextResponse.json(
+      {
+        error: 'Analysis worker failed',
+        runId,
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { archiveOldArticles } from '@/lib/archiveArticles'
 import { runInitArticles } from '@/scripts/initArticles'
+import { OffsetRefreshResult, refreshModelOffsets } from '@/lib/modelOffsets'
+import { supabaseAdmin } from '@/utils/supabase/admin'
+
+// Vercel function limit for this route; queued articles are analyzed by /api/cron/analysis-jobs
+export const maxDuration = 300
 
 /**
  * Vercel Cron Job endpoint for archiving old articles and fetching new ones
@@ -8,8 +13,11 @@ import { runInitArticles } from '@/scripts/initArticles'
  *
  * Steps:
  * 1. Archive old articles (1+ days old)
- * 2. Fetch new articles from GNews API
- * 3. Analyze sample articles (first 18 with 4 models: Gemini, Qwen, GPT-OSS, Llama Maverick)
+ * 2. Fetch new articles from GNews API and queue them in analysis_jobs
+ * 3. Recompute per-model offsets for calibrated scores
+ *
+ * Analysis is left to the analysis-jobs cron: a model call in flight can't be cut
+ * short, so running the worker here could push the route past its time limit.
  *
  * Security: Requires CRON_SECRET environment variable for authorization
  */
@@ -25,6 +33,7 @@ export async function GET(request: NextRequest) {
   console.log(`[Cron ${runId}]   - GNEWS_API_KEY exists: ${!!process.env.GNEWS_API_KEY}`)
   console.log(`[Cron ${runId}]   - GEMINI_API_KEY exists: ${!!process.env.GEMINI_API_KEY}`)
   console.log(`[Cron ${runId}]   - GROQ_API_KEY exists: ${!!process.env.GROQ_API_KEY}`)
+  console.log(`[Cron ${runId}]   - LOCAL_LLM_BASE_URL exists: ${!!process.env.LOCAL_LLM_BASE_URL}`)
   console.log(`[Cron ${runId}]   - SUPABASE_URL exists: ${!!process.env.NEXT_PUBLIC_SUPABASE_URL}`)
   console.log('='.repeat(80))
 
@@ -67,9 +76,9 @@ export async function GET(request: NextRequest) {
       console.log(`[Cron ${runId}] ℹ No articles to archive, proceeding to fetch`)
     }
 
-    // Step 2: Fetch and analyze new articles
+    // Step 2: Fetch new articles and queue them for analysis
     console.log(`[Cron ${runId}] `)
-    console.log(`[Cron ${runId}] ========== STEP 2: FETCHING & ANALYZING NEW ARTICLES ==========`)
+    console.log(`[Cron ${runId}] ========== STEP 2: FETCHING & QUEUEING NEW ARTICLES ==========`)
     console.log(`[Cron ${runId}] Starting article fetch: ${new Date().toISOString()}`)
     const fetchStartTime = Date.now()
     let fetchResult
@@ -77,12 +86,10 @@ export async function GET(request: NextRequest) {
     try {
       fetchResult = await runInitArticles()
       const fetchDuration = Date.now() - fetchStartTime
-      console.log(`[Cron ${runId}] ✓ Fetch & analysis complete in ${fetchDuration}ms (${(fetchDuration / 1000 / 60).toFixed(2)} minutes)`)
+      console.log(`[Cron ${runId}] ✓ Fetch & queueing complete in ${fetchDuration}ms`)
       console.log(`[Cron ${runId}] Fetch results:`)
       console.log(`[Cron ${runId}]   - Articles fetched: ${fetchResult.articlesFetched}`)
-      console.log(`[Cron ${runId}]   - Articles analyzed (at least 1 model): ${fetchResult.articlesAnalyzed}`)
-      console.log(`[Cron ${runId}]   - Full analyses (all 4 models): ${fetchResult.fullAnalyses || 'N/A'}`)
-      console.log(`[Cron ${runId}]   - Failed analyses: ${fetchResult.failedAnalyses || 'N/A'}`)
+      console.log(`[Cron ${runId}]   - Articles queued for analysis: ${fetchResult.articlesEnqueued}`)
       console.log(`[Cron ${runId}]   - Success: ${fetchResult.success}`)
     } catch (fetchError) {
       const fetchDuration = Date.now() - fetchStartTime
@@ -95,10 +102,24 @@ export async function GET(request: NextRequest) {
         success: false,
         error: fetchErrorMessage,
         articlesFetched: 0,
-        articlesAnalyzed: 0
+        articlesEnqueued: 0
       }
     }
 
+    // Step 3: Refresh model offsets (calibrated scores)
+    console.log(`[Cron ${runId}] `)
+    console.log(`[Cron ${runId}] ========== STEP 3: REFRESHING MODEL OFFSETS ==========`)
+    let offsetResult: OffsetRefreshResult | { error: string }
+
+    try {
+      offsetResult = await refreshModelOffsets(supabaseAdmin)
+      console.log(`[Cron ${runId}] ✓ Saved ${offsetResult.offsetsSaved} model offsets from ${offsetResult.scoresRead} scores`)
+    } catch (offsetError) {
+      const offsetErrorMessage = offsetError instanceof Error ? offsetError.message : 'Unknown error'
+      console.error(`[Cron ${runId}] ❌ Offset refresh FAILED: ${offsetErrorMessage}`)
+      offsetResult = { error: offsetErrorMessage }
+    }
+
     const totalDuration = Date.now() - startTime
 
     console.log(`[Cron ${runId}] `)
@@ -119,7 +140,8 @@ export async function GET(request: NextRequest) {
         aiScoresArchived: archiveResult.aiScoresArchived,
         errors: archiveResult.errors
       },
-      fetch: fetchResult
+      fetch: fetchResult,
+      offsets: offsetResult
     })
 
   } catch (error) {
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshNewsEvents } from '@/lib/newsEvents'
+import { supabaseAdmin } from '@/utils/supabase/admin'
+
+// Vercel function limit for this route
+export const maxDuration = 300
+
+/**
+ * Vercel Cron Job endpoint that regroups recent articles into news events (lib/newsEvents.ts)
+ * Runs hourly, in its own function so the analysis worker's time budget never cuts it short
+ *
+ * The hourly schedule in vercel.json needs a Vercel plan that allows sub-daily crons
+ * (Pro or above). On Hobby, change it to daily (e.g. "0 15 * * *", after the archive
+ * and analysis crons).
+ *
+ * Security: Requires CRON_SECRET environment variable for authorization
+ */
+export async function GET(request: NextRequest) {
+  const runId = `events-${Date.now()}`
+
+  // Verify Vercel Cron authorization
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    console.error(`[Cron ${runId}] ❌ UNAUTHORIZED access attempt`)
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  console.log(`[Cron ${runId}] ========== EVENT REFRESH STARTED ==========`)
+
+  try {
+    const result = await refreshNewsEvents({ supabaseClient: supabaseAdmin })
+
+    console.log(`[Cron ${runId}] ========== EVENT REFRESH COMPLETED ==========`)
+    return NextResponse.json({
+      success: true,
+      runId,
+      timestamp: new Date().toISOString(),
+      ...result
+    })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[Cron ${runId}] ❌ Event refresh failed: ${errorMessage}`)
+
+    return NextResponse.json(
+      {
+        error: 'Event refresh failed',
+        runId,
+        message: errorMessage,
+        timestamp: new Date().toISOString()
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { parseReanalysisFilters, runReanalysis } from '@/lib/reanalysis'
+
+export const maxDuration = 300
+
+/**
+ * POST endpoint for selective re-analysis of existing articles (active and archived)
+ *
+ * Body (all optional):
+ *   mediaIds, modelIds, categoryIds - string arrays
+ *   from, to    - ISO dates (article created_at range)
+ *   missingOnly - only score (model, category) pairs with no current score
+ *   scope       - 'active' | 'archived' | 'all' (default 'all')
+ *   limit       - max articles (default 25)
+ *   dryRun      - return the plan without calling any model
+ *
+ * New scores become the next score_version; the replaced rows stop being current.
+ * For large re-runs use scripts/reanalyze.ts (no function time limit).
+ *
+ * Security: admin-only, requires the CRON_SECRET bearer token (it spends model quota)
+ */
+export async function POST(request: NextRequest) {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+    console.error('[Reanalysis] ❌ UNAUTHORIZED access attempt')
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 })
+  }
+
+  const { dryRun, ...filterInput } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>
+  const { filters, errors } = parseReanalysisFilters(filterInput)
+  if (!filters) {
+    return NextResponse.json({ error: 'Invalid filters', details: errors }, { status: 400 })
+  }
+
+  try {
+    const result = await runReanalysis(filters, { supabaseClient: supabaseAdmin, dryRun: dryRun === true })
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    console.error(`[Reanalysis] ❌ Re-analysis failed: ${errorMessage}`)
+    return NextResponse.json({ error: 'Re-analysis failed', message: errorMessage }, { status: 500 })
+  }
+}
@@ -1,13 +1,40 @@
 import { createClient } from '@/utils/supabase/server'
 import { notFound } from 'next/navigation'
 import Link from 'next/link'
+import { getModelColor, getModelDisplayName } from '@/lib/models'
+import type { EvidenceQuote } from '@/lib/ai'
+import { articlePlainText } from '@/utils/evidence'
+import EvidenceHighlighter, { EvidenceSpan } from '@/components/EvidenceHighlighter'
+import PassageHeatmap from '@/components/PassageHeatmap'
+import ScoreModeToggle, { parseScoreMode, scoreViewHref } from '@/components/ScoreModeToggle'
+import AggregationModeToggle from '@/components/AggregationModeToggle'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
+import { loadModelOffsets } from '@/lib/modelOffsets'
+import { loadReliabilityWeights } from '@/lib/modelWeights'
+import { loadPassageAnnotations } from '@/lib/passageAnnotations'
+import { loadTextFeatures } from '@/lib/textFeatures'
+import TextFeaturesPanel from '@/components/TextFeaturesPanel'
+import { computeTextFeatures } from '@/utils/textFeatures'
+import { calibrateScore } from '@/utils/modelOffsets'
+import { averageCategoryScores, parseAggregationMode } from '@/utils/aggregation'
 
 interface PageProps {
   params: Promise<{ id: string }>
+  searchParams: Promise<{ scores?: string; agg?: string }>
 }
 
-export default async function ArticleDetailPage({ params }: PageProps) {
+// Fields of an ai_scores row needed for evidence highlighting
+interface ScoreEvidenceRow {
+  model_name: string | null
+  evidence: EvidenceQuote[] | null
+  bias_categories: { name: string } | null
+}
+
+export default async function ArticleDetailPage({ params, searchParams }: PageProps) {
   const { id } = await params
+  const query = await searchParams
+  const scoreMode = parseScoreMode(query.scores)
+  const aggregation = parseAggregationMode(query.agg)
   const supabase = await createClient()
 
   // Fetch article with AI scores and bias categories
@@ -19,6 +46,8 @@ export default async function ArticleDetailPage({ params }: PageProps) {
         score,
         model_name,
         explanation,
+        evidence,
+        confidence,
         bias_categories (
           id,
           name
@@ -26,12 +55,37 @@ export default async function ArticleDetailPage({ params }: PageProps) {
       )
     `)
     .eq('id', id)
+    .eq('ai_scores.is_current', true)  // Latest score version only
     .single()
 
   if (error || !article) {
     notFound()
   }
 
+  // Cached article text (lib/articleContent.ts) - evidence offsets index into its plain text
+  const { data: cachedContent } = await supabase
+    .from('media_content')
+    .select('content')
+    .eq('media_id', id)
+    .maybeSingle()
+
+  const articleText = cachedContent?.content ? articlePlainText(cachedContent.content) : null
+
+  // Sentence-level annotations for the heatmap (lib/passageAnnotations.ts), same offsets
+  const annotations = articleText ? await loadPassageAnnotations(id, supabase) : { spans: [], annotatedSentences: 0 }
+
+  // Lexicon features (lib/textFeatures.ts); computed on the fly for articles analyzed before they existed
+  const textFeatures = (await loadTextFeatures(id, supabase)) || (articleText ? computeTextFeatures(articleText) : null)
+
+  // Other outlets' coverage of the same event (lib/newsEvents.ts)
+  const { data: newsEvent } = article.event_id
+    ? await supabase.from('news_events').select('id, outlet_count').eq('id', article.event_id).maybeSingle()
+    : { data: null }
+
+  // Calibrated mode subtracts each model's stored offset (lib/modelOffsets.ts)
+  const offsets = scoreMode === 'calibrated' ? await loadModelOffsets(supabase) : null
+  const weights = aggregation === 'weighted' ? (await loadReliabilityWeights(supabase)).weights : null
+
   // Helper to pick badge color based on score
   const getScoreColor = (score: number) => {
     if (score > 0) return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
@@ -64,7 +118,7 @@ export default async function ArticleDetailPage({ params }: PageProps) {
 
         {/* Back button */}
         <Link
-          href="/articles"
+          href={scoreViewHref('/articles', scoreMode, aggregation)}
           className="inline-flex items-center text-sm text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100 mb-8 transition-colors"
         >
           ← Back to Articles
@@ -100,7 +154,7 @@ export default async function ArticleDetailPage({ params }: PageProps) {
         </header>
 
         {/* Read Full Article Button */}
-        <div className="mb-12">
+        <div className="mb-12 flex flex-wrap items-center gap-4">
           <a
             href={article.url}
             target="_blank"
@@ -109,6 +163,14 @@ export default async function ArticleDetailPage({ params }: PageProps) {
           >
             Read Full Article →
           </a>
+          {newsEvent && (
+            <Link
+              href={scoreViewHref(`/stories/${newsEvent.id}`, scoreMode, aggregation)}
+              className="inline-block px-6 py-3 border border-stone-300 dark:border-stone-700 text-stone-700 dark:text-stone-300 font-semibold rounded-lg hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+            >
+              Compare coverage from {newsEvent.outlet_count} outlets →
+            </Link>
+          )}
         </div>
 
         {/* Bias Analysis Section */}
@@ -116,26 +178,16 @@ export default async function ArticleDetailPage({ params }: PageProps) {
           <section className="border-t border-stone-200 dark:border-stone-800 pt-12">
             {/* Calculate averaged scores */}
             {(() => {
-              // Group scores by category and calculate averages
-              const categoryAverages = new Map<string, { sum: number; count: number; scores: any[] }>()
-
-              article.ai_scores.forEach((score: any) => {
-                const categoryName = score.bias_categories?.name
-                if (categoryName) {
-                  const current = categoryAverages.get(categoryName) || { sum: 0, count: 0, scores: [] }
-                  categoryAverages.set(categoryName, {
-                    sum: current.sum + parseFloat(score.score),
-                    count: current.count + 1,
-                    scores: [...current.scores, score]
-                  })
-                }
-              })
-
-              const averagedScores = Array.from(categoryAverages.entries()).map(([category, data]) => ({
-                category,
-                avgScore: data.sum / data.count,
-                modelCount: data.count
-              }))
+              // Aggregate each category across models (calibrated: offsets subtracted first)
+              const averagedScores = averageCategoryScores(
+                article.ai_scores.map((score: any) => ({
+                  model: score.model_name,
+                  category: score.bias_categories?.name,
+                  score: parseFloat(score.score),
+                  confidence: score.confidence
+                })),
+                { mode: aggregation, offsets, weights }
+              )
 
               // Group scores by model
               const modelScores = new Map<string, any[]>()
@@ -148,35 +200,40 @@ export default async function ArticleDetailPage({ params }: PageProps) {
               // Get unique models count
               const uniqueModels = Array.from(modelScores.keys())
 
-              // Model display names
-              const getModelDisplayName = (modelName: string) => {
-                if (modelName.includes('gemini')) return 'Google Gemini'
-                if (modelName.includes('qwen')) return 'Alibaba Qwen3'
-                if (modelName.includes('gpt-oss')) return 'OpenAI GPT-OSS'
-                if (modelName.includes('llama') || modelName.includes('maverick')) return 'Meta Llama 4 Maverick'
-                return modelName
-              }
-
-              // Model badge colors
-              const getModelBadgeColor = (modelName: string) => {
-                if (modelName.includes('gemini')) return 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300'
-                if (modelName.includes('qwen')) return 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300'
-                if (modelName.includes('gpt-oss')) return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300'
-                if (modelName.includes('llama') || modelName.includes('maverick')) return 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300'
-                return 'bg-gray-100 dark:bg-gray-900/30 text-gray-700 dark:text-gray-300'
-              }
+              // Evidence quotes from every model, for highlighting in the article text
+              const evidenceSpans: EvidenceSpan[] = (article.ai_scores as ScoreEvidenceRow[]).flatMap(score =>
+                (score.evidence || []).map(e => ({
+                  ...e,
+                  modelName: score.model_name || 'Unknown Model',
+                  category: score.bias_categories?.name || 'Unknown'
+                }))
+              )
 
               return (
                 <>
                   {/* Average Scores Section */}
                   <div className="mb-12">
-                    <div className="mb-6">
-                      <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">
-                        Average Bias Scores
-                      </h2>
-                      <p className="text-sm text-stone-500 dark:text-stone-400">
-                        Averaged across {uniqueModels.length} AI models for more balanced analysis
-                      </p>
+                    <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+                      <div>
+                        <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">
+                          Average Bias Scores
+                        </h2>
+                        <p className="text-sm text-stone-500 dark:text-stone-400">
+                          Averaged across {uniqueModels.length} AI models for more balanced analysis
+                          {scoreMode === 'calibrated' && ', after removing each model\'s usual lean'}
+                          {aggregation !== 'mean' && ` (${aggregation === 'trimmed' ? 'trimmed mean' : aggregation === 'weighted' ? 'reliability-weighted mean' : 'median'})`}
+                        </p>
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <AggregationModeToggle
+                          mode={aggregation}
+                          href={mode => scoreViewHref(`/articles/${id}`, scoreMode, mode)}
+                        />
+                        <ScoreModeToggle
+                          mode={scoreMode}
+                          href={mode => scoreViewHref(`/articles/${id}`, mode, aggregation)}
+                        />
+                      </div>
                     </div>
 
                     <div className="space-y-4">
@@ -209,6 +266,14 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                             >
                               {/* Center marker */}
                               <div className="absolute left-1/2 top-0 w-0.5 h-full bg-stone-900 dark:bg-stone-100 opacity-30"></div>
+                              {/* Uncertainty band: average ± one standard deviation across models */}
+                              <div
+                                className="absolute top-0 h-full bg-white/40 dark:bg-stone-900/40 border-x border-stone-900/40 dark:border-stone-100/40"
+                                style={{
+                                  left: `${((Math.max(-1, score.avgScore - score.stdDev) + 1) / 2) * 100}%`,
+                                  width: `${((Math.min(1, score.avgScore + score.stdDev) - Math.max(-1, score.avgScore - score.stdDev)) / 2) * 100}%`
+                                }}
+                              />
                               {/* Score indicator */}
                               <div
                                 className="absolute top-1/2 -translate-y-1/2 w-4 h-4 rounded-full bg-stone-900 dark:bg-stone-100 border-2 border-white dark:border-stone-900"
@@ -222,14 +287,27 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                             </div>
                           </div>
 
-                          <p className="text-xs text-stone-500 dark:text-stone-500">
-                            Average of {score.modelCount} model{score.modelCount > 1 ? 's' : ''}
-                          </p>
+                          <ScoreUncertainty average={score} />
                         </div>
                       ))}
                     </div>
                   </div>
 
+                  {/* Lexicon Features Section */}
+                  {textFeatures && (
+                    <div className="mb-12">
+                      <div className="mb-6">
+                        <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">
+                          Language Signals
+                        </h2>
+                        <p className="text-sm text-stone-500 dark:text-stone-400">
+                          A model-free baseline to compare against the AI scores
+                        </p>
+                      </div>
+                      <TextFeaturesPanel features={textFeatures} />
+                    </div>
+                  )}
+
                   {/* Model Variance Section */}
                   <div className="mb-12 border-t border-stone-200 dark:border-stone-800 pt-12">
                     <div className="mb-6">
@@ -249,7 +327,8 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                             const modelScoreForCategory = article.ai_scores.find(
                               (s: any) => s.model_name === modelName && s.bias_categories?.name === avgScore.category
                             )
-                            const score = modelScoreForCategory ? parseFloat(modelScoreForCategory.score) : 0
+                            const rawScore = modelScoreForCategory ? parseFloat(modelScoreForCategory.score) : 0
+                            const score = calibrateScore(rawScore, offsets?.[modelName]?.[avgScore.category])
                             const deviation = score - avgScore.avgScore
                             return { modelName, score, deviation }
                           })
@@ -262,7 +341,7 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                               <div className="space-y-3">
                                 {modelDeviations.map((item, i) => (
                                   <div key={i} className="flex items-center gap-4">
-                                    <span className={`text-xs px-2 py-1 rounded w-28 text-center ${getModelBadgeColor(item.modelName)}`}>
+                                    <span className={`text-xs px-2 py-1 rounded w-28 text-center ${getModelColor(item.modelName)}`}>
                                       {getModelDisplayName(item.modelName).split(' ')[0]}
                                     </span>
                                     <div className="flex-1 flex items-center gap-2">
@@ -300,6 +379,46 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                     </div>
                   </div>
 
+                  {/* Evidence Section */}
+                  {articleText && evidenceSpans.length > 0 && (
+                    <div className="mb-12 border-t border-stone-200 dark:border-stone-800 pt-12">
+                      <div className="mb-6">
+                        <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">
+                          Evidence in the Article
+                        </h2>
+                        <p className="text-sm text-stone-500 dark:text-stone-400">
+                          Passages each model quoted to support its score
+                        </p>
+                      </div>
+                      <EvidenceHighlighter
+                        text={articleText}
+                        spans={evidenceSpans}
+                        categories={averagedScores.map(s => s.category)}
+                      />
+                    </div>
+                  )}
+
+                  {/* Sentence Heatmap Section */}
+                  {articleText && (
+                    <div className="mb-12 border-t border-stone-200 dark:border-stone-800 pt-12">
+                      <div className="mb-6">
+                        <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2">
+                          Sentence Heatmap
+                        </h2>
+                        <p className="text-sm text-stone-500 dark:text-stone-400">
+                          Which sentences lean, and which way, according to the annotating model
+                        </p>
+                      </div>
+                      <PassageHeatmap
+                        mediaId={id}
+                        text={articleText}
+                        spans={annotations.spans}
+                        annotatedSentences={annotations.annotatedSentences}
+                        categories={averagedScores.map(s => s.category)}
+                      />
+                    </div>
+                  )}
+
                   {/* Individual Model Breakdowns */}
                   <div className="border-t border-stone-200 dark:border-stone-800 pt-12">
                     <div className="mb-6">
@@ -319,7 +438,7 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                             <h3 className="text-xl font-serif font-semibold text-stone-900 dark:text-stone-100">
                               {getModelDisplayName(modelName)}
                             </h3>
-                            <span className={`text-xs px-2 py-1 rounded ${getModelBadgeColor(modelName)}`}>
+                            <span className={`text-xs px-2 py-1 rounded ${getModelColor(modelName)}`}>
                               {modelName.split('/').pop()}
                             </span>
                           </div>
@@ -343,6 +462,15 @@ export default async function ArticleDetailPage({ params }: PageProps) {
                                     {score.explanation}
                                   </p>
                                 )}
+                                {score.evidence?.length > 0 && (
+                                  <ul className="mt-2 space-y-1">
+                                    {score.evidence.map((e: { quote: string }, i: number) => (
+                                      <li key={i} className="text-xs text-stone-500 dark:text-stone-500 italic border-l-2 border-yellow-300 dark:border-yellow-700 pl-2">
+                                        “{e.quote}”
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -360,6 +488,14 @@ export default async function ArticleDetailPage({ params }: PageProps) {
               <p className="text-lg mb-2">No bias analysis available yet</p>
               <p className="text-sm">This article hasn't been analyzed by our AI models.</p>
             </div>
+            {textFeatures && (
+              <div className="mt-12">
+                <h2 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-6">
+                  Language Signals
+                </h2>
+                <TextFeaturesPanel features={textFeatures} />
+              </div>
+            )}
           </section>
         )}
       </div>
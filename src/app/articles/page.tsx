@@ -1,16 +1,37 @@
 import { createClient } from '@/utils/supabase/server'
 import Link from 'next/link'
+import { loadModelOffsets } from '@/lib/modelOffsets'
+import { loadReliabilityWeights } from '@/lib/modelWeights'
+import { averageCategoryScores, parseAggregationMode } from '@/utils/aggregation'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
+import ScoreModeToggle, { parseScoreMode, scoreViewHref } from '@/components/ScoreModeToggle'
+import AggregationModeToggle from '@/components/AggregationModeToggle'
 
-export default async function ArticlesPage() {
+interface PageProps {
+  searchParams: Promise<{ scores?: string; agg?: string; copies?: string }>
+}
+
+export default async function ArticlesPage({ searchParams }: PageProps) {
+  const query = await searchParams
+  const scoreMode = parseScoreMode(query.scores)
+  const aggregation = parseAggregationMode(query.agg)
+  // Syndicated copies (lib/storyClusters.ts) are collapsed into their original unless ?copies=show
+  const showCopies = query.copies === 'show'
   const supabase = await createClient()
 
+  // Page URL keeping the score view and the copies switch
+  const articlesHref = (mode = scoreMode, agg = aggregation, copies = showCopies) => {
+    const href = scoreViewHref('/articles', mode, agg)
+    return copies ? `${href}${href.includes('?') ? '&' : '?'}copies=show` : href
+  }
+
   // Fetch categories
   const { data: categories } = await supabase
     .from('news_categories')
     .select('id, name')
 
   // Fetch articles with AI scores (exclude user-analyzed articles)
-  const { data: articlesData } = await supabase
+  let articlesQuery = supabase
     .from('media')
     .select(`
       *,
@@ -18,12 +39,35 @@ export default async function ArticlesPage() {
         score,
         model_name,
         explanation,
+        confidence,
         bias_categories (
           name
         )
+      ),
+      story_clusters (
+        member_count
       )
     `)
-    .eq('user_analyzed', false)  // Only show curated GNews articles
+    .eq('user_analyzed', false)  // Only show curated articles
+    .eq('ai_scores.is_current', true)  // Latest score version only
+  if (!showCopies) {
+    articlesQuery = articlesQuery.eq('is_syndicated', false)
+  }
+  const { data: articlesData } = await articlesQuery
+
+  // How many copies are hidden, for the show/collapse switch
+  const { count: copiesCount } = await supabase
+    .from('media')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_analyzed', false)
+    .eq('is_syndicated', true)
+
+  // Latest events covered by several outlets (lib/newsEvents.ts), for /stories/[id]
+  const { data: newsEvents } = await supabase
+    .from('news_events')
+    .select('id, title, outlet_count, last_published_at')
+    .order('last_published_at', { ascending: false })
+    .limit(6)
 
   if (!articlesData || !categories) {
     return <div className="p-6">No articles found.</div>
@@ -36,24 +80,24 @@ export default async function ArticlesPage() {
     return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
   }
 
-  // Helper to compute averaged scores per category (across all models)
+  // Calibrated mode subtracts each model's stored offset before averaging
+  const offsets = scoreMode === 'calibrated' ? await loadModelOffsets(supabase) : null
+  // Weighted mode weights each model by its reliability (lib/modelWeights.ts)
+  const weights = aggregation === 'weighted' ? (await loadReliabilityWeights(supabase)).weights : null
+
+  // Helper to aggregate scores per category (across all models)
   const getAveragedScores = (aiScores: any[]) => {
     if (!aiScores || aiScores.length === 0) return []
 
-    // Group scores by category
-    const categoryScores: { [key: string]: number[] } = {}
-    for (const score of aiScores) {
-      const categoryName = score.bias_categories?.[0]?.name || score.bias_categories?.name
-      if (!categoryName) continue
-      if (!categoryScores[categoryName]) categoryScores[categoryName] = []
-      categoryScores[categoryName].push(parseFloat(score.score))
-    }
-
-    // Calculate average for each category
-    return Object.entries(categoryScores).map(([category, scores]) => ({
-      category,
-      avgScore: scores.reduce((sum, s) => sum + s, 0) / scores.length
-    }))
+    return averageCategoryScores(
+      aiScores.map(score => ({
+        model: score.model_name,
+        category: score.bias_categories?.[0]?.name || score.bias_categories?.name,
+        score: parseFloat(score.score),
+        confidence: score.confidence
+      })),
+      { mode: aggregation, offsets, weights }
+    )
   }
 
   // Separate promo articles (top 20 with AI scores) and others
@@ -79,7 +123,10 @@ export default async function ArticlesPage() {
       source: article.source || 'Unknown',
       category_id: article.category_id,
       category_name: category?.name || 'Uncategorized',
-      ai_scores: article.ai_scores || []
+      ai_scores: article.ai_scores || [],
+      // Other copies of the same story, archived ones too (one outlet can run several)
+      other_copies: Math.max(0, (article.story_clusters?.member_count || 1) - 1),
+      is_syndicated: article.is_syndicated === true
     }
   }
 
@@ -106,11 +153,50 @@ export default async function ArticlesPage() {
           <h1 className="text-5xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-4 transition-colors duration-300">
             Discover Articles
           </h1>
-          <p className="text-stone-600 dark:text-stone-400 text-lg">
-            Browse {articlesData.length} articles across {Object.keys(groupedArticles).length} categories.
-          </p>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-stone-600 dark:text-stone-400 text-lg">
+              Browse {articlesData.length} articles across {Object.keys(groupedArticles).length} categories.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {(copiesCount || 0) > 0 && (
+                <Link
+                  href={articlesHref(scoreMode, aggregation, !showCopies)}
+                  className="px-3 py-1.5 rounded-lg border border-stone-300 dark:border-stone-700 text-xs text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800 transition-colors"
+                >
+                  {showCopies ? 'Collapse syndicated copies' : `Show ${copiesCount} syndicated copies`}
+                </Link>
+              )}
+              <AggregationModeToggle mode={aggregation} href={mode => articlesHref(scoreMode, mode)} />
+              <ScoreModeToggle mode={scoreMode} href={mode => articlesHref(mode, aggregation)} />
+            </div>
+          </div>
         </header>
 
+        {/* Same event, different outlets */}
+        {newsEvents && newsEvents.length > 0 && (
+          <section className="mb-12">
+            <h2 className="text-lg font-serif font-semibold text-stone-900 dark:text-stone-100 mb-4 transition-colors duration-300">
+              Compare Coverage
+            </h2>
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+              {newsEvents.map(newsEvent => (
+                <Link
+                  key={newsEvent.id}
+                  href={scoreViewHref(`/stories/${newsEvent.id}`, scoreMode, aggregation)}
+                  className="block p-4 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg hover:border-stone-400 dark:hover:border-stone-600 transition-colors duration-300"
+                >
+                  <div className="text-xs text-stone-500 dark:text-stone-400 mb-1">
+                    {newsEvent.outlet_count} outlets
+                  </div>
+                  <h3 className="font-serif text-sm text-stone-900 dark:text-stone-100 line-clamp-2">
+                    {newsEvent.title}
+                  </h3>
+                </Link>
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Promo Section: Top 20 Analyzed Articles */}
         {promoArticles.length > 0 && (
           <section className="mb-12">
@@ -130,7 +216,7 @@ export default async function ArticlesPage() {
               {promoArticles.map((article: any) => (
                 <Link
                   key={article.id}
-                  href={`/articles/${article.id}`}
+                  href={scoreViewHref(`/articles/${article.id}`, scoreMode, aggregation)}
                   className="flex-shrink-0 w-72 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg overflow-hidden group transition-colors duration-300 hover:border-stone-400 dark:hover:border-stone-600 cursor-pointer"
                 >
                   {/* Image */}
@@ -148,6 +234,13 @@ export default async function ArticlesPage() {
                     {/* Source */}
                     <div className="text-xs text-stone-500 dark:text-stone-400 mb-1">
                       {article.source}
+                      {article.is_syndicated
+                        ? <span className="ml-2 italic">syndicated copy</span>
+                        : article.other_copies > 0 && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-stone-100 dark:bg-stone-800">
+                            +{article.other_copies} {article.other_copies === 1 ? 'copy' : 'copies'}
+                          </span>
+                        )}
                     </div>
 
                     {/* Title */}
@@ -163,6 +256,7 @@ export default async function ArticlesPage() {
                           className={`px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(avgScore.avgScore)}`}
                         >
                           {avgScore.category}: {avgScore.avgScore > 0 ? '+' : ''}{avgScore.avgScore.toFixed(2)}
+                          <ScoreUncertainty average={avgScore} compact />
                         </span>
                       ))}
                     </div>
@@ -189,7 +283,7 @@ export default async function ArticlesPage() {
               {categoryArticles.map((article: any) => (
                 <Link
                   key={article.id}
-                  href={`/articles/${article.id}`}
+                  href={scoreViewHref(`/articles/${article.id}`, scoreMode, aggregation)}
                   className="flex-shrink-0 w-72 bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg overflow-hidden group transition-colors duration-300 hover:border-stone-400 dark:hover:border-stone-600 cursor-pointer"
                 >
                   {/* Image */}
@@ -207,6 +301,13 @@ export default async function ArticlesPage() {
                     {/* Source */}
                     <div className="text-xs text-stone-500 dark:text-stone-400 mb-1">
                       {article.source}
+                      {article.is_syndicated
+                        ? <span className="ml-2 italic">syndicated copy</span>
+                        : article.other_copies > 0 && (
+                          <span className="ml-2 px-1.5 py-0.5 rounded bg-stone-100 dark:bg-stone-800">
+                            +{article.other_copies} {article.other_copies === 1 ? 'copy' : 'copies'}
+                          </span>
+                        )}
                     </div>
 
                     {/* Title */}
@@ -222,6 +323,7 @@ export default async function ArticlesPage() {
                           className={`px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(avgScore.avgScore)}`}
                         >
                           {avgScore.category}: {avgScore.avgScore > 0 ? '+' : ''}{avgScore.avgScore.toFixed(2)}
+                          <ScoreUncertainty average={avgScore} compact />
                         </span>
                       ))}
                     </div>
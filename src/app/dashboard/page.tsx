@@ -4,6 +4,14 @@ import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { createClient } from '@/utils/supabase/client'
 import { getAnalyzedArticles } from '@/utils/analyzedArticles'
+import { getModelColor, getModelDisplayName, MODEL_REGISTRY } from '@/lib/models'
+import { loadModelOffsets } from '@/lib/modelOffsets'
+import { loadReliabilityWeights } from '@/lib/modelWeights'
+import { computeModelTendencies, ModelOffsets } from '@/utils/modelOffsets'
+import { AggregationMode, averageCategoryScores, DEFAULT_AGGREGATION_MODE, ModelWeights } from '@/utils/aggregation'
+import ScoreModeToggle, { ScoreMode } from '@/components/ScoreModeToggle'
+import AggregationModeToggle from '@/components/AggregationModeToggle'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
 
 interface Article {
   id: string
@@ -17,6 +25,7 @@ interface Article {
     score: number
     explanation: string
     model_name: string | null
+    confidence: number | null
     bias_categories: {
       name: string
     } | null
@@ -28,6 +37,10 @@ export default function DashboardPage() {
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null)
+  const [scoreMode, setScoreMode] = useState<ScoreMode>('raw')
+  const [offsets, setOffsets] = useState<ModelOffsets | null>(null)
+  const [aggregation, setAggregation] = useState<AggregationMode>(DEFAULT_AGGREGATION_MODE)
+  const [weights, setWeights] = useState<ModelWeights | null>(null)
 
   useEffect(() => {
     async function fetchUserArticles() {
@@ -56,6 +69,7 @@ export default function DashboardPage() {
               score,
               explanation,
               model_name,
+              confidence,
               bias_categories (
                 name
               )
@@ -63,6 +77,7 @@ export default function DashboardPage() {
           `)
           .in('id', cookieIds)
           .eq('user_analyzed', true)
+          .eq('ai_scores.is_current', true)
 
         console.log('Supabase query result:', { data, error: fetchError })
 
@@ -85,6 +100,24 @@ export default function DashboardPage() {
     fetchUserArticles()
   }, [])
 
+  // Offsets are only needed once calibrated scores are selected
+  useEffect(() => {
+    if (scoreMode !== 'calibrated' || offsets) return
+    loadModelOffsets(createClient()).then(setOffsets)
+  }, [scoreMode, offsets])
+
+  // Same for reliability weights and the weighted mode
+  useEffect(() => {
+    if (aggregation !== 'weighted' || weights) return
+    loadReliabilityWeights(createClient()).then(result => setWeights(result.weights))
+  }, [aggregation, weights])
+
+  // Per-category aggregate across models for one article (calibrated: offsets subtracted first)
+  const getAveragedScores = (article: Article) => averageCategoryScores(
+    article.ai_scores.map(s => ({ model: s.model_name, category: s.bias_categories?.name, score: s.score, confidence: s.confidence })),
+    { mode: aggregation, offsets: scoreMode === 'calibrated' ? offsets : null, weights }
+  )
+
   const getScoreColor = (score: number) => {
     if (score > 0) return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
     if (score < 0) return 'bg-red-200 text-red-800 dark:bg-red-800 dark:text-red-200'
@@ -249,8 +282,16 @@ export default function DashboardPage() {
 
             {/* Bias Categories Grid */}
             <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 transition-colors duration-300">
-              <h3 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2 transition-colors duration-300">Bias Analysis Overview</h3>
-              <p className="text-sm text-stone-600 dark:text-stone-400 mb-6">Distribution of your analyzed articles across all bias dimensions</p>
+              <div className="flex flex-wrap items-start justify-between gap-4 mb-6">
+                <div>
+                  <h3 className="text-2xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-2 transition-colors duration-300">Bias Analysis Overview</h3>
+                  <p className="text-sm text-stone-600 dark:text-stone-400">Distribution of your analyzed articles across all bias dimensions</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <AggregationModeToggle mode={aggregation} onChange={setAggregation} />
+                  <ScoreModeToggle mode={scoreMode} onChange={setScoreMode} />
+                </div>
+              </div>
 
               <div className="space-y-6">
                 {allCategories.map(category => {
@@ -259,10 +300,12 @@ export default function DashboardPage() {
                   )
                   if (categoryArticles.length === 0) return null
 
-                  const scores = categoryArticles.map(a => {
-                    const s = a.ai_scores.find(score => score.bias_categories?.name === category)
-                    return s ? s.score : 0
-                  })
+                  // Each article's model average for this category
+                  const articleScores = categoryArticles.map(a => ({
+                    article: a,
+                    score: getAveragedScores(a).find(avg => avg.category === category)?.avgScore ?? 0
+                  }))
+                  const scores = articleScores.map(({ score }) => score)
                   const avgScore = scores.reduce((sum, s) => sum + s, 0) / scores.length
 
                   return (
@@ -278,10 +321,7 @@ export default function DashboardPage() {
 
                       <div className="relative w-full h-6 rounded-lg overflow-hidden mb-2" style={{ background: 'linear-gradient(to right, #ef4444 0%, #9ca3af 50%, #3b82f6 100%)' }}>
                         <div className="absolute left-1/2 top-0 w-0.5 h-full bg-stone-900 dark:bg-stone-100 opacity-30"></div>
-                        {categoryArticles.map((article, idx) => {
-                          const s = article.ai_scores.find(score => score.bias_categories?.name === category)
-                          if (!s) return null
-                          const score = s.score
+                        {articleScores.map(({ article, score }, idx) => {
                           const position = ((score + 1) / 2) * 100
                           return <div key={idx} className="absolute top-1/2 -translate-y-1/2 w-2 h-2 bg-stone-900 dark:bg-stone-100 rounded-full border border-white dark:border-stone-900" style={{ left: `${position}%`, transform: 'translate(-50%, -50%)' }} title={`${article.title}: ${score}`}></div>
                         })}
@@ -304,25 +344,11 @@ export default function DashboardPage() {
 
             {/* AI Model Tendencies */}
             {articles.length >= 1 && (() => {
-              // Define the 4 models we want to show (exact names and display info)
-              const modelConfig: { [key: string]: { displayName: string; color: string } } = {
-                'gemini-2.5-flash': {
-                  displayName: 'Google Gemini 2.5 Flash',
-                  color: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
-                },
-                'qwen/qwen3-32b': {
-                  displayName: 'Alibaba Qwen3 32B',
-                  color: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800'
-                },
-                'openai/gpt-oss-120b': {
-                  displayName: 'OpenAI GPT-OSS 120B',
-                  color: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800'
-                },
-                'meta-llama/llama-4-maverick-17b-128e-instruct': {
-                  displayName: 'Meta Llama 4 Maverick',
-                  color: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800'
-                }
-              }
+              // Models we want to show (exact names and display info from the shared registry)
+              const modelConfig: { [key: string]: { displayName: string; color: string } } = {}
+              MODEL_REGISTRY.forEach(model => {
+                modelConfig[model.id] = { displayName: model.displayName, color: model.color }
+              })
 
               const modelOrder = Object.keys(modelConfig)
 
@@ -333,65 +359,27 @@ export default function DashboardPage() {
 
               if (allModels.length < 2) return null
 
-              // Model display names - exact matching
-              const getModelDisplayName = (modelName: string) => {
-                return modelConfig[modelName]?.displayName || modelName
-              }
-
-              // Model badge colors - exact matching
-              const getModelBadgeColor = (modelName: string) => {
-                return modelConfig[modelName]?.color || 'bg-gray-100 dark:bg-gray-900/30 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-800'
-              }
-
-              // Calculate model tendencies across all articles
-              const modelTendencies: { [model: string]: { [category: string]: { deviation: number; count: number } } } = {}
-
-              allModels.forEach(model => {
-                modelTendencies[model] = {}
-              })
-
-              // For each article, calculate average and then each model's deviation
-              articles.forEach(article => {
-                if (!article.ai_scores || article.ai_scores.length === 0) return
-
-                // Get unique categories for this article
-                const articleCategories = Array.from(new Set(
-                  article.ai_scores.map(s => s.bias_categories?.name).filter(Boolean)
-                )) as string[]
-
-                articleCategories.forEach(category => {
-                  // Get all scores for this category
-                  const categoryScores = article.ai_scores.filter(s => s.bias_categories?.name === category)
-                  if (categoryScores.length === 0) return
-
-                  // Calculate average for this category on this article
-                  const avg = categoryScores.reduce((sum, s) => sum + s.score, 0) / categoryScores.length
-
-                  // Calculate each model's deviation from average
-                  categoryScores.forEach(score => {
-                    const model = score.model_name
-                    if (!model || !modelTendencies[model]) return // Skip if model not in our config
-
-                    const deviation = score.score - avg
-
-                    if (!modelTendencies[model][category]) {
-                      modelTendencies[model][category] = { deviation: 0, count: 0 }
-                    }
-                    modelTendencies[model][category].deviation += deviation
-                    modelTendencies[model][category].count += 1
-                  })
-                })
-              })
+              // Each model's mean deviation from the per-article average (shared with the homepage)
+              const modelTendencies = computeModelTendencies(
+                articles.flatMap(article => (article.ai_scores || []).map(s => ({
+                  mediaId: article.id,
+                  model: s.model_name || '',
+                  category: s.bias_categories?.name || '',
+                  score: s.score
+                }))),
+                allModels,
+                { minModels: 1 } // every article counts, not only ones scored by all models
+              )
 
-              // Calculate average deviations and sort by model order
+              // Sort by model order
               const modelAvgDeviations = Object.entries(modelTendencies)
-                .map(([model, categories]) => {
-                  const categoryDeviations = Object.entries(categories).map(([category, data]) => ({
+                .map(([model, categories]) => ({
+                  model,
+                  categoryDeviations: Object.entries(categories).map(([category, tendency]) => ({
                     category,
-                    avgDeviation: data.count > 0 ? data.deviation / data.count : 0
+                    avgDeviation: tendency.deviation
                   }))
-                  return { model, categoryDeviations }
-                })
+                }))
                 .sort((a, b) => {
                   const aIndex = modelOrder.findIndex(m => a.model.includes(m.split('/').pop() || m))
                   const bIndex = modelOrder.findIndex(m => b.model.includes(m.split('/').pop() || m))
@@ -409,7 +397,7 @@ export default function DashboardPage() {
 
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {modelAvgDeviations.map(({ model, categoryDeviations }) => (
-                      <div key={model} className={`border rounded-lg p-5 ${getModelBadgeColor(model)}`}>
+                      <div key={model} className={`border rounded-lg p-5 ${getModelColor(model)}`}>
                         <h4 className="text-lg font-semibold mb-4">
                           {getModelDisplayName(model)}
                         </h4>
@@ -436,7 +424,7 @@ export default function DashboardPage() {
                   </div>
 
                   <p className="text-xs text-stone-500 dark:text-stone-500 mt-6 italic text-center">
-                    Percentage shows how much each model deviates from the 4-model average. Patterns may indicate model-specific biases.
+                    Percentage shows how much each model deviates from the average across models. Patterns may indicate model-specific biases.
                   </p>
                 </div>
               )
@@ -536,25 +524,7 @@ export default function DashboardPage() {
 
                   {/* AI Score badges - Averaged */}
                   {article.ai_scores && article.ai_scores.length > 0 && (() => {
-                    // Calculate average scores per category
-                    const categoryAverages = new Map<string, { sum: number; count: number }>()
-
-                    article.ai_scores.forEach(score => {
-                      const categoryName = score.bias_categories?.name
-                      if (categoryName) {
-                        const current = categoryAverages.get(categoryName) || { sum: 0, count: 0 }
-                        categoryAverages.set(categoryName, {
-                          sum: current.sum + score.score,
-                          count: current.count + 1
-                        })
-                      }
-                    })
-
-                    // Convert to array with averages
-                    const averagedScores = Array.from(categoryAverages.entries()).map(([category, data]) => ({
-                      category,
-                      avgScore: data.sum / data.count
-                    }))
+                    const averagedScores = getAveragedScores(article)
 
                     return (
                       <div className="flex flex-wrap gap-2">
@@ -564,6 +534,7 @@ export default function DashboardPage() {
                             className={`px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(score.avgScore)}`}
                           >
                             {score.category}: {score.avgScore.toFixed(2)}
+                            <ScoreUncertainty average={score} compact />
                           </span>
                         ))}
                       </div>
@@ -12,6 +12,10 @@
 import { createClient } from '@/utils/supabase/server'
 import { supabaseAdmin } from '@/utils/supabase/admin'
 import Link from 'next/link'
+import { getEnabledModels } from '@/lib/models'
+import { computeModelTendencies } from '@/utils/modelOffsets'
+import { aggregateScores, averageCategoryScores } from '@/utils/aggregation'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
 
 export default async function Page() {
   // Use admin client to bypass RLS for reading all scores
@@ -36,9 +40,11 @@ export default async function Page() {
   const { data: activeAnalyzedIds } = await supabase
     .from('ai_scores')
     .select('media_id')
+    .eq('is_current', true)
   const { data: archivedAnalyzedIds } = await supabase
     .from('archived_ai_scores')
     .select('media_id')
+    .eq('is_current', true)
 
   const uniqueAnalyzedMediaIds = new Set([
     ...(activeAnalyzedIds || []).map((r: any) => r.media_id),
@@ -49,32 +55,21 @@ export default async function Page() {
   const { count: activeScores } = await supabase
     .from('ai_scores')
     .select('*', { count: 'exact', head: true })
+    .eq('is_current', true)
 
   const { count: archivedScores } = await supabase
     .from('archived_ai_scores')
     .select('*', { count: 'exact', head: true })
+    .eq('is_current', true)
 
   const totalScores = (activeScores || 0) + (archivedScores || 0)
 
-  // Define the 4 models we track
-  const modelConfig: { [key: string]: { displayName: string; color: string } } = {
-    'gemini-2.5-flash': {
-      displayName: 'Google Gemini 2.5 Flash',
-      color: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800'
-    },
-    'qwen/qwen3-32b': {
-      displayName: 'Alibaba Qwen3 32B',
-      color: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800'
-    },
-    'openai/gpt-oss-120b': {
-      displayName: 'OpenAI GPT-OSS 120B',
-      color: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800'
-    },
-    'meta-llama/llama-4-maverick-17b-128e-instruct': {
-      displayName: 'Meta Llama 4 Maverick',
-      color: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800'
-    }
-  }
+  // Models we track (from the shared model registry)
+  const trackedModels = getEnabledModels()
+  const modelConfig: { [key: string]: { displayName: string; color: string } } = {}
+  trackedModels.forEach(model => {
+    modelConfig[model.id] = { displayName: model.displayName, color: model.color }
+  })
   const configuredModels = Object.keys(modelConfig)
 
   // Fetch all AI scores from active table (with media_id and category)
@@ -83,6 +78,7 @@ export default async function Page() {
     .from('ai_scores')
     .select('score, model_name, media_id, bias_categories(name)')
     .in('model_name', configuredModels)
+    .eq('is_current', true)
     .range(0, 9999)
 
   // Fetch all AI scores from archived table
@@ -90,12 +86,13 @@ export default async function Page() {
     .from('archived_ai_scores')
     .select('score, model_name, media_id, bias_categories(name)')
     .in('model_name', configuredModels)
+    .eq('is_current', true)
     .range(0, 9999)
 
   // Combine all scores
   const allScoresData = [...(activeScoresData || []), ...(archivedScoresData || [])]
 
-  // Group scores by media_id to find articles with all 4 models
+  // Group scores by media_id to find articles with all tracked models
   const scoresByMedia: { [mediaId: string]: { model: string; score: number; category: string }[] } = {}
   allScoresData.forEach((score: any) => {
     if (!score.media_id || !score.model_name) return
@@ -111,10 +108,10 @@ export default async function Page() {
   
 // Arrays to compute variance reduction properly
 let singleModelScores: number[] = []       // all single-model scores
-let ensembleMeans: number[] = []           // 4-model averages for each article-category
+let ensembleMeans: number[] = []           // ensemble averages for each article-category
 
 
-  // Count articles with all 4 models analyzed
+  // Count articles with all tracked models analyzed
   const articlesWithAll4Models = Object.entries(scoresByMedia).filter(([_, scores]) => {
     const uniqueModels = new Set(scores.map(s => s.model))
     return configuredModels.every(m => uniqueModels.has(m))
@@ -126,14 +123,9 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
   console.log(`[Homepage] Archived scores fetched: ${archivedScoresData?.length || 0}`)
   console.log(`[Homepage] Total scores: ${allScoresData.length}`)
   console.log(`[Homepage] Unique media IDs: ${Object.keys(scoresByMedia).length}`)
-  console.log(`[Homepage] Articles with all 4 models: ${completeAnalysisCount}`)
-
-  // Calculate model tendencies across all complete articles
-  const modelTendencies: { [model: string]: { [category: string]: { deviation: number; count: number } } } = {}
-  configuredModels.forEach(model => {
-    modelTendencies[model] = {}
-  })
+  console.log(`[Homepage] Articles with all ${configuredModels.length} models: ${completeAnalysisCount}`)
 
+  // Ensemble means for the variance reduction stat
   articlesWithAll4Models.forEach(([mediaId, scores]) => {
     // Get unique categories for this article
     const categories = Array.from(new Set(scores.map(s => s.category).filter(Boolean)))
@@ -147,33 +139,23 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
       // Collect single-model scores for variance calculation
       singleModelScores.push(...scoreValues)
 
-      // Compute ensemble mean for this article-category
-      const ensembleMean = scoreValues.reduce((sum, s) => sum + s, 0) / scoreValues.length
-      ensembleMeans.push(ensembleMean)
-
-      // Calculate each model's deviation for tendencies display
-      categoryScores.forEach(score => {
-        if (!modelTendencies[score.model]) return
-        const deviation = score.score - ensembleMean
-
-        if (!modelTendencies[score.model][category]) {
-          modelTendencies[score.model][category] = { deviation: 0, count: 0 }
-        }
-        modelTendencies[score.model][category].deviation += deviation
-        modelTendencies[score.model][category].count += 1
-      })
+      // Compute ensemble score for this article-category (same aggregation as the article pages)
+      ensembleMeans.push(aggregateScores(categoryScores))
     })
   })
 
-  // Calculate average deviations per model
-  const modelAvgDeviations = configuredModels.map(model => {
-    const categories = modelTendencies[model]
-    const categoryDeviations = Object.entries(categories).map(([category, data]) => ({
+  // Each model's mean deviation from the ensemble (shared with lib/modelOffsets.ts)
+  const modelTendencies = computeModelTendencies(
+    Object.entries(scoresByMedia).flatMap(([mediaId, scores]) => scores.map(s => ({ mediaId, ...s }))),
+    configuredModels
+  )
+  const modelAvgDeviations = configuredModels.map(model => ({
+    model,
+    categoryDeviations: Object.entries(modelTendencies[model]).map(([category, tendency]) => ({
       category,
-      avgDeviation: data.count > 0 ? data.deviation / data.count : 0
+      avgDeviation: tendency.deviation
     }))
-    return { model, categoryDeviations }
-  })
+  }))
 
   // ========== VARIANCE REDUCTION CALCULATION ==========
   // Compute single-model variance (variance of all individual model scores)
@@ -184,7 +166,7 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
     ? singleModelScores.reduce((sum, s) => sum + Math.pow(s - globalSingleMean, 2), 0) / singleModelScores.length
     : 0
 
-  // Compute ensemble (4-model mean) variance
+  // Compute ensemble (all-model mean) variance
   const globalEnsembleMean = ensembleMeans.length > 0
     ? ensembleMeans.reduce((sum, s) => sum + s, 0) / ensembleMeans.length
     : 0
@@ -210,7 +192,7 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
       if (categoryScores.length < configuredModels.length) return
 
       const scoreValues = categoryScores.map(s => s.score)
-      const ensembleMean = scoreValues.reduce((sum, s) => sum + s, 0) / scoreValues.length
+      const ensembleMean = aggregateScores(categoryScores)
 
       // Calculate average absolute deviation from ensemble mean
       const avgDeviation = scoreValues.reduce((sum, s) => sum + Math.abs(s - ensembleMean), 0) / scoreValues.length
@@ -237,12 +219,14 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
       ai_scores (
         score,
         model_name,
+        confidence,
         bias_categories (
           name
         )
       )
     `)
     .eq('user_analyzed', false)
+    .eq('ai_scores.is_current', true)
     .not('ai_scores', 'is', null)
     .limit(6)
 
@@ -393,12 +377,20 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
                     </h3>
 
                     <div className="flex flex-wrap gap-2">
-                      {article.ai_scores?.slice(0, 3).map((score: any, idx: number) => (
+                      {averageCategoryScores(
+                        (article.ai_scores || []).map((score: any) => ({
+                          model: score.model_name,
+                          category: score.bias_categories?.name,
+                          score: parseFloat(score.score),
+                          confidence: score.confidence
+                        }))
+                      ).slice(0, 3).map((avgScore, idx) => (
                         <span
                           key={idx}
-                          className={`px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(parseFloat(score.score))}`}
+                          className={`px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(avgScore.avgScore)}`}
                         >
-                          {score.bias_categories?.name}: {score.score}
+                          {avgScore.category}: {avgScore.avgScore > 0 ? '+' : ''}{avgScore.avgScore.toFixed(2)}
+                          <ScoreUncertainty average={avgScore} compact />
                         </span>
                       ))}
                     </div>
@@ -503,7 +495,7 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
                 AI Model Tendencies
               </h2>
               <p className="text-stone-600 dark:text-stone-400 text-lg transition-colors duration-300">
-                How each AI model tends to score compared to the 4-model average across {completeAnalysisCount} fully analyzed article{completeAnalysisCount !== 1 ? 's' : ''}
+                How each AI model tends to score compared to the {configuredModels.length}-model average across {completeAnalysisCount} fully analyzed article{completeAnalysisCount !== 1 ? 's' : ''}
               </p>
             </div>
 
@@ -532,7 +524,7 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
       Bias Variance Reduction
     </p>
     <p className="text-sm text-emerald-700 dark:text-emerald-400 max-w-md mx-auto transition-colors duration-300">
-      Reduced bias score variance compared to single-LLM outputs from <strong>{completeAnalysisCount}</strong> fully analyzed article{completeAnalysisCount !== 1 ? 's' : ''} through 4-model ensemble averaging
+      Reduced bias score variance compared to single-LLM outputs from <strong>{completeAnalysisCount}</strong> fully analyzed article{completeAnalysisCount !== 1 ? 's' : ''} through {configuredModels.length}-model ensemble averaging
     </p>
   </div>
 </div>
@@ -567,7 +559,7 @@ let ensembleMeans: number[] = []           // 4-model averages for each article-
             </div>
 
             <p className="text-xs text-stone-500 dark:text-stone-500 mt-8 italic text-center">
-              Percentage shows how much each model deviates from the 4-model consensus. Patterns may indicate model-specific tendencies in bias detection.
+              Percentage shows how much each model deviates from the {configuredModels.length}-model consensus. Patterns may indicate model-specific tendencies in bias detection.
             </p>
           </div>
         </section>
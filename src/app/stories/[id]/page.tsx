@@ -0,0 +1,252 @@
+import { createClient } from '@/utils/supabase/server'
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import ScoreModeToggle, { parseScoreMode, scoreViewHref } from '@/components/ScoreModeToggle'
+import AggregationModeToggle from '@/components/AggregationModeToggle'
+import ScoreUncertainty from '@/components/ScoreUncertainty'
+import { loadModelOffsets } from '@/lib/modelOffsets'
+import { loadReliabilityWeights } from '@/lib/modelWeights'
+import { averageCategoryScores, CategoryAverage, parseAggregationMode } from '@/utils/aggregation'
+import { categorySpreads, EVENT_WINDOW_HOURS } from '@/utils/newsEvents'
+
+interface PageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<{ scores?: string; agg?: string }>
+}
+
+// One outlet's article in the event, from media or archived_media
+interface EventArticle {
+  id: string
+  title: string
+  url: string
+  source: string | null
+  published_at: string | null
+  story_cluster_id: string | null
+  archived: boolean
+}
+
+// Fields of an ai_scores / archived_ai_scores row needed for the averages
+interface EventScoreRow {
+  media_id: string
+  score: string | number
+  model_name: string | null
+  confidence: number | null
+  bias_categories: { name: string } | { name: string }[] | null
+}
+
+/**
+ * One news event (lib/newsEvents.ts): every outlet's article side by side with its
+ * category scores, so differences in framing of the same event stand out
+ */
+export default async function StoryPage({ params, searchParams }: PageProps) {
+  const { id } = await params
+  const query = await searchParams
+  const scoreMode = parseScoreMode(query.scores)
+  const aggregation = parseAggregationMode(query.agg)
+  const supabase = await createClient()
+
+  const { data: event } = await supabase
+    .from('news_events')
+    .select('id, title, first_published_at, last_published_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (!event) {
+    notFound()
+  }
+
+  // Members stay in the event after archiving, so read both tables
+  const articleColumns = 'id, title, url, source, published_at, story_cluster_id'
+  const [{ data: activeArticles }, { data: archivedArticles }] = await Promise.all([
+    supabase.from('media').select(articleColumns).eq('event_id', id),
+    supabase.from('archived_media').select(articleColumns).eq('event_id', id)
+  ])
+  const articles: EventArticle[] = [
+    ...(activeArticles || []).map(a => ({ ...a, archived: false })),
+    ...(archivedArticles || []).map(a => ({ ...a, archived: true }))
+  ].sort((a, b) => (a.published_at || '').localeCompare(b.published_at || ''))
+  const articleIds = articles.map(a => a.id)
+
+  const scoreColumns = 'media_id, score, model_name, confidence, bias_categories(name)'
+  const [{ data: activeScores }, { data: archivedScores }, { data: categories }] = await Promise.all([
+    supabase.from('ai_scores').select(scoreColumns).in('media_id', articleIds).eq('is_current', true),
+    supabase.from('archived_ai_scores').select(scoreColumns).in('media_id', articleIds).eq('is_current', true),
+    supabase.from('bias_categories').select('name').order('name')
+  ])
+
+  // Outlets that ran a member's text as a syndicated copy (lib/storyClusters.ts)
+  const clusterIds = Array.from(new Set(articles.map(a => a.story_cluster_id).filter((c): c is string => !!c)))
+  const copyOutlets = new Map<string, string[]>()
+  if (clusterIds.length > 0) {
+    const [{ data: activeCopies }, { data: archivedCopies }] = await Promise.all([
+      supabase.from('media').select('source, story_cluster_id').in('story_cluster_id', clusterIds).eq('is_syndicated', true),
+      supabase.from('archived_media').select('source, story_cluster_id').in('story_cluster_id', clusterIds).eq('is_syndicated', true)
+    ])
+    for (const copy of [...(activeCopies || []), ...(archivedCopies || [])]) {
+      const outlets = copyOutlets.get(copy.story_cluster_id) || []
+      if (copy.source && !outlets.includes(copy.source)) outlets.push(copy.source)
+      copyOutlets.set(copy.story_cluster_id, outlets)
+    }
+  }
+
+  // Calibrated mode subtracts each model's stored offset; weighted mode uses reliability weights
+  const offsets = scoreMode === 'calibrated' ? await loadModelOffsets(supabase) : null
+  const weights = aggregation === 'weighted' ? (await loadReliabilityWeights(supabase)).weights : null
+
+  // Averaged category scores per article (across all models)
+  const averagesById = new Map<string, CategoryAverage[]>()
+  const allScores = [...(activeScores || []), ...(archivedScores || [])] as EventScoreRow[]
+  for (const articleId of articleIds) {
+    averagesById.set(articleId, averageCategoryScores(
+      allScores.filter(score => score.media_id === articleId).map(score => ({
+        model: score.model_name,
+        category: (Array.isArray(score.bias_categories) ? score.bias_categories[0]?.name : score.bias_categories?.name) || 'Unknown',
+        score: parseFloat(String(score.score)),
+        confidence: score.confidence
+      })),
+      { mode: aggregation, offsets, weights }
+    ))
+  }
+
+  const categoryNames = (categories || []).map(c => c.name)
+  const spreads = categorySpreads(Array.from(averagesById.values()))
+  const widest = spreads[0]
+  const outletCount = new Set(articles.map(a => a.source || a.id)).size
+
+  // Same badge colors as /articles
+  const getScoreColor = (score: number) => {
+    if (score > 0.3) return 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200'
+    if (score < -0.3) return 'bg-red-200 text-red-800 dark:bg-red-800 dark:text-red-200'
+    return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200'
+  }
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return 'Unknown date'
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit'
+    })
+  }
+
+  return (
+    <main className="min-h-screen bg-stone-50 dark:bg-stone-950 transition-colors duration-300">
+      <div className="max-w-6xl mx-auto px-6 py-16">
+
+        {/* Back button */}
+        <Link
+          href={scoreViewHref('/articles', scoreMode, aggregation)}
+          className="inline-flex items-center text-sm text-stone-500 dark:text-stone-400 hover:text-stone-900 dark:hover:text-stone-100 mb-8 transition-colors"
+        >
+          ← Back to Articles
+        </Link>
+
+        {/* Header */}
+        <header className="mb-12 border-b-2 border-stone-900 dark:border-stone-100 pb-8 transition-colors duration-300">
+          <p className="text-sm tracking-widest text-stone-500 dark:text-stone-400 uppercase mb-2">
+            One Story, {outletCount} Outlets
+          </p>
+          <h1 className="text-4xl font-serif font-bold text-stone-900 dark:text-stone-100 mb-4 transition-colors duration-300">
+            {event.title}
+          </h1>
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p className="text-stone-600 dark:text-stone-400">
+              {articles.length} articles published {formatDate(event.first_published_at)} – {formatDate(event.last_published_at)}
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <AggregationModeToggle mode={aggregation} href={mode => scoreViewHref(`/stories/${id}`, scoreMode, mode)} />
+              <ScoreModeToggle mode={scoreMode} href={mode => scoreViewHref(`/stories/${id}`, mode, aggregation)} />
+            </div>
+          </div>
+        </header>
+
+        {/* Where framing differs most */}
+        {widest && widest.spread > 0 && (
+          <p className="mb-6 text-stone-700 dark:text-stone-300">
+            Coverage differs most on <span className="font-semibold capitalize">{widest.category}</span>:
+            scores range from {widest.min > 0 ? '+' : ''}{widest.min.toFixed(2)} to {widest.max > 0 ? '+' : ''}{widest.max.toFixed(2)} across {widest.articleCount} articles.
+          </p>
+        )}
+
+        {/* Side-by-side comparison: one row per outlet, one column per category */}
+        <div className="overflow-x-auto bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg transition-colors duration-300">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-stone-200 dark:border-stone-800 text-left text-xs uppercase tracking-wider text-stone-500 dark:text-stone-400">
+                <th className="p-4 font-medium">Outlet &amp; headline</th>
+                {categoryNames.map(name => (
+                  <th key={name} className="p-4 font-medium capitalize">{name}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {articles.map(article => {
+                const averages = averagesById.get(article.id) || []
+                const copies = article.story_cluster_id ? copyOutlets.get(article.story_cluster_id) || [] : []
+                return (
+                  <tr key={article.id} className="border-b border-stone-100 dark:border-stone-800 last:border-0 align-top">
+                    <td className="p-4 max-w-md">
+                      <div className="text-xs text-stone-500 dark:text-stone-400 mb-1">
+                        <span className="font-semibold">{article.source || 'Unknown'}</span> • {formatDate(article.published_at)}
+                      </div>
+                      {/* Archived articles have no detail page: link to the outlet */}
+                      {article.archived ? (
+                        <a href={article.url} target="_blank" rel="noopener noreferrer" className="font-serif text-stone-900 dark:text-stone-100 hover:underline">
+                          {article.title}
+                        </a>
+                      ) : (
+                        <Link href={scoreViewHref(`/articles/${article.id}`, scoreMode, aggregation)} className="font-serif text-stone-900 dark:text-stone-100 hover:underline">
+                          {article.title}
+                        </Link>
+                      )}
+                      {copies.length > 0 && (
+                        <div className="text-xs text-stone-500 dark:text-stone-400 mt-1 italic">
+                          Also ran by {copies.join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    {categoryNames.map(name => {
+                      const average = averages.find(a => a.category === name)
+                      return (
+                        <td key={name} className="p-4">
+                          {average ? (
+                            <span className={`inline-block px-2 py-1 rounded-full text-xs font-semibold ${getScoreColor(average.avgScore)}`}>
+                              {average.avgScore > 0 ? '+' : ''}{average.avgScore.toFixed(2)}
+                              <ScoreUncertainty average={average} compact />
+                            </span>
+                          ) : (
+                            <span className="text-xs text-stone-400 dark:text-stone-600">not scored</span>
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                )
+              })}
+            </tbody>
+            {spreads.length > 0 && (
+              <tfoot>
+                <tr className="border-t border-stone-200 dark:border-stone-800 text-xs text-stone-500 dark:text-stone-400">
+                  <td className="p-4 font-medium uppercase tracking-wider">Spread across outlets</td>
+                  {categoryNames.map(name => {
+                    const spread = spreads.find(s => s.category === name)
+                    return (
+                      <td key={name} className="p-4">
+                        {spread ? spread.spread.toFixed(2) : '–'}
+                      </td>
+                    )
+                  })}
+                </tr>
+              </tfoot>
+            )}
+          </table>
+        </div>
+
+        <p className="text-xs text-stone-500 dark:text-stone-500 mt-4 italic">
+          Articles are grouped by shared headline and lead terms within {EVENT_WINDOW_HOURS} hours of each other. Scores are averaged across models per article; a wide spread means outlets framed the same event differently.
+        </p>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,51 @@
+/**
+ * Mean / Median / Trimmed / Weighted switch for averaged bias scores
+ * The modes are defined in utils/aggregation.ts.
+ * Server pages pass `href` (the mode lives in ?agg=), client pages pass `onChange`.
+ */
+
+import Link from 'next/link'
+import { AGGREGATION_MODES, AggregationMode } from '@/utils/aggregation'
+
+interface AggregationModeToggleProps {
+  mode: AggregationMode
+  href?: (mode: AggregationMode) => string
+  onChange?: (mode: AggregationMode) => void
+}
+
+const LABELS: Record<AggregationMode, string> = {
+  mean: 'Mean',
+  median: 'Median',
+  trimmed: 'Trimmed',
+  weighted: 'Weighted'
+}
+
+const DESCRIPTIONS: Record<AggregationMode, string> = {
+  mean: 'Plain average of every model',
+  median: 'Middle score - one outlier model has no effect',
+  trimmed: 'Average after dropping the highest and lowest scores',
+  weighted: 'Average weighted by each model\'s benchmark accuracy, or by how closely it usually agrees with the others'
+}
+
+export default function AggregationModeToggle({ mode, href, onChange }: AggregationModeToggleProps) {
+  return (
+    <div className="inline-flex rounded-lg border border-stone-300 dark:border-stone-700 overflow-hidden text-xs">
+      {AGGREGATION_MODES.map(option => {
+        const className = `px-3 py-1.5 transition-colors ${
+          option === mode
+            ? 'bg-stone-900 text-stone-100 dark:bg-stone-100 dark:text-stone-900'
+            : 'text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800'
+        }`
+        return href ? (
+          <Link key={option} href={href(option)} className={className} title={DESCRIPTIONS[option]}>
+            {LABELS[option]}
+          </Link>
+        ) : (
+          <button key={option} type="button" onClick={() => onChange?.(option)} className={className} title={DESCRIPTIONS[option]}>
+            {LABELS[option]}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
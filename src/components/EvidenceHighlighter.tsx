@@ -0,0 +1,129 @@
+/**
+ * Article text with the evidence quotes each model cited highlighted
+ * Filter by bias category and by model (offsets come from ai_scores.evidence)
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { getModelColor, getModelDisplayName } from '@/lib/models'
+
+export interface EvidenceSpan {
+  modelName: string
+  category: string
+  quote: string
+  start: number
+  end: number
+}
+
+interface EvidenceHighlighterProps {
+  text: string            // articlePlainText() of the cached article content
+  spans: EvidenceSpan[]
+  categories: string[]
+}
+
+// Merged highlight range and the models that cited it
+type Highlight = { start: number; end: number; models: string[] }
+
+export default function EvidenceHighlighter({ text, spans, categories }: EvidenceHighlighterProps) {
+  const categoriesWithEvidence = categories.filter(c => spans.some(s => s.category === c))
+  const [category, setCategory] = useState(categoriesWithEvidence[0] || '')
+  const [model, setModel] = useState<string>('all')
+
+  const models = Array.from(new Set(spans.filter(s => s.category === category).map(s => s.modelName)))
+
+  const highlights = useMemo(() => {
+    const selected = spans
+      .filter(s => s.category === category && (model === 'all' || s.modelName === model))
+      .filter(s => s.start >= 0 && s.end <= text.length && s.start < s.end)
+      .sort((a, b) => a.start - b.start)
+
+    // Merge overlapping quotes so each character is highlighted once
+    const merged: Highlight[] = []
+    for (const span of selected) {
+      const last = merged[merged.length - 1]
+      if (last && span.start <= last.end) {
+        last.end = Math.max(last.end, span.end)
+        if (!last.models.includes(span.modelName)) last.models.push(span.modelName)
+      } else {
+        merged.push({ start: span.start, end: span.end, models: [span.modelName] })
+      }
+    }
+    return merged
+  }, [spans, category, model, text.length])
+
+  if (categoriesWithEvidence.length === 0) {
+    return null
+  }
+
+  // Split the text into plain and highlighted segments
+  const segments: Array<{ text: string; highlight?: Highlight }> = []
+  let cursor = 0
+  for (const highlight of highlights) {
+    if (highlight.start > cursor) segments.push({ text: text.substring(cursor, highlight.start) })
+    segments.push({ text: text.substring(highlight.start, highlight.end), highlight })
+    cursor = highlight.end
+  }
+  if (cursor < text.length) segments.push({ text: text.substring(cursor) })
+
+  return (
+    <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 transition-colors duration-300">
+      {/* Category filter */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {categoriesWithEvidence.map(c => (
+          <button
+            key={c}
+            onClick={() => { setCategory(c); setModel('all') }}
+            className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+              c === category
+                ? 'bg-stone-900 dark:bg-stone-100 text-stone-100 dark:text-stone-900'
+                : 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-400 hover:bg-stone-200 dark:hover:bg-stone-700'
+            }`}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
+      {/* Model filter */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        <button
+          onClick={() => setModel('all')}
+          className={`text-xs px-2 py-1 rounded border ${model === 'all' ? 'border-stone-900 dark:border-stone-100' : 'border-transparent'} text-stone-600 dark:text-stone-400`}
+        >
+          All models
+        </button>
+        {models.map(m => (
+          <button
+            key={m}
+            onClick={() => setModel(m)}
+            className={`text-xs px-2 py-1 rounded border ${getModelColor(m)} ${model === m ? 'ring-2 ring-stone-400' : ''}`}
+          >
+            {getModelDisplayName(m)}
+          </button>
+        ))}
+      </div>
+
+      {/* Article text with highlights */}
+      <div className="max-h-[32rem] overflow-y-auto text-stone-700 dark:text-stone-300 leading-relaxed whitespace-pre-line">
+        {segments.map((segment, idx) =>
+          segment.highlight ? (
+            <mark
+              key={idx}
+              title={segment.highlight.models.map(getModelDisplayName).join(', ')}
+              className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5"
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={idx}>{segment.text}</span>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-stone-500 dark:text-stone-500 mt-4 italic">
+        {highlights.length} highlighted passage{highlights.length === 1 ? '' : 's'}. Quotes that could not be found in the article text were discarded.
+      </p>
+    </div>
+  )
+}
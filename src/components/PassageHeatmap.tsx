@@ -0,0 +1,139 @@
+/**
+ * Article text shaded by sentence-level bias annotations (lib/passageAnnotations.ts)
+ * Red leans toward -1, blue toward +1, stronger shading = stronger lean.
+ * Filter by bias category; with no annotations yet, offers to generate them.
+ * An annotated article with nothing flagged says so instead of offering again.
+ */
+
+'use client'
+
+import { useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { getModelDisplayName } from '@/lib/models'
+import { AnnotationSpan, buildHeatmapSegments } from '@/utils/passageAnnotations'
+
+interface PassageHeatmapProps {
+  mediaId: string
+  text: string            // articlePlainText() of the cached article content
+  spans: AnnotationSpan[]
+  annotatedSentences: number // sentences a model has read (0 = never annotated)
+  categories: string[]
+}
+
+// Same ends as the score bars: red for negative, blue for positive
+function heatColor(score: number): string {
+  const alpha = (0.15 + 0.55 * Math.min(1, Math.abs(score))).toFixed(2)
+  return score < 0 ? `rgba(239, 68, 68, ${alpha})` : `rgba(59, 130, 246, ${alpha})`
+}
+
+export default function PassageHeatmap({ mediaId, text, spans, annotatedSentences, categories }: PassageHeatmapProps) {
+  const router = useRouter()
+  const categoriesWithAnnotations = categories.filter(c => spans.some(s => s.category === c))
+  const [category, setCategory] = useState(categoriesWithAnnotations[0] || '')
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState('')
+
+  const segments = useMemo(() => buildHeatmapSegments(text, spans, category), [text, spans, category])
+  const flaggedCount = segments.filter(s => s.score !== null).length
+
+  async function generate() {
+    setGenerating(true)
+    setError('')
+    try {
+      const response = await fetch('/api/annotate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mediaId })
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || data.error || 'Annotation failed')
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Annotation failed')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  if (spans.length === 0 && annotatedSentences > 0) {
+    return (
+      <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 text-center transition-colors duration-300">
+        <p className="text-sm text-stone-600 dark:text-stone-400">
+          No sentences flagged. The annotating model read {annotatedSentences} sentence{annotatedSentences === 1 ? '' : 's'} and found none that lean.
+        </p>
+      </div>
+    )
+  }
+
+  if (spans.length === 0) {
+    return (
+      <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 text-center transition-colors duration-300">
+        <p className="text-sm text-stone-600 dark:text-stone-400 mb-4">
+          No sentence-level annotations yet. An AI model can flag the sentences that lean, so you can see which passages drove the scores.
+        </p>
+        <button
+          onClick={generate}
+          disabled={generating}
+          className="px-4 py-2 rounded-lg bg-stone-900 dark:bg-stone-100 text-stone-100 dark:text-stone-900 text-sm font-medium disabled:opacity-50"
+        >
+          {generating ? 'Annotating sentences...' : 'Generate sentence heatmap'}
+        </button>
+        {error && <p className="text-sm text-red-600 dark:text-red-400 mt-3">{error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 transition-colors duration-300">
+      {/* Category filter */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {categoriesWithAnnotations.map(c => (
+          <button
+            key={c}
+            onClick={() => setCategory(c)}
+            className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+              c === category
+                ? 'bg-stone-900 dark:bg-stone-100 text-stone-100 dark:text-stone-900'
+                : 'bg-stone-100 dark:bg-stone-800 text-stone-600 dark:text-stone-400 hover:bg-stone-200 dark:hover:bg-stone-700'
+            }`}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center gap-3 mb-6 text-xs text-stone-500 dark:text-stone-400">
+        <span className="inline-block w-4 h-3 rounded" style={{ background: heatColor(-1) }} /> leans -1
+        <span className="inline-block w-4 h-3 rounded" style={{ background: heatColor(0) }} /> slight
+        <span className="inline-block w-4 h-3 rounded" style={{ background: heatColor(1) }} /> leans +1
+      </div>
+
+      {/* Article text with shaded sentences */}
+      <div className="max-h-[32rem] overflow-y-auto text-stone-700 dark:text-stone-300 leading-relaxed whitespace-pre-line">
+        {segments.map((segment, idx) =>
+          segment.score !== null ? (
+            <mark
+              key={idx}
+              title={segment.spans
+                .map(s => `${getModelDisplayName(s.modelName)}: ${s.score > 0 ? '+' : ''}${s.score.toFixed(2)}${s.reason ? ` - ${s.reason}` : ''}`)
+                .join('\n')}
+              className="text-inherit rounded px-0.5"
+              style={{ background: heatColor(segment.score) }}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <span key={idx}>{segment.text}</span>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-stone-500 dark:text-stone-500 mt-4 italic">
+        {flaggedCount} sentence{flaggedCount === 1 ? '' : 's'} flagged for {category}. Hover a sentence for each model&apos;s reason.
+      </p>
+    </div>
+  )
+}
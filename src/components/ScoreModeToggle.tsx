@@ -0,0 +1,59 @@
+/**
+ * Raw / Calibrated switch for averaged bias scores
+ * Calibrated averages subtract each model's stored offset (lib/modelOffsets.ts).
+ * Server pages pass `href` (the mode lives in ?scores=), client pages pass `onChange`.
+ */
+
+import Link from 'next/link'
+import { AggregationMode, DEFAULT_AGGREGATION_MODE } from '@/utils/aggregation'
+
+export type ScoreMode = 'raw' | 'calibrated'
+
+interface ScoreModeToggleProps {
+  mode: ScoreMode
+  href?: (mode: ScoreMode) => string
+  onChange?: (mode: ScoreMode) => void
+}
+
+const LABELS: Record<ScoreMode, string> = { raw: 'Raw average', calibrated: 'Calibrated' }
+
+export function parseScoreMode(value: string | string[] | undefined): ScoreMode {
+  return value === 'calibrated' ? 'calibrated' : 'raw'
+}
+
+/**
+ * Page URL for a score view (?scores= and ?agg=), leaving defaults out
+ */
+export function scoreViewHref(path: string, mode: ScoreMode, aggregation: AggregationMode): string {
+  const params = new URLSearchParams()
+  if (mode !== 'raw') params.set('scores', mode)
+  if (aggregation !== DEFAULT_AGGREGATION_MODE) params.set('agg', aggregation)
+  const query = params.toString()
+  return query ? `${path}?${query}` : path
+}
+
+export default function ScoreModeToggle({ mode, href, onChange }: ScoreModeToggleProps) {
+  return (
+    <div
+      className="inline-flex rounded-lg border border-stone-300 dark:border-stone-700 overflow-hidden text-xs"
+      title="Calibrated removes each model's systematic lean (its average deviation from the other models) before averaging"
+    >
+      {(Object.keys(LABELS) as ScoreMode[]).map(option => {
+        const className = `px-3 py-1.5 transition-colors ${
+          option === mode
+            ? 'bg-stone-900 text-stone-100 dark:bg-stone-100 dark:text-stone-900'
+            : 'text-stone-600 dark:text-stone-400 hover:bg-stone-100 dark:hover:bg-stone-800'
+        }`
+        return href ? (
+          <Link key={option} href={href(option)} className={className}>
+            {LABELS[option]}
+          </Link>
+        ) : (
+          <button key={option} type="button" onClick={() => onChange?.(option)} className={className}>
+            {LABELS[option]}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
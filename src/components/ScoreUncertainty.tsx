@@ -0,0 +1,49 @@
+/**
+ * Uncertainty next to an averaged bias score
+ * Shows the spread across models (±std dev), and a "models disagree" marker when
+ * the spread reaches DISAGREEMENT_STD_DEV (utils/aggregation.ts).
+ * `compact` is for score badges; the full form also lists model count and confidence.
+ */
+
+import type { CategoryAverage } from '@/utils/aggregation'
+
+interface ScoreUncertaintyProps {
+  average: CategoryAverage
+  compact?: boolean
+}
+
+export function uncertaintyTitle(average: CategoryAverage): string {
+  const parts = [
+    `±${average.stdDev.toFixed(2)} standard deviation across ${average.modelCount} model${average.modelCount === 1 ? '' : 's'}`
+  ]
+  if (average.avgConfidence !== null) {
+    parts.push(`average self-reported confidence ${Math.round(average.avgConfidence * 100)}%`)
+  }
+  if (average.disagree) {
+    parts.push('the models disagree on this score')
+  }
+  return parts.join(', ')
+}
+
+export default function ScoreUncertainty({ average, compact = false }: ScoreUncertaintyProps) {
+  if (compact) {
+    return (
+      <span className="font-normal opacity-75" title={uncertaintyTitle(average)}>
+        {' '}±{average.stdDev.toFixed(2)}
+        {average.disagree && ' ⚠'}
+      </span>
+    )
+  }
+
+  return (
+    <span className="text-xs text-stone-500 dark:text-stone-400" title={uncertaintyTitle(average)}>
+      ±{average.stdDev.toFixed(2)} · {average.modelCount} model{average.modelCount === 1 ? '' : 's'}
+      {average.avgConfidence !== null && ` · ${Math.round(average.avgConfidence * 100)}% confident`}
+      {average.disagree && (
+        <span className="ml-2 px-1.5 py-0.5 rounded bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 font-semibold">
+          Models disagree
+        </span>
+      )}
+    </span>
+  )
+}
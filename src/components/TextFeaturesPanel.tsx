@@ -0,0 +1,76 @@
+/**
+ * Lexicon text features for one article (utils/textFeatures.ts)
+ * A model-free baseline shown beside the AI scores: each metric with a one-line
+ * explanation, plus the loaded terms found most often.
+ */
+
+import type { TextFeatures } from '@/utils/textFeatures'
+
+interface TextFeaturesPanelProps {
+  features: TextFeatures
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+export default function TextFeaturesPanel({ features }: TextFeaturesPanelProps) {
+  const metrics = [
+    {
+      label: 'Loaded language',
+      value: `${features.loadedTermDensity.toFixed(1)} / 1k words`,
+      detail: `${features.loadedTermCount} emotive or judgmental terms`
+    },
+    {
+      label: 'Hedging',
+      value: `${features.hedgingDensity.toFixed(1)} / 1k words`,
+      detail: `${features.hedgeCount} hedges such as "reportedly" or "critics say"`
+    },
+    {
+      label: 'Attributed quotes',
+      value: features.attributedQuoteRatio === null ? 'n/a' : percent(features.attributedQuoteRatio),
+      detail: features.quoteCount === 0
+        ? 'No direct quotes'
+        : `Of ${features.quoteCount} direct quote${features.quoteCount === 1 ? '' : 's'}, share naming who said it`
+    },
+    {
+      label: 'Passive voice',
+      value: percent(features.passiveVoiceRate),
+      detail: `Of ${features.sentenceCount} sentences; passive can hide who acted`
+    },
+    {
+      label: 'Source citations',
+      value: String(features.sourceCitations),
+      detail: 'Phrases like "said" or "according to"'
+    }
+  ]
+
+  return (
+    <div className="bg-white dark:bg-stone-900 border border-stone-200 dark:border-stone-800 rounded-lg p-6 transition-colors duration-300">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+        {metrics.map(metric => (
+          <div key={metric.label}>
+            <p className="text-xs uppercase tracking-wide text-stone-500 dark:text-stone-400">{metric.label}</p>
+            <p className="text-2xl font-semibold text-stone-900 dark:text-stone-100">{metric.value}</p>
+            <p className="text-xs text-stone-500 dark:text-stone-400">{metric.detail}</p>
+          </div>
+        ))}
+      </div>
+
+      {features.topLoadedTerms.length > 0 && (
+        <div className="mt-6 flex flex-wrap gap-2">
+          {features.topLoadedTerms.map(({ term, count }) => (
+            <span
+              key={term}
+              className="px-3 py-1 rounded-full text-sm bg-stone-100 dark:bg-stone-800 text-stone-700 dark:text-stone-300"
+            >
+              {term}{count > 1 && <span className="text-stone-400"> ×{count}</span>}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-stone-500 dark:text-stone-500 mt-4 italic">
+        Counted from word lists, no AI involved: the same text always gives the same numbers.
+      </p>
+    </div>
+  )
+}
@@ -1,25 +1,62 @@
 // lib/ai.ts
-import { GoogleGenAI } from '@google/genai'
+import { ContentListUnion, GenerateContentResponse, GoogleGenAI } from '@google/genai'
 import { createClient } from '@/utils/supabase/server'
-import { extract } from '@extractus/article-extractor'
 import { SupabaseClient } from '@supabase/supabase-js' // for typescript
 import { supabaseAdmin } from '@/utils/supabase/admin'
 import Groq from 'groq-sdk'
+import { getEnabledModels, ModelConfig, ProviderName } from '@/lib/models'
+import { parseAnalysisResponse } from '@/utils/validateAnalysis'
+import {
+  BiasCategoryPrompt,
+  BUILTIN_PROMPT_TEMPLATE,
+  BUILTIN_STRICT_PROMPT_TEMPLATE,
+  buildAnalysisPrompt,
+  buildRepairPrompt,
+  categorySetVersion,
+  getBuiltinPromptTemplate,
+  PromptTemplate,
+  promptTemplateHash,
+  promptVersionLabel
+} from '@/lib/prompts'
+import { loadActivePromptTemplates } from '@/lib/promptTemplates'
+import { addUsage, AnalysisRunRow, analysisRunRow, TokenUsage } from '@/lib/analysisRuns'
+import { analyzeWithOpenAICompatible, ChatSender, createChatCompletion } from '@/lib/openaiCompatible'
+import { analyzeWithMock, mockChatSender } from '@/lib/mockProvider'
+import {
+  callWithRetry,
+  CircuitBreaker,
+  classifyProviderError,
+  ProviderErrorKind
+} from '@/lib/providerResilience'
+import { getArticleContent } from '@/lib/articleContent'
+import { saveTextFeatures } from '@/lib/textFeatures'
+import { aggregateChunkAnalyses, chunkContent, MAX_CHUNKS } from '@/utils/chunkContent'
+import { articlePlainText, attachEvidence } from '@/utils/evidence'
 
 // The AI client automatically uses GEMINI_API_KEY from .env
 export const ai = new GoogleGenAI({})
 
 // Groq client for Llama models
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY
-})
+// Created on first use so local-only runs (LOCAL_LLM_ONLY) don't need GROQ_API_KEY
+let groqClient: Groq | null = null
+function getGroq(): Groq {
+  if (!groqClient) {
+    groqClient = new Groq({
+      apiKey: process.env.GROQ_API_KEY,
+      maxRetries: 0 // retries/backoff are ours (lib/providerResilience.ts)
+    })
+  }
+  return groqClient
+}
 
+// Default Gemini fallback order when no model list is passed to analyzeWithGemini()
 export const MODELS = [
   'gemini-2.5-flash',
   'gemini-2.5-flash-lite',
 ]
 
 // Groq models are now passed as parameters to analyzeWithGroq()
+// Which models run for each article is configured in lib/models.ts
 
 export function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms))
@@ -29,6 +66,17 @@ export interface AIScore {
   category: string
   score: number
   explanation: string
+  spread?: number           // chunked analyses only: max - min of the per-chunk scores
+  confidence?: number | null // model's self-reported confidence 0..1 (null = not given)
+  quotes?: string[]         // verbatim quotes the model cited (unverified)
+  evidence?: EvidenceQuote[] // quotes found in the article text, with offsets (saved to ai_scores.evidence)
+}
+
+// A quote located in articlePlainText() of the article (utils/evidence.ts)
+export interface EvidenceQuote {
+  quote: string
+  start: number // character offsets into the plain text
+  end: number
 }
 
 export interface AIAnalysis {
@@ -36,64 +84,365 @@ export interface AIAnalysis {
   summary: string
 }
 
+// Results of one article analysis, keyed by model ID (null = model failed)
+export type ModelAnalyses = Record<string, AIAnalysis | null>
+
+// Outcome of running one model on one article
+export interface ModelRun {
+  analysis: AIAnalysis | null
+  validationErrors: string[] // errors from the first reply that failed validation (empty = valid as returned)
+  repaired: boolean          // true if the repair re-prompt turned an invalid reply into a valid one
+  rawResponses: string[]     // every reply text in order, repair replies included (saved to analysis_runs)
+  usage: TokenUsage | null   // summed over all calls (null = provider didn't report usage)
+  latencyMs: number
+  error: string | null       // provider error that ended the run (HTTP error, timeout, empty reply)
+  errorKind: ProviderErrorKind | null // why the run failed (null = succeeded)
+  retries: number            // requests retried after transient failures (rate limit, timeout, 5xx)
+  promptHash: string | null  // promptTemplateHash() of the prompt sent (null = nothing was sent)
+}
+
+// How much of the article a model saw (stored in ai_scores.content_mode)
+export type ContentMode = 'whole' | 'truncated' | 'chunked'
+
+// ModelRun for a whole article, after truncation/chunking
+export interface ArticleModelRun extends ModelRun {
+  contentMode: ContentMode
+  chunkCount: number             // chunks that were scored (1 unless chunked)
+  omittedChars: number           // content the model never saw: cut by truncation or past MAX_CHUNKS
+  analysisRunId?: string | null  // analysis_runs.id once recorded
+  scoresSaved?: boolean          // the full category set was written to the score table
+}
+
 /**
- * Helper function to save AI model scores to database
+ * Thrown by analyzeArticle when no model produced scores
+ * Carries the runs so batch stats can still count why each model failed
  */
-async function saveModelScores(
+export class AllModelsFailedError extends Error {
+  runs: Record<string, ArticleModelRun>
+
+  constructor(runs: Record<string, ArticleModelRun>) {
+    super('All AI models failed to analyze')
+    this.name = 'AllModelsFailedError'
+    this.runs = runs
+  }
+}
+
+export interface ArticleAnalysisResult {
+  analyses: ModelAnalyses
+  runs: Record<string, ArticleModelRun>
+  contentExtractedAt: string | null // when the analyzed text was scraped (null = content passed in)
+}
+
+/**
+ * Adapter that runs one registry model against article content.
+ * Each ProviderName in lib/models.ts must have an adapter here.
+ */
+export interface ProviderAdapter {
+  analyze(
+    content: string,
+    biasCategories: BiasCategoryPrompt[],
+    model: ModelConfig,
+    template: PromptTemplate
+  ): Promise<ModelRun>
+}
+
+const PROVIDERS: Record<ProviderName, ProviderAdapter> = {
+  gemini: {
+    analyze: (content, biasCategories, model, template) =>
+      analyzeWithGemini(
+        model.maxContentChars ? truncateContent(content, model.maxContentChars) : content,
+        biasCategories,
+        [model.id, ...(model.fallbackModels || [])],
+        template
+      )
+  },
+  groq: {
+    analyze: (content, biasCategories, model, template) =>
+      analyzeWithGroq(content, biasCategories, model.id, model.maxContentChars, template)
+  },
+  'openai-compatible': {
+    analyze: (content, biasCategories, model, template) =>
+      analyzeWithOpenAICompatible(
+        model.maxContentChars ? truncateContent(content, model.maxContentChars) : content,
+        biasCategories,
+        model,
+        template
+      )
+  },
+  mock: {
+    analyze: (content, biasCategories, model, template) =>
+      analyzeWithMock(
+        model.maxContentChars ? truncateContent(content, model.maxContentChars) : content,
+        biasCategories,
+        model,
+        template
+      )
+  }
+}
+
+/**
+ * Run one registry model on a full article
+ *
+ * Content over the model's maxContentChars is either truncated (default) or, with
+ * longContentMode: 'chunk', split on paragraph boundaries and scored chunk by chunk.
+ * Chunk scores are merged with a length-weighted mean (see utils/chunkContent.ts).
+ *
+ * No call is started after `deadline`; a chunked run cut short by it fails as a whole
+ * rather than saving scores for part of the article.
+ */
+export async function runModel(
+  content: string,
+  biasCategories: BiasCategoryPrompt[],
+  model: ModelConfig,
+  template: PromptTemplate = getBuiltinPromptTemplate(model.provider),
+  circuitBreaker?: CircuitBreaker, // shared across a batch: skip providers that keep failing
+  deadline?: number // epoch ms: calls not started by then are skipped (job worker time budget)
+): Promise<ArticleModelRun> {
+  const adapter = PROVIDERS[model.provider]
+
+  // Runs the adapter unless the provider's circuit is open or time is up, and reports the outcome to the breaker
+  const analyze = async (text: string): Promise<ModelRun> => {
+    if (circuitBreaker?.isOpen(model.provider)) {
+      console.warn(`[AI] ⚠️ ${model.id}: skipped, circuit open for ${model.provider}`)
+      return skippedRun(`Circuit open for ${model.provider}`, 'circuit_open')
+    }
+    if (deadline !== undefined && Date.now() >= deadline) {
+      console.warn(`[AI] ⚠️ ${model.id}: skipped, time budget used up`)
+      return skippedRun('Time budget used up before the call started', 'deadline')
+    }
+    const run = await adapter.analyze(text, biasCategories, model, template)
+    circuitBreaker?.record(model.provider, run.errorKind)
+    return run
+  }
+
+  if (!model.maxContentChars || content.length <= model.maxContentChars) {
+    return { ...(await analyze(content)), contentMode: 'whole', chunkCount: 1, omittedChars: 0 }
+  }
+
+  if (model.longContentMode !== 'chunk') {
+    // Adapters cut the content to maxContentChars themselves, often short of it at a sentence end
+    const omittedChars = content.length - truncateContent(content, model.maxContentChars).length
+    return { ...(await analyze(content)), contentMode: 'truncated', chunkCount: 1, omittedChars }
+  }
+
+  // Chunk everything first so the text past MAX_CHUNKS can be measured and recorded
+  const allChunks = chunkContent(content, model.maxContentChars, Number.POSITIVE_INFINITY)
+  const chunks = allChunks.slice(0, MAX_CHUNKS)
+  const omittedChars = allChunks.slice(MAX_CHUNKS).reduce((sum, chunk) => sum + chunk.length, 0)
+  console.log(`[AI] ${model.id}: splitting ${content.length} chars into ${chunks.length} chunks`)
+  if (omittedChars > 0) {
+    console.warn(`[AI] ⚠️ ${model.id}: chunk limit reached, ${allChunks.length - chunks.length} chunks (~${omittedChars} chars) will not be analyzed`)
+  }
+
+  // One chunk at a time per model (parallel chunks would hit provider rate limits)
+  const chunkRuns: ModelRun[] = []
+  for (const chunk of chunks) {
+    chunkRuns.push(await analyze(chunk))
+  }
+
+  const validationErrors = chunkRuns.flatMap(run => run.validationErrors)
+  const succeeded = chunkRuns
+    .map((run, i) => ({ analysis: run.analysis, length: chunks[i].length }))
+    .filter((chunk): chunk is { analysis: AIAnalysis; length: number } => !!chunk.analysis)
+
+  // Run record fields summed/merged over the chunks
+  const combined = {
+    validationErrors,
+    rawResponses: chunkRuns.flatMap(run => run.rawResponses),
+    usage: chunkRuns.reduce<TokenUsage | null>((total, run) => addUsage(total, run.usage), null),
+    latencyMs: chunkRuns.reduce((total, run) => total + run.latencyMs, 0),
+    retries: chunkRuns.reduce((total, run) => total + run.retries, 0),
+    promptHash: chunkRuns.find(run => run.promptHash)?.promptHash || null,
+    contentMode: 'chunked' as const,
+    omittedChars
+  }
+
+  const outOfTime = chunkRuns.find(run => run.errorKind === 'deadline')
+  if (outOfTime && succeeded.length > 0) {
+    console.error(`[AI] ❌ ${model.id}: time budget used up after ${succeeded.length}/${chunks.length} chunks`)
+    return { ...combined, analysis: null, repaired: false, error: outOfTime.error, errorKind: 'deadline', chunkCount: 0 }
+  }
+
+  if (succeeded.length === 0) {
+    console.error(`[AI] ❌ ${model.id}: all ${chunks.length} chunks failed`)
+    const failed = chunkRuns.find(run => run.errorKind) || chunkRuns[0]
+    return { ...combined, analysis: null, repaired: false, error: failed.error, errorKind: failed.errorKind, chunkCount: 0 }
+  }
+
+  if (succeeded.length < chunks.length) {
+    console.warn(`[AI] ⚠️ ${model.id}: ${chunks.length - succeeded.length}/${chunks.length} chunks failed, aggregating the rest`)
+  }
+
+  return {
+    ...combined,
+    analysis: aggregateChunkAnalyses(succeeded, biasCategories.map(c => c.name)),
+    repaired: chunkRuns.some(run => run.repaired),
+    error: null,
+    errorKind: null,
+    chunkCount: succeeded.length
+  }
+}
+
+// Run for a call that was skipped (circuit breaker or deadline): nothing was sent
+function skippedRun(error: string, errorKind: ProviderErrorKind): ModelRun {
+  return {
+    analysis: null,
+    validationErrors: [],
+    repaired: false,
+    rawResponses: [],
+    usage: null,
+    latencyMs: 0,
+    error,
+    errorKind,
+    retries: 0,
+    promptHash: null
+  }
+}
+
+/**
+ * Plain chat access to a registry model, for prompts other than the bias analysis
+ * (e.g. sentence annotations, lib/passageAnnotations.ts). The caller parses the reply
+ * and wraps calls in callWithRetry(); only the primary model is used, no fallbacks.
+ *
+ * @param mockReply - what the mock provider answers when no reply is scripted
+ */
+export function chatSenderFor(model: ModelConfig, mockReply: () => string = () => '{}'): ChatSender {
+  switch (model.provider) {
+    case 'gemini':
+      return async (messages, timeoutMs) => {
+        const response = await ai.models.generateContent({
+          model: model.id,
+          contents: messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+          config: { httpOptions: { timeout: timeoutMs } }
+        })
+        return { text: response.text || null, usage: geminiUsage(response.usageMetadata) }
+      }
+    case 'groq':
+      return async (messages, timeoutMs) => {
+        const response = await getGroq().chat.completions.create(
+          { model: model.id, messages, temperature: 0.3, max_tokens: 1500 },
+          { timeout: timeoutMs }
+        )
+        return { text: response.choices[0]?.message?.content || null, usage: groqUsage(response.usage) }
+      }
+    case 'openai-compatible':
+      return (messages, timeoutMs) => {
+        if (!model.baseUrl) throw new Error('No baseUrl configured (set LOCAL_LLM_BASE_URL)')
+        return createChatCompletion(model.baseUrl, model.providerModel || model.id, messages, timeoutMs)
+      }
+    case 'mock':
+      return mockChatSender(model, mockReply)
+  }
+}
+
+// Archived articles keep their scores in archived_ai_scores (same columns)
+export type ScoreTable = 'ai_scores' | 'archived_ai_scores'
+
+// Outcome of saveModelScores
+export interface ScoreSaveResult {
+  saved: boolean               // the model's category set was written
+  analysisRunId: string | null // analysis_runs.id (null = no run given, or nothing was saved)
+}
+
+/**
+ * Save one model's scores and its run record in a single transaction
+ *
+ * The save_model_scores function (20261019148000_save_model_scores.sql) inserts the
+ * analysis_runs row, clears is_current on the rows being replaced and inserts the
+ * new rows as score_version = previous + 1, so re-analysis adds history instead of
+ * duplicate rows in every average. All of it is written or none of it.
+ *
+ * Saves of the same article and model take turns on a lock inside the function, so
+ * two overlapping saves become two versions instead of one overwriting the other.
+ * A model with no usable scores (failed run) only gets its run recorded.
+ */
+export async function saveModelScores(
   analysis: AIAnalysis | null,
   modelName: string,
   mediaId: string,
   categories: Array<{ id: string; name: string }>,
-  supabaseClient: SupabaseClient
-) {
-  if (!analysis || !analysis.scores || analysis.scores.length === 0) return
-
-  for (const score of analysis.scores) {
+  supabaseClient: SupabaseClient,
+  details: {
+    contentMode?: ContentMode
+    run?: AnalysisRunRow | null    // analysisRunRow() of the run that produced the scores
+    promptVersion?: string | null // promptVersionLabel() of the template used
+    table?: ScoreTable
+  } = {}
+): Promise<ScoreSaveResult> {
+  const { contentMode = 'whole', run = null, promptVersion = null, table = 'ai_scores' } = details
+
+  const scores: Array<Record<string, unknown>> = []
+  for (const score of analysis?.scores || []) {
     const category = categories.find(c => c.name === score.category)
     if (!category) {
       console.warn(`Category not found for score: ${score.category}`)
       continue
     }
 
-    const { error: scoreError } = await supabaseClient
-      .from('ai_scores')
-      .insert({
-        media_id: mediaId,
-        category_id: category.id,
-        score: score.score,
-        explanation: score.explanation,
-        model_name: modelName
-      })
+    scores.push({
+      category_id: category.id,
+      score: score.score,
+      explanation: score.explanation,
+      content_mode: contentMode,
+      chunk_spread: score.spread ?? null,
+      confidence: score.confidence ?? null,
+      evidence: score.evidence || [],
+      prompt_version: promptVersion
+    })
+  }
 
-    if (scoreError) {
-      console.error(`Error saving ${modelName} score:`, scoreError)
-    }
+  if (scores.length === 0 && !run) return { saved: false, analysisRunId: null }
+
+  const { data: analysisRunId, error } = await supabaseClient.rpc('save_model_scores', {
+    score_table: table,
+    target_media_id: mediaId,
+    target_model_name: modelName,
+    run,
+    scores
+  })
+
+  if (error) {
+    console.error(`Error saving ${modelName} scores:`, error)
+    return { saved: false, analysisRunId: null }
   }
+
+  return { saved: scores.length > 0, analysisRunId: (analysisRunId as string | null) ?? null }
 }
 
 /**
  * Analyze an article for bias and save scores to Supabase
  * NOTE: Takes in mediaId to avoid inserting media here (separation of concerns)
- * Returns results from 4 AI models: Gemini, Qwen, GPT-OSS, and Llama Maverick
+ * Returns results from every enabled model in lib/models.ts (or the `models` subset), keyed by model ID
  */
 export async function analyzeArticle({
   mediaId,
   url,
   title,
   source,
-  supabaseClient
+  supabaseClient,
+  content,
+  forceRefresh = false,
+  promptTemplate,
+  circuitBreaker,
+  models = getEnabledModels(),
+  categoryIds,
+  scoreTable = 'ai_scores',
+  deadline
 }: {
   mediaId: string
   url: string
   title: string
   source: string
   supabaseClient: SupabaseClient
-}): Promise<{
-  gemini: AIAnalysis | null
-  qwen: AIAnalysis | null
-  gptOss: AIAnalysis | null
-  llamaMaverick: AIAnalysis | null
-}> {
+  content?: string       // pre-fetched article text (skips the content cache entirely)
+  forceRefresh?: boolean // re-scrape the URL even if media_content has a cached copy
+  promptTemplate?: PromptTemplate // use this template for every model instead of the active ones (A/B runs)
+  circuitBreaker?: CircuitBreaker // batch-wide breaker (see analyzeArticlesBatch)
+  models?: ModelConfig[] // subset of enabled models to run (job retries only re-run models that failed)
+  categoryIds?: string[] // score only these bias categories (e.g. a newly added one)
+  scoreTable?: ScoreTable // archived_ai_scores when re-analyzing an archived article
+  deadline?: number      // epoch ms: don't start model calls after this (see runModel)
+}): Promise<ArticleAnalysisResult> {
   const analysisStartTime = Date.now()
   console.log(`[AI] ---- Starting analysis for article: ${mediaId} ----`)
   console.log(`[AI] Title: ${title.substring(0, 80)}...`)
@@ -106,10 +455,13 @@ export async function analyzeArticle({
     throw new Error('Missing required fields: mediaId, url, title, source')
   }
 
-  // Fetch article content
+  // Fetch article content (cached in media_content, so re-analysis never re-scrapes)
   console.log(`[AI] Fetching article content...`)
   const fetchStartTime = Date.now()
-  const articleContent = await fetchArticleContent(url)
+  const cachedContent = content
+    ? null
+    : await getArticleContent({ mediaId, url, supabaseClient, forceRefresh })
+  const articleContent = content || cachedContent?.content
   const fetchDuration = Date.now() - fetchStartTime
 
   if (!articleContent) {
@@ -118,176 +470,229 @@ export async function analyzeArticle({
   }
   console.log(`[AI] ✓ Article content fetched in ${fetchDuration}ms (${articleContent.length} chars)`)
 
+  // Lexicon features need no model, so store them before any provider can fail
+  const articleText = articlePlainText(articleContent)
+  await saveTextFeatures(mediaId, articleText, supabaseClient)
+
   // Get bias categories from database (including descriptions for dynamic prompts)
   console.log(`[AI] Fetching bias categories from database...`)
-  const { data: categories, error: categoriesError } = await supabaseClient
+  const { data: allCategories, error: categoriesError } = await supabaseClient
     .from('bias_categories')
     .select('id, name, description')
 
-  if (categoriesError || !categories) {
+  if (categoriesError || !allCategories) {
     console.error(`[AI] ❌ Could not fetch bias categories:`, categoriesError)
     throw new Error('Could not fetch bias categories')
   }
+
+  const categories = categoryIds ? allCategories.filter(c => categoryIds.includes(c.id)) : allCategories
+  if (categories.length === 0) {
+    console.error(`[AI] ❌ None of the requested categories exist: ${categoryIds?.join(', ')}`)
+    throw new Error('No bias categories to score')
+  }
   console.log(`[AI] ✓ Found ${categories.length} bias categories: ${categories.map(c => c.name).join(', ')}`)
 
-  // Run ALL 4 models in parallel (pass full category objects with descriptions)
-  console.log(`[AI] Starting parallel analysis with 4 models...`)
+  // Active prompt template per provider (prompt_templates table, built-in fallback)
+  const activeTemplates = promptTemplate ? null : await loadActivePromptTemplates(supabaseClient)
+  const templateFor = (model: ModelConfig) => promptTemplate || activeTemplates![model.provider]
+
+  // Run the models in parallel (pass full category objects with descriptions)
+  console.log(`[AI] Starting parallel analysis with ${models.length} models...`)
   const parallelStartTime = Date.now()
 
-  const [geminiAnalysis, qwenAnalysis, gptOssAnalysis, llamaMaverickAnalysis] = await Promise.all([
-    analyzeWithGemini(articleContent, categories),
-    analyzeWithGroq(articleContent, categories, 'qwen/qwen3-32b'),
-    analyzeWithGroq(articleContent, categories, 'openai/gpt-oss-120b'),
-    analyzeWithGroq(articleContent, categories, 'meta-llama/llama-4-maverick-17b-128e-instruct')
-  ])
+  const modelRuns = await Promise.all(
+    models.map(model => runModel(articleContent, categories, model, templateFor(model), circuitBreaker, deadline))
+  )
+  const analyses = modelRuns.map(run => run.analysis)
 
   const parallelDuration = Date.now() - parallelStartTime
   console.log(`[AI] Parallel analysis completed in ${parallelDuration}ms`)
   console.log(`[AI] Model results:`)
-  console.log(`[AI]   - Gemini: ${geminiAnalysis ? '✓ SUCCESS' : '❌ FAILED'}`)
-  console.log(`[AI]   - Qwen: ${qwenAnalysis ? '✓ SUCCESS' : '❌ FAILED'}`)
-  console.log(`[AI]   - GPT-OSS: ${gptOssAnalysis ? '✓ SUCCESS' : '❌ FAILED'}`)
-  console.log(`[AI]   - Llama Maverick: ${llamaMaverickAnalysis ? '✓ SUCCESS' : '❌ FAILED'}`)
+  models.forEach((model, i) => {
+    const run = modelRuns[i]
+    const repairNote = run.repaired ? ' (after repair prompt)' : ''
+    const contentNote = run.contentMode === 'chunked' ? ` [chunked: ${run.chunkCount} chunks${run.omittedChars > 0 ? `, ${run.omittedChars} chars left out` : ''}]` : run.contentMode === 'truncated' ? ' [truncated]' : ''
+    const retryNote = run.retries > 0 ? ` (${run.retries} retries)` : ''
+    const failureNote = run.errorKind ? ` [${run.errorKind}]` : ''
+    console.log(`[AI]   - ${model.displayName}: ${analyses[i] ? '✓ SUCCESS' : '❌ FAILED'}${failureNote}${repairNote}${retryNote}${contentNote}`)
+  })
+
+  // Keep only evidence quotes that really appear in the article, with their offsets
+  models.forEach((model, i) => {
+    if (!analyses[i]) return
+    const { discarded } = attachEvidence(analyses[i], articleText)
+    if (discarded > 0) {
+      console.warn(`[AI] ⚠️ ${model.displayName}: discarded ${discarded} quotes not found in the article`)
+    }
+  })
+
+  // Save every model's run (failed ones too) with its scores before anything can throw
+  console.log(`[AI] Saving runs and scores to database...`)
+  const saveStartTime = Date.now()
+  const categoryVersion = categorySetVersion(categories)
+
+  const saves = await Promise.all(
+    models.map((model, i) =>
+      saveModelScores(analyses[i], model.id, mediaId, categories, supabaseClient, {
+        contentMode: modelRuns[i].contentMode,
+        run: analysisRunRow({
+          mediaId,
+          modelName: model.id,
+          run: modelRuns[i],
+          fingerprint: {
+            promptVersion: promptVersionLabel(templateFor(model)),
+            promptTemplateId: templateFor(model).id,
+            categorySetVersion: categoryVersion
+          },
+          contentChars: articleContent.length
+        }),
+        promptVersion: promptVersionLabel(templateFor(model)),
+        table: scoreTable
+      })
+    )
+  )
+  modelRuns.forEach((run, i) => {
+    run.analysisRunId = saves[i].analysisRunId
+    run.scoresSaved = saves[i].saved
+  })
 
   // Check if at least one succeeded
-  const successCount = [geminiAnalysis, qwenAnalysis, gptOssAnalysis, llamaMaverickAnalysis].filter(Boolean).length
-  console.log(`[AI] ${successCount}/4 models succeeded`)
+  const successCount = analyses.filter(Boolean).length
+  console.log(`[AI] ${successCount}/${models.length} models succeeded`)
 
   if (successCount === 0) {
     console.error(`[AI] ❌ All AI models failed to analyze article ${mediaId}`)
-    throw new Error('All AI models failed to analyze')
+    throw new AllModelsFailedError(Object.fromEntries(models.map((model, i) => [model.id, modelRuns[i]])))
   }
 
-  // Save all model scores in parallel
-  console.log(`[AI] Saving scores to database...`)
-  const saveStartTime = Date.now()
-
-  await Promise.all([
-    saveModelScores(geminiAnalysis, 'gemini-2.5-flash', mediaId, categories, supabaseClient),
-    saveModelScores(qwenAnalysis, 'qwen/qwen3-32b', mediaId, categories, supabaseClient),
-    saveModelScores(gptOssAnalysis, 'openai/gpt-oss-120b', mediaId, categories, supabaseClient),
-    saveModelScores(llamaMaverickAnalysis, 'meta-llama/llama-4-maverick-17b-128e-instruct', mediaId, categories, supabaseClient)
-  ])
-
   const saveDuration = Date.now() - saveStartTime
+  const unsaved = models.filter((_, i) => analyses[i] && !saves[i].saved).map(model => model.id)
+  if (unsaved.length > 0) {
+    console.error(`[AI] ❌ Scores not saved for: ${unsaved.join(', ')}`)
+  }
   console.log(`[AI] ✓ Scores saved in ${saveDuration}ms`)
 
   const totalDuration = Date.now() - analysisStartTime
   console.log(`[AI] ---- Analysis complete for ${mediaId} in ${totalDuration}ms ----`)
 
-  // Return ALL 4 analyses
-  return {
-    gemini: geminiAnalysis,
-    qwen: qwenAnalysis,
-    gptOss: gptOssAnalysis,
-    llamaMaverick: llamaMaverickAnalysis
-  }
-}
-
-// function to fetch article content from internet based on a URL
-async function fetchArticleContent(url: string): Promise<string | null> {
-  try {
-    // Using extract() to get clean article text (no ads, nav, etc.)
-    const article = await extract(url)
-
-    if (!article?.content) {
-      return null
-    }
-
-    return article.content
-  } catch (error) {
-    console.error('Error fetching article content:', error)
-    return null
+  // Return ALL analyses (and run details) keyed by model ID
+  const results: ArticleAnalysisResult = {
+    analyses: {},
+    runs: {},
+    contentExtractedAt: cachedContent?.extracted_at || null
   }
+  models.forEach((model, i) => {
+    results.analyses[model.id] = analyses[i]
+    results.runs[model.id] = modelRuns[i]
+  })
+  return results
 }
 
 // function to analyze with Gemini Flash
 export async function analyzeWithGemini(
   content: string,
-  biasCategories: Array<{ name: string; description: string }>
-): Promise<AIAnalysis | null> {
+  biasCategories: BiasCategoryPrompt[],
+  models: string[] = MODELS,
+  template: PromptTemplate = BUILTIN_PROMPT_TEMPLATE
+): Promise<ModelRun> {
   const startTime = Date.now()
   console.log(`[Gemini] Starting analysis...`)
   console.log(`[Gemini] Content length: ${content.length} chars`)
   console.log(`[Gemini] Categories: ${biasCategories.map(c => c.name).join(', ')}`)
 
   // Build dynamic prompt from database category descriptions
-  const categoryInstructions = biasCategories
-    .map((cat, index) => `${index + 1}. ${cat.name.toUpperCase()}:\n${cat.description}`)
-    .join('\n\n')
-
-  const categoryList = biasCategories.map(c => c.name).join(', ')
-
-  const exampleScores = biasCategories
-    .map(cat => `    { "category": "${cat.name}", "score": 0.0, "explanation": "Brief explanation referencing specific article content" }`)
-    .join(',\n')
-
-  for (const model of MODELS) {
+  const categoryNames = biasCategories.map(c => c.name)
+  const prompt = buildAnalysisPrompt(content, biasCategories, template)
+
+  // Validation errors from the first invalid reply (reported even if a fallback model succeeds)
+  let firstValidationErrors: string[] = []
+
+  // Run record fields, accumulated across fallback models
+  const rawResponses: string[] = []
+  let usage: TokenUsage | null = null
+  let lastError: string | null = null
+  let lastErrorKind: ProviderErrorKind | null = null
+  let retries = 0
+
+  const finish = (analysis: AIAnalysis | null, repaired: boolean): ModelRun => ({
+    analysis,
+    validationErrors: firstValidationErrors,
+    repaired,
+    rawResponses,
+    usage,
+    latencyMs: Date.now() - startTime,
+    error: analysis ? null : lastError,
+    errorKind: analysis ? null : lastErrorKind,
+    retries,
+    promptHash: promptTemplateHash(biasCategories, template)
+  })
+
+  for (const model of models) {
     const modelStartTime = Date.now()
     console.log(`[Gemini] Trying model: ${model}`)
 
-    try {
-      const response = await ai.models.generateContent({
-        model,
-        contents: `
-You are an expert media bias analyst. Analyze this article for bias across multiple categories.
-
-Article content:
-${content}
-
-SCORING INSTRUCTIONS:
-Score each bias category from -1 to +1 using the scales defined below.
-
-${categoryInstructions}
+    // Timeout + backoff on 429/5xx (lib/providerResilience.ts)
+    const generate = (contents: ContentListUnion) => callWithRetry(
+      timeoutMs => ai.models.generateContent({ model, contents, config: { httpOptions: { timeout: timeoutMs } } }),
+      { provider: 'gemini', logPrefix: `[Gemini:${model}]`, onRetry: () => { retries++ } }
+    )
 
-Categories to score: ${categoryList}
-
-IMPORTANT:
-- You MUST score ALL categories listed above: ${categoryList}
-- Be precise with scores (use decimals like 0.3, -0.7, etc.)
-- Each category should be scored independently
-- Provide a brief, specific explanation for each score
-- Base your analysis ONLY on the article content provided
-
-Return ONLY valid JSON with no markdown, no code blocks, no extra text.
-Format:
-{
-  "scores": [
-${exampleScores}
-  ],
-  "summary": "One sentence summary of overall bias"
-}
-        `
-      })
+    try {
+      const response = await generate(prompt)
+      usage = addUsage(usage, geminiUsage(response.usageMetadata))
 
       const modelDuration = Date.now() - modelStartTime
 
       if (!response.text) {
-        console.error(`[Gemini] ❌ Model ${model} returned no text after ${modelDuration}ms`)
+        const blocked = isGeminiBlocked(response)
+        console.error(`[Gemini] ❌ Model ${model} returned no text after ${modelDuration}ms${blocked ? ' (blocked by safety filter)' : ''}`)
+        lastError = `${model}: ${blocked ? 'blocked by safety filter' : 'empty response'}`
+        lastErrorKind = blocked ? 'content_filter' : 'parse_error'
         continue // skip to the next ai model
       }
 
+      rawResponses.push(response.text)
       console.log(`[Gemini] Response received in ${modelDuration}ms, length: ${response.text.length} chars`)
 
-      let jsonText = response.text
-      if (jsonText.startsWith('```')) {
-        console.log(`[Gemini] Cleaning markdown code blocks from response`)
-        jsonText = jsonText
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .trim()
+      let result = parseAnalysisResponse(response.text, categoryNames)
+      let repaired = false
+
+      // One-shot repair: send the validation errors back to the same model
+      if (!result.analysis) {
+        if (firstValidationErrors.length === 0) firstValidationErrors = result.errors
+        console.warn(`[Gemini] ⚠️ ${model} reply failed validation: ${result.errors.join('; ')}`)
+        console.log(`[Gemini] Sending repair prompt to ${model}...`)
+
+        const repairResponse = await generate([
+          { role: 'user', parts: [{ text: prompt }] },
+          { role: 'model', parts: [{ text: response.text }] },
+          { role: 'user', parts: [{ text: buildRepairPrompt(result.errors, categoryNames) }] }
+        ])
+        usage = addUsage(usage, geminiUsage(repairResponse.usageMetadata))
+        rawResponses.push(repairResponse.text || '')
+
+        result = parseAnalysisResponse(repairResponse.text || '', categoryNames)
+        if (!result.analysis) {
+          console.error(`[Gemini] ❌ Repair reply from ${model} still invalid: ${result.errors.join('; ')}`)
+          lastErrorKind = 'parse_error'
+          continue // skip to the next ai model
+        }
+        repaired = true
+        console.log(`[Gemini] ✓ Repair prompt fixed ${model} reply`)
       }
 
-      const data: AIAnalysis = JSON.parse(jsonText)
+      const data = result.analysis
       const totalDuration = Date.now() - startTime
       console.log(`[Gemini] ✓ Analysis SUCCESS with ${model} in ${totalDuration}ms`)
       console.log(`[Gemini] Scores: ${data.scores.map(s => `${s.category}=${s.score}`).join(', ')}`)
       console.log(`[Gemini] Summary: ${data.summary}`)
-      return data
+      return finish(data, repaired)
     } catch (error) {
       const modelDuration = Date.now() - modelStartTime
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-      console.error(`[Gemini] ❌ Error with ${model} after ${modelDuration}ms: ${errorMessage}`)
+      lastError = `${model}: ${errorMessage}`
+      lastErrorKind = classifyProviderError(error).kind
+      console.error(`[Gemini] ❌ ${lastErrorKind} error with ${model} after ${modelDuration}ms: ${errorMessage}`)
       if (error instanceof Error && error.stack) {
         console.error(`[Gemini] Stack: ${error.stack.split('\n').slice(0, 3).join('\n')}`)
       }
@@ -296,14 +701,27 @@ ${exampleScores}
 
   const totalDuration = Date.now() - startTime
   console.error(`[Gemini] ❌ All models failed after ${totalDuration}ms`)
-  return null
+  return finish(null, false)
+}
+
+// Gemini returns no text when the prompt or the reply trips a safety filter
+function isGeminiBlocked(response: GenerateContentResponse): boolean {
+  const finishReason = response.candidates?.[0]?.finishReason
+  return !!response.promptFeedback?.blockReason ||
+    ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII'].includes(finishReason || '')
+}
+
+// Gemini reports usage as usageMetadata (counts may be missing on errors)
+function geminiUsage(metadata?: { promptTokenCount?: number; candidatesTokenCount?: number }): TokenUsage | null {
+  if (!metadata) return null
+  return { promptTokens: metadata.promptTokenCount || 0, completionTokens: metadata.candidatesTokenCount || 0 }
 }
 
 /**
  * Truncate content to fit within token limits while preserving meaning
  * Uses character-based estimation: ~4 chars per token
  */
-function truncateContent(content: string, maxChars: number): string {
+export function truncateContent(content: string, maxChars: number): string {
   if (content.length <= maxChars) {
     return content
   }
@@ -329,18 +747,19 @@ function truncateContent(content: string, maxChars: number): string {
 // function to analyze with Groq (supports multiple Groq models)
 export async function analyzeWithGroq(
   content: string,
-  biasCategories: Array<{ name: string; description: string }>,
-  modelName: string
-): Promise<AIAnalysis | null> {
+  biasCategories: BiasCategoryPrompt[],
+  modelName: string,
+  maxContentChars: number | null = 12000,
+  template: PromptTemplate = BUILTIN_STRICT_PROMPT_TEMPLATE
+): Promise<ModelRun> {
   const startTime = Date.now()
   const shortModelName = modelName.split('/').pop() || modelName
   console.log(`[Groq:${shortModelName}] Starting analysis...`)
   console.log(`[Groq:${shortModelName}] Original content length: ${content.length} chars`)
 
-  // Truncate content to fit token limits
+  // Truncate content to fit token limits (limit comes from the model registry)
   // Conservative limits: ~4 chars per token, leaving room for prompt overhead
-  const MAX_CONTENT_CHARS = 12000 // ~3000 tokens for content, rest for prompt/response
-  const truncatedContent = truncateContent(content, MAX_CONTENT_CHARS)
+  const truncatedContent = maxContentChars ? truncateContent(content, maxContentChars) : content
 
   if (truncatedContent.length < content.length) {
     console.log(`[Groq:${shortModelName}] ⚠️ Content truncated from ${content.length} to ${truncatedContent.length} chars`)
@@ -349,60 +768,47 @@ export async function analyzeWithGroq(
   console.log(`[Groq:${shortModelName}] Analysis content length: ${truncatedContent.length} chars`)
 
   // Build dynamic prompt from database category descriptions
-  const categoryInstructions = biasCategories
-    .map((cat, index) => `${index + 1}. ${cat.name.toUpperCase()}:\n${cat.description}`)
-    .join('\n\n')
-
-  const categoryList = biasCategories.map(c => c.name).join(', ')
-
-  const exampleScores = biasCategories
-    .map(cat => `    { "category": "${cat.name}", "score": 0.0, "explanation": "Brief explanation referencing specific article content" }`)
-    .join(',\n')
+  const categoryNames = biasCategories.map(c => c.name)
+  const prompt = buildAnalysisPrompt(truncatedContent, biasCategories, template)
+
+  let validationErrors: string[] = []
+  const rawResponses: string[] = []
+  let usage: TokenUsage | null = null
+  let retries = 0
+
+  const finish = (
+    analysis: AIAnalysis | null,
+    repaired: boolean,
+    error: string | null = null,
+    errorKind: ProviderErrorKind | null = analysis ? null : 'parse_error'
+  ): ModelRun => ({
+    analysis,
+    validationErrors,
+    repaired,
+    rawResponses,
+    usage,
+    latencyMs: Date.now() - startTime,
+    error,
+    errorKind,
+    retries,
+    promptHash: promptTemplateHash(biasCategories, template)
+  })
+
+  // Timeout + backoff on 429/5xx (lib/providerResilience.ts)
+  const complete = (messages: Array<{ role: 'user' | 'assistant'; content: string }>) => callWithRetry(
+    timeoutMs => getGroq().chat.completions.create(
+      { model: modelName, messages, temperature: 0.3, max_tokens: 1500 },
+      { timeout: timeoutMs }
+    ),
+    { provider: 'groq', logPrefix: `[Groq:${shortModelName}]`, onRetry: () => { retries++ } }
+  )
 
   try {
     console.log(`[Groq:${shortModelName}] Sending request to Groq API...`)
     const apiStartTime = Date.now()
 
-    const response = await groq.chat.completions.create({
-      model: modelName,
-      messages: [
-        {
-          role: 'user',
-          content: `
-You are an expert media bias analyst. Analyze this article for bias across multiple categories.
-
-Article content:
-${truncatedContent}
-
-SCORING INSTRUCTIONS:
-Score each bias category from -1 to +1 using the scales defined below.
-
-${categoryInstructions}
-
-Categories to score: ${categoryList}
-
-IMPORTANT:
-- You MUST score ALL categories listed above: ${categoryList}
-- Be precise with scores (use decimals like 0.3, -0.7, etc.)
-- Each category should be scored independently
-- Provide a brief, specific explanation for each score
-- Base your analysis ONLY on the article content provided
-
-Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
-DO NOT include <think> tags or reasoning - output ONLY the JSON object.
-Format:
-{
-  "scores": [
-${exampleScores}
-  ],
-  "summary": "One sentence summary of overall bias"
-}
-          `
-        }
-      ],
-      temperature: 0.3,
-      max_tokens: 1500
-    })
+    const response = await complete([{ role: 'user', content: prompt }])
+    usage = addUsage(usage, groqUsage(response.usage))
 
     const apiDuration = Date.now() - apiStartTime
     console.log(`[Groq:${shortModelName}] API response received in ${apiDuration}ms`)
@@ -410,55 +816,65 @@ ${exampleScores}
     const text = response.choices[0]?.message?.content
     if (!text) {
       console.error(`[Groq:${shortModelName}] ❌ Returned no text`)
-      return null
+      return finish(null, false, 'Empty response')
     }
 
+    rawResponses.push(text)
     console.log(`[Groq:${shortModelName}] Response length: ${text.length} chars`)
 
-    // Clean up markdown and XML tags if present
-    let jsonText = text
-
-    // Remove markdown code blocks
-    if (jsonText.startsWith('```')) {
-      console.log(`[Groq:${shortModelName}] Cleaning markdown code blocks`)
-      jsonText = jsonText
-        .replace(/```json\n?/g, '')
-        .replace(/```\n?/g, '')
-        .trim()
-    }
-
-    // Remove <think> tags (Qwen sometimes includes these)
-    if (jsonText.includes('<think>')) {
-      console.log(`[Groq:${shortModelName}] Removing <think> tags from response`)
-      jsonText = jsonText.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
-    }
-
-    // Extract JSON if there's extra text before/after
-    const jsonMatch = jsonText.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      if (jsonMatch[0].length !== jsonText.length) {
-        console.log(`[Groq:${shortModelName}] Extracted JSON from surrounding text`)
+    // Clean up markdown/<think> tags, parse and validate against the category set
+    let result = parseAnalysisResponse(text, categoryNames)
+    let repaired = false
+
+    // One-shot repair: send the validation errors back to the same model
+    if (!result.analysis) {
+      validationErrors = result.errors
+      console.warn(`[Groq:${shortModelName}] ⚠️ Reply failed validation: ${result.errors.join('; ')}`)
+      console.log(`[Groq:${shortModelName}] Sending repair prompt...`)
+
+      const repairResponse = await complete([
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: text },
+        { role: 'user', content: buildRepairPrompt(result.errors, categoryNames) }
+      ])
+      usage = addUsage(usage, groqUsage(repairResponse.usage))
+
+      const repairText = repairResponse.choices[0]?.message?.content || ''
+      rawResponses.push(repairText)
+
+      result = parseAnalysisResponse(repairText, categoryNames)
+      if (!result.analysis) {
+        console.error(`[Groq:${shortModelName}] ❌ Repair reply still invalid: ${result.errors.join('; ')}`)
+        return finish(null, false)
       }
-      jsonText = jsonMatch[0]
+      repaired = true
+      console.log(`[Groq:${shortModelName}] ✓ Repair prompt fixed reply`)
     }
 
-    const data: AIAnalysis = JSON.parse(jsonText)
+    const data = result.analysis
     const totalDuration = Date.now() - startTime
     console.log(`[Groq:${shortModelName}] ✓ Analysis SUCCESS in ${totalDuration}ms`)
     console.log(`[Groq:${shortModelName}] Scores: ${data.scores.map(s => `${s.category}=${s.score}`).join(', ')}`)
     console.log(`[Groq:${shortModelName}] Summary: ${data.summary}`)
-    return data
+    return finish(data, repaired)
   } catch (error) {
     const totalDuration = Date.now() - startTime
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-    console.error(`[Groq:${shortModelName}] ❌ FAILED after ${totalDuration}ms: ${errorMessage}`)
+    const { kind } = classifyProviderError(error)
+    console.error(`[Groq:${shortModelName}] ❌ FAILED (${kind}) after ${totalDuration}ms: ${errorMessage}`)
     if (error instanceof Error && error.stack) {
       console.error(`[Groq:${shortModelName}] Stack: ${error.stack.split('\n').slice(0, 3).join('\n')}`)
     }
-    return null
+    return finish(null, false, errorMessage, kind)
   }
 }
 
+// Groq reports usage in the OpenAI format
+function groqUsage(usage?: { prompt_tokens?: number; completion_tokens?: number } | null): TokenUsage | null {
+  if (!usage) return null
+  return { promptTokens: usage.prompt_tokens || 0, completionTokens: usage.completion_tokens || 0 }
+}
+
 // Function to batch analyze multiple articles
 export async function analyzeArticlesBatch(
   articles: {
@@ -467,12 +883,7 @@ export async function analyzeArticlesBatch(
     url: string
     source: string
   }[]
-): Promise<Array<{
-  gemini: AIAnalysis | null
-  qwen: AIAnalysis | null
-  gptOss: AIAnalysis | null
-  llamaMaverick: AIAnalysis | null
-}>> {
+): Promise<ModelAnalyses[]> {
   const batchStartTime = Date.now()
   console.log(`[Batch] ========== STARTING BATCH ANALYSIS ==========`)
   console.log(`[Batch] Total articles to analyze: ${articles.length}`)
@@ -480,24 +891,48 @@ export async function analyzeArticlesBatch(
   console.log(`[Batch] Start time: ${new Date().toISOString()}`)
 
   // typescript setup for results
-  const results: Array<{
-    gemini: AIAnalysis | null
-    qwen: AIAnalysis | null
-    gptOss: AIAnalysis | null
-    llamaMaverick: AIAnalysis | null
-  }> = []
+  const results: ModelAnalyses[] = []
 
   let successCount = 0
   let failCount = 0
 
   // Track per-model success rates
-  const modelStats = {
-    gemini: { success: 0, fail: 0 },
-    qwen: { success: 0, fail: 0 },
-    gptOss: { success: 0, fail: 0 },
-    llamaMaverick: { success: 0, fail: 0 }
+  const models = getEnabledModels()
+  const modelStats: {
+    [modelId: string]: {
+      success: number
+      fail: number
+      validationFailures: number
+      repaired: number
+      retries: number
+      failureKinds: Partial<Record<ProviderErrorKind, number>>
+    }
+  } = {}
+  models.forEach(model => {
+    modelStats[model.id] = { success: 0, fail: 0, validationFailures: 0, repaired: 0, retries: 0, failureKinds: {} }
+  })
+
+  // Count each model's outcome (also for articles where every model failed)
+  const trackRuns = (runs: Record<string, ArticleModelRun>) => {
+    for (const model of models) {
+      const run = runs[model.id]
+      if (!run) continue
+      if (run.analysis) {
+        modelStats[model.id].success++
+      } else {
+        modelStats[model.id].fail++
+        const kind = run.errorKind || 'unknown'
+        modelStats[model.id].failureKinds[kind] = (modelStats[model.id].failureKinds[kind] || 0) + 1
+      }
+      if (run.validationErrors.length) modelStats[model.id].validationFailures++
+      if (run.repaired) modelStats[model.id].repaired++
+      modelStats[model.id].retries += run.retries
+    }
   }
 
+  // Shared by every article: a provider that keeps failing is skipped for the rest of the batch
+  const circuitBreaker = new CircuitBreaker()
+
   // looping through the array of articles, analyzing each
   // NOTE: analyzeArticle ONLY saves AI scores, media is already inserted
   // This function will only be used by scripts/initArticles.ts
@@ -511,34 +946,39 @@ export async function analyzeArticlesBatch(
     console.log(`[Batch] Title: ${article.title.substring(0, 60)}...`)
 
     try {
-      const analysis = await analyzeArticle({
+      const { analyses: analysis, runs } = await analyzeArticle({
         mediaId: article.mediaId,
         title: article.title,
         url: article.url,
         source: article.source,
-        supabaseClient: supabaseAdmin
+        supabaseClient: supabaseAdmin,
+        circuitBreaker
       })
 
       results.push(analysis)
       successCount++
 
       // Track per-model success/failure
-      analysis.gemini ? modelStats.gemini.success++ : modelStats.gemini.fail++
-      analysis.qwen ? modelStats.qwen.success++ : modelStats.qwen.fail++
-      analysis.gptOss ? modelStats.gptOss.success++ : modelStats.gptOss.fail++
-      analysis.llamaMaverick ? modelStats.llamaMaverick.success++ : modelStats.llamaMaverick.fail++
+      trackRuns(runs)
 
-      const modelsSucceeded = [analysis.gemini, analysis.qwen, analysis.gptOss, analysis.llamaMaverick].filter(Boolean).length
+      const modelsSucceeded = Object.values(analysis).filter(Boolean).length
       const articleDuration = Date.now() - articleStartTime
-      console.log(`[Batch] ✓ Article ${i + 1} analyzed in ${articleDuration}ms (${modelsSucceeded}/4 models succeeded)`)
+      console.log(`[Batch] ✓ Article ${i + 1} analyzed in ${articleDuration}ms (${modelsSucceeded}/${models.length} models succeeded)`)
 
     } catch (error) {
       failCount++
+      if (error instanceof AllModelsFailedError) trackRuns(error.runs)
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       const articleDuration = Date.now() - articleStartTime
       console.error(`[Batch] ❌ Article ${i + 1} FAILED after ${articleDuration}ms: ${errorMessage}`)
     }
 
+    // Nothing left to run the remaining articles with
+    if (models.every(model => circuitBreaker.isOpen(model.provider))) {
+      console.error(`[Batch] ❌ Circuit open for every provider, stopping batch after ${i + 1}/${articles.length} articles`)
+      break
+    }
+
     // Progress update
     const elapsed = Date.now() - batchStartTime
     const avgPerArticle = elapsed / (i + 1)
@@ -562,10 +1002,27 @@ export async function analyzeArticlesBatch(
   console.log(`[Batch] Results: ${successCount} success, ${failCount} failed out of ${articles.length}`)
   console.log(`[Batch] `)
   console.log(`[Batch] ========== PER-MODEL SUCCESS RATES ==========`)
-  console.log(`[Batch]   Gemini 2.5 Flash:    ${modelStats.gemini.success}/${modelStats.gemini.success + modelStats.gemini.fail} (${modelStats.gemini.fail} failed)`)
-  console.log(`[Batch]   Qwen3 32B:           ${modelStats.qwen.success}/${modelStats.qwen.success + modelStats.qwen.fail} (${modelStats.qwen.fail} failed)`)
-  console.log(`[Batch]   GPT-OSS 120B:        ${modelStats.gptOss.success}/${modelStats.gptOss.success + modelStats.gptOss.fail} (${modelStats.gptOss.fail} failed)`)
-  console.log(`[Batch]   Llama 4 Maverick:    ${modelStats.llamaMaverick.success}/${modelStats.llamaMaverick.success + modelStats.llamaMaverick.fail} (${modelStats.llamaMaverick.fail} failed)`)
+  for (const model of models) {
+    const stats = modelStats[model.id]
+    console.log(`[Batch]   ${model.displayName.padEnd(28)} ${stats.success}/${stats.success + stats.fail} (${stats.fail} failed)`)
+  }
+  console.log(`[Batch] `)
+  console.log(`[Batch] ========== PER-MODEL VALIDATION FAILURES ==========`)
+  for (const model of models) {
+    const stats = modelStats[model.id]
+    console.log(`[Batch]   ${model.displayName.padEnd(28)} ${stats.validationFailures} invalid replies (${stats.repaired} fixed by repair prompt)`)
+  }
+  console.log(`[Batch] `)
+  console.log(`[Batch] ========== PER-MODEL FAILURE CAUSES ==========`)
+  for (const model of models) {
+    const stats = modelStats[model.id]
+    const causes = Object.entries(stats.failureKinds).map(([kind, count]) => `${kind}=${count}`).join(', ')
+    console.log(`[Batch]   ${model.displayName.padEnd(28)} ${causes || 'none'} (${stats.retries} retries)`)
+  }
+  const openCircuits = circuitBreaker.openedProviders()
+  if (openCircuits.length > 0) {
+    console.log(`[Batch]   Circuit opened for: ${openCircuits.join(', ')}`)
+  }
   console.log(`[Batch] `)
   console.log(`[Batch] End time: ${new Date().toISOString()}`)
 
@@ -0,0 +1,421 @@
+// lib/analysisJobs.ts
+/**
+ * Durable analysis job queue (analysis_jobs table)
+ *
+ * Ingestion enqueues one job per article; workers (the /api/cron/analysis-jobs route
+ * or scripts/analysisWorker.ts) drain a bounded slice per invocation, so every
+ * article eventually gets scored by every enabled model no matter how many arrive.
+ *
+ * Locking: a worker claims a job by setting a lease (locked_by/locked_until) with a
+ * compare-and-set on `attempts`, so two workers can never both claim the same job.
+ * If a worker dies mid-job, the lease expires and another worker picks it up.
+ *
+ * Retries: per-model status is kept on the job, so a retry only re-runs the models
+ * that failed. Failed jobs back off exponentially until max_attempts.
+ *
+ * Syndication: before scoring, each article is placed in a story cluster
+ * (lib/storyClusters.ts). Syndicated copies of a story succeed without running
+ * any model; only the cluster's original is scored.
+ */
+
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { AllModelsFailedError, analyzeArticle, ArticleModelRun } from '@/lib/ai'
+import { getArticleContent } from '@/lib/articleContent'
+import { getEnabledModels } from '@/lib/models'
+import { clusterArticle } from '@/lib/storyClusters'
+import { articlePlainText } from '@/utils/evidence'
+import { CircuitBreaker, ProviderErrorKind } from '@/lib/providerResilience'
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed'
+
+// Outcome of a model's latest attempt on the job's article
+export interface ModelJobStatus {
+  status: 'succeeded' | 'failed'
+  attempts: number
+  errorKind: ProviderErrorKind | null
+  analysisRunId: string | null
+}
+
+export interface AnalysisJob {
+  id: string
+  media_id: string
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  locked_by: string | null
+  locked_until: string | null
+  model_status: Record<string, ModelJobStatus>
+  last_error: string | null
+  created_at: string
+  updated_at: string
+  completed_at: string | null
+}
+
+export interface WorkerResult {
+  workerId: string
+  jobsClaimed: number
+  jobsSucceeded: number
+  jobsRetrying: number // failed this time, scheduled for another attempt
+  jobsFailed: number   // out of attempts (or article gone)
+  jobsPending: number | null // still queued after this run (null = count failed)
+  durationMs: number
+}
+
+export interface WorkerOptions {
+  supabaseClient?: SupabaseClient
+  workerId?: string
+  maxJobs?: number             // jobs to process this invocation (default: 10)
+  timeBudgetMs?: number        // stop claiming jobs and starting model calls after this long (default: 4 minutes)
+  leaseMs?: number             // how long a claimed job stays locked (default: 10 minutes)
+  delayBetweenJobsMs?: number  // spacing between articles for provider rate limits (default: 2s)
+}
+
+export const DEFAULT_MAX_ATTEMPTS = 5
+const DEFAULT_LEASE_MS = 10 * 60 * 1000
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000 // 5min, 10min, 20min, 40min...
+
+const JOB_COLUMNS = 'id, media_id, status, attempts, max_attempts, next_attempt_at, locked_by, locked_until, model_status, last_error, created_at, updated_at, completed_at'
+
+/**
+ * Queue analysis for articles that don't already have an open (pending/running) job
+ * Returns the number of jobs created
+ */
+export async function enqueueAnalysisJobs(
+  mediaIds: string[],
+  supabaseClient: SupabaseClient,
+  { maxAttempts = DEFAULT_MAX_ATTEMPTS }: { maxAttempts?: number } = {}
+): Promise<number> {
+  if (mediaIds.length === 0) return 0
+
+  const { data: openJobs, error: openError } = await supabaseClient
+    .from('analysis_jobs')
+    .select('media_id')
+    .in('media_id', mediaIds)
+    .in('status', ['pending', 'running'])
+
+  if (openError) {
+    console.error('[Jobs] ❌ Error checking for open jobs:', openError)
+    throw new Error(`Failed to enqueue analysis jobs: ${openError.message}`)
+  }
+
+  const alreadyQueued = new Set((openJobs || []).map(job => job.media_id))
+  const newIds = Array.from(new Set(mediaIds)).filter(id => !alreadyQueued.has(id))
+
+  if (newIds.length === 0) {
+    console.log(`[Jobs] All ${mediaIds.length} articles already queued`)
+    return 0
+  }
+
+  const now = new Date().toISOString()
+  const { error } = await supabaseClient
+    .from('analysis_jobs')
+    .insert(newIds.map(mediaId => ({
+      media_id: mediaId,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: maxAttempts,
+      next_attempt_at: now,
+      model_status: {},
+      updated_at: now
+    })))
+
+  if (error) {
+    console.error('[Jobs] ❌ Error enqueueing analysis jobs:', error)
+    throw new Error(`Failed to enqueue analysis jobs: ${error.message}`)
+  }
+
+  console.log(`[Jobs] ✓ Enqueued ${newIds.length} analysis jobs (${alreadyQueued.size} already queued)`)
+  return newIds.length
+}
+
+/**
+ * Claim up to `limit` due jobs: pending jobs whose next_attempt_at has passed,
+ * and running jobs whose lease expired (their worker died)
+ */
+export async function claimAnalysisJobs(
+  supabaseClient: SupabaseClient,
+  { workerId, limit = 1, leaseMs = DEFAULT_LEASE_MS }: { workerId: string; limit?: number; leaseMs?: number }
+): Promise<AnalysisJob[]> {
+  const now = new Date().toISOString()
+
+  const [due, expired] = await Promise.all([
+    supabaseClient
+      .from('analysis_jobs')
+      .select(JOB_COLUMNS)
+      .eq('status', 'pending')
+      .lte('next_attempt_at', now)
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit),
+    supabaseClient
+      .from('analysis_jobs')
+      .select(JOB_COLUMNS)
+      .eq('status', 'running')
+      .lt('locked_until', now)
+      .order('locked_until', { ascending: true })
+      .limit(limit)
+  ])
+
+  if (due.error || expired.error) {
+    console.error('[Jobs] ❌ Error finding due jobs:', due.error || expired.error)
+    return []
+  }
+
+  const candidates = [...((expired.data || []) as AnalysisJob[]), ...((due.data || []) as AnalysisJob[])]
+  const claimed: AnalysisJob[] = []
+
+  for (const job of candidates) {
+    if (claimed.length >= limit) break
+
+    if (job.status === 'running') {
+      console.warn(`[Jobs] ⚠️ Lease expired on job ${job.id} (held by ${job.locked_by}), reclaiming`)
+    }
+
+    // Compare-and-set on attempts: only one worker's update can match
+    const { data, error } = await supabaseClient
+      .from('analysis_jobs')
+      .update({
+        status: 'running',
+        attempts: job.attempts + 1,
+        locked_by: workerId,
+        locked_until: new Date(Date.now() + leaseMs).toISOString(),
+        updated_at: now
+      })
+      .eq('id', job.id)
+      .eq('status', job.status)
+      .eq('attempts', job.attempts)
+      .select(JOB_COLUMNS)
+
+    if (error) {
+      console.error(`[Jobs] ❌ Error claiming job ${job.id}:`, error)
+      continue
+    }
+    if (!data || data.length === 0) {
+      continue // another worker got there first
+    }
+
+    claimed.push(data[0] as AnalysisJob)
+  }
+
+  return claimed
+}
+
+/**
+ * Run the models a claimed job still needs, then release it as
+ * succeeded, pending (retry with backoff) or failed (out of attempts)
+ * Models not started by `deadline` count as failed and are retried with the job.
+ */
+export async function processAnalysisJob(
+  job: AnalysisJob,
+  { supabaseClient, circuitBreaker, deadline }: { supabaseClient: SupabaseClient; circuitBreaker?: CircuitBreaker; deadline?: number }
+): Promise<JobStatus> {
+  const { data: media, error: mediaError } = await supabaseClient
+    .from('media')
+    .select('id, title, url, source')
+    .eq('id', job.media_id)
+    .maybeSingle()
+
+  if (mediaError || !media) {
+    // Archived or deleted before we got to it - retrying won't bring it back
+    return releaseJob(job, supabaseClient, {
+      status: 'failed',
+      lastError: mediaError ? `Could not load article: ${mediaError.message}` : 'Article no longer exists'
+    })
+  }
+
+  const modelStatus = { ...job.model_status }
+  const pendingModels = getEnabledModels().filter(model => modelStatus[model.id]?.status !== 'succeeded')
+
+  if (pendingModels.length === 0) {
+    return releaseJob(job, supabaseClient, { status: 'succeeded', modelStatus })
+  }
+
+  // Near-duplicate of an article we already have? Its original gets the model budget instead
+  try {
+    const cached = await getArticleContent({ mediaId: media.id, url: media.url, supabaseClient })
+    const cluster = cached
+      ? await clusterArticle({ mediaId: media.id, text: articlePlainText(cached.content), supabaseClient })
+      : null
+    if (cluster && !cluster.isOriginal) {
+      console.log(`[Jobs] Job ${job.id}: syndicated copy of ${cluster.originalMediaId}, skipping models`)
+      return releaseJob(job, supabaseClient, { status: 'succeeded', modelStatus })
+    }
+  } catch (error) {
+    // Clustering only saves budget: score the article anyway
+    console.error(`[Jobs] ⚠️ Could not cluster ${media.id}:`, error)
+  }
+
+  console.log(`[Jobs] Job ${job.id} attempt ${job.attempts}/${job.max_attempts}: ${pendingModels.map(m => m.id).join(', ')}`)
+
+  let runs: Record<string, ArticleModelRun> = {}
+  let lastError: string | null = null
+
+  try {
+    const result = await analyzeArticle({
+      mediaId: media.id,
+      url: media.url,
+      title: media.title,
+      source: media.source,
+      supabaseClient,
+      circuitBreaker,
+      models: pendingModels,
+      deadline
+    })
+    runs = result.runs
+  } catch (error) {
+    if (error instanceof AllModelsFailedError) runs = error.runs
+    lastError = error instanceof Error ? error.message : 'Unknown error'
+  }
+
+  for (const model of pendingModels) {
+    const run = runs[model.id]
+    if (!run) continue // analysis failed before any model ran (e.g. content fetch)
+    modelStatus[model.id] = {
+      status: run.analysis && run.scoresSaved ? 'succeeded' : 'failed',
+      attempts: (modelStatus[model.id]?.attempts || 0) + 1,
+      errorKind: run.errorKind,
+      analysisRunId: run.analysisRunId ?? null
+    }
+  }
+
+  const allSucceeded = getEnabledModels().every(model => modelStatus[model.id]?.status === 'succeeded')
+  if (allSucceeded) {
+    return releaseJob(job, supabaseClient, { status: 'succeeded', modelStatus })
+  }
+
+  const failedModels = pendingModels.filter(model => modelStatus[model.id]?.status !== 'succeeded').map(m => m.id)
+  lastError = lastError || `Models failed: ${failedModels.join(', ')}`
+
+  if (job.attempts >= job.max_attempts) {
+    return releaseJob(job, supabaseClient, { status: 'failed', modelStatus, lastError })
+  }
+
+  return releaseJob(job, supabaseClient, {
+    status: 'pending',
+    modelStatus,
+    lastError,
+    nextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1)).toISOString()
+  })
+}
+
+/**
+ * Write the job's outcome and drop the lease
+ * Only succeeds while we still hold the lease (a reclaimed job belongs to the new worker)
+ */
+async function releaseJob(
+  job: AnalysisJob,
+  supabaseClient: SupabaseClient,
+  {
+    status,
+    modelStatus = job.model_status,
+    lastError = null,
+    nextAttemptAt
+  }: {
+    status: Exclude<JobStatus, 'running'>
+    modelStatus?: Record<string, ModelJobStatus>
+    lastError?: string | null
+    nextAttemptAt?: string
+  }
+): Promise<JobStatus> {
+  const now = new Date().toISOString()
+
+  const { data, error } = await supabaseClient
+    .from('analysis_jobs')
+    .update({
+      status,
+      model_status: modelStatus,
+      last_error: lastError,
+      locked_by: null,
+      locked_until: null,
+      updated_at: now,
+      ...(nextAttemptAt ? { next_attempt_at: nextAttemptAt } : {}),
+      ...(status === 'pending' ? {} : { completed_at: now })
+    })
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by)
+    .eq('attempts', job.attempts)
+    .select('id')
+
+  if (error) {
+    console.error(`[Jobs] ❌ Error updating job ${job.id}:`, error)
+  } else if (!data || data.length === 0) {
+    console.warn(`[Jobs] ⚠️ Lost the lease on job ${job.id} before finishing, leaving it to the new owner`)
+  }
+
+  const icon = status === 'succeeded' ? '✓' : status === 'failed' ? '❌' : '⚠️'
+  const note = status === 'pending' ? `, retry at ${nextAttemptAt}` : ''
+  console.log(`[Jobs] ${icon} Job ${job.id} (${job.media_id}) ${status}${lastError ? `: ${lastError}` : ''}${note}`)
+  return status
+}
+
+/**
+ * Drain a bounded slice of the queue: claim one job at a time until maxJobs
+ * jobs are done, the time budget runs out, or nothing is due
+ * The budget also bounds the job in progress: no model or chunk call starts after it,
+ * so only calls already in flight can run past it.
+ */
+export async function runAnalysisWorker(options: WorkerOptions = {}): Promise<WorkerResult> {
+  const {
+    supabaseClient = supabaseAdmin,
+    workerId = `worker-${randomUUID().substring(0, 8)}`,
+    maxJobs = 10,
+    timeBudgetMs = 4 * 60 * 1000,
+    leaseMs = DEFAULT_LEASE_MS,
+    delayBetweenJobsMs = 2000
+  } = options
+
+  const startTime = Date.now()
+  const deadline = startTime + timeBudgetMs
+  const result: WorkerResult = {
+    workerId,
+    jobsClaimed: 0,
+    jobsSucceeded: 0,
+    jobsRetrying: 0,
+    jobsFailed: 0,
+    jobsPending: null,
+    durationMs: 0
+  }
+
+  console.log(`[Jobs] ${workerId} starting (max ${maxJobs} jobs, ${Math.round(timeBudgetMs / 1000)}s budget)`)
+
+  // Shared across this slice, like a batch
+  const circuitBreaker = new CircuitBreaker()
+
+  while (result.jobsClaimed < maxJobs && Date.now() < deadline) {
+    const [job] = await claimAnalysisJobs(supabaseClient, { workerId, limit: 1, leaseMs })
+    if (!job) {
+      console.log(`[Jobs] No due jobs left`)
+      break
+    }
+    result.jobsClaimed++
+
+    const status = await processAnalysisJob(job, { supabaseClient, circuitBreaker, deadline })
+    if (status === 'succeeded') result.jobsSucceeded++
+    else if (status === 'failed') result.jobsFailed++
+    else result.jobsRetrying++
+
+    if (getEnabledModels().every(model => circuitBreaker.isOpen(model.provider))) {
+      console.error(`[Jobs] ❌ Circuit open for every provider, stopping this run`)
+      break
+    }
+
+    if (delayBetweenJobsMs > 0 && result.jobsClaimed < maxJobs) {
+      await new Promise(resolve => setTimeout(resolve, delayBetweenJobsMs))
+    }
+  }
+
+  const { count, error: countError } = await supabaseClient
+    .from('analysis_jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('status', 'pending')
+  result.jobsPending = countError ? null : count
+
+  result.durationMs = Date.now() - startTime
+  console.log(
+    `[Jobs] ${workerId} done in ${result.durationMs}ms: ${result.jobsSucceeded} succeeded, ` +
+    `${result.jobsRetrying} retrying, ${result.jobsFailed} failed, ${result.jobsPending ?? '?'} still pending`
+  )
+  return result
+}
@@ -0,0 +1,90 @@
+// lib/analysisRuns.ts
+/**
+ * Analysis Run Records
+ *
+ * One analysis_runs row per model per article analysis, successful or not:
+ * prompt/category-set versions, latency, token usage, content mode and how much
+ * content was left out, every raw reply and the parse outcome. Each ai_scores row
+ * links to the run that produced it, so score changes can be traced to prompt or
+ * model changes. Runs are stored together with their scores (saveModelScores in lib/ai.ts).
+ *
+ * Like media_content, analysis_runs has no FK to media (runs outlive archiving).
+ */
+
+import type { ArticleModelRun } from '@/lib/ai'
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+// valid = first reply passed validation, repaired = passed after the repair prompt,
+// invalid = never passed validation, error = provider failed (HTTP error, timeout, no text)
+export type ParseOutcome = 'valid' | 'repaired' | 'invalid' | 'error'
+
+// Prompt and category set a run was made with (see lib/prompts.ts)
+export interface PromptFingerprint {
+  promptVersion: string          // promptVersionLabel(), e.g. "bias-analysis@v2"
+  promptTemplateId: string | null // prompt_templates.id (null = built-in template)
+  categorySetVersion: string
+}
+
+/**
+ * Sum token usage across calls (null = provider didn't report usage)
+ */
+export function addUsage(total: TokenUsage | null, next: TokenUsage | null): TokenUsage | null {
+  if (!next) return total
+  if (!total) return { ...next }
+  return {
+    promptTokens: total.promptTokens + next.promptTokens,
+    completionTokens: total.completionTokens + next.completionTokens
+  }
+}
+
+export function getParseOutcome(run: ArticleModelRun): ParseOutcome {
+  if (run.analysis) return run.repaired ? 'repaired' : 'valid'
+  return run.validationErrors.length > 0 ? 'invalid' : 'error'
+}
+
+/**
+ * The analysis_runs row for one model's run
+ * saveModelScores writes it in the same transaction as the model's scores, so a
+ * score never points at a run that wasn't stored.
+ */
+export function analysisRunRow({
+  mediaId,
+  modelName,
+  run,
+  fingerprint,
+  contentChars
+}: {
+  mediaId: string
+  modelName: string
+  run: ArticleModelRun
+  fingerprint: PromptFingerprint
+  contentChars: number
+}) {
+  return {
+    media_id: mediaId,
+    model_name: modelName,
+    prompt_version: fingerprint.promptVersion,
+    prompt_template_id: fingerprint.promptTemplateId,
+    prompt_hash: run.promptHash,
+    category_set_version: fingerprint.categorySetVersion,
+    content_mode: run.contentMode,
+    content_chars: contentChars,
+    chunk_count: run.chunkCount,
+    omitted_chars: run.omittedChars,
+    latency_ms: run.latencyMs,
+    prompt_tokens: run.usage?.promptTokens ?? null,
+    completion_tokens: run.usage?.completionTokens ?? null,
+    raw_responses: run.rawResponses,
+    parse_outcome: getParseOutcome(run),
+    validation_errors: run.validationErrors,
+    error_message: run.error,
+    error_kind: run.errorKind,
+    retry_count: run.retries
+  }
+}
+
+export type AnalysisRunRow = ReturnType<typeof analysisRunRow>
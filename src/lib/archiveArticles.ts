@@ -1,4 +1,6 @@
 import { supabaseAdmin } from '@/utils/supabase/admin'
+import { enqueueAnalysisJobs } from '@/lib/analysisJobs'
+import { EmptyClusterError, refreshCluster } from '@/lib/storyClusters'
 
 export interface ArchivalResult {
   articlesProcessed: number
@@ -93,6 +95,10 @@ export async function archiveOldArticles(
           id: article.id,
           title: article.title,
           url: article.url,
+          url_key: article.url_key,
+          story_cluster_id: article.story_cluster_id,
+          is_syndicated: article.is_syndicated || false,
+          event_id: article.event_id,
           source: article.source,
           image_url: article.image_url,
           description: article.description,
@@ -130,6 +136,14 @@ export async function archiveOldArticles(
             score: score.score,
             explanation: score.explanation,
             model_name: score.model_name,
+            content_mode: score.content_mode,
+            chunk_spread: score.chunk_spread,
+            confidence: score.confidence,
+            evidence: score.evidence,
+            analysis_run_id: score.analysis_run_id,
+            prompt_version: score.prompt_version,
+            score_version: score.score_version,
+            is_current: score.is_current,
             created_at: score.created_at
           }))
 
@@ -192,6 +206,26 @@ export async function archiveOldArticles(
       }
     }
 
+    // An archived original hands its story to the earliest remaining copy, which was
+    // never scored (lib/storyClusters.ts), so queue the new original for analysis
+    const archivedIds = new Set(oldArticles.map(a => a.id))
+    const clusterIds = new Set(oldArticles.filter(a => a.story_cluster_id && !a.is_syndicated).map(a => a.story_cluster_id as string))
+    for (const clusterId of clusterIds) {
+      try {
+        const { originalMediaId } = await refreshCluster(clusterId, supabaseAdmin)
+        if (!archivedIds.has(originalMediaId)) {
+          await enqueueAnalysisJobs([originalMediaId], supabaseAdmin)
+          console.log('[Archive] New original for story cluster', clusterId, ':', originalMediaId)
+        }
+      } catch (clusterError) {
+        // Every member archived: nothing left to promote
+        if (clusterError instanceof EmptyClusterError) continue
+        // The articles are archived either way; log it so the cluster can be repaired
+        const errorMessage = clusterError instanceof Error ? clusterError.message : 'Unknown error'
+        console.error('[Archive] Failed to refresh story cluster:', clusterId, errorMessage)
+      }
+    }
+
     console.log('[Archive] Archival complete:', {
       processed: result.articlesProcessed,
       archived: result.articlesArchived,
@@ -0,0 +1,148 @@
+// lib/articleContent.ts
+/**
+ * Article Content Cache
+ *
+ * Extracted article text is stored in media_content (one row per media ID) so that
+ * re-running analysis never re-scrapes the page, and every analysis can be traced
+ * back to the exact text the models saw.
+ *
+ * media_content.media_id has no FK to media: archived articles keep their ID in
+ * archived_media, and their cached text stays available after archiving.
+ */
+
+import { createHash } from 'crypto'
+import { extract, ArticleData } from '@extractus/article-extractor'
+import { SupabaseClient } from '@supabase/supabase-js'
+
+export interface ArticleContent {
+  media_id: string
+  url: string
+  url_hash: string
+  title: string | null
+  byline: string | null
+  content: string          // exactly what extract() returned (HTML) - this is what the models see
+  word_count: number
+  extracted_at: string
+}
+
+/**
+ * SHA-256 of the URL (lets the cache be looked up when the same URL is stored twice)
+ */
+export function hashUrl(url: string): string {
+  return createHash('sha256').update(url.trim()).digest('hex')
+}
+
+// Word count of the visible text (tags stripped)
+function countWords(html: string): number {
+  const text = html.replace(/<[^>]+>/g, ' ').replace(/&[a-z#0-9]+;/gi, ' ')
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+/**
+ * Scrape a URL with article-extractor (clean article text, no ads, nav, etc.)
+ * Returns null when the page has no article content
+ */
+export async function extractArticle(url: string): Promise<ArticleData | null> {
+  try {
+    const article = await extract(url)
+    return article?.content ? article : null
+  } catch (error) {
+    console.error('[Content] Error extracting article:', error)
+    return null
+  }
+}
+
+/**
+ * Store extracted content for a media ID (replaces any previous copy)
+ * Used directly by /api/ai_analyze, which already extracted the page to build the media row
+ */
+export async function saveArticleContent(
+  mediaId: string,
+  url: string,
+  article: ArticleData,
+  supabaseClient: SupabaseClient
+): Promise<ArticleContent> {
+  const row: ArticleContent = {
+    media_id: mediaId,
+    url,
+    url_hash: hashUrl(url),
+    title: article.title || null,
+    byline: article.author || null,
+    content: article.content || '',
+    word_count: countWords(article.content || ''),
+    extracted_at: new Date().toISOString()
+  }
+
+  const { error } = await supabaseClient
+    .from('media_content')
+    .upsert(row, { onConflict: 'media_id' })
+
+  if (error) {
+    // Not fatal: analysis can still run, it just won't be cached
+    console.error(`[Content] ❌ Error caching content for ${mediaId}:`, error)
+  }
+
+  return row
+}
+
+/**
+ * Get article content for analysis, scraping only on a cache miss
+ *
+ * Lookup order: media_id → same URL stored under another media ID → extract(url)
+ * forceRefresh skips the cache and re-scrapes (falls back to the cached copy if scraping fails)
+ */
+export async function getArticleContent({
+  mediaId,
+  url,
+  supabaseClient,
+  forceRefresh = false
+}: {
+  mediaId: string
+  url: string
+  supabaseClient: SupabaseClient
+  forceRefresh?: boolean
+}): Promise<ArticleContent | null> {
+  const { data: cached, error: cacheError } = await supabaseClient
+    .from('media_content')
+    .select('*')
+    .eq('media_id', mediaId)
+    .maybeSingle()
+
+  if (cacheError) {
+    console.warn(`[Content] ⚠️ Cache lookup failed for ${mediaId}: ${cacheError.message}`)
+  }
+
+  if (cached && !forceRefresh) {
+    console.log(`[Content] ✓ Cache hit for ${mediaId} (extracted ${cached.extracted_at})`)
+    return cached as ArticleContent
+  }
+
+  if (!cached && !forceRefresh) {
+    // Same URL already extracted for a different media row (e.g. re-submitted by a user)
+    const { data: sameUrl } = await supabaseClient
+      .from('media_content')
+      .select('*')
+      .eq('url_hash', hashUrl(url))
+      .limit(1)
+
+    if (sameUrl && sameUrl.length > 0) {
+      console.log(`[Content] ✓ Cache hit by URL for ${mediaId} (from ${sameUrl[0].media_id})`)
+      const copy: ArticleContent = { ...(sameUrl[0] as ArticleContent), media_id: mediaId }
+      await supabaseClient.from('media_content').upsert(copy, { onConflict: 'media_id' })
+      return copy
+    }
+  }
+
+  console.log(`[Content] ${forceRefresh ? 'Force refresh' : 'Cache miss'} for ${mediaId}, extracting ${url}`)
+  const article = await extractArticle(url)
+
+  if (!article) {
+    if (cached) {
+      console.warn(`[Content] ⚠️ Refresh failed for ${mediaId}, using cached copy from ${cached.extracted_at}`)
+      return cached as ArticleContent
+    }
+    return null
+  }
+
+  return saveArticleContent(mediaId, url, article, supabaseClient)
+}
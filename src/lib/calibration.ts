@@ -0,0 +1,177 @@
+// lib/calibration.ts
+/**
+ * Calibration benchmark against a human-labeled gold set
+ *
+ * gold_set_articles holds articles with the scores human labelers gave them
+ * (by category name, any subset of categories). A benchmark runs models over
+ * every gold article, using the media_content cache so the text stays the same
+ * between runs. It compares each score to its label (utils/calibrationMetrics.ts)
+ * and stores one calibration_runs row per model, so runs can be compared over time.
+ *
+ * Benchmarks never write ai_scores or analysis_runs: gold articles aren't news.
+ * Used by scripts/calibrate.ts.
+ */
+
+import { randomUUID } from 'crypto'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { runModel } from '@/lib/ai'
+import { getArticleContent } from '@/lib/articleContent'
+import { getEnabledModels, ModelConfig } from '@/lib/models'
+import { categorySetVersion, PromptTemplate, promptVersionLabel } from '@/lib/prompts'
+import { loadActivePromptTemplates } from '@/lib/promptTemplates'
+import { CircuitBreaker } from '@/lib/providerResilience'
+import { CalibrationMetrics, computeCalibrationMetrics, ScorePair } from '@/utils/calibrationMetrics'
+
+export interface GoldArticle {
+  id: string // also the media_content cache key
+  url: string
+  title: string | null
+  expected_scores: Record<string, number> // category name → human label (-1..+1)
+}
+
+export interface ModelCalibration {
+  modelId: string
+  promptVersion: string
+  articlesScored: number
+  articlesFailed: number
+  metrics: CalibrationMetrics
+  previous: { mae: number | null; createdAt: string } | null // last stored run for this model
+}
+
+export interface CalibrationReport {
+  benchmarkId: string
+  goldArticles: number
+  articlesWithoutContent: string[]
+  categorySetVersion: string
+  models: ModelCalibration[]
+}
+
+/**
+ * Run a benchmark over the gold set
+ *
+ * @param options.models - models to benchmark (default: every enabled model)
+ * @param options.promptTemplate - run every model on this template instead of the active ones
+ * @param options.save - store calibration_runs rows (default: true)
+ */
+export async function runCalibration({
+  supabaseClient,
+  models = getEnabledModels(),
+  promptTemplate,
+  save = true
+}: {
+  supabaseClient: SupabaseClient
+  models?: ModelConfig[]
+  promptTemplate?: PromptTemplate
+  save?: boolean
+}): Promise<CalibrationReport> {
+  const benchmarkId = randomUUID()
+
+  const { data: goldRows, error: goldError } = await supabaseClient
+    .from('gold_set_articles')
+    .select('id, url, title, expected_scores')
+  if (goldError || !goldRows) {
+    throw new Error(`Could not load gold set: ${goldError?.message}`)
+  }
+  const gold = goldRows as GoldArticle[]
+
+  const { data: categories, error: categoriesError } = await supabaseClient
+    .from('bias_categories')
+    .select('id, name, description')
+  if (categoriesError || !categories) {
+    throw new Error('Could not fetch bias categories')
+  }
+  const categoryVersion = categorySetVersion(categories)
+
+  const activeTemplates = promptTemplate ? null : await loadActivePromptTemplates(supabaseClient)
+  const templateFor = (model: ModelConfig) => promptTemplate || activeTemplates![model.provider]
+
+  console.log(`[Calibration] Benchmark ${benchmarkId}: ${gold.length} gold articles × ${models.length} models`)
+
+  const pairs = new Map<string, ScorePair[]>(models.map(m => [m.id, []]))
+  const scored = new Map<string, number>(models.map(m => [m.id, 0]))
+  const articlesWithoutContent: string[] = []
+  const circuitBreaker = new CircuitBreaker()
+
+  for (const article of gold) {
+    const cached = await getArticleContent({ mediaId: article.id, url: article.url, supabaseClient })
+    if (!cached) {
+      console.warn(`[Calibration] ⚠️ No content for gold article ${article.id}, skipping`)
+      articlesWithoutContent.push(article.id)
+      continue
+    }
+
+    const runs = await Promise.all(
+      models.map(model => runModel(cached.content, categories, model, templateFor(model), circuitBreaker))
+    )
+
+    models.forEach((model, i) => {
+      const analysis = runs[i].analysis
+      if (!analysis) return
+      scored.set(model.id, scored.get(model.id)! + 1)
+      for (const score of analysis.scores) {
+        const expected = article.expected_scores[score.category]
+        if (typeof expected !== 'number') continue // not labeled for this category
+        pairs.get(model.id)!.push({ category: score.category, expected, predicted: score.score })
+      }
+    })
+  }
+
+  const articlesWithContent = gold.length - articlesWithoutContent.length
+  const results: ModelCalibration[] = []
+
+  for (const model of models) {
+    const metrics = computeCalibrationMetrics(pairs.get(model.id)!)
+    const promptVersion = promptVersionLabel(templateFor(model))
+    const previous = await loadPreviousCalibration(model.id, supabaseClient)
+
+    results.push({
+      modelId: model.id,
+      promptVersion,
+      articlesScored: scored.get(model.id)!,
+      articlesFailed: articlesWithContent - scored.get(model.id)!,
+      metrics,
+      previous
+    })
+
+    if (save) {
+      const { error } = await supabaseClient.from('calibration_runs').insert({
+        benchmark_id: benchmarkId,
+        model_name: model.id,
+        prompt_version: promptVersion,
+        category_set_version: categoryVersion,
+        gold_set_size: gold.length,
+        articles_scored: scored.get(model.id),
+        score_pairs: metrics.n,
+        mae: metrics.mae,
+        correlation: metrics.correlation,
+        sign_agreement: metrics.signAgreement,
+        category_metrics: metrics.byCategory
+      })
+      if (error) {
+        console.error(`[Calibration] ❌ Could not store ${model.id} results:`, error)
+      }
+    }
+  }
+
+  console.log(`[Calibration] ✓ Benchmark ${benchmarkId} complete`)
+  return { benchmarkId, goldArticles: gold.length, articlesWithoutContent, categorySetVersion: categoryVersion, models: results }
+}
+
+/**
+ * The model's most recent stored benchmark, for the "change since last run" column
+ */
+async function loadPreviousCalibration(
+  modelId: string,
+  supabaseClient: SupabaseClient
+): Promise<ModelCalibration['previous']> {
+  const { data, error } = await supabaseClient
+    .from('calibration_runs')
+    .select('mae, created_at')
+    .eq('model_name', modelId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return { mae: data.mae, createdAt: data.created_at }
+}
@@ -0,0 +1,169 @@
+// lib/existingArticles.ts
+/**
+ * Finding articles we already have, by canonical URL key
+ *
+ * media.url_key and archived_media.url_key hold urlKey(url) (utils/canonicalUrl.ts).
+ * Ingestion skips articles whose key is already stored; /api/ai_analyze returns the
+ * stored article and its current scores instead of inserting and scoring it again.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { EvidenceQuote, ModelAnalyses } from '@/lib/ai'
+import { urlKey } from '@/utils/canonicalUrl'
+
+export interface ExistingArticle {
+  id: string
+  title: string
+  url: string
+  source: string
+  archived: boolean // found in archived_media (scores in archived_ai_scores)
+}
+
+const MEDIA_TABLES = [
+  { table: 'media', archived: false },
+  { table: 'archived_media', archived: true }
+] as const
+
+/**
+ * The stored article for any of these URLs (active articles first), or null
+ */
+export async function findExistingArticle(urls: string[], supabaseClient: SupabaseClient): Promise<ExistingArticle | null> {
+  const keys = Array.from(new Set(urls.map(urlKey)))
+
+  for (const { table, archived } of MEDIA_TABLES) {
+    const { data, error } = await supabaseClient
+      .from(table)
+      .select('id, title, url, source')
+      .in('url_key', keys)
+      .limit(1)
+
+    if (error) {
+      console.error(`[Dedup] ❌ Could not look up ${table} by URL key:`, error)
+      continue
+    }
+    if (data && data.length > 0) {
+      const { id, title, url, source } = data[0]
+      return { id, title, url, source, archived }
+    }
+  }
+  return null
+}
+
+/**
+ * Which of these URL keys are already stored, active or archived (batch lookup for ingestion)
+ */
+export async function findStoredUrlKeys(keys: string[], supabaseClient: SupabaseClient): Promise<Set<string>> {
+  const stored = new Set<string>()
+  if (keys.length === 0) return stored
+
+  for (const { table } of MEDIA_TABLES) {
+    const { data, error } = await supabaseClient
+      .from(table)
+      .select('url_key')
+      .in('url_key', keys)
+
+    if (error) {
+      // Not fatal: the unique index still rejects duplicates in media
+      console.error(`[Dedup] ❌ Could not check ${table} for stored URL keys:`, error)
+      continue
+    }
+    for (const row of data || []) stored.add(row.url_key)
+  }
+  return stored
+}
+
+/**
+ * Current scores of a stored article in the /api/ai_analyze response shape
+ * Summaries aren't stored, so they come back empty. Models with no scores are left out.
+ */
+export async function loadStoredAnalyses(article: ExistingArticle, supabaseClient: SupabaseClient): Promise<ModelAnalyses> {
+  const [{ data: scores, error }, { data: categories }] = await Promise.all([
+    supabaseClient
+      .from(article.archived ? 'archived_ai_scores' : 'ai_scores')
+      .select('model_name, category_id, score, explanation, confidence, evidence')
+      .eq('media_id', article.id)
+      .eq('is_current', true),
+    supabaseClient
+      .from('bias_categories')
+      .select('id, name')
+  ])
+
+  if (error || !scores) {
+    console.error(`[Dedup] ❌ Could not load stored scores for ${article.id}:`, error)
+    return {}
+  }
+
+  const categoryNames = new Map((categories || []).map(c => [c.id, c.name]))
+  const analyses: ModelAnalyses = {}
+  for (const row of scores) {
+    const category = categoryNames.get(row.category_id)
+    if (!category) continue
+    const analysis = analyses[row.model_name] || { scores: [], summary: '' }
+    analysis.scores.push({
+      category,
+      score: Number(row.score),
+      explanation: row.explanation || '',
+      confidence: row.confidence === null ? null : Number(row.confidence),
+      evidence: (row.evidence || []) as EvidenceQuote[]
+    })
+    analyses[row.model_name] = analysis
+  }
+  return analyses
+}
+
+export interface UrlKeyBackfill {
+  table: string
+  scanned: number
+  updated: number
+  duplicates: Array<{ id: string; url: string }> // same key as an earlier row; left without a key
+}
+
+/**
+ * Fill in url_key for rows stored before it existed, or after urlKey() rules change
+ * In media a row whose key is already taken is a duplicate story: it keeps a null key
+ * and is reported for manual clean-up.
+ */
+export async function backfillUrlKeys(supabaseClient: SupabaseClient, pageSize = 500): Promise<UrlKeyBackfill[]> {
+  const results: UrlKeyBackfill[] = []
+
+  for (const { table } of MEDIA_TABLES) {
+    const result: UrlKeyBackfill = { table, scanned: 0, updated: 0, duplicates: [] }
+
+    for (let from = 0; ; from += pageSize) {
+      const { data: rows, error } = await supabaseClient
+        .from(table)
+        .select('id, url, url_key')
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to read ${table}: ${error.message}`)
+      }
+      if (!rows || rows.length === 0) break
+      result.scanned += rows.length
+
+      for (const row of rows) {
+        const key = urlKey(row.url)
+        if (row.url_key === key) continue
+
+        const { error: updateError } = await supabaseClient
+          .from(table)
+          .update({ url_key: key })
+          .eq('id', row.id)
+
+        if (updateError?.code === '23505') {
+          result.duplicates.push({ id: row.id, url: row.url })
+        } else if (updateError) {
+          throw new Error(`Failed to update ${table} ${row.id}: ${updateError.message}`)
+        } else {
+          result.updated++
+        }
+      }
+      if (rows.length < pageSize) break
+    }
+
+    console.log(`[Dedup] ✓ ${table}: ${result.updated} of ${result.scanned} keys updated, ${result.duplicates.length} duplicates`)
+    results.push(result)
+  }
+  return results
+}
@@ -1,118 +1,109 @@
 // lib/gnews.ts
-import { supabaseAdmin } from '@/utils/supabase/admin'
-
-// Helper to add delay between requests
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
-
 /**
- * Fetch top headlines from all categories in Supabase
- * Removes duplicate articles by their ID
+ * GNews news source (https://gnews.io)
+ *
+ * Fetches one page of articles per news category and maps them onto
+ * IngestedArticle. Registered in getNewsSources() (lib/newsSources.ts) when
+ * GNEWS_API_KEY is set.
  */
-export async function fetchGNewsArticles(): Promise<any[]> {
-  const apiKey = process.env.GNEWS_API_KEY
-  const supabase = supabaseAdmin
 
-  console.log('GNEWS_API_KEY exists:', !!apiKey)
+import type { IngestedArticle, NewsCategory, NewsSource } from '@/lib/newsSources'
 
-  // Get categories from Supabase
-  const { data: categories, error } = await supabase
-    .from('news_categories')
-    .select('id, name')
+// Helper to add delay between requests
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
 
-  if (error || !categories) {
-    console.error('Error fetching categories:', error)
-    throw new Error('Failed to fetch categories from Supabase')
-  }
+const GNEWS_BASE_URL = 'https://gnews.io'
 
-  console.log(`Found ${categories.length} categories:`, categories.map(c => c.name))
+export interface GNewsOptions {
+  apiKey: string
+  baseUrl?: string                         // default https://gnews.io
+  endpoint?: 'top-headlines' | 'search'    // search requires query
+  query?: string
+  maxPerCategory?: number                  // GNews caps this by plan (10 on the free tier)
+  lang?: string
+  requestDelayMs?: number                  // pause between categories to stay under the rate limit
+}
 
-  const allArticles: any[] = []
+// Article shape returned by the GNews v4 API
+interface GNewsArticle {
+  id?: string
+  title?: string
+  description?: string | null
+  url?: string
+  image?: string | null
+  publishedAt?: string | null
+  source?: { name?: string } | string
+}
 
-  for (const category of categories) {
-    // Wait 1 second between requests to avoid rate limiting
-    await delay(1000)
+/**
+ * Map a GNews article onto IngestedArticle (null if it has no title or URL)
+ */
+export function normalizeGNewsArticle(raw: GNewsArticle, categoryId: string | null): IngestedArticle | null {
+  if (!raw.title || !raw.url) return null
+  const source = typeof raw.source === 'string' ? raw.source : raw.source?.name
+  return {
+    sourceId: 'gnews',
+    externalId: raw.id || null,
+    title: raw.title,
+    url: raw.url,
+    source: source || new URL(raw.url).hostname,
+    imageUrl: raw.image || null,
+    description: raw.description || null,
+    publishedAt: raw.publishedAt || null,
+    categoryId
+  }
+}
 
-    const url = `https://gnews.io/api/v4/top-headlines?category=${category.name}&lang=en&max=10&apikey=${apiKey}`
-    console.log(`Fetching category: ${category.name}`)
+/**
+ * GNews source: one request per category, deduplicated by GNews article ID
+ * A category that fails is logged and skipped so one bad request doesn't lose the rest.
+ */
+export function createGNewsSource({
+  apiKey,
+  baseUrl = GNEWS_BASE_URL,
+  endpoint = 'top-headlines',
+  query,
+  maxPerCategory = 10,
+  lang = 'en',
+  requestDelayMs = 1000
+}: GNewsOptions): NewsSource {
+  if (endpoint === 'search' && !query) {
+    throw new Error('GNews search endpoint requires a query')
+  }
 
-    try {
-      const response = await fetch(url, { cache: 'no-store' })
-      const data = await response.json()
+  return {
+    id: 'gnews',
+    displayName: `GNews ${endpoint}`,
+    async fetchArticles(categories: NewsCategory[]): Promise<IngestedArticle[]> {
+      const articles = new Map<string, IngestedArticle>()
 
-      console.log(`Response status for ${category.name}:`, response.status)
+      for (const [index, category] of categories.entries()) {
+        if (index > 0 && requestDelayMs > 0) await delay(requestDelayMs)
 
-      if (data.errors) {
-        console.error(`API Error for ${category.name}:`, data.errors)
-      }
+        const params = new URLSearchParams({ category: category.name, lang, max: String(maxPerCategory), apikey: apiKey })
+        if (query) params.set('q', query)
 
-      if (data.articles) {
-        console.log(`Found ${data.articles.length} articles for ${category.name}`)
-        for (const article of data.articles) {
-          allArticles.push({
-            ...article,
-            category_id: category.id
-          })
+        try {
+          const response = await fetch(`${baseUrl}/api/v4/${endpoint}?${params}`, { cache: 'no-store' })
+          const data = await response.json()
+
+          if (!response.ok || data.errors) {
+            console.error(`[GNews] ❌ ${category.name}: HTTP ${response.status}`, data.errors)
+            continue
+          }
+
+          const raw: GNewsArticle[] = data.articles || []
+          console.log(`[GNews] ${category.name}: ${raw.length} articles`)
+          for (const item of raw) {
+            const article = normalizeGNewsArticle(item, category.id)
+            if (article) articles.set(article.externalId || article.url, article)
+          }
+        } catch (error) {
+          console.error(`[GNews] ❌ Error fetching ${category.name}:`, error)
         }
-      } else {
-        console.log(`No articles found for ${category.name}`)
       }
-    } catch (error) {
-      console.error('Error fetching from category:', category.name, error)
-    }
-  }
 
-  // Remove duplicates by article ID
-  const articleMap = new Map()
-  for (const article of allArticles) {
-    if (article.id) {
-      articleMap.set(article.id, article)
+      return Array.from(articles.values())
     }
   }
-
-  console.log(`Total articles before deduplication: ${allArticles.length}`)
-  console.log(`Total articles after deduplication: ${articleMap.size}`)
-
-  return Array.from(articleMap.values())
 }
-
-// function to insert articles from GNews into Supabase
-export async function insertGNewsArticles(): Promise<any[]> {
-    const supabase = supabaseAdmin
-    const articles = await fetchGNewsArticles() // returns ~70 articles
-    console.log(`\nAttempting to insert ${articles.length} articles into Supabase...`)
-    const insertedArticles: any[] = []
-    // looping through each article, and inserting it into supabase
-    for (const article of articles) {
-        try {
-            const { data, error } = await supabase
-                .from('media')
-                .insert({
-                    title: article.title,
-                    url: article.url,
-                    source: article.source?.name || article.source,
-                    image_url: article.image || null,
-                    description: article.description || null,
-                    published_at: article.publishedAt || null,
-                    media_type: 'article',
-                    category_id: article.category_id,
-                    user_analyzed: false
-                })
-                .select()
-                .single()
-            // if supabase returns and error, console.log it
-            if (error) {
-                console.error('Error inserting article:', article.title, error.message)
-            } else {
-                // else push the data to the insertedArticles array
-                insertedArticles.push(data)
-                console.log(`✓ Inserted: ${article.title.substring(0, 60)}...`)
-            }
-        } catch (e) {
-            console.error('Error inserting article:', article.title, e)
-        }
-    }
-
-    console.log(`\nSuccessfully inserted ${insertedArticles.length} out of ${articles.length} articles`)
-    return insertedArticles // returning the array so we can perform analysis
-}
-
@@ -0,0 +1,118 @@
+// lib/mockProvider.ts
+/**
+ * Deterministic mock provider for tests and offline development
+ *
+ * Enabled with MOCK_AI=true outside production (see lib/models.ts). Replies are scripted per model ID
+ * and go through the same parse → validate → repair path as real chat providers,
+ * so malformed JSON, <think> tags, partial categories and timeouts can be replayed.
+ *
+ * With no script queued, a model answers with a valid neutral (0.0) analysis.
+ */
+
+import type { ModelRun } from '@/lib/ai'
+import type { ModelConfig } from '@/lib/models'
+import { BiasCategoryPrompt, BUILTIN_STRICT_PROMPT_TEMPLATE, PromptTemplate } from '@/lib/prompts'
+import { analyzeWithChat, ChatMessage, ChatReply, ChatSender } from '@/lib/openaiCompatible'
+import { classifyProviderError, ProviderError } from '@/lib/providerResilience'
+
+export type MockReply =
+  | { type: 'text'; text: string }      // raw model output (valid or not)
+  | { type: 'error'; message: string; status?: number; retryAfterMs?: number } // provider throws (e.g. 429, 500)
+  | { type: 'timeout'; afterMs: number } // provider hangs, then times out (or hits the request timeout first)
+
+// Queued replies per model ID, consumed in order (first call, then repair call...)
+const mockScripts = new Map<string, MockReply[]>()
+
+// Number of provider calls made per model ID (lets tests assert repair prompts were sent)
+const mockCallCounts = new Map<string, number>()
+
+// First-turn prompt of every call per model ID (lets tests check which template was used)
+const mockPrompts = new Map<string, string[]>()
+
+export function setMockReplies(modelId: string, replies: MockReply[]): void {
+  mockScripts.set(modelId, [...replies])
+}
+
+export function getMockCallCount(modelId: string): number {
+  return mockCallCounts.get(modelId) || 0
+}
+
+export function getMockPrompts(modelId: string): string[] {
+  return mockPrompts.get(modelId) || []
+}
+
+export function resetMockProvider(): void {
+  mockScripts.clear()
+  mockCallCounts.clear()
+  mockPrompts.clear()
+}
+
+/**
+ * Valid analysis scoring every category 0.0 (used when no reply is scripted)
+ */
+function neutralReply(biasCategories: BiasCategoryPrompt[]): string {
+  return JSON.stringify({
+    scores: biasCategories.map(cat => ({
+      category: cat.name,
+      score: 0,
+      explanation: `Mock explanation for ${cat.name}`
+    })),
+    summary: 'Mock analysis with neutral scores'
+  })
+}
+
+/**
+ * Deterministic token usage (~4 chars per token) so run records have numbers to check
+ */
+function withUsage(messages: ChatMessage[], text: string): ChatReply {
+  const promptChars = messages.reduce((sum, m) => sum + m.content.length, 0)
+  return {
+    text,
+    usage: { promptTokens: Math.ceil(promptChars / 4), completionTokens: Math.ceil(text.length / 4) }
+  }
+}
+
+/**
+ * Chat sender that replays the model's script (see setMockReplies)
+ * `fallback` builds the reply when nothing is queued.
+ * Used by analyzeWithMock and by other prompts sent through chatSenderFor() in lib/ai.ts.
+ */
+export function mockChatSender(model: ModelConfig, fallback: (messages: ChatMessage[]) => string): ChatSender {
+  return async messages => {
+    mockCallCounts.set(model.id, getMockCallCount(model.id) + 1)
+    mockPrompts.set(model.id, [...getMockPrompts(model.id), messages[0].content])
+
+    const reply = mockScripts.get(model.id)?.shift()
+    if (!reply) return withUsage(messages, fallback(messages))
+
+    if (reply.type === 'error') {
+      // Classified like a real SDK error, with the status/retry-after a real API would send
+      const { kind } = classifyProviderError(Object.assign(new Error(reply.message), { status: reply.status }))
+      throw new ProviderError(reply.message, { kind, status: reply.status ?? null, retryAfterMs: reply.retryAfterMs ?? null })
+    }
+
+    if (reply.type === 'timeout') {
+      await new Promise(resolve => setTimeout(resolve, reply.afterMs))
+      throw new Error(`Request timed out after ${reply.afterMs}ms`)
+    }
+
+    return withUsage(messages, reply.text)
+  }
+}
+
+// function to analyze with the mock provider
+export async function analyzeWithMock(
+  content: string,
+  biasCategories: BiasCategoryPrompt[],
+  model: ModelConfig,
+  template: PromptTemplate = BUILTIN_STRICT_PROMPT_TEMPLATE
+): Promise<ModelRun> {
+  return analyzeWithChat(
+    content,
+    biasCategories,
+    mockChatSender(model, () => neutralReply(biasCategories)),
+    `[Mock:${model.id}]`,
+    template,
+    'mock'
+  )
+}
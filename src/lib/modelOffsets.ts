@@ -0,0 +1,109 @@
+// lib/modelOffsets.ts
+/**
+ * Stored per-model, per-category offsets (model_offsets table)
+ *
+ * refreshModelOffsets() recomputes every enabled model's tendency (mean deviation
+ * from the ensemble, see utils/modelOffsets.ts) over all current scores, active
+ * and archived, and upserts one row per (model, category). The daily cron runs it.
+ *
+ * loadModelOffsets() returns the offsets pages subtract for calibrated scores.
+ * Offsets with fewer than MIN_OFFSET_SAMPLES comparisons are left out.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { getEnabledModels } from '@/lib/models'
+import { computeModelTendencies, MIN_OFFSET_SAMPLES, ModelOffsets, ScoreObservation } from '@/utils/modelOffsets'
+
+export interface OffsetRefreshResult {
+  scoresRead: number
+  offsetsSaved: number
+}
+
+/**
+ * Recompute offsets from every current score and store them
+ *
+ * Scores are read in pages ordered by id: PostgREST caps each response at its
+ * max-rows setting (1000 by default), so pageSize must not exceed it.
+ */
+export async function refreshModelOffsets(supabaseClient: SupabaseClient, pageSize = 1000): Promise<OffsetRefreshResult> {
+  const modelIds = getEnabledModels().map(m => m.id)
+  const observations: ScoreObservation[] = []
+
+  for (const table of ['ai_scores', 'archived_ai_scores']) {
+    // Every page, so each article's ensemble is complete
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabaseClient
+        .from(table)
+        .select('id, media_id, category_id, model_name, score')
+        .in('model_name', modelIds)
+        .eq('is_current', true)
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1)
+
+      if (error) {
+        throw new Error(`Failed to read ${table}: ${error.message}`)
+      }
+      observations.push(...(data || []).map(row => ({
+        mediaId: row.media_id,
+        model: row.model_name,
+        category: row.category_id,
+        score: Number(row.score)
+      })))
+      if (!data || data.length < pageSize) break
+    }
+  }
+
+  const tendencies = computeModelTendencies(observations, modelIds)
+  const computedAt = new Date().toISOString()
+  const rows = Object.entries(tendencies).flatMap(([model, categories]) =>
+    Object.entries(categories).map(([categoryId, tendency]) => ({
+      model_name: model,
+      category_id: categoryId,
+      offset: tendency.deviation,
+      sample_size: tendency.count,
+      computed_at: computedAt
+    }))
+  )
+
+  if (rows.length > 0) {
+    const { error } = await supabaseClient
+      .from('model_offsets')
+      .upsert(rows, { onConflict: 'model_name,category_id' })
+    if (error) {
+      throw new Error(`Failed to save model offsets: ${error.message}`)
+    }
+  }
+
+  console.log(`[Offsets] ✓ ${rows.length} offsets from ${observations.length} scores`)
+  return { scoresRead: observations.length, offsetsSaved: rows.length }
+}
+
+/**
+ * Offsets with enough samples, keyed by model ID and category name
+ * Returns an empty map if offsets can't be loaded (calibrated = raw scores)
+ */
+export async function loadModelOffsets(supabaseClient: SupabaseClient): Promise<ModelOffsets> {
+  const [{ data: rows, error }, { data: categories }] = await Promise.all([
+    supabaseClient
+      .from('model_offsets')
+      .select('model_name, category_id, offset')
+      .gte('sample_size', MIN_OFFSET_SAMPLES),
+    supabaseClient
+      .from('bias_categories')
+      .select('id, name')
+  ])
+
+  if (error || !rows) {
+    console.error('[Offsets] ❌ Could not load model offsets:', error)
+    return {}
+  }
+
+  const categoryNames = new Map((categories || []).map(c => [c.id, c.name]))
+  const offsets: ModelOffsets = {}
+  for (const row of rows) {
+    const category = categoryNames.get(row.category_id)
+    if (!category) continue
+    offsets[row.model_name] = { ...offsets[row.model_name], [category]: Number(row.offset) }
+  }
+  return offsets
+}
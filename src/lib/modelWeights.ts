@@ -0,0 +1,75 @@
+// lib/modelWeights.ts
+/**
+ * Reliability weights for the 'weighted' aggregation mode (utils/aggregation.ts)
+ *
+ * A model's weight comes from its typical error, from one of two sources:
+ * - calibration: the MAE of its latest gold-set benchmark (calibration_runs)
+ * - agreement: its mean absolute offset from the ensemble (model_offsets)
+ *
+ * Calibration is used when at least two models have a benchmark, because weights
+ * only mean something relative to each other. Errors from the two sources aren't
+ * on the same scale, so they are never mixed: models missing from the chosen
+ * source get weight 1.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { MIN_OFFSET_SAMPLES } from '@/utils/modelOffsets'
+import { ModelWeights, reliabilityWeights } from '@/utils/aggregation'
+
+export type WeightSource = 'calibration' | 'agreement' | 'none'
+
+export interface ReliabilityWeights {
+  source: WeightSource
+  weights: ModelWeights
+}
+
+/**
+ * Load weights for every model with history
+ * Returns empty weights (a plain mean) if nothing can be loaded.
+ */
+export async function loadReliabilityWeights(supabaseClient: SupabaseClient): Promise<ReliabilityWeights> {
+  const { data: runs, error: runsError } = await supabaseClient
+    .from('calibration_runs')
+    .select('model_name, mae, created_at')
+    .order('created_at', { ascending: false })
+
+  if (runsError) {
+    console.error('[Weights] ⚠️ Could not load calibration runs:', runsError)
+  }
+
+  // Rows are newest first, so the first one seen per model is its latest benchmark
+  // (runs with no score pairs have a null MAE and are skipped)
+  const calibrationErrors: Record<string, number> = {}
+  for (const run of runs || []) {
+    if (run.mae !== null && !(run.model_name in calibrationErrors)) {
+      calibrationErrors[run.model_name] = Number(run.mae)
+    }
+  }
+
+  if (Object.keys(calibrationErrors).length >= 2) {
+    return { source: 'calibration', weights: reliabilityWeights(calibrationErrors) }
+  }
+
+  const { data: offsets, error: offsetsError } = await supabaseClient
+    .from('model_offsets')
+    .select('model_name, offset')
+    .gte('sample_size', MIN_OFFSET_SAMPLES)
+
+  if (offsetsError || !offsets) {
+    console.error('[Weights] ❌ Could not load model offsets:', offsetsError)
+    return { source: 'none', weights: {} }
+  }
+
+  const deviations = new Map<string, number[]>()
+  for (const row of offsets) {
+    deviations.set(row.model_name, [...(deviations.get(row.model_name) || []), Math.abs(Number(row.offset))])
+  }
+  const agreementErrors = Object.fromEntries(
+    Array.from(deviations.entries()).map(([model, values]) => [model, values.reduce((sum, v) => sum + v, 0) / values.length])
+  )
+
+  if (Object.keys(agreementErrors).length < 2) {
+    return { source: 'none', weights: {} }
+  }
+  return { source: 'agreement', weights: reliabilityWeights(agreementErrors) }
+}
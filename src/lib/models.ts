@@ -0,0 +1,152 @@
+// lib/models.ts
+/**
+ * AI Model Registry
+ *
+ * Single source of truth for which models analyze articles and how they are
+ * displayed. Adding or retiring a model is a change to MODEL_REGISTRY only:
+ * analyzeArticle, the batch runner, /api/ai_analyze and every page read from here.
+ *
+ * NOTE: This file must stay free of server-only imports (SDK clients, Supabase admin)
+ * because client components (analyze page, dashboard) import it for display info.
+ */
+
+// Provider adapters that know how to call a model (see PROVIDERS in lib/ai.ts)
+export type ProviderName = 'gemini' | 'groq' | 'openai-compatible' | 'mock'
+
+export interface ModelConfig {
+  id: string                    // model identifier sent to the provider and stored in ai_scores.model_name
+  provider: ProviderName
+  displayName: string
+  color: string                 // Tailwind classes for model cards and badges
+  enabled: boolean              // disabled models are skipped for new analyses
+  maxContentChars: number | null // context budget for article content (null = send whole article)
+  longContentMode?: 'truncate' | 'chunk' // over budget: cut to maxContentChars (default) or score in chunks
+  fallbackModels?: string[]     // tried in order if the primary model fails (scores still saved under id)
+  baseUrl?: string              // openai-compatible only: e.g. http://localhost:11434/v1 for Ollama
+  providerModel?: string        // model name sent to the provider when it differs from id
+}
+
+/**
+ * Local / self-hosted model (Ollama, llama.cpp server, vLLM) via an OpenAI-compatible endpoint
+ *
+ * LOCAL_LLM_BASE_URL  - enables the model, e.g. http://localhost:11434/v1
+ * LOCAL_LLM_MODEL     - model name on that server (default: llama3.1:8b)
+ * LOCAL_LLM_API_KEY   - optional bearer token (vLLM --api-key, hosted gateways)
+ * LOCAL_LLM_ONLY=true - run ONLY local models, so no Gemini/Groq keys or network are needed
+ *
+ * These are server-only env vars; in client components the local model shows as disabled,
+ * which only affects getEnabledModels() (display lookups still work).
+ */
+const LOCAL_LLM_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1:8b'
+const LOCAL_LLM_ONLY = process.env.LOCAL_LLM_ONLY === 'true'
+
+// MOCK_AI=true replaces every model with scripted mocks (lib/mockProvider.ts) for tests.
+// Never in production: a stray MOCK_AI there would publish fabricated scores.
+const IS_PRODUCTION = process.env.NODE_ENV === 'production'
+const MOCK_AI = process.env.MOCK_AI === 'true' && !IS_PRODUCTION
+if (process.env.MOCK_AI === 'true' && IS_PRODUCTION) {
+  console.warn('[Models] ⚠️ MOCK_AI is ignored when NODE_ENV=production')
+}
+
+const DEFAULT_MODEL_COLOR = 'bg-gray-100 dark:bg-gray-900/30 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-800'
+
+// Scripted models for tests (lib/mockProvider.ts); enabled by MOCK_AI
+const MOCK_MODELS: ModelConfig[] = [
+  {
+    id: 'mock/alpha',
+    provider: 'mock',
+    displayName: 'Mock Model Alpha',
+    color: DEFAULT_MODEL_COLOR,
+    enabled: MOCK_AI,
+    maxContentChars: null
+  },
+  {
+    id: 'mock/beta',
+    provider: 'mock',
+    displayName: 'Mock Model Beta',
+    color: DEFAULT_MODEL_COLOR,
+    enabled: MOCK_AI,
+    maxContentChars: 12000,
+    longContentMode: 'chunk'
+  }
+]
+
+export const MODEL_REGISTRY: ModelConfig[] = [
+  {
+    id: 'gemini-2.5-flash',
+    provider: 'gemini',
+    displayName: 'Google Gemini 2.5 Flash',
+    color: 'bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 border-blue-200 dark:border-blue-800',
+    enabled: true,
+    maxContentChars: null,
+    fallbackModels: ['gemini-2.5-flash-lite']
+  },
+  {
+    id: 'qwen/qwen3-32b',
+    provider: 'groq',
+    displayName: 'Alibaba Qwen3 32B',
+    color: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-200 dark:border-orange-800',
+    enabled: true,
+    maxContentChars: 12000, // ~3000 tokens for content, rest for prompt/response
+    longContentMode: 'chunk'
+  },
+  {
+    id: 'openai/gpt-oss-120b',
+    provider: 'groq',
+    displayName: 'OpenAI GPT-OSS 120B',
+    color: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800',
+    enabled: true,
+    maxContentChars: 12000,
+    longContentMode: 'chunk'
+  },
+  {
+    id: 'meta-llama/llama-4-maverick-17b-128e-instruct',
+    provider: 'groq',
+    displayName: 'Meta Llama 4 Maverick',
+    color: 'bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 border-purple-200 dark:border-purple-800',
+    enabled: true,
+    maxContentChars: 12000,
+    longContentMode: 'chunk'
+  },
+  {
+    id: `local/${LOCAL_LLM_MODEL}`,
+    provider: 'openai-compatible',
+    displayName: `Local ${LOCAL_LLM_MODEL}`,
+    color: 'bg-stone-200 dark:bg-stone-800/60 text-stone-700 dark:text-stone-300 border-stone-300 dark:border-stone-700',
+    enabled: !!process.env.LOCAL_LLM_BASE_URL,
+    maxContentChars: 12000, // small local context windows, same budget as Groq
+    longContentMode: 'chunk',
+    baseUrl: process.env.LOCAL_LLM_BASE_URL,
+    providerModel: LOCAL_LLM_MODEL
+  },
+  // Scripted test models: left out of production builds entirely
+  ...(IS_PRODUCTION ? [] : MOCK_MODELS)
+]
+
+/**
+ * Models that new analyses run against, in display order
+ */
+export function getEnabledModels(): ModelConfig[] {
+  if (MOCK_AI) {
+    return MODEL_REGISTRY.filter(model => model.provider === 'mock')
+  }
+  return MODEL_REGISTRY.filter(model =>
+    model.enabled && (!LOCAL_LLM_ONLY || model.provider === 'openai-compatible')
+  )
+}
+
+/**
+ * Look up a model by its stored model_name (includes disabled models,
+ * so historical scores from retired models still display correctly)
+ */
+export function getModelConfig(modelId: string): ModelConfig | undefined {
+  return MODEL_REGISTRY.find(model => model.id === modelId)
+}
+
+export function getModelDisplayName(modelId: string): string {
+  return getModelConfig(modelId)?.displayName || modelId
+}
+
+export function getModelColor(modelId: string): string {
+  return getModelConfig(modelId)?.color || DEFAULT_MODEL_COLOR
+}
@@ -0,0 +1,219 @@
+// lib/newsEvents.ts
+/**
+ * News events: one real-world event as covered by several outlets
+ *
+ * refreshNewsEvents() regroups every curated article stored in the last
+ * EVENT_LOOKBACK_WINDOWS windows (active and archived) with groupEvents()
+ * (utils/newsEvents.ts) and writes media.event_id / archived_media.event_id.
+ * A group keeps the event id most of its members already had, so /stories/[id]
+ * links stay stable as coverage arrives; events left with no members are deleted.
+ *
+ * Syndicated copies (lib/storyClusters.ts) are left out: they carry their
+ * original's text, and /stories/[id] lists them under it.
+ *
+ * Articles are read in pages and looked up by id in batches of IN_BATCH_SIZE
+ * (PostgREST caps responses at max-rows and filters travel in the URL). Only the
+ * lead of each cached text is read, through the content_lead computed column.
+ *
+ * Runs in its own cron (/api/cron/news-events), so the analysis worker can't use up its time.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { articlePlainText } from '@/utils/evidence'
+import { EVENT_WINDOW_HOURS, EventCandidate, groupEvents } from '@/utils/newsEvents'
+
+// Articles older than this many windows keep their event as is
+const EVENT_LOOKBACK_WINDOWS = 2
+
+// Ids per .in() filter: keeps the request URL well under proxy limits
+const IN_BATCH_SIZE = 100
+
+const MEDIA_TABLES = ['media', 'archived_media'] as const
+type MediaTable = typeof MEDIA_TABLES[number]
+
+interface StoredArticle {
+  id: string
+  title: string | null
+  description: string | null
+  source: string | null
+  published_at: string | null
+  created_at: string | null
+  event_id: string | null
+  table: MediaTable
+}
+
+export interface EventRefreshResult {
+  articlesConsidered: number
+  eventsCreated: number
+  eventsUpdated: number
+  eventsDeleted: number
+  articlesAssigned: number   // articles whose event_id changed (including to null)
+}
+
+/**
+ * Regroup recent articles into events and store the assignment
+ *
+ * Throws on database errors; an interrupted run is repaired by the next one.
+ * pageSize must not exceed PostgREST's max-rows (1000 by default).
+ */
+export async function refreshNewsEvents({
+  supabaseClient,
+  now = new Date(),
+  windowHours = EVENT_WINDOW_HOURS,
+  pageSize = 1000
+}: {
+  supabaseClient: SupabaseClient
+  now?: Date
+  windowHours?: number
+  pageSize?: number
+}): Promise<EventRefreshResult> {
+  const since = new Date(now.getTime() - EVENT_LOOKBACK_WINDOWS * windowHours * 60 * 60 * 1000).toISOString()
+  const result: EventRefreshResult = { articlesConsidered: 0, eventsCreated: 0, eventsUpdated: 0, eventsDeleted: 0, articlesAssigned: 0 }
+
+  const articles: StoredArticle[] = []
+  for (const table of MEDIA_TABLES) {
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await supabaseClient
+        .from(table)
+        .select('id, title, description, source, published_at, created_at, event_id')
+        .eq('user_analyzed', false)
+        .eq('is_syndicated', false)
+        .gte('created_at', since)
+        .order('id', { ascending: true })
+        .range(from, from + pageSize - 1)
+      if (error) {
+        throw new Error(`Failed to load ${table} for events: ${error.message}`)
+      }
+      for (const row of data || []) {
+        const { id, title, description, source, published_at, created_at, event_id } = row
+        articles.push({ id, title, description, source, published_at, created_at, event_id: event_id ?? null, table })
+      }
+      if (!data || data.length < pageSize) break
+    }
+  }
+  result.articlesConsidered = articles.length
+  if (articles.length === 0) return result
+
+  // Lead of the cached text where the article has been fetched; the description otherwise
+  const textById = new Map<string, string>()
+  for (const ids of batches(articles.map(a => a.id))) {
+    const { data: cached, error: contentError } = await supabaseClient
+      .from('media_content')
+      .select('media_id, content_lead')
+      .in('media_id', ids)
+    if (contentError) {
+      throw new Error(`Failed to load article content for events: ${contentError.message}`)
+    }
+    for (const row of cached || []) textById.set(row.media_id, articlePlainText(row.content_lead || ''))
+  }
+
+  const candidates: EventCandidate[] = articles.map(article => ({
+    id: article.id,
+    source: article.source,
+    title: article.title || '',
+    text: [article.description || '', textById.get(article.id) || ''].join(' '),
+    publishedAt: article.published_at || article.created_at || now.toISOString()
+  }))
+  const groups = groupEvents(candidates, { windowHours })
+
+  const byId = new Map(articles.map(a => [a.id, a]))
+  const previousEventIds = new Set(articles.map(a => a.event_id).filter((id): id is string => !!id))
+  const keptEventIds = new Set<string>()
+  const assignments = new Map<string, string | null>(articles.map(a => [a.id, null]))
+
+  for (const group of groups) {
+    const members = group.map(id => byId.get(id)!)
+    const eventId = pickExistingEvent(members, keptEventIds) || await createEvent(supabaseClient)
+    if (!previousEventIds.has(eventId)) result.eventsCreated++
+    else result.eventsUpdated++
+    keptEventIds.add(eventId)
+    for (const member of members) assignments.set(member.id, eventId)
+
+    // Members are in publish order: the first headline names the event
+    const published = members.map(m => m.published_at || m.created_at).filter((t): t is string => !!t)
+    const { error } = await supabaseClient
+      .from('news_events')
+      .update({
+        title: members[0].title || 'Untitled event',
+        first_published_at: published[0] || null,
+        last_published_at: published[published.length - 1] || null,
+        article_count: members.length,
+        outlet_count: new Set(members.map(m => (m.source || m.id).toLowerCase())).size,
+        updated_at: now.toISOString()
+      })
+      .eq('id', eventId)
+    if (error) {
+      throw new Error(`Failed to update event ${eventId}: ${error.message}`)
+    }
+  }
+
+  // Write only the rows whose event changed, one update per table and event
+  const changes = new Map<string, { table: MediaTable; eventId: string | null; ids: string[] }>()
+  for (const article of articles) {
+    const eventId = assignments.get(article.id) ?? null
+    if (eventId === article.event_id) continue
+    const key = `${article.table}:${eventId}`
+    const change = changes.get(key) || { table: article.table, eventId, ids: [] }
+    change.ids.push(article.id)
+    changes.set(key, change)
+  }
+  for (const { table, eventId, ids } of changes.values()) {
+    for (const batch of batches(ids)) {
+      const { error } = await supabaseClient.from(table).update({ event_id: eventId }).in('id', batch)
+      if (error) {
+        throw new Error(`Failed to assign ${table} events: ${error.message}`)
+      }
+      result.articlesAssigned += batch.length
+    }
+  }
+
+  // Events that lost every member (older members outside the lookback keep theirs alive)
+  for (const eventId of previousEventIds) {
+    if (keptEventIds.has(eventId)) continue
+    let remaining = 0
+    for (const table of MEDIA_TABLES) {
+      const { count } = await supabaseClient
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('event_id', eventId)
+      remaining += count || 0
+    }
+    if (remaining === 0) {
+      await supabaseClient.from('news_events').delete().eq('id', eventId)
+      result.eventsDeleted++
+    }
+  }
+
+  console.log(`[Events] ✓ ${groups.length} events across ${result.articlesConsidered} articles (${result.eventsCreated} new, ${result.articlesAssigned} articles reassigned, ${result.eventsDeleted} removed)`)
+  return result
+}
+
+function batches<T>(items: T[], size = IN_BATCH_SIZE): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += size) result.push(items.slice(i, i + size))
+  return result
+}
+
+// The event most members already belong to, unless another group claimed it this run
+function pickExistingEvent(members: StoredArticle[], claimed: Set<string>): string | null {
+  const votes = new Map<string, number>()
+  for (const member of members) {
+    if (member.event_id && !claimed.has(member.event_id)) {
+      votes.set(member.event_id, (votes.get(member.event_id) || 0) + 1)
+    }
+  }
+  const ranked = Array.from(votes.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  return ranked[0]?.[0] || null
+}
+
+async function createEvent(supabaseClient: SupabaseClient): Promise<string> {
+  const { data: event, error } = await supabaseClient
+    .from('news_events')
+    .insert({ title: 'Untitled event' })
+    .select('id')
+    .single()
+  if (error || !event) {
+    throw new Error(`Failed to create news event: ${error?.message}`)
+  }
+  return event.id
+}
@@ -0,0 +1,172 @@
+// lib/newsSources.ts
+/**
+ * News Source Registry and Ingestion
+ *
+ * A NewsSource turns an external feed into normalized IngestedArticle objects.
+ * ingestArticles() is the only place that writes new articles to media, so adding
+ * a source means implementing fetchArticles() and listing it in getNewsSources();
+ * the insertion loop, deduplication and logging stay shared.
+ *
+ * Sources: GNews (lib/gnews.ts) and curated RSS/Atom feeds (lib/rssFeeds.ts).
+ * Used by scripts/initArticles.ts (daily cron) and /api/_articles (preview).
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { createGNewsSource } from '@/lib/gnews'
+import { createRssSource } from '@/lib/rssFeeds'
+import { findStoredUrlKeys } from '@/lib/existingArticles'
+import { canonicalizeUrl, urlKey } from '@/utils/canonicalUrl'
+
+// A row of news_categories (GNews topics: world, business, technology...)
+export interface NewsCategory {
+  id: string
+  name: string
+}
+
+// One article from any source, already mapped onto media's columns
+export interface IngestedArticle {
+  sourceId: string           // NewsSource.id that produced it
+  externalId: string | null  // the source's own article ID, if it has one
+  title: string
+  url: string
+  source: string             // publication name shown on the site (media.source)
+  imageUrl: string | null
+  description: string | null
+  publishedAt: string | null // ISO timestamp
+  categoryId: string | null  // news_categories.id
+}
+
+export interface NewsSource {
+  id: string
+  displayName: string
+  fetchArticles(categories: NewsCategory[]): Promise<IngestedArticle[]>
+}
+
+// Columns returned for each inserted media row
+export interface InsertedArticle {
+  id: string
+  title: string
+  url: string
+  source: string
+  category_id: string | null
+}
+
+/**
+ * Sources enabled by the environment
+ * GNEWS_API_KEY - enables GNews top headlines (GNEWS_BASE_URL overrides the API host)
+ * RSS feeds are always polled; with no enabled rows in news_feeds they add nothing.
+ */
+export function getNewsSources(supabaseClient: SupabaseClient): NewsSource[] {
+  const sources: NewsSource[] = []
+  if (process.env.GNEWS_API_KEY) {
+    sources.push(createGNewsSource({
+      apiKey: process.env.GNEWS_API_KEY,
+      baseUrl: process.env.GNEWS_BASE_URL
+    }))
+  }
+  sources.push(createRssSource({ supabaseClient }))
+  return sources
+}
+
+/**
+ * Categories every source fetches for
+ */
+export async function loadNewsCategories(supabaseClient: SupabaseClient): Promise<NewsCategory[]> {
+  const { data: categories, error } = await supabaseClient
+    .from('news_categories')
+    .select('id, name')
+
+  if (error || !categories) {
+    console.error('[Ingest] ❌ Could not fetch news categories:', error)
+    throw new Error('Failed to fetch categories from Supabase')
+  }
+  return categories
+}
+
+/**
+ * Fetch from every source; a source that throws is logged and skipped
+ */
+export async function fetchFromSources(
+  sources: NewsSource[],
+  supabaseClient: SupabaseClient
+): Promise<IngestedArticle[]> {
+  const categories = await loadNewsCategories(supabaseClient)
+  console.log(`[Ingest] Fetching ${categories.length} categories from ${sources.length} sources: ${sources.map(s => s.displayName).join(', ')}`)
+
+  const articles: IngestedArticle[] = []
+  for (const source of sources) {
+    try {
+      const fetched = await source.fetchArticles(categories)
+      console.log(`[Ingest] ✓ ${source.displayName}: ${fetched.length} articles`)
+      articles.push(...fetched)
+    } catch (error) {
+      console.error(`[Ingest] ❌ ${source.displayName} failed:`, error)
+    }
+  }
+  return articles
+}
+
+/**
+ * Insert articles into media, one row per story
+ *
+ * Articles are matched by urlKey (utils/canonicalUrl.ts), so tracking parameters,
+ * AMP and http/https variants of one URL count as the same story. Duplicates within
+ * the batch are dropped (the first one wins) and stories already in media or
+ * archived_media are skipped, keeping their existing row and scores. URLs are
+ * stored canonicalized. Rows the database rejects are logged and skipped.
+ * Returns the inserted rows so the caller can queue them for analysis.
+ */
+export async function ingestArticles(
+  articles: IngestedArticle[],
+  supabaseClient: SupabaseClient
+): Promise<InsertedArticle[]> {
+  const byKey = new Map<string, IngestedArticle>()
+  for (const article of articles) {
+    const key = urlKey(article.url)
+    if (!byKey.has(key)) byKey.set(key, article)
+  }
+  const stored = await findStoredUrlKeys(Array.from(byKey.keys()), supabaseClient)
+  const unique = Array.from(byKey.entries()).filter(([key]) => !stored.has(key))
+  console.log(`[Ingest] Inserting ${unique.length} articles (${articles.length - byKey.size} duplicates in batch, ${stored.size} already stored)`)
+
+  const inserted: InsertedArticle[] = []
+  for (const [key, article] of unique) {
+    const { data, error } = await supabaseClient
+      .from('media')
+      .insert({
+        title: article.title,
+        url: canonicalizeUrl(article.url),
+        url_key: key,
+        source: article.source,
+        image_url: article.imageUrl,
+        description: article.description,
+        published_at: article.publishedAt,
+        media_type: 'article',
+        category_id: article.categoryId,
+        user_analyzed: false
+      })
+      .select('id, title, url, source, category_id')
+      .single()
+
+    if (error || !data) {
+      console.error(`[Ingest] ❌ Not inserted: ${article.title}`, error?.message)
+      continue
+    }
+    inserted.push(data)
+    console.log(`[Ingest] ✓ Inserted: ${article.title.substring(0, 60)}...`)
+  }
+
+  console.log(`[Ingest] Inserted ${inserted.length} out of ${unique.length} articles`)
+  return inserted
+}
+
+/**
+ * Fetch from every source and insert the results
+ */
+export async function ingestFromSources(
+  sources: NewsSource[],
+  supabaseClient: SupabaseClient
+): Promise<InsertedArticle[]> {
+  const articles = await fetchFromSources(sources, supabaseClient)
+  return ingestArticles(articles, supabaseClient)
+}
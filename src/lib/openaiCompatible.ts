@@ -0,0 +1,218 @@
+// lib/openaiCompatible.ts
+/**
+ * Provider for any OpenAI-compatible chat completions endpoint
+ * (Ollama, llama.cpp server, vLLM, LM Studio...)
+ *
+ * Lets the full ingest → analyze → archive pipeline run against a local
+ * stand-in model with no Gemini/Groq keys or internet access.
+ * Configured through the model registry (see LOCAL_LLM_* in lib/models.ts).
+ */
+
+import type { ModelRun } from '@/lib/ai'
+import type { ModelConfig, ProviderName } from '@/lib/models'
+import {
+  BiasCategoryPrompt,
+  BUILTIN_STRICT_PROMPT_TEMPLATE,
+  buildAnalysisPrompt,
+  buildRepairPrompt,
+  PromptTemplate,
+  promptTemplateHash
+} from '@/lib/prompts'
+import { addUsage, TokenUsage } from '@/lib/analysisRuns'
+import {
+  callWithRetry,
+  classifyProviderError,
+  parseRetryAfter,
+  ProviderError,
+  ProviderErrorKind
+} from '@/lib/providerResilience'
+import { parseAnalysisResponse } from '@/utils/validateAnalysis'
+
+export type ChatMessage = { role: 'user' | 'assistant'; content: string }
+
+// Reply text (null = empty reply) and token usage if the server reports it
+export type ChatReply = { text: string | null; usage: TokenUsage | null }
+
+// Sends a conversation and returns the reply (timeoutMs = this provider's request timeout)
+export type ChatSender = (messages: ChatMessage[], timeoutMs: number) => Promise<ChatReply>
+
+/**
+ * POST /chat/completions and return the first choice's text
+ */
+export async function createChatCompletion(
+  baseUrl: string,
+  model: string,
+  messages: ChatMessage[],
+  timeoutMs: number
+): Promise<ChatReply> {
+  const apiKey = process.env.LOCAL_LLM_API_KEY
+
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: 0.3,
+      max_tokens: 1500,
+      stream: false
+    }),
+    cache: 'no-store',
+    signal: AbortSignal.timeout(timeoutMs)
+  })
+
+  if (!response.ok) {
+    const body = await response.text()
+    const { status } = response
+    throw new ProviderError(`HTTP ${status} from ${baseUrl}: ${body.substring(0, 200)}`, {
+      kind: status === 429 ? 'rate_limit' : status >= 500 ? 'server_error' : 'client_error',
+      status,
+      retryAfterMs: parseRetryAfter(response.headers)
+    })
+  }
+
+  const data = await response.json()
+  return {
+    text: data.choices?.[0]?.message?.content || null,
+    usage: data.usage
+      ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+      : null
+  }
+}
+
+// function to analyze with an OpenAI-compatible endpoint
+export async function analyzeWithOpenAICompatible(
+  content: string,
+  biasCategories: BiasCategoryPrompt[],
+  model: ModelConfig,
+  template: PromptTemplate = BUILTIN_STRICT_PROMPT_TEMPLATE
+): Promise<ModelRun> {
+  const modelName = model.providerModel || model.id
+  const baseUrl = model.baseUrl
+
+  if (!baseUrl) {
+    console.error(`[Local:${modelName}] ❌ No baseUrl configured (set LOCAL_LLM_BASE_URL)`)
+    return {
+      analysis: null,
+      validationErrors: [],
+      repaired: false,
+      rawResponses: [],
+      usage: null,
+      latencyMs: 0,
+      error: 'No baseUrl configured',
+      errorKind: 'client_error',
+      retries: 0,
+      promptHash: null
+    }
+  }
+
+  console.log(`[Local:${modelName}] Sending requests to ${baseUrl}`)
+  return analyzeWithChat(
+    content,
+    biasCategories,
+    (messages, timeoutMs) => createChatCompletion(baseUrl, modelName, messages, timeoutMs),
+    `[Local:${modelName}]`,
+    template,
+    'openai-compatible'
+  )
+}
+
+/**
+ * Prompt → parse/validate → one-shot repair loop for chat-style providers
+ * Shared by the OpenAI-compatible provider and the mock provider (lib/mockProvider.ts)
+ * Every send() goes through callWithRetry() with the provider's timeout
+ */
+export async function analyzeWithChat(
+  content: string,
+  biasCategories: BiasCategoryPrompt[],
+  send: ChatSender,
+  logPrefix: string,
+  template: PromptTemplate = BUILTIN_STRICT_PROMPT_TEMPLATE,
+  provider: ProviderName = 'openai-compatible'
+): Promise<ModelRun> {
+  const startTime = Date.now()
+  let validationErrors: string[] = []
+  const rawResponses: string[] = []
+  let usage: TokenUsage | null = null
+  let retries = 0
+
+  const sendWithRetry = (messages: ChatMessage[]) =>
+    callWithRetry(timeoutMs => send(messages, timeoutMs), { provider, logPrefix, onRetry: () => { retries++ } })
+
+  console.log(`${logPrefix} Starting analysis...`)
+  console.log(`${logPrefix} Content length: ${content.length} chars`)
+
+  const categoryNames = biasCategories.map(c => c.name)
+  const prompt = buildAnalysisPrompt(content, biasCategories, template)
+
+  // Every return goes through here so run records are complete
+  const finish = (
+    analysis: ModelRun['analysis'],
+    repaired: boolean,
+    error: string | null = null,
+    errorKind: ProviderErrorKind | null = analysis ? null : 'parse_error'
+  ): ModelRun => ({
+    analysis,
+    validationErrors,
+    repaired,
+    rawResponses,
+    usage,
+    latencyMs: Date.now() - startTime,
+    error,
+    errorKind,
+    retries,
+    promptHash: promptTemplateHash(biasCategories, template)
+  })
+
+  try {
+    const reply = await sendWithRetry([{ role: 'user', content: prompt }])
+    const text = reply.text
+    usage = addUsage(usage, reply.usage)
+    console.log(`${logPrefix} Response received in ${Date.now() - startTime}ms`)
+
+    if (!text) {
+      console.error(`${logPrefix} ❌ Returned no text`)
+      return finish(null, false, 'Empty response')
+    }
+    rawResponses.push(text)
+
+    let result = parseAnalysisResponse(text, categoryNames)
+    let repaired = false
+
+    // One-shot repair: send the validation errors back to the same model
+    if (!result.analysis) {
+      validationErrors = result.errors
+      console.warn(`${logPrefix} ⚠️ Reply failed validation: ${result.errors.join('; ')}`)
+      console.log(`${logPrefix} Sending repair prompt...`)
+
+      const repairReply = await sendWithRetry([
+        { role: 'user', content: prompt },
+        { role: 'assistant', content: text },
+        { role: 'user', content: buildRepairPrompt(result.errors, categoryNames) }
+      ])
+      usage = addUsage(usage, repairReply.usage)
+      rawResponses.push(repairReply.text || '')
+
+      result = parseAnalysisResponse(repairReply.text || '', categoryNames)
+      if (!result.analysis) {
+        console.error(`${logPrefix} ❌ Repair reply still invalid: ${result.errors.join('; ')}`)
+        return finish(null, false)
+      }
+      repaired = true
+      console.log(`${logPrefix} ✓ Repair prompt fixed reply`)
+    }
+
+    const data = result.analysis
+    console.log(`${logPrefix} ✓ Analysis SUCCESS in ${Date.now() - startTime}ms`)
+    console.log(`${logPrefix} Scores: ${data.scores.map(s => `${s.category}=${s.score}`).join(', ')}`)
+    return finish(data, repaired)
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    const { kind } = classifyProviderError(error)
+    console.error(`${logPrefix} ❌ FAILED (${kind}) after ${Date.now() - startTime}ms: ${errorMessage}`)
+    return finish(null, false, errorMessage, kind)
+  }
+}
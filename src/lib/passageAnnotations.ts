@@ -0,0 +1,277 @@
+// lib/passageAnnotations.ts
+/**
+ * Sentence-level bias annotations for the article heatmap
+ *
+ * annotateArticle() splits an article's cached text into sentences
+ * (utils/passageAnnotations.ts), asks one model which sentences lean and how,
+ * and stores the result as one passage_annotations row per (article, model).
+ * A reply that fails validation gets one repair prompt, like score analysis.
+ * Readers can trigger it, so each article gets at most one model call per
+ * ANNOTATION_COOLDOWN_MINUTES (media.annotation_requested_at), failed ones included.
+ *
+ * Annotations explain scores; they never change them. Used by /api/annotate.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { chatSenderFor } from '@/lib/ai'
+import { getArticleContent } from '@/lib/articleContent'
+import { getEnabledModels, ModelConfig } from '@/lib/models'
+import type { ChatMessage } from '@/lib/openaiCompatible'
+import { ANNOTATION_PROMPT_VERSION, buildAnnotationPrompt, buildAnnotationRepairPrompt } from '@/lib/prompts'
+import { callWithRetry } from '@/lib/providerResilience'
+import { articlePlainText } from '@/utils/evidence'
+import { AnnotationSpan, parseAnnotationResponse, splitSentences } from '@/utils/passageAnnotations'
+
+// Minimum time between two model calls for the same article (force skips it)
+export const ANNOTATION_COOLDOWN_MINUTES = 10
+
+/**
+ * Thrown when an article can't be annotated: unknown media ID or no article text
+ */
+export class AnnotationUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnnotationUnavailableError'
+  }
+}
+
+/**
+ * Thrown when the article was sent to a model less than ANNOTATION_COOLDOWN_MINUTES ago
+ */
+export class AnnotationThrottledError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AnnotationThrottledError'
+  }
+}
+
+export interface AnnotationResult {
+  mediaId: string
+  modelId: string
+  sentences: number   // sentences sent to the model
+  annotations: number // sentences × categories flagged
+  cached: boolean     // already annotated with the current prompt, no model call made
+}
+
+// Heatmap input: every model's spans, and how many sentences were annotated at all
+export interface PassageAnnotations {
+  spans: AnnotationSpan[]
+  annotatedSentences: number // most sentences any model was sent (0 = never annotated)
+}
+
+// Stored shape of one annotation (passage_annotations.annotations)
+interface StoredAnnotation {
+  sentence: number
+  start: number
+  end: number
+  category_id: string
+  score: number
+  reason: string
+}
+
+/**
+ * Model used for annotations: ANNOTATION_MODEL if it's enabled, else the first enabled model
+ */
+export function getAnnotationModel(): ModelConfig | null {
+  const models = getEnabledModels()
+  return models.find(m => m.id === process.env.ANNOTATION_MODEL) || models[0] || null
+}
+
+/**
+ * Annotate one article's sentences and store them
+ *
+ * Returns the stored result without calling the model when the article already has
+ * annotations from this model and prompt version, unless `force` is set.
+ * Throws AnnotationThrottledError inside the cooldown (never with `force`). The attempt
+ * is claimed before the article text is loaded, since that may scrape the source site.
+ */
+export async function annotateArticle({
+  mediaId,
+  supabaseClient,
+  model = getAnnotationModel(),
+  force = false
+}: {
+  mediaId: string
+  supabaseClient: SupabaseClient
+  model?: ModelConfig | null
+  force?: boolean
+}): Promise<AnnotationResult> {
+  if (!model) {
+    throw new Error('No enabled model to annotate with')
+  }
+  const logPrefix = `[Annotate:${model.id}]`
+
+  if (!force) {
+    const { data: existing } = await supabaseClient
+      .from('passage_annotations')
+      .select('sentence_count, annotations')
+      .eq('media_id', mediaId)
+      .eq('model_name', model.id)
+      .eq('prompt_version', ANNOTATION_PROMPT_VERSION)
+      .maybeSingle()
+
+    if (existing) {
+      console.log(`${logPrefix} ✓ Already annotated ${mediaId}`)
+      return {
+        mediaId,
+        modelId: model.id,
+        sentences: existing.sentence_count,
+        annotations: (existing.annotations as StoredAnnotation[]).length,
+        cached: true
+      }
+    }
+  }
+
+  const { data: media } = await supabaseClient
+    .from('media')
+    .select('id, url, annotation_requested_at')
+    .eq('id', mediaId)
+    .maybeSingle()
+  if (!media) {
+    throw new AnnotationUnavailableError(`Article ${mediaId} not found`)
+  }
+
+  // Before anything goes out: loading the text may scrape the source site
+  if (!force) {
+    await claimAnnotationAttempt(mediaId, media.annotation_requested_at, supabaseClient)
+  }
+
+  const cached = await getArticleContent({ mediaId, url: media.url, supabaseClient })
+  const sentences = cached ? splitSentences(articlePlainText(cached.content)) : []
+  if (sentences.length === 0) {
+    throw new AnnotationUnavailableError(`No article text for ${mediaId}`)
+  }
+
+  const { data: categories, error: categoriesError } = await supabaseClient
+    .from('bias_categories')
+    .select('id, name, description')
+  if (categoriesError || !categories) {
+    throw new Error('Could not fetch bias categories')
+  }
+  const categoryNames = categories.map(c => c.name)
+
+  const send = chatSenderFor(model, () => JSON.stringify({ annotations: [] }))
+  const sendWithRetry = (messages: ChatMessage[]) =>
+    callWithRetry(timeoutMs => send(messages, timeoutMs), { provider: model.provider, logPrefix })
+
+  console.log(`${logPrefix} Annotating ${sentences.length} sentences of ${mediaId}`)
+  const prompt = buildAnnotationPrompt(sentences.map(s => s.text), categories)
+  const reply = await sendWithRetry([{ role: 'user', content: prompt }])
+  let result = parseAnnotationResponse(reply.text || '', sentences.length, categoryNames)
+
+  // One-shot repair, same as score analysis
+  if (!result.annotations) {
+    console.warn(`${logPrefix} ⚠️ Reply failed validation: ${result.errors.join('; ')}`)
+    const repairReply = await sendWithRetry([
+      { role: 'user', content: prompt },
+      { role: 'assistant', content: reply.text || '' },
+      { role: 'user', content: buildAnnotationRepairPrompt(result.errors, categoryNames, sentences.length) }
+    ])
+    result = parseAnnotationResponse(repairReply.text || '', sentences.length, categoryNames)
+    if (!result.annotations) {
+      throw new Error(`Annotation reply still invalid after repair: ${result.errors.join('; ')}`)
+    }
+    console.log(`${logPrefix} ✓ Repair prompt fixed reply`)
+  }
+
+  const categoryIds = new Map(categories.map(c => [c.name, c.id]))
+  const annotations: StoredAnnotation[] = result.annotations.map(annotation => {
+    const sentence = sentences[annotation.sentence - 1]
+    return {
+      sentence: annotation.sentence,
+      start: sentence.start,
+      end: sentence.end,
+      category_id: categoryIds.get(annotation.category)!,
+      score: annotation.score,
+      reason: annotation.reason
+    }
+  })
+
+  const { error } = await supabaseClient
+    .from('passage_annotations')
+    .upsert({
+      media_id: mediaId,
+      model_name: model.id,
+      prompt_version: ANNOTATION_PROMPT_VERSION,
+      sentence_count: sentences.length,
+      annotations,
+      created_at: new Date().toISOString()
+    }, { onConflict: 'media_id,model_name' })
+  if (error) {
+    throw new Error(`Failed to save annotations: ${error.message}`)
+  }
+
+  console.log(`${logPrefix} ✓ ${annotations.length} annotations on ${sentences.length} sentences`)
+  return { mediaId, modelId: model.id, sentences: sentences.length, annotations: annotations.length, cached: false }
+}
+
+/**
+ * Record a model call for the article, unless one was made within the cooldown
+ *
+ * The update only matches while annotation_requested_at still holds the value we
+ * read, so of two concurrent requests only one gets to call the model.
+ */
+async function claimAnnotationAttempt(
+  mediaId: string,
+  lastRequestedAt: string | null,
+  supabaseClient: SupabaseClient
+): Promise<void> {
+  const now = new Date()
+  const throttled = () => new AnnotationThrottledError(
+    `Article ${mediaId} was sent for annotation in the last ${ANNOTATION_COOLDOWN_MINUTES} minutes, try again later`
+  )
+  if (lastRequestedAt && now.getTime() - new Date(lastRequestedAt).getTime() < ANNOTATION_COOLDOWN_MINUTES * 60 * 1000) {
+    throw throttled()
+  }
+
+  const update = supabaseClient
+    .from('media')
+    .update({ annotation_requested_at: now.toISOString() })
+    .eq('id', mediaId)
+  const { data: claimed, error } = await (lastRequestedAt
+    ? update.eq('annotation_requested_at', lastRequestedAt)
+    : update.is('annotation_requested_at', null)
+  ).select('id')
+  if (error) {
+    throw new Error(`Failed to record annotation request: ${error.message}`)
+  }
+  if (!claimed || claimed.length === 0) {
+    throw throttled()
+  }
+}
+
+/**
+ * Every model's annotations for an article, with category names, for the heatmap
+ * Returns no spans and 0 sentences if annotations can't be loaded.
+ */
+export async function loadPassageAnnotations(mediaId: string, supabaseClient: SupabaseClient): Promise<PassageAnnotations> {
+  const [{ data: rows, error }, { data: categories }] = await Promise.all([
+    supabaseClient
+      .from('passage_annotations')
+      .select('model_name, sentence_count, annotations')
+      .eq('media_id', mediaId),
+    supabaseClient
+      .from('bias_categories')
+      .select('id, name')
+  ])
+
+  if (error || !rows) {
+    console.error('[Annotate] ❌ Could not load annotations:', error)
+    return { spans: [], annotatedSentences: 0 }
+  }
+
+  const categoryNames = new Map((categories || []).map(c => [c.id, c.name]))
+  const spans = rows.flatMap(row => (row.annotations as StoredAnnotation[]).flatMap(annotation => {
+    const category = categoryNames.get(annotation.category_id)
+    if (!category) return []
+    return [{
+      modelName: row.model_name,
+      category,
+      start: annotation.start,
+      end: annotation.end,
+      score: Number(annotation.score),
+      reason: annotation.reason || null
+    }]
+  }))
+  return { spans, annotatedSentences: Math.max(0, ...rows.map(row => row.sentence_count || 0)) }
+}
@@ -0,0 +1,90 @@
+// lib/promptTemplates.ts
+/**
+ * Loads scoring prompt templates from the prompt_templates table
+ *
+ * One active version per provider (enforced by a partial unique index). Rows with
+ * provider = null apply to every provider without its own active row. Anything
+ * missing or broken falls back to the built-in templates in lib/prompts.ts, so
+ * analysis never stops because of a bad template row.
+ *
+ * A/B runs: load a specific version with getPromptTemplate() and pass it to
+ * analyzeArticle({ promptTemplate }) - every model then uses that template.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { MODEL_REGISTRY, ProviderName } from '@/lib/models'
+import { findTemplateProblems, getBuiltinPromptTemplate, PromptTemplate, promptVersionLabel } from '@/lib/prompts'
+
+type PromptTemplateRow = {
+  id: string
+  name: string
+  version: number
+  provider: ProviderName | null
+  template: string
+}
+
+function toPromptTemplate(row: PromptTemplateRow): PromptTemplate {
+  return { id: row.id, name: row.name, version: row.version, provider: row.provider, template: row.template }
+}
+
+// Rejects rows whose placeholders we can't fill (logged so the bad row can be fixed)
+function isUsable(row: PromptTemplateRow): boolean {
+  const problems = findTemplateProblems(row.template)
+  if (problems.length > 0) {
+    console.error(`[Prompts] ❌ Ignoring ${row.name}@v${row.version}: ${problems.join('; ')}`)
+    return false
+  }
+  return true
+}
+
+/**
+ * Active template for every provider in the registry
+ */
+export async function loadActivePromptTemplates(
+  supabaseClient: SupabaseClient
+): Promise<Record<ProviderName, PromptTemplate>> {
+  const { data, error } = await supabaseClient
+    .from('prompt_templates')
+    .select('id, name, version, provider, template')
+    .eq('is_active', true)
+
+  if (error) {
+    console.warn(`[Prompts] ⚠️ Could not load prompt templates, using built-ins: ${error.message}`)
+  }
+
+  const rows = ((data || []) as PromptTemplateRow[]).filter(isUsable)
+  const shared = rows.find(row => row.provider === null)
+  const providers = Array.from(new Set(MODEL_REGISTRY.map(model => model.provider)))
+
+  const templates = {} as Record<ProviderName, PromptTemplate>
+  for (const provider of providers) {
+    const row = rows.find(r => r.provider === provider) || shared
+    templates[provider] = row ? toPromptTemplate(row) : getBuiltinPromptTemplate(provider)
+  }
+
+  console.log(`[Prompts] Active templates: ${providers.map(p => `${p}=${promptVersionLabel(templates[p])}`).join(', ')}`)
+  return templates
+}
+
+/**
+ * A specific template version (for A/B runs), active or not
+ */
+export async function getPromptTemplate(
+  supabaseClient: SupabaseClient,
+  name: string,
+  version: number
+): Promise<PromptTemplate | null> {
+  const { data, error } = await supabaseClient
+    .from('prompt_templates')
+    .select('id, name, version, provider, template')
+    .eq('name', name)
+    .eq('version', version)
+    .maybeSingle()
+
+  if (error || !data) {
+    console.error(`[Prompts] ❌ Prompt template ${name}@v${version} not found:`, error)
+    return null
+  }
+
+  return isUsable(data as PromptTemplateRow) ? toPromptTemplate(data as PromptTemplateRow) : null
+}
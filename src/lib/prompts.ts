@@ -0,0 +1,239 @@
+// lib/prompts.ts
+/**
+ * Prompt templates and builders shared by every provider adapter
+ *
+ * The scoring prompt is a template with placeholders, stored (named and versioned)
+ * in the prompt_templates table and loaded by lib/promptTemplates.ts. The built-in
+ * templates below are the fallback when the table has no active row for a provider.
+ *
+ * Placeholders:
+ *   {{article_content}}       - article text (required)
+ *   {{category_instructions}} - numbered list of bias_categories descriptions
+ *   {{category_list}}         - comma-separated category names
+ *   {{example_scores}}        - one example JSON score object per category
+ *
+ * Category instructions come from bias_categories.description (database-driven prompts).
+ */
+
+import { createHash } from 'crypto'
+import type { ProviderName } from '@/lib/models'
+
+export type BiasCategoryPrompt = { name: string; description: string }
+
+export interface PromptTemplate {
+  id: string | null             // prompt_templates.id (null = built-in)
+  name: string
+  version: number
+  provider: ProviderName | null // null = usable by any provider
+  template: string
+}
+
+export const PROMPT_PLACEHOLDERS = ['article_content', 'category_instructions', 'category_list', 'example_scores'] as const
+
+// Stands in for the article when hashing the prompt template
+const CONTENT_PLACEHOLDER = '{{ARTICLE_CONTENT}}'
+
+const BUILTIN_PROMPT_BODY = `
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Add a "confidence" field to each score: a number from 0 to 1 for how clearly the article supports that score (low for short or ambiguous articles)
+- Base your analysis ONLY on the article content provided
+`
+
+const BUILTIN_PROMPT_FORMAT = `Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+`
+
+/**
+ * Gemini: plain JSON output rules
+ */
+export const BUILTIN_PROMPT_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: 'builtin',
+  version: 2,
+  provider: null,
+  template: `${BUILTIN_PROMPT_BODY}
+Return ONLY valid JSON with no markdown, no code blocks, no extra text.
+${BUILTIN_PROMPT_FORMAT}`
+}
+
+/**
+ * Reasoning models (Qwen, local models) like to emit <think> blocks, so forbid them
+ */
+export const BUILTIN_STRICT_PROMPT_TEMPLATE: PromptTemplate = {
+  id: null,
+  name: 'builtin-strict',
+  version: 2,
+  provider: null,
+  template: `${BUILTIN_PROMPT_BODY}
+Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
+DO NOT include <think> tags or reasoning - output ONLY the JSON object.
+${BUILTIN_PROMPT_FORMAT}`
+}
+
+/**
+ * Built-in fallback template for a provider
+ */
+export function getBuiltinPromptTemplate(provider: ProviderName): PromptTemplate {
+  return provider === 'gemini' ? BUILTIN_PROMPT_TEMPLATE : BUILTIN_STRICT_PROMPT_TEMPLATE
+}
+
+/**
+ * Label stored with runs and scores, e.g. "bias-analysis@v3"
+ */
+export function promptVersionLabel(template: PromptTemplate): string {
+  return `${template.name}@v${template.version}`
+}
+
+/**
+ * Problems that make a template unusable: no {{article_content}}, or placeholders we can't fill
+ */
+export function findTemplateProblems(template: string): string[] {
+  const problems: string[] = []
+  if (!template.includes('{{article_content}}')) {
+    problems.push('missing {{article_content}} placeholder')
+  }
+  for (const [, name] of template.matchAll(/\{\{(\w+)\}\}/g)) {
+    if (!(PROMPT_PLACEHOLDERS as readonly string[]).includes(name)) {
+      problems.push(`unknown placeholder {{${name}}}`)
+    }
+  }
+  return problems
+}
+
+/**
+ * Fill a template's placeholders for one article
+ * Single pass, so placeholder-like text inside the article is left alone
+ */
+export function buildAnalysisPrompt(
+  content: string,
+  biasCategories: BiasCategoryPrompt[],
+  template: PromptTemplate = BUILTIN_PROMPT_TEMPLATE
+): string {
+  const values: Record<(typeof PROMPT_PLACEHOLDERS)[number], string> = {
+    article_content: content,
+    // Build dynamic prompt from database category descriptions
+    category_instructions: biasCategories
+      .map((cat, index) => `${index + 1}. ${cat.name.toUpperCase()}:\n${cat.description}`)
+      .join('\n\n'),
+    category_list: biasCategories.map(c => c.name).join(', '),
+    // Same payload for every template version; v2+ templates ask for "confidence" in their
+    // instructions instead of showing a value the model would copy
+    example_scores: biasCategories
+      .map(cat => `    { "category": "${cat.name}", "score": 0.0, "explanation": "Brief explanation referencing specific article content", "quotes": ["Exact sentence copied from the article"] }`)
+      .join(',\n')
+  }
+
+  return template.template.replace(/\{\{(\w+)\}\}/g, (match, name: string) =>
+    name in values ? values[name as keyof typeof values] : match
+  )
+}
+
+/**
+ * Follow-up prompt sent when a model's reply fails validation
+ * Lists the exact problems so the model can correct them in one more attempt
+ */
+export function buildRepairPrompt(errors: string[], categoryNames: string[]): string {
+  return `
+Your previous response could not be used because it failed validation:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected analysis as ONLY valid JSON in the same format, with no markdown, no code blocks and no extra text.
+Score each of these categories exactly once, with a number between -1 and +1: ${categoryNames.join(', ')}
+`
+}
+
+// Stored with every passage annotation (lib/passageAnnotations.ts); bump when the prompt below changes
+export const ANNOTATION_PROMPT_VERSION = 'sentence-annotations@v1'
+
+/**
+ * Prompt asking a model to flag the individual sentences that carry bias
+ * Sentences are numbered from 1; the model answers with sentence numbers, not text
+ */
+export function buildAnnotationPrompt(sentences: string[], biasCategories: BiasCategoryPrompt[]): string {
+  return `
+You are an expert media bias analyst. Below is a news article split into numbered sentences.
+
+Flag the sentences that show bias in one of these categories:
+
+${biasCategories.map((cat, index) => `${index + 1}. ${cat.name.toUpperCase()}:\n${cat.description}`).join('\n\n')}
+
+RULES:
+- Only flag sentences that clearly lean; leave neutral reporting out
+- Use the same -1 to +1 scale as the category descriptions (the sign is the direction)
+- A sentence may be flagged for more than one category, but at most once per category
+- Refer to sentences only by their number
+- Keep each reason under 20 words
+
+Return ONLY valid JSON (no markdown, no code blocks, no extra text):
+{
+  "annotations": [
+    { "sentence": 3, "category": "${biasCategories[0]?.name ?? 'category'}", "score": -0.6, "reason": "Loaded wording about one side" }
+  ]
+}
+If no sentence is biased, return { "annotations": [] }
+
+SENTENCES:
+${sentences.map((sentence, index) => `[${index + 1}] ${sentence}`).join('\n')}
+`
+}
+
+/**
+ * Follow-up prompt sent when an annotation reply fails validation
+ */
+export function buildAnnotationRepairPrompt(errors: string[], categoryNames: string[], sentenceCount: number): string {
+  return `
+Your previous response could not be used because it failed validation:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Return the corrected annotations as ONLY valid JSON in the same format, with no markdown, no code blocks and no extra text.
+Sentence numbers must be between 1 and ${sentenceCount}, categories one of: ${categoryNames.join(', ')}, scores between -1 and +1.
+`
+}
+
+function sha256(text: string): string {
+  return createHash('sha256').update(text).digest('hex')
+}
+
+/**
+ * Hash of the exact prompt minus the article text
+ * Changes whenever the template or the category descriptions change
+ */
+export function promptTemplateHash(
+  biasCategories: BiasCategoryPrompt[],
+  template: PromptTemplate = BUILTIN_PROMPT_TEMPLATE
+): string {
+  return sha256(buildAnalysisPrompt(CONTENT_PLACEHOLDER, biasCategories, template)).substring(0, 16)
+}
+
+/**
+ * Version of the bias category set: hash of names and descriptions, order-independent
+ */
+export function categorySetVersion(biasCategories: BiasCategoryPrompt[]): string {
+  const canonical = [...biasCategories]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(cat => `${cat.name}\n${cat.description}`)
+    .join('\n\n')
+  return sha256(canonical).substring(0, 16)
+}
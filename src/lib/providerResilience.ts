@@ -0,0 +1,249 @@
+// lib/providerResilience.ts
+/**
+ * Error classification, retries and circuit breaking for provider calls
+ *
+ * Every provider request goes through callWithRetry(): a per-provider timeout,
+ * then exponential backoff (honoring retry-after) for rate limits, timeouts and
+ * server errors. Content filter blocks, bad requests and unparseable replies are
+ * not retried - asking again gets the same answer.
+ *
+ * A CircuitBreaker is shared across one batch: after repeated failures a provider
+ * is skipped for the rest of the batch instead of burning retries on every article.
+ *
+ * Tunable with AI_MAX_RETRIES, AI_RETRY_BASE_DELAY_MS, AI_RETRY_MAX_DELAY_MS,
+ * AI_REQUEST_TIMEOUT_MS (overrides every provider) and AI_CIRCUIT_BREAKER_THRESHOLD.
+ */
+
+import type { ProviderName } from '@/lib/models'
+
+// circuit_open = the provider was skipped without a request (breaker tripped earlier in the batch)
+// deadline = skipped without a request because the caller's time budget ran out (job worker)
+export type ProviderErrorKind =
+  | 'rate_limit'
+  | 'timeout'
+  | 'server_error'
+  | 'content_filter'
+  | 'parse_error'
+  | 'client_error'
+  | 'circuit_open'
+  | 'deadline'
+  | 'unknown'
+
+export const RETRYABLE_ERROR_KINDS: ProviderErrorKind[] = ['rate_limit', 'timeout', 'server_error']
+
+// Failures that say something about the provider's health (parse errors and filters don't)
+const BREAKER_ERROR_KINDS: ProviderErrorKind[] = ['rate_limit', 'timeout', 'server_error']
+
+// Request timeouts per provider (local models on a laptop can be very slow)
+const PROVIDER_TIMEOUT_MS: Record<ProviderName, number> = {
+  gemini: 60000,
+  groq: 45000,
+  'openai-compatible': 180000,
+  mock: 10000
+}
+
+/**
+ * Error thrown by our own request code, already classified
+ */
+export class ProviderError extends Error {
+  kind: ProviderErrorKind
+  status: number | null
+  retryAfterMs: number | null
+
+  constructor(
+    message: string,
+    { kind, status = null, retryAfterMs = null }: { kind: ProviderErrorKind; status?: number | null; retryAfterMs?: number | null }
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+    this.kind = kind
+    this.status = status
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+export interface ClassifiedError {
+  kind: ProviderErrorKind
+  status: number | null
+  retryAfterMs: number | null // server-requested wait, if it sent one
+  message: string
+}
+
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw === '') return fallback
+  const value = Number(raw)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function getRequestTimeoutMs(provider: ProviderName): number {
+  return envNumber('AI_REQUEST_TIMEOUT_MS', PROVIDER_TIMEOUT_MS[provider])
+}
+
+/**
+ * Parse "Retry-After" from SDK error headers (seconds or HTTP date)
+ * Groq errors carry a plain object, fetch responses a Headers instance
+ */
+export function parseRetryAfter(headers: unknown): number | null {
+  if (!headers) return null
+  const value = typeof (headers as Headers).get === 'function'
+    ? (headers as Headers).get('retry-after')
+    : (headers as Record<string, string | undefined>)['retry-after']
+  if (!value) return null
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+// Wait hints inside error messages: Groq "Please try again in 1m2.5s", Gemini "retryDelay": "17s"
+function retryAfterFromMessage(message: string): number | null {
+  const groq = message.match(/try again in ([\d.hms]+)/i)
+  if (groq) {
+    const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 }
+    let total = 0
+    for (const [, amount, unit] of groq[1].matchAll(/([\d.]+)(ms|h|m|s)/g)) {
+      total += Number(amount) * unitMs[unit]
+    }
+    if (total > 0) return Math.round(total)
+  }
+
+  const gemini = message.match(/"retryDelay"\s*:\s*"([\d.]+)s"/)
+  if (gemini) return Math.round(Number(gemini[1]) * 1000)
+
+  return null
+}
+
+/**
+ * Sort any provider error (Groq SDK, Gemini SDK, fetch, our own) into a ProviderErrorKind
+ */
+export function classifyProviderError(error: unknown): ClassifiedError {
+  const message = error instanceof Error ? error.message : String(error)
+
+  if (error instanceof ProviderError) {
+    return { kind: error.kind, status: error.status, retryAfterMs: error.retryAfterMs, message }
+  }
+
+  const details = (error || {}) as { status?: unknown; code?: unknown; name?: unknown; headers?: unknown }
+  const status = typeof details.status === 'number' ? details.status : typeof details.code === 'number' ? details.code : null
+  const name = typeof details.name === 'string' ? details.name : ''
+  const retryAfterMs = parseRetryAfter(details.headers) ?? retryAfterFromMessage(message)
+
+  const classified = (kind: ProviderErrorKind): ClassifiedError => ({ kind, status, retryAfterMs, message })
+
+  if (/timeout|abort/i.test(name) || /timed? ?out|deadline exceeded/i.test(message)) return classified('timeout')
+  if (status === 429 || /rate.?limit|quota|resource.?exhausted|too many requests/i.test(message)) return classified('rate_limit')
+  if (/safety|content.?filter|blocked|prohibited/i.test(message)) return classified('content_filter')
+  if ((status !== null && status >= 500) || /\b50[0-4]\b|unavailable|overloaded|internal error|ECONNRESET|ECONNREFUSED|socket hang up|fetch failed|connection error/i.test(message)) {
+    return classified('server_error')
+  }
+  if (status !== null && status >= 400) return classified('client_error')
+  return classified('unknown')
+}
+
+/**
+ * Reject if the request takes longer than timeoutMs
+ * Providers also pass the timeout to their SDK so the request itself is aborted
+ */
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new ProviderError(`${label} timed out after ${timeoutMs}ms`, { kind: 'timeout' })),
+      timeoutMs
+    )
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Exponential backoff with ±20% jitter so parallel models don't retry in lockstep
+ */
+export function backoffDelayMs(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = baseDelayMs * 2 ** attempt * (0.8 + Math.random() * 0.4)
+  return Math.min(maxDelayMs, Math.round(delay))
+}
+
+/**
+ * Run one provider request with a timeout, retrying transient failures
+ * Throws the last error (classify it with classifyProviderError) once retries run out
+ */
+export async function callWithRetry<T>(
+  request: (timeoutMs: number) => Promise<T>,
+  {
+    provider,
+    logPrefix,
+    onRetry
+  }: {
+    provider: ProviderName
+    logPrefix: string
+    onRetry?: (failure: ClassifiedError) => void // called before each retry (for run stats)
+  }
+): Promise<T> {
+  const maxRetries = envNumber('AI_MAX_RETRIES', 3)
+  const baseDelayMs = envNumber('AI_RETRY_BASE_DELAY_MS', 1000)
+  const maxDelayMs = envNumber('AI_RETRY_MAX_DELAY_MS', 30000)
+  const timeoutMs = getRequestTimeoutMs(provider)
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(request(timeoutMs), timeoutMs, `${provider} request`)
+    } catch (error) {
+      const failure = classifyProviderError(error)
+
+      if (!RETRYABLE_ERROR_KINDS.includes(failure.kind) || attempt >= maxRetries) {
+        throw error
+      }
+
+      // A retry-after longer than our max wait (e.g. a daily quota) won't clear in this batch
+      if (failure.retryAfterMs !== null && failure.retryAfterMs > maxDelayMs) {
+        console.warn(`${logPrefix} ⚠️ ${failure.kind}: retry-after ${Math.round(failure.retryAfterMs / 1000)}s exceeds max wait, giving up`)
+        throw error
+      }
+
+      const delay = failure.retryAfterMs ?? backoffDelayMs(attempt, baseDelayMs, maxDelayMs)
+      console.warn(`${logPrefix} ⚠️ ${failure.kind}${failure.status ? ` (HTTP ${failure.status})` : ''}, retry ${attempt + 1}/${maxRetries} in ${delay}ms`)
+      onRetry?.(failure)
+      await new Promise(resolve => setTimeout(resolve, delay))
+    }
+  }
+}
+
+/**
+ * Skips a provider after `threshold` consecutive provider-health failures
+ * One breaker per batch (analyzeArticlesBatch), so every batch starts closed
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = new Map<ProviderName, number>()
+  private openProviders = new Set<ProviderName>()
+
+  constructor(private threshold: number = envNumber('AI_CIRCUIT_BREAKER_THRESHOLD', 3)) {}
+
+  isOpen(provider: ProviderName): boolean {
+    return this.openProviders.has(provider)
+  }
+
+  openedProviders(): ProviderName[] {
+    return Array.from(this.openProviders)
+  }
+
+  /**
+   * Record the outcome of one model run (errorKind null = success)
+   */
+  record(provider: ProviderName, errorKind: ProviderErrorKind | null): void {
+    if (errorKind === null) {
+      this.consecutiveFailures.set(provider, 0)
+      return
+    }
+    if (!BREAKER_ERROR_KINDS.includes(errorKind)) return
+
+    const failures = (this.consecutiveFailures.get(provider) || 0) + 1
+    this.consecutiveFailures.set(provider, failures)
+    if (failures >= this.threshold && !this.openProviders.has(provider)) {
+      this.openProviders.add(provider)
+      console.error(`[Circuit] ❌ ${provider} failed ${failures} times in a row, skipping it for the rest of the batch`)
+    }
+  }
+}
@@ -0,0 +1,275 @@
+// lib/reanalysis.ts
+/**
+ * Selective re-analysis of articles that already have scores
+ *
+ * Re-runs chosen models and/or categories on active (media) and archived
+ * (archived_media) articles: re-score with one model, fill in a model that failed,
+ * or score a newly added bias category - without re-running everything.
+ *
+ * New scores are saved as the next score_version and the rows they replace stop
+ * being current (see saveModelScores), so nothing is double-counted.
+ * Used by /api/reanalyze and scripts/reanalyze.ts.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { AllModelsFailedError, analyzeArticle, ScoreTable } from '@/lib/ai'
+import { getEnabledModels, ModelConfig } from '@/lib/models'
+import { CircuitBreaker } from '@/lib/providerResilience'
+
+export type ReanalysisScope = 'active' | 'archived' | 'all'
+
+export interface ReanalysisFilters {
+  mediaIds?: string[]
+  from?: string          // ISO date: articles created on/after
+  to?: string            // ISO date: articles created before
+  modelIds?: string[]    // default: every enabled model
+  categoryIds?: string[] // default: every bias category
+  missingOnly?: boolean  // only (model, category) pairs with no current score
+  scope?: ReanalysisScope // default: 'all'
+  limit?: number         // max articles (default: 25)
+}
+
+// One analyzeArticle call: these models, these categories, on one article
+export interface ReanalysisTask {
+  mediaId: string
+  title: string
+  archived: boolean
+  modelIds: string[]
+  categoryIds: string[]
+}
+
+export interface ReanalysisResult {
+  articlesMatched: number
+  tasks: ReanalysisTask[]
+  tasksSucceeded: number
+  tasksFailed: number
+  errors: Array<{ mediaId: string; error: string }>
+  dryRun: boolean
+}
+
+type ArticleRow = { id: string; title: string; url: string; source: string }
+
+const DEFAULT_LIMIT = 25
+
+/**
+ * Validate a request body into filters (error messages are safe to return to the caller)
+ */
+export function parseReanalysisFilters(input: unknown): { filters: ReanalysisFilters | null; errors: string[] } {
+  const errors: string[] = []
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { filters: null, errors: ['Body must be a JSON object'] }
+  }
+  const body = input as Record<string, unknown>
+
+  const stringList = (key: string): string[] | undefined => {
+    const value = body[key]
+    if (value === undefined) return undefined
+    if (!Array.isArray(value) || value.length === 0 || !value.every(v => typeof v === 'string' && v.length > 0)) {
+      errors.push(`${key} must be a non-empty array of strings`)
+      return undefined
+    }
+    return value as string[]
+  }
+
+  const date = (key: string): string | undefined => {
+    const value = body[key]
+    if (value === undefined) return undefined
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      errors.push(`${key} must be an ISO date`)
+      return undefined
+    }
+    return new Date(value).toISOString()
+  }
+
+  const filters: ReanalysisFilters = {
+    mediaIds: stringList('mediaIds'),
+    modelIds: stringList('modelIds'),
+    categoryIds: stringList('categoryIds'),
+    from: date('from'),
+    to: date('to'),
+    missingOnly: body.missingOnly === true,
+    scope: 'all'
+  }
+
+  if (body.scope !== undefined) {
+    if (body.scope === 'active' || body.scope === 'archived' || body.scope === 'all') {
+      filters.scope = body.scope
+    } else {
+      errors.push(`scope must be 'active', 'archived' or 'all'`)
+    }
+  }
+
+  if (body.limit !== undefined) {
+    if (typeof body.limit !== 'number' || !Number.isInteger(body.limit) || body.limit < 1) {
+      errors.push('limit must be a positive integer')
+    } else {
+      filters.limit = body.limit
+    }
+  }
+
+  if (filters.modelIds) {
+    const enabled = getEnabledModels().map(m => m.id)
+    const unknown = filters.modelIds.filter(id => !enabled.includes(id))
+    if (unknown.length > 0) errors.push(`Unknown or disabled models: ${unknown.join(', ')}`)
+  }
+
+  return { filters: errors.length > 0 ? null : filters, errors }
+}
+
+/**
+ * Articles matching the filters, from media and/or archived_media
+ */
+async function findArticles(
+  filters: ReanalysisFilters,
+  supabaseClient: SupabaseClient
+): Promise<Array<ArticleRow & { archived: boolean }>> {
+  const scope = filters.scope || 'all'
+  const limit = filters.limit || DEFAULT_LIMIT
+  const tables: Array<{ table: string; archived: boolean }> = []
+  if (scope !== 'archived') tables.push({ table: 'media', archived: false })
+  if (scope !== 'active') tables.push({ table: 'archived_media', archived: true })
+
+  const articles: Array<ArticleRow & { archived: boolean }> = []
+  for (const { table, archived } of tables) {
+    if (articles.length >= limit) break
+
+    let query = supabaseClient
+      .from(table)
+      .select('id, title, url, source')
+      .order('created_at', { ascending: false })
+      .limit(limit - articles.length)
+    if (filters.mediaIds) query = query.in('id', filters.mediaIds)
+    if (filters.from) query = query.gte('created_at', filters.from)
+    if (filters.to) query = query.lt('created_at', filters.to)
+
+    const { data, error } = await query
+    if (error) {
+      console.error(`[Reanalysis] ❌ Error querying ${table}:`, error)
+      throw new Error(`Failed to query ${table}: ${error.message}`)
+    }
+    articles.push(...((data || []) as ArticleRow[]).map(row => ({ ...row, archived })))
+  }
+
+  return articles
+}
+
+/**
+ * Work out which models need which categories for each article
+ * With missingOnly, models with different gaps become separate tasks
+ */
+export async function planReanalysis(
+  filters: ReanalysisFilters,
+  supabaseClient: SupabaseClient
+): Promise<{ articles: Array<ArticleRow & { archived: boolean }>; tasks: ReanalysisTask[] }> {
+  const models = filters.modelIds
+    ? getEnabledModels().filter(m => filters.modelIds!.includes(m.id))
+    : getEnabledModels()
+
+  const { data: categoryRows, error: categoriesError } = await supabaseClient
+    .from('bias_categories')
+    .select('id')
+  if (categoriesError || !categoryRows) {
+    throw new Error('Could not fetch bias categories')
+  }
+  const categoryIds = categoryRows
+    .map(c => c.id as string)
+    .filter(id => !filters.categoryIds || filters.categoryIds.includes(id))
+
+  const articles = await findArticles(filters, supabaseClient)
+  const tasks: ReanalysisTask[] = []
+
+  for (const article of articles) {
+    let needed: Map<string, string[]> // model ID → category IDs
+
+    if (filters.missingOnly) {
+      const { data: current, error } = await supabaseClient
+        .from(scoreTableFor(article.archived))
+        .select('category_id, model_name')
+        .eq('media_id', article.id)
+        .eq('is_current', true)
+      if (error) {
+        throw new Error(`Failed to load scores for ${article.id}: ${error.message}`)
+      }
+      const scored = new Set((current || []).map(row => `${row.model_name}|${row.category_id}`))
+      needed = new Map(models.map(m => [m.id, categoryIds.filter(c => !scored.has(`${m.id}|${c}`))]))
+    } else {
+      needed = new Map(models.map(m => [m.id, categoryIds]))
+    }
+
+    // Group models that need the same categories into one call
+    const groups = new Map<string, ReanalysisTask>()
+    for (const [modelId, categories] of needed) {
+      if (categories.length === 0) continue
+      const key = [...categories].sort().join(',')
+      const group = groups.get(key)
+      if (group) {
+        group.modelIds.push(modelId)
+      } else {
+        groups.set(key, { mediaId: article.id, title: article.title, archived: article.archived, modelIds: [modelId], categoryIds: categories })
+      }
+    }
+    tasks.push(...groups.values())
+  }
+
+  return { articles, tasks }
+}
+
+function scoreTableFor(archived: boolean): ScoreTable {
+  return archived ? 'archived_ai_scores' : 'ai_scores'
+}
+
+/**
+ * Plan and run a re-analysis (dryRun = plan only)
+ * Tasks run one at a time with a shared circuit breaker, like a batch
+ */
+export async function runReanalysis(
+  filters: ReanalysisFilters,
+  { supabaseClient, dryRun = false }: { supabaseClient: SupabaseClient; dryRun?: boolean }
+): Promise<ReanalysisResult> {
+  const { articles, tasks } = await planReanalysis(filters, supabaseClient)
+  const result: ReanalysisResult = {
+    articlesMatched: articles.length,
+    tasks,
+    tasksSucceeded: 0,
+    tasksFailed: 0,
+    errors: [],
+    dryRun
+  }
+
+  console.log(`[Reanalysis] ${articles.length} articles matched, ${tasks.length} tasks${dryRun ? ' (dry run)' : ''}`)
+  if (dryRun) return result
+
+  const circuitBreaker = new CircuitBreaker()
+  const articleById = new Map(articles.map(a => [a.id, a]))
+
+  for (const task of tasks) {
+    const article = articleById.get(task.mediaId)!
+    const models = task.modelIds.map(id => getEnabledModels().find(m => m.id === id)).filter(Boolean) as ModelConfig[]
+    console.log(`[Reanalysis] ${task.mediaId}${task.archived ? ' (archived)' : ''}: ${task.modelIds.join(', ')} × ${task.categoryIds.length} categories`)
+
+    try {
+      await analyzeArticle({
+        mediaId: article.id,
+        url: article.url,
+        title: article.title,
+        source: article.source,
+        supabaseClient,
+        models,
+        categoryIds: task.categoryIds,
+        scoreTable: scoreTableFor(task.archived),
+        circuitBreaker
+      })
+      result.tasksSucceeded++
+    } catch (error) {
+      result.tasksFailed++
+      const message = error instanceof AllModelsFailedError
+        ? `All models failed: ${Object.entries(error.runs).map(([id, run]) => `${id}=${run.errorKind}`).join(', ')}`
+        : error instanceof Error ? error.message : 'Unknown error'
+      result.errors.push({ mediaId: task.mediaId, error: message })
+      console.error(`[Reanalysis] ❌ ${task.mediaId}: ${message}`)
+    }
+  }
+
+  console.log(`[Reanalysis] ✓ Done: ${result.tasksSucceeded} succeeded, ${result.tasksFailed} failed`)
+  return result
+}
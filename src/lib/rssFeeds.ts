@@ -0,0 +1,127 @@
+// lib/rssFeeds.ts
+/**
+ * RSS / Atom news source
+ *
+ * Polls the outlet feeds listed in news_feeds. Each feed has its own poll
+ * interval; a feed is fetched only when its interval has passed since the last
+ * poll, and the outcome (status, error, item count) is written back to its row.
+ * Items are parsed by utils/feedParser.ts and mapped onto IngestedArticle with
+ * the feed's outlet name and category, so ingestArticles() treats them like any
+ * other source.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import type { IngestedArticle, NewsSource } from '@/lib/newsSources'
+import { FeedItem, parseFeed } from '@/utils/feedParser'
+
+// Newest items kept per poll (outlets often publish their whole archive page)
+export const MAX_ITEMS_PER_FEED = 20
+
+const FEED_TIMEOUT_MS = 15000
+
+export interface NewsFeed {
+  id: string
+  outlet_name: string
+  feed_url: string
+  category_id: string | null
+  enabled: boolean
+  poll_interval_minutes: number
+  last_polled_at: string | null
+}
+
+/**
+ * Whether a feed's poll interval has passed (never-polled feeds are always due)
+ */
+export function isFeedDue(feed: NewsFeed, now: Date): boolean {
+  if (!feed.last_polled_at) return true
+  const dueAt = new Date(feed.last_polled_at).getTime() + feed.poll_interval_minutes * 60_000
+  return dueAt <= now.getTime()
+}
+
+/**
+ * Map feed items onto IngestedArticle, newest first
+ * Items dated before the previous poll were already ingested and are dropped.
+ */
+export function feedItemsToArticles(items: FeedItem[], feed: NewsFeed): IngestedArticle[] {
+  const since = feed.last_polled_at ? new Date(feed.last_polled_at).getTime() : null
+  return items
+    .filter(item => since === null || !item.publishedAt || new Date(item.publishedAt).getTime() >= since)
+    .sort((a, b) => (b.publishedAt || '').localeCompare(a.publishedAt || ''))
+    .slice(0, MAX_ITEMS_PER_FEED)
+    .map(item => ({
+      sourceId: 'rss',
+      externalId: item.guid,
+      title: item.title,
+      url: item.link,
+      source: feed.outlet_name,
+      imageUrl: item.imageUrl,
+      description: item.description,
+      publishedAt: item.publishedAt,
+      categoryId: feed.category_id
+    }))
+}
+
+/**
+ * RSS source over the news_feeds table
+ * A feed that fails to fetch or parse is recorded as an error and skipped.
+ */
+export function createRssSource({
+  supabaseClient,
+  now = () => new Date()
+}: {
+  supabaseClient: SupabaseClient
+  now?: () => Date
+}): NewsSource {
+  return {
+    id: 'rss',
+    displayName: 'RSS feeds',
+    async fetchArticles(): Promise<IngestedArticle[]> {
+      const { data: feeds, error } = await supabaseClient
+        .from('news_feeds')
+        .select('id, outlet_name, feed_url, category_id, enabled, poll_interval_minutes, last_polled_at')
+        .eq('enabled', true)
+
+      if (error || !feeds) {
+        throw new Error(`Could not load news feeds: ${error?.message}`)
+      }
+
+      const pollTime = now()
+      const due = (feeds as NewsFeed[]).filter(feed => isFeedDue(feed, pollTime))
+      console.log(`[RSS] ${due.length} of ${feeds.length} enabled feeds due`)
+
+      const articles: IngestedArticle[] = []
+      for (const feed of due) {
+        let update: Record<string, unknown>
+        try {
+          const response = await fetch(feed.feed_url, {
+            cache: 'no-store',
+            signal: AbortSignal.timeout(FEED_TIMEOUT_MS),
+            headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8' }
+          })
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`)
+          }
+          const parsed = parseFeed(await response.text())
+          const items = feedItemsToArticles(parsed.items, feed)
+          articles.push(...items)
+          update = { last_status: 'ok', last_error: null, last_item_count: items.length }
+          console.log(`[RSS] ✓ ${feed.outlet_name}: ${items.length} new of ${parsed.items.length} items (${parsed.format})`)
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err)
+          update = { last_status: 'error', last_error: message, last_item_count: 0 }
+          console.error(`[RSS] ❌ ${feed.outlet_name} (${feed.feed_url}): ${message}`)
+        }
+
+        const { error: updateError } = await supabaseClient
+          .from('news_feeds')
+          .update({ ...update, last_polled_at: pollTime.toISOString() })
+          .eq('id', feed.id)
+        if (updateError) {
+          console.error(`[RSS] ⚠️ Could not record poll for ${feed.outlet_name}:`, updateError)
+        }
+      }
+
+      return articles
+    }
+  }
+}
@@ -0,0 +1,274 @@
+// lib/storyClusters.ts
+/**
+ * Story clusters: syndicated and near-duplicate articles grouped as one story
+ *
+ * clusterArticle() fingerprints an article's cached text (utils/minhash.ts), looks
+ * up candidates sharing an LSH band, and joins the cluster of the most similar
+ * active article at or above NEAR_DUPLICATE_THRESHOLD. Within a cluster the
+ * earliest-published active article is the original; every other member gets
+ * media.is_syndicated = true.
+ *
+ * The analysis worker clusters each article before scoring it and skips the models
+ * for syndicated copies; /articles hides them behind their original.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  lshBandKeys,
+  MIN_SHINGLES,
+  minhashSignature,
+  NEAR_DUPLICATE_THRESHOLD,
+  shingles,
+  signatureSimilarity
+} from '@/utils/minhash'
+
+/**
+ * Thrown by refreshCluster when every member has been archived: no original to pick
+ */
+export class EmptyClusterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmptyClusterError'
+  }
+}
+
+export interface ClusterAssignment {
+  mediaId: string
+  clusterId: string | null   // null = no near-duplicate found, the article stands alone
+  originalMediaId: string    // the cluster's original (mediaId itself when standalone)
+  isOriginal: boolean
+  similarity: number | null  // estimated Jaccard with the article it matched
+  memberCount: number
+}
+
+/**
+ * Fingerprint an article and place it in a story cluster
+ *
+ * Idempotent: an article that already has a fingerprint keeps its assignment.
+ * Returns null if the text is too short to compare. Throws on database errors.
+ */
+export async function clusterArticle({
+  mediaId,
+  text,
+  supabaseClient
+}: {
+  mediaId: string
+  text: string
+  supabaseClient: SupabaseClient
+}): Promise<ClusterAssignment | null> {
+  const { data: existing } = await supabaseClient
+    .from('article_fingerprints')
+    .select('cluster_id, similarity')
+    .eq('media_id', mediaId)
+    .maybeSingle()
+
+  if (existing) {
+    return currentAssignment(mediaId, existing.cluster_id, existing.similarity, supabaseClient)
+  }
+
+  const shingleSet = shingles(text)
+  if (shingleSet.size < MIN_SHINGLES) {
+    console.log(`[Clusters] ${mediaId}: ${shingleSet.size} shingles, too short to cluster`)
+    return null
+  }
+  const signature = minhashSignature(shingleSet)
+  const bandKeys = lshBandKeys(signature)
+
+  const best = await findNearestDuplicate(mediaId, signature, bandKeys, supabaseClient)
+
+  let clusterId: string | null = null
+  if (best) {
+    clusterId = best.clusterId || await createCluster(best.mediaId, supabaseClient)
+  }
+
+  const { error: fingerprintError } = await supabaseClient
+    .from('article_fingerprints')
+    .upsert({
+      media_id: mediaId,
+      signature,
+      shingle_count: shingleSet.size,
+      cluster_id: clusterId,
+      similarity: best?.similarity ?? null,
+      computed_at: new Date().toISOString()
+    }, { onConflict: 'media_id' })
+  if (fingerprintError) {
+    throw new Error(`Failed to save fingerprint: ${fingerprintError.message}`)
+  }
+
+  const { error: bandsError } = await supabaseClient
+    .from('fingerprint_bands')
+    .upsert(bandKeys.map(band_key => ({ band_key, media_id: mediaId })), { onConflict: 'band_key,media_id' })
+  if (bandsError) {
+    throw new Error(`Failed to save fingerprint bands: ${bandsError.message}`)
+  }
+
+  if (!best || !clusterId) {
+    return { mediaId, clusterId: null, originalMediaId: mediaId, isOriginal: true, similarity: null, memberCount: 1 }
+  }
+
+  const { originalMediaId, memberCount } = await refreshCluster(clusterId, supabaseClient)
+  console.log(`[Clusters] ✓ ${mediaId} joins cluster ${clusterId} (${memberCount} articles, ${(best.similarity * 100).toFixed(0)}% similar to ${best.mediaId})`)
+  return {
+    mediaId,
+    clusterId,
+    originalMediaId,
+    isOriginal: originalMediaId === mediaId,
+    similarity: best.similarity,
+    memberCount
+  }
+}
+
+// Most similar active article sharing an LSH band, if it clears the threshold
+async function findNearestDuplicate(
+  mediaId: string,
+  signature: number[],
+  bandKeys: string[],
+  supabaseClient: SupabaseClient
+): Promise<{ mediaId: string; clusterId: string | null; similarity: number } | null> {
+  const { data: bands, error: bandsError } = await supabaseClient
+    .from('fingerprint_bands')
+    .select('media_id')
+    .in('band_key', bandKeys)
+  if (bandsError) {
+    throw new Error(`Failed to look up candidates: ${bandsError.message}`)
+  }
+
+  const candidateIds = Array.from(new Set((bands || []).map(b => b.media_id))).filter(id => id !== mediaId)
+  if (candidateIds.length === 0) return null
+
+  // Only active articles can be matched: an archived original would leave its copies with no visible story
+  const { data: active } = await supabaseClient
+    .from('media')
+    .select('id')
+    .in('id', candidateIds)
+  const activeIds = (active || []).map(row => row.id)
+  if (activeIds.length === 0) return null
+
+  const { data: fingerprints, error } = await supabaseClient
+    .from('article_fingerprints')
+    .select('media_id, signature, cluster_id')
+    .in('media_id', activeIds)
+  if (error) {
+    throw new Error(`Failed to load candidate fingerprints: ${error.message}`)
+  }
+
+  let best: { mediaId: string; clusterId: string | null; similarity: number } | null = null
+  for (const candidate of fingerprints || []) {
+    const similarity = signatureSimilarity(signature, candidate.signature as number[])
+    if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+      best = { mediaId: candidate.media_id, clusterId: candidate.cluster_id, similarity }
+    }
+  }
+  return best
+}
+
+// New cluster around a standalone article that just got its first near-duplicate
+async function createCluster(mediaId: string, supabaseClient: SupabaseClient): Promise<string> {
+  const { data: cluster, error } = await supabaseClient
+    .from('story_clusters')
+    .insert({ original_media_id: mediaId, member_count: 1 })
+    .select('id')
+    .single()
+  if (error || !cluster) {
+    throw new Error(`Failed to create story cluster: ${error?.message}`)
+  }
+
+  const { error: updateError } = await supabaseClient
+    .from('article_fingerprints')
+    .update({ cluster_id: cluster.id })
+    .eq('media_id', mediaId)
+  if (updateError) {
+    throw new Error(`Failed to assign cluster: ${updateError.message}`)
+  }
+  return cluster.id
+}
+
+/**
+ * Re-pick a cluster's original (earliest published active member, then earliest
+ * stored) and write is_syndicated / story_cluster_id to every active member
+ *
+ * Throws EmptyClusterError when no member is active, and Error on database errors.
+ */
+export async function refreshCluster(
+  clusterId: string,
+  supabaseClient: SupabaseClient
+): Promise<{ originalMediaId: string; memberCount: number }> {
+  const { data: members, error } = await supabaseClient
+    .from('article_fingerprints')
+    .select('media_id')
+    .eq('cluster_id', clusterId)
+  if (error || !members) {
+    throw new Error(`Failed to load cluster members: ${error?.message}`)
+  }
+
+  const { data: active, error: activeError } = await supabaseClient
+    .from('media')
+    .select('id, published_at, created_at')
+    .in('id', members.map(m => m.media_id))
+  if (activeError) {
+    throw new Error(`Failed to load active cluster members: ${activeError.message}`)
+  }
+  const ordered = (active || []).sort((a, b) =>
+    (a.published_at || a.created_at || '').localeCompare(b.published_at || b.created_at || '') ||
+    (a.created_at || '').localeCompare(b.created_at || '') ||
+    a.id.localeCompare(b.id)
+  )
+  if (ordered.length === 0) {
+    throw new EmptyClusterError(`Cluster ${clusterId} has no active articles`)
+  }
+
+  const originalMediaId = ordered[0].id
+  const copies = ordered.slice(1).map(row => row.id)
+
+  const { error: originalError } = await supabaseClient
+    .from('media')
+    .update({ story_cluster_id: clusterId, is_syndicated: false })
+    .eq('id', originalMediaId)
+  if (originalError) {
+    throw new Error(`Failed to mark cluster original: ${originalError.message}`)
+  }
+  if (copies.length > 0) {
+    const { error: copiesError } = await supabaseClient
+      .from('media')
+      .update({ story_cluster_id: clusterId, is_syndicated: true })
+      .in('id', copies)
+    if (copiesError) {
+      throw new Error(`Failed to mark cluster copies: ${copiesError.message}`)
+    }
+  }
+  const { error: clusterError } = await supabaseClient
+    .from('story_clusters')
+    .update({ original_media_id: originalMediaId, member_count: members.length, updated_at: new Date().toISOString() })
+    .eq('id', clusterId)
+  if (clusterError) {
+    throw new Error(`Failed to update story cluster: ${clusterError.message}`)
+  }
+
+  return { originalMediaId, memberCount: members.length }
+}
+
+// Assignment of an article clustered earlier
+async function currentAssignment(
+  mediaId: string,
+  clusterId: string | null,
+  similarity: number | null,
+  supabaseClient: SupabaseClient
+): Promise<ClusterAssignment> {
+  if (!clusterId) {
+    return { mediaId, clusterId: null, originalMediaId: mediaId, isOriginal: true, similarity: null, memberCount: 1 }
+  }
+  const { data: cluster } = await supabaseClient
+    .from('story_clusters')
+    .select('original_media_id, member_count')
+    .eq('id', clusterId)
+    .maybeSingle()
+  const originalMediaId = cluster?.original_media_id || mediaId
+  return {
+    mediaId,
+    clusterId,
+    originalMediaId,
+    isOriginal: originalMediaId === mediaId,
+    similarity,
+    memberCount: cluster?.member_count || 1
+  }
+}
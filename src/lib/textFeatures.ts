@@ -0,0 +1,83 @@
+// lib/textFeatures.ts
+/**
+ * Stored lexicon features per article (article_features table)
+ *
+ * saveTextFeatures() runs the no-model analyzer (utils/textFeatures.ts) on the
+ * article's plain text and upserts one row. analyzeArticle() calls it before any
+ * model runs, so articles get a baseline even when every provider is down.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { LEXICON_VERSION } from '@/utils/lexicon'
+import { computeTextFeatures, TextFeatures } from '@/utils/textFeatures'
+
+export interface StoredTextFeatures extends TextFeatures {
+  lexiconVersion: string
+  computedAt: string
+}
+
+/**
+ * Compute and store features for one article
+ * Never throws: features are a side result of analysis, so failures are only logged.
+ */
+export async function saveTextFeatures(
+  mediaId: string,
+  plainText: string,
+  supabaseClient: SupabaseClient
+): Promise<TextFeatures | null> {
+  const features = computeTextFeatures(plainText)
+
+  const { error } = await supabaseClient
+    .from('article_features')
+    .upsert({
+      media_id: mediaId,
+      lexicon_version: LEXICON_VERSION,
+      word_count: features.wordCount,
+      sentence_count: features.sentenceCount,
+      loaded_term_count: features.loadedTermCount,
+      loaded_term_density: features.loadedTermDensity,
+      top_loaded_terms: features.topLoadedTerms,
+      hedge_count: features.hedgeCount,
+      hedging_density: features.hedgingDensity,
+      quote_count: features.quoteCount,
+      attributed_quote_ratio: features.attributedQuoteRatio,
+      passive_voice_rate: features.passiveVoiceRate,
+      source_citations: features.sourceCitations,
+      computed_at: new Date().toISOString()
+    }, { onConflict: 'media_id' })
+
+  if (error) {
+    console.error(`[Features] ❌ Could not save text features for ${mediaId}:`, error)
+    return null
+  }
+  console.log(`[Features] ✓ ${features.wordCount} words, ${features.loadedTermCount} loaded terms, ${features.quoteCount} quotes`)
+  return features
+}
+
+/**
+ * Stored features for an article (null = never computed or unreadable)
+ */
+export async function loadTextFeatures(mediaId: string, supabaseClient: SupabaseClient): Promise<StoredTextFeatures | null> {
+  const { data, error } = await supabaseClient
+    .from('article_features')
+    .select('*')
+    .eq('media_id', mediaId)
+    .maybeSingle()
+
+  if (error || !data) return null
+  return {
+    wordCount: data.word_count,
+    sentenceCount: data.sentence_count,
+    loadedTermCount: data.loaded_term_count,
+    loadedTermDensity: Number(data.loaded_term_density),
+    topLoadedTerms: data.top_loaded_terms || [],
+    hedgeCount: data.hedge_count,
+    hedgingDensity: Number(data.hedging_density),
+    quoteCount: data.quote_count,
+    attributedQuoteRatio: data.attributed_quote_ratio === null ? null : Number(data.attributed_quote_ratio),
+    passiveVoiceRate: Number(data.passive_voice_rate),
+    sourceCitations: data.source_citations,
+    lexiconVersion: data.lexicon_version,
+    computedAt: data.computed_at
+  }
+}
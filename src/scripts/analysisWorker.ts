@@ -0,0 +1,40 @@
+// scripts/analysisWorker.ts
+/**
+ * Drain the analysis job queue from the command line
+ *
+ * Usage: npm run worker -- [maxJobs]
+ * Same worker as the /api/cron/analysis-jobs route, without the function time limit.
+ */
+
+import { runAnalysisWorker } from '@/lib/analysisJobs'
+
+async function main() {
+  const maxJobs = Number(process.argv[2]) || 100
+
+  console.log('===================================')
+  console.log('Analysis Worker Script')
+  console.log('===================================')
+
+  const result = await runAnalysisWorker({
+    workerId: `script-${process.pid}`,
+    maxJobs,
+    timeBudgetMs: Number.POSITIVE_INFINITY
+  })
+
+  console.log('Jobs claimed:', result.jobsClaimed)
+  console.log('Succeeded:', result.jobsSucceeded)
+  console.log('Retrying later:', result.jobsRetrying)
+  console.log('Failed:', result.jobsFailed)
+  console.log('Still pending:', result.jobsPending ?? 'unknown')
+}
+
+main()
+  .then(() => {
+    console.log('Script finished successfully')
+    process.exit(0)
+  })
+  .catch(err => {
+    console.error('Script failed')
+    console.error(err)
+    process.exit(1)
+  })
@@ -0,0 +1,37 @@
+// scripts/backfillUrlKeys.ts
+/**
+ * Fill media.url_key / archived_media.url_key for articles stored before URL
+ * canonicalization (or after the urlKey() rules change)
+ *
+ * Usage: npm run backfill:url-keys
+ * Duplicates are printed, not deleted: pick the row to keep by hand.
+ */
+
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { backfillUrlKeys } from '@/lib/existingArticles'
+
+async function main() {
+  console.log('===================================')
+  console.log('URL Key Backfill')
+  console.log('===================================')
+
+  const results = await backfillUrlKeys(supabaseAdmin)
+
+  for (const result of results) {
+    console.log(`\n${result.table}: ${result.updated} updated of ${result.scanned} rows`)
+    for (const duplicate of result.duplicates) {
+      console.log(`  duplicate (no key set): ${duplicate.id} ${duplicate.url}`)
+    }
+  }
+}
+
+main()
+  .then(() => {
+    console.log('\nScript finished successfully')
+    process.exit(0)
+  })
+  .catch(err => {
+    console.error('Script failed')
+    console.error(err)
+    process.exit(1)
+  })
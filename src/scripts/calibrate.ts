@@ -0,0 +1,81 @@
+// scripts/calibrate.ts
+/**
+ * Benchmark models against the human-labeled gold set (gold_set_articles)
+ *
+ * Usage: npm run calibrate -- [options]
+ *   --models id1,id2    only these models (default: every enabled model)
+ *   --template name@v2  run every model on this prompt template version
+ *   --no-save           print the report without storing calibration_runs rows
+ */
+
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { runCalibration } from '@/lib/calibration'
+import { getEnabledModels } from '@/lib/models'
+import { getPromptTemplate } from '@/lib/promptTemplates'
+
+function format(value: number | null, digits = 3): string {
+  return value === null ? '-' : value.toFixed(digits)
+}
+
+async function main() {
+  console.log('===================================')
+  console.log('Calibration Benchmark')
+  console.log('===================================')
+
+  const args = process.argv.slice(2)
+  const option = (flag: string) => {
+    const index = args.indexOf(flag)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+
+  const modelIds = option('--models')?.split(',').map(id => id.trim())
+  const models = modelIds ? getEnabledModels().filter(m => modelIds.includes(m.id)) : getEnabledModels()
+  if (models.length === 0) {
+    throw new Error(`No enabled models match: ${modelIds?.join(', ')}`)
+  }
+
+  const templateLabel = option('--template')
+  let promptTemplate
+  if (templateLabel) {
+    const match = templateLabel.match(/^(.+)@v(\d+)$/)
+    promptTemplate = match ? await getPromptTemplate(supabaseAdmin, match[1], Number(match[2])) : null
+    if (!promptTemplate) throw new Error(`Prompt template not found: ${templateLabel} (expected name@vN)`)
+  }
+
+  const report = await runCalibration({
+    supabaseClient: supabaseAdmin,
+    models,
+    promptTemplate,
+    save: !args.includes('--no-save')
+  })
+
+  console.log(`\nBenchmark ${report.benchmarkId} (${report.goldArticles} gold articles, categories ${report.categorySetVersion})`)
+  if (report.articlesWithoutContent.length > 0) {
+    console.log(`Skipped (no content): ${report.articlesWithoutContent.join(', ')}`)
+  }
+
+  for (const model of report.models) {
+    const { metrics, previous } = model
+    const change = previous?.mae != null && metrics.mae !== null
+      ? ` (${metrics.mae - previous.mae >= 0 ? '+' : ''}${format(metrics.mae - previous.mae)} vs ${previous.createdAt})`
+      : ''
+    console.log(`\n${model.modelId} [${model.promptVersion}] - ${model.articlesScored} scored, ${model.articlesFailed} failed`)
+    console.log(`  MAE:            ${format(metrics.mae)}${change}`)
+    console.log(`  Correlation:    ${format(metrics.correlation)}`)
+    console.log(`  Sign agreement: ${metrics.signAgreement === null ? '-' : `${Math.round(metrics.signAgreement * 100)}%`}`)
+    for (const [category, stats] of Object.entries(metrics.byCategory)) {
+      console.log(`  ${category}: MAE ${format(stats.mae)}, bias ${stats.bias >= 0 ? '+' : ''}${format(stats.bias)} (n=${stats.n})`)
+    }
+  }
+}
+
+main()
+  .then(() => {
+    console.log('\nScript finished successfully')
+    process.exit(0)
+  })
+  .catch(err => {
+    console.error('Script failed')
+    console.error(err)
+    process.exit(1)
+  })
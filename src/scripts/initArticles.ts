@@ -1,46 +1,47 @@
 // scripts/initArticles.ts
 /**
- * Script to fetch latest articles from GNews, insert them into Supabase,
- * and run AI bias analysis on each article.
+ * Script to fetch latest articles from every news source (lib/newsSources.ts), insert them into Supabase,
+ * and queue AI bias analysis for each article (analysis_jobs, see lib/analysisJobs.ts).
  *
  * Designed for initial setup or testing.
  * Can be run standalone or imported by cron jobs.
  */
 
-//import { insertGNewsArticles } from '@/lib/gnews'
-//import { analyzeArticlesBatch } from '@/lib/ai'
-import { insertGNewsArticles } from '../lib/gnews'
-import { analyzeArticlesBatch } from '../lib/ai'
+import { getNewsSources, ingestFromSources } from '../lib/newsSources'
+import { enqueueAnalysisJobs } from '../lib/analysisJobs'
+import { getEnabledModels } from '../lib/models'
+import { supabaseAdmin } from '../utils/supabase/admin'
 
 /**
  * Exported function for cron job usage
- * Fetches articles from GNews and analyzes one article per category
+ * Fetches articles from every enabled source and queues every inserted article for analysis
  */
 export async function runInitArticles() {
   const startTime = Date.now()
 
   console.log('[InitArticles] ========================================')
-  console.log('[InitArticles] STARTING ARTICLE FETCH & ANALYSIS')
+  console.log('[InitArticles] STARTING ARTICLE FETCH & QUEUEING')
   console.log('[InitArticles] ========================================')
   console.log(`[InitArticles] Start time: ${new Date().toISOString()}`)
 
   try {
-    // Step 1: Fetch articles from GNews
+    // Step 1: Fetch articles from every enabled source
     console.log('[InitArticles] ')
-    console.log('[InitArticles] --- Step 1: Fetching articles from GNews ---')
+    console.log('[InitArticles] --- Step 1: Fetching articles from news sources ---')
     const fetchStartTime = Date.now()
 
-    const insertedArticles = await insertGNewsArticles()
+    const sources = getNewsSources(supabaseAdmin)
+    const insertedArticles = await ingestFromSources(sources, supabaseAdmin)
 
     const fetchDuration = Date.now() - fetchStartTime
-    console.log(`[InitArticles] ✓ GNews fetch complete in ${fetchDuration}ms`)
+    console.log(`[InitArticles] ✓ Source fetch complete in ${fetchDuration}ms`)
     console.log(`[InitArticles] Total articles inserted: ${insertedArticles.length}`)
 
     if (insertedArticles.length === 0) {
-      console.warn('[InitArticles] ⚠ No articles were inserted. Check GNews API or duplicates.')
+      console.warn('[InitArticles] ⚠ No articles were inserted. Check the news sources or duplicates.')
       return {
         articlesFetched: 0,
-        articlesAnalyzed: 0,
+        articlesEnqueued: 0,
         success: true,
         warning: 'No articles inserted'
       }
@@ -52,41 +53,16 @@ export async function runInitArticles() {
       console.log(`[InitArticles]   ${i + 1}. ${a.title.substring(0, 50)}... (${a.source})`)
     })
 
-    // Step 2: Select articles for analysis
+    // Step 2: Queue every inserted article for analysis
+    // The analysis-jobs cron drains the queue in slices, so no article is left unscored
     console.log('[InitArticles] ')
-    console.log('[InitArticles] --- Step 2: Selecting articles for analysis ---')
-
-    // Analyze first 18 articles (fits within 5-minute timeout with 15s delays)
-    const testArticles = insertedArticles.slice(0, 15)
-    console.log(`[InitArticles] Selected ${testArticles.length} articles for analysis`)
-    console.log(`[InitArticles] Estimated analysis time: ${((testArticles.length * 15) / 60).toFixed(1)} minutes`)
-
-    // Map articles to required format for analyzeArticlesBatch() function
-    const articlesToAnalyze = testArticles.map(a => ({
-      mediaId: a.id,
-      title: a.title,
-      url: a.url,
-      source: a.source
-    }))
-
-    // Step 3: Run AI analysis
-    console.log('[InitArticles] ')
-    console.log('[InitArticles] --- Step 3: Running AI analysis on articles ---')
-    const analysisStartTime = Date.now()
-
-    const analysisResults = await analyzeArticlesBatch(articlesToAnalyze)
-
-    const analysisDuration = Date.now() - analysisStartTime
-    console.log(`[InitArticles] ✓ Analysis complete in ${(analysisDuration / 1000 / 60).toFixed(2)} minutes`)
-
-    // Calculate success metrics
-    const successfulAnalyses = analysisResults.filter(r =>
-      r.gemini || r.qwen || r.gptOss || r.llamaMaverick
-    ).length
+    console.log('[InitArticles] --- Step 2: Queueing articles for analysis ---')
 
-    const fullSuccessAnalyses = analysisResults.filter(r =>
-      r.gemini && r.qwen && r.gptOss && r.llamaMaverick
-    ).length
+    const jobsEnqueued = await enqueueAnalysisJobs(
+      insertedArticles.map(a => a.id),
+      supabaseAdmin
+    )
+    console.log(`[InitArticles] ✓ Queued ${jobsEnqueued} articles for ${getEnabledModels().length} models`)
 
     // Summary
     const totalDuration = Date.now() - startTime
@@ -94,20 +70,15 @@ export async function runInitArticles() {
     console.log('[InitArticles] ========================================')
     console.log('[InitArticles] SUMMARY')
     console.log('[InitArticles] ========================================')
-    console.log(`[InitArticles] Total articles fetched from GNews: ${insertedArticles.length}`)
-    console.log(`[InitArticles] Articles sent for analysis: ${testArticles.length}`)
-    console.log(`[InitArticles] Successful analyses (at least 1 model): ${successfulAnalyses}`)
-    console.log(`[InitArticles] Full analyses (all 4 models): ${fullSuccessAnalyses}`)
-    console.log(`[InitArticles] Failed analyses: ${testArticles.length - successfulAnalyses}`)
-    console.log(`[InitArticles] Total duration: ${(totalDuration / 1000 / 60).toFixed(2)} minutes`)
+    console.log(`[InitArticles] Total articles inserted from news sources: ${insertedArticles.length}`)
+    console.log(`[InitArticles] Articles queued for analysis: ${jobsEnqueued}`)
+    console.log(`[InitArticles] Total duration: ${(totalDuration / 1000).toFixed(1)}s`)
     console.log(`[InitArticles] End time: ${new Date().toISOString()}`)
     console.log('[InitArticles] ========================================')
 
     return {
       articlesFetched: insertedArticles.length,
-      articlesAnalyzed: successfulAnalyses,
-      fullAnalyses: fullSuccessAnalyses,
-      failedAnalyses: testArticles.length - successfulAnalyses,
+      articlesEnqueued: jobsEnqueued,
       durationMs: totalDuration,
       success: true
     }
@@ -0,0 +1,79 @@
+// scripts/reanalyze.ts
+/**
+ * Re-run chosen models/categories on existing articles (active and archived)
+ *
+ * Usage: npm run reanalyze -- [options]
+ *   --media id1,id2         only these articles
+ *   --from 2026-10-01       articles created on/after this date
+ *   --to 2026-10-15         articles created before this date
+ *   --models id1,id2        only these models (default: every enabled model)
+ *   --categories id1,id2    only these bias category IDs
+ *   --missing-only          only fill in (model, category) pairs with no current score
+ *   --scope active|archived|all
+ *   --limit 100             max articles (default 25)
+ *   --dry-run               print the plan without calling any model
+ */
+
+import { supabaseAdmin } from '@/utils/supabase/admin'
+import { parseReanalysisFilters, runReanalysis } from '@/lib/reanalysis'
+
+// --flag value / --flag pairs → request-body shape accepted by parseReanalysisFilters
+function parseArgs(argv: string[]): { body: Record<string, unknown>; dryRun: boolean } {
+  const body: Record<string, unknown> = {}
+  let dryRun = false
+  const list = (value: string | undefined) => (value || '').split(',').map(v => v.trim()).filter(Boolean)
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = argv[i + 1]
+    switch (flag) {
+      case '--media': body.mediaIds = list(value); i++; break
+      case '--models': body.modelIds = list(value); i++; break
+      case '--categories': body.categoryIds = list(value); i++; break
+      case '--from': body.from = value; i++; break
+      case '--to': body.to = value; i++; break
+      case '--scope': body.scope = value; i++; break
+      case '--limit': body.limit = Number(value); i++; break
+      case '--missing-only': body.missingOnly = true; break
+      case '--dry-run': dryRun = true; break
+      default: throw new Error(`Unknown option: ${flag}`)
+    }
+  }
+  return { body, dryRun }
+}
+
+async function main() {
+  console.log('===================================')
+  console.log('Re-analysis Script')
+  console.log('===================================')
+
+  const { body, dryRun } = parseArgs(process.argv.slice(2))
+  const { filters, errors } = parseReanalysisFilters(body)
+  if (!filters) {
+    errors.forEach(error => console.error(`Invalid option: ${error}`))
+    process.exit(1)
+  }
+
+  const result = await runReanalysis(filters, { supabaseClient: supabaseAdmin, dryRun })
+
+  console.log('Articles matched:', result.articlesMatched)
+  result.tasks.forEach(task => {
+    console.log(`  ${task.mediaId}${task.archived ? ' (archived)' : ''}: ${task.modelIds.join(', ')} × ${task.categoryIds.length} categories`)
+  })
+  if (!dryRun) {
+    console.log('Tasks succeeded:', result.tasksSucceeded)
+    console.log('Tasks failed:', result.tasksFailed)
+    result.errors.forEach(err => console.error(`Article ${err.mediaId}: ${err.error}`))
+  }
+}
+
+main()
+  .then(() => {
+    console.log('Script finished successfully')
+    process.exit(0)
+  })
+  .catch(err => {
+    console.error('Script failed')
+    console.error(err)
+    process.exit(1)
+  })
@@ -1,124 +1,1982 @@
 /**
  * test.ts
- * Test script to analyze a single article from media with all Gemini AI models.
+ * Deterministic test harness for the AI pipeline - no API keys, network or database needed.
+ *
+ * - Mock models (MOCK_AI=true, lib/mockProvider.ts) replay scripted replies through analyzeArticle
+ * - A local HTTP stub stands in for the Groq and Gemini APIs so the real SDK paths
+ *   (analyzeWithGroq / analyzeWithGemini) run against fixture replies
+ * - The same stub serves scripts/testing/fixtures/article.html for article extraction
+ *   and the saved RSS/Atom feeds in scripts/testing/fixtures/feeds/
+ * - An in-memory Supabase stand-in (scripts/testing/inMemorySupabase.ts) records saved scores
+ *
+ * Run from src/: npm test
+ * Set VERBOSE=true to print pipeline logs for passing tests too.
  */
 
-import { ai } from '../lib/ai.js' // your Gemini wrapper / client
-import { supabaseAdmin } from '@/utils/supabase/admin.js'
+import assert from 'node:assert/strict'
+import fs from 'node:fs'
+import http from 'node:http'
+import path from 'node:path'
+import type { AddressInfo } from 'node:net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AnalysisRunRow } from '../lib/analysisRuns'
+import { InMemorySupabase } from './testing/inMemorySupabase'
+import { defineSqlFunctions } from './testing/sqlFunctions'
+import fixtures from './testing/fixtures/modelResponses.json'
 
-// Type for AI analysis result
-interface AIScore {
-  category: string
-  score: number
-  explanation: string
-}
+type TestCase = { name: string; fn: () => Promise<void> | void }
+const tests: TestCase[] = []
 
-interface AIAnalysis {
-  scores: AIScore[]
-  summary: string
+function test(name: string, fn: () => Promise<void> | void) {
+  tests.push({ name, fn })
 }
-const MODELS = ["gemma-3-1b", "gemma-3-27b", "gemma-3-2b", "gemma-3-4b"]
 
-// Function to analyze with all Gemini models
-export async function analyzeWithAllModels(
-  content: string,
-  biasCategories: string[]
-): Promise<{ model: string; data: AIAnalysis | null }[]> {
-  const results: { model: string; data: AIAnalysis | null }[] = []
+const { biasCategories, article, responses } = fixtures
+const categoryNames = biasCategories.map(c => c.name)
 
-  for (const model of MODELS) {
-    console.log(`\n--- Testing model: ${model} ---`)
-    try {
-      const response = await ai.models.generateContent({
-        model,
-        contents: `
-Analyze this article for bias.
-
-Article content:
-${content}
-
-Score each of these bias categories from -1 to 1:
-${biasCategories.join(', ')}
-
-Return ONLY valid JSON, no markdown or code blocks.
-Format:
-{
-  "scores": [
-    { "category": "political", "score": 0.0, "explanation": "Brief explanation" }
-  ],
-  "summary": "One sentence summary of overall bias"
-}
-        `
-      })
+// ---- Provider HTTP stub (Groq + Gemini + article pages) ----
 
-      if (!response.text) {
-        console.error(`Model ${model} returned no text.`)
-        results.push({ model, data: null })
-        continue
-      }
+const articleHtml = fs.readFileSync(path.join(__dirname, 'testing/fixtures/article.html'), 'utf8')
+let articlePageHits = 0
+const feedFixturesDir = path.join(__dirname, 'testing/fixtures/feeds')
+
+// Reply texts served in order; every request body is recorded for assertions
+const stubReplies: string[] = []
+const stubRequests: Array<{ path: string; body: Record<string, unknown> }> = []
+let stubFailuresBeforeReply = 0 // answer this many requests with HTTP 503 first
+const gnewsRequests: URLSearchParams[] = []
+const gnewsPages: Record<string, unknown> = {} // GNews reply per category (missing = HTTP 403)
+const feedRequests: string[] = []                // /feeds/<file> serves testing/fixtures/feeds/<file>
 
-      let jsonText = response.text
-      if (jsonText.startsWith('```')) {
-        jsonText = jsonText
-          .replace(/```json\n?/g, '')
-          .replace(/```\n?/g, '')
-          .trim()
+const stubServer = http.createServer((req, res) => {
+  let raw = ''
+  req.on('data', chunk => { raw += chunk })
+  req.on('end', () => {
+    const path = req.url || ''
+
+    if (path.startsWith('/feeds/')) {
+      feedRequests.push(path)
+      const file = path.substring('/feeds/'.length)
+      const feedPath = `${feedFixturesDir}/${file}`
+      if (!/^[\w-]+\.xml$/.test(file) || !fs.existsSync(feedPath)) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' })
+        res.end('Not found')
+        return
       }
+      res.writeHead(200, { 'Content-Type': 'application/rss+xml' })
+      res.end(fs.readFileSync(feedPath, 'utf8'))
+      return
+    }
 
-      const data: AIAnalysis = JSON.parse(jsonText)
-      console.log(`Model ${model} Success!`)
-      results.push({ model, data })
-    } catch (error) {
-      console.error(`Error with model ${model}:`, error)
-      results.push({ model, data: null })
+    if (path.startsWith('/api/v4/')) {
+      const params = new URL(path, 'http://stub').searchParams
+      gnewsRequests.push(params)
+      const page = gnewsPages[params.get('category') || '']
+      res.writeHead(page ? 200 : 403, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify(page || { errors: ['You did not provide an API key.'] }))
+      return
+    }
+
+    if (path.startsWith('/articles/')) {
+      articlePageHits++
+      res.writeHead(200, { 'Content-Type': 'text/html' })
+      res.end(articleHtml)
+      return
     }
+
+    stubRequests.push({ path, body: raw ? JSON.parse(raw) : {} })
+
+    if (stubFailuresBeforeReply > 0) {
+      stubFailuresBeforeReply--
+      res.writeHead(503, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: { message: 'Service Unavailable' } }))
+      return
+    }
+
+    const text = stubReplies.shift()
+    if (text === undefined) {
+      res.writeHead(500, { 'Content-Type': 'application/json' })
+      res.end(JSON.stringify({ error: { message: 'No stub reply queued' } }))
+      return
+    }
+
+    // Gemini: POST /v1beta/models/<model>:generateContent, Groq: POST /openai/v1/chat/completions
+    const payload = path.includes(':generateContent')
+      ? { candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 100, candidatesTokenCount: 50 } }
+      : { id: 'stub', object: 'chat.completion', choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: 'stop' }], usage: { prompt_tokens: 100, completion_tokens: 50 } }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' })
+    res.end(JSON.stringify(payload))
+  })
+})
+
+function queueStubReplies(...texts: string[]) {
+  stubReplies.length = 0
+  stubRequests.length = 0
+  stubReplies.push(...texts)
+}
+
+function seedDatabase(): InMemorySupabase {
+  const db = new InMemorySupabase({ bias_categories: biasCategories })
+  defineSqlFunctions(db)
+  return db
+}
+
+// Loaded in main() after the env below is set (lib/models.ts reads MOCK_AI at import time)
+let ai: typeof import('../lib/ai')
+let mock: typeof import('../lib/mockProvider')
+let validation: typeof import('../utils/validateAnalysis')
+let content: typeof import('../lib/articleContent')
+let chunking: typeof import('../utils/chunkContent')
+let evidence: typeof import('../utils/evidence')
+let prompts: typeof import('../lib/prompts')
+let resilience: typeof import('../lib/providerResilience')
+let models: typeof import('../lib/models')
+let jobs: typeof import('../lib/analysisJobs')
+let reanalysis: typeof import('../lib/reanalysis')
+let calibration: typeof import('../lib/calibration')
+let calibrationMetrics: typeof import('../utils/calibrationMetrics')
+let modelOffsets: typeof import('../utils/modelOffsets')
+let offsetsLib: typeof import('../lib/modelOffsets')
+let aggregation: typeof import('../utils/aggregation')
+let weightsLib: typeof import('../lib/modelWeights')
+let sentences: typeof import('../utils/passageAnnotations')
+let annotationsLib: typeof import('../lib/passageAnnotations')
+let textFeatures: typeof import('../utils/textFeatures')
+let featuresLib: typeof import('../lib/textFeatures')
+let gnews: typeof import('../lib/gnews')
+let newsSources: typeof import('../lib/newsSources')
+let feedParser: typeof import('../utils/feedParser')
+let rssFeeds: typeof import('../lib/rssFeeds')
+let canonicalUrl: typeof import('../utils/canonicalUrl')
+let existingArticles: typeof import('../lib/existingArticles')
+let minhash: typeof import('../utils/minhash')
+let clusters: typeof import('../lib/storyClusters')
+let newsEvents: typeof import('../utils/newsEvents')
+let eventsLib: typeof import('../lib/newsEvents')
+let stubUrl = ''
+
+// ---- Parsing and validation ----
+
+test('parses a valid reply and keeps category order', () => {
+  const { analysis, errors } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  assert.deepEqual(errors, [])
+  assert.deepEqual(analysis?.scores.map(s => s.category), categoryNames)
+  assert.equal(analysis?.scores[1].score, 0.4)
+})
+
+for (const variant of ['fenced', 'thinkTags', 'prose'] as const) {
+  test(`cleans up ${variant} reply before parsing`, () => {
+    const { analysis, errors } = validation.parseAnalysisResponse(responses[variant], categoryNames)
+    assert.deepEqual(errors, [])
+    assert.equal(analysis?.scores.length, categoryNames.length)
+  })
+}
+
+test('normalizes category names to the database spelling', () => {
+  const { analysis } = validation.parseAnalysisResponse(responses.mixedCaseCategories, categoryNames)
+  assert.deepEqual(analysis?.scores.map(s => s.category), categoryNames)
+})
+
+test('keeps self-reported confidence in 0..1, drops anything else, and saves it', async () => {
+  const { analysis, errors } = validation.parseAnalysisResponse(scoredReply([0.1, 0.2, 0.3], 'Summary', [0.75, 1.4, 'high']), categoryNames)
+  assert.deepEqual(errors, [])
+  assert.deepEqual(analysis?.scores.map(s => s.confidence), [0.75, null, null])
+
+  const db = seedDatabase()
+  await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, db as unknown as SupabaseClient)
+  assert.deepEqual(db.table('ai_scores').map(r => r.confidence), [0.75, null, null])
+})
+
+const invalidReplies: Array<[keyof typeof responses, RegExp]> = [
+  ['malformed', /not valid JSON/],
+  ['notJson', /not valid JSON/],
+  ['partial', /Missing score for category "sensationalism"/],
+  ['duplicate', /"political" is scored more than once/],
+  ['outOfRange', /between -1 and \+1, got 1.5/],
+  ['stringScore', /must be a number/],
+  ['unknownCategory', /unknown category "religious"/],
+  ['emptySummary', /"summary" must be a non-empty string/]
+]
+
+for (const [variant, expected] of invalidReplies) {
+  test(`rejects ${variant} reply`, () => {
+    const { analysis, errors } = validation.parseAnalysisResponse(responses[variant], categoryNames)
+    assert.equal(analysis, null)
+    assert.ok(errors.some(e => expected.test(e)), `expected ${expected} in: ${errors.join('; ')}`)
+  })
+}
+
+// ---- truncateContent ----
+
+test('truncateContent leaves short content untouched', () => {
+  assert.equal(ai.truncateContent('Short article.', 100), 'Short article.')
+  assert.equal(ai.truncateContent('x'.repeat(100), 100), 'x'.repeat(100))
+})
+
+test('truncateContent ends at a sentence in the last 20%', () => {
+  const content = `${'a'.repeat(85)}. ${'b'.repeat(50)}`
+  assert.equal(ai.truncateContent(content, 100), `${'a'.repeat(85)}.`)
+})
+
+test('truncateContent hard-cuts when no sentence end is close enough', () => {
+  const content = `${'a'.repeat(50)}. ${'b'.repeat(100)}`
+  const truncated = ai.truncateContent(content, 100)
+  assert.equal(truncated.length, 100)
+  assert.ok(truncated.endsWith('b'))
+})
+
+// ---- saveModelScores ----
+
+test('saveModelScores inserts one row per category', async () => {
+  const db = seedDatabase()
+  const { analysis } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, db as unknown as SupabaseClient)
+
+  const rows = db.table('ai_scores')
+  assert.equal(rows.length, 3)
+  assert.deepEqual(rows.map(r => r.category_id), ['cat-political', 'cat-economic', 'cat-sensationalism'])
+  assert.ok(rows.every(r => r.model_name === 'mock/alpha' && r.media_id === article.mediaId))
+  assert.equal(rows[0].score, -0.2)
+})
+
+test('saveModelScores skips unknown categories and ignores null analyses', async () => {
+  const db = seedDatabase()
+  await ai.saveModelScores(
+    { scores: [{ category: 'religious', score: 0, explanation: 'n/a' }], summary: 'x' },
+    'mock/alpha', article.mediaId, biasCategories, db as unknown as SupabaseClient
+  )
+  await ai.saveModelScores(null, 'mock/alpha', article.mediaId, biasCategories, db as unknown as SupabaseClient)
+  assert.equal(db.table('ai_scores').length, 0)
+})
+
+test('saveModelScores writes nothing when the batch write fails', async () => {
+  const db = seedDatabase()
+  db.injectError('save_model_scores', 'rpc', { code: '23503', message: 'foreign key violation' })
+  const { analysis } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  const { saved } = await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, db as unknown as SupabaseClient)
+  assert.equal(saved, false)
+  assert.equal(db.table('ai_scores').length, 0)
+})
+
+test('saveModelScores saves a re-run as the next version and retires the old rows', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  const { analysis } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, client)
+  await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, client)
+
+  const rows = db.table('ai_scores')
+  assert.equal(rows.length, 6)
+  assert.deepEqual(rows.filter(r => r.is_current).map(r => r.score_version), [2, 2, 2])
+  assert.deepEqual(rows.filter(r => !r.is_current).map(r => r.score_version), [1, 1, 1])
+})
+
+// ai_scores / archived_ai_scores unique key (20261019132000_ai_scores_unique.sql)
+const SCORE_KEY = ['media_id', 'category_id', 'model_name', 'score_version']
+
+// Both score keys, including the one-current partial index (20261019143000_ai_scores_one_current.sql)
+function addScoreConstraints(db: InMemorySupabase) {
+  db.addUniqueConstraint('ai_scores', SCORE_KEY)
+  db.addUniqueConstraint('ai_scores', ['media_id', 'category_id', 'model_name'], row => row.is_current === true)
+}
+
+test('overlapping saves of the same model become consecutive versions', async () => {
+  const db = seedDatabase()
+  addScoreConstraints(db)
+  const client = db as unknown as SupabaseClient
+  const { analysis } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  const { analysis: rescored } = validation.parseAnalysisResponse(responses.valid.replace('-0.2', '-0.3'), categoryNames)
+
+  // Both start before either finishes: neither may overwrite the other's version
+  const saves = await Promise.all([
+    ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, client),
+    ai.saveModelScores(rescored, 'mock/alpha', article.mediaId, biasCategories, client)
+  ])
+  assert.ok(saves.every(save => save.saved))
+
+  const rows = db.table('ai_scores')
+  assert.equal(rows.length, 2 * biasCategories.length)
+  assert.deepEqual(rows.filter(r => r.is_current).map(r => r.score_version), [2, 2, 2])
+  assert.equal(rows.find(r => r.is_current && r.category_id === 'cat-political')?.score, -0.3)
+})
+
+test('analyzing the same article twice leaves one current score per model and category', async () => {
+  const db = seedDatabase()
+  addScoreConstraints(db)
+
+  await runAnalyzeArticle(db)
+  await runAnalyzeArticle(db)
+
+  const current = db.table('ai_scores').filter(r => r.is_current)
+  assert.equal(db.table('ai_scores').length, 2 * 2 * biasCategories.length)
+  assert.equal(current.length, 2 * biasCategories.length)
+  assert.equal(new Set(current.map(r => `${r.model_name}|${r.category_id}`)).size, current.length)
+})
+
+test('saveModelScores stores the run with its scores, or neither', async () => {
+  const db = seedDatabase()
+  addScoreConstraints(db)
+  const client = db as unknown as SupabaseClient
+  const { analysis } = validation.parseAnalysisResponse(responses.valid, categoryNames)
+  const run = { media_id: article.mediaId, model_name: 'mock/alpha', parse_outcome: 'valid' } as unknown as AnalysisRunRow
+
+  const first = await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, client, { run })
+  assert.equal(first.saved, true)
+  assert.deepEqual(db.table('analysis_runs').map(r => r.id), [first.analysisRunId])
+  assert.ok(db.table('ai_scores').every(r => r.analysis_run_id === first.analysisRunId))
+
+  // The transaction fails: no run, no new rows, the earlier scores stay current
+  db.injectError('save_model_scores', 'rpc', { code: '08006', message: 'connection reset' })
+  assert.deepEqual(
+    await ai.saveModelScores(analysis, 'mock/alpha', article.mediaId, biasCategories, client, { run }),
+    { saved: false, analysisRunId: null }
+  )
+  const rows = db.table('ai_scores')
+  assert.equal(db.table('analysis_runs').length, 1)
+  assert.equal(rows.length, biasCategories.length)
+  assert.ok(rows.every(r => r.is_current && r.analysis_run_id === first.analysisRunId))
+
+  // A failed model only records its run
+  const failed = await ai.saveModelScores(null, 'mock/beta', article.mediaId, biasCategories, client, { run: { ...run, model_name: 'mock/beta' } })
+  assert.equal(failed.saved, false)
+  assert.ok(failed.analysisRunId)
+  assert.equal(db.table('analysis_runs').length, 2)
+
+  // A second current row for the same model and category is rejected outright
+  const { error } = await client.from('ai_scores').insert({ ...rows[0], id: undefined, score_version: 9 })
+  assert.equal(error?.code, '23505')
+})
+
+// ---- analyzeArticle with mock models ----
+
+function mockModel(id: string) {
+  return models.getModelConfig(id)!
+}
+
+async function runAnalyzeArticle(db: InMemorySupabase) {
+  return ai.analyzeArticle({
+    mediaId: article.mediaId,
+    url: article.url,
+    title: article.title,
+    source: article.source,
+    content: article.content,
+    supabaseClient: db as unknown as SupabaseClient
+  })
+}
+
+test('analyzeArticle returns every mock model keyed by ID and saves its scores', async () => {
+  mock.setMockReplies('mock/alpha', [{ type: 'text', text: responses.valid }])
+  mock.setMockReplies('mock/beta', [{ type: 'text', text: responses.thinkTags }])
+  const db = seedDatabase()
+
+  const { analyses, runs } = await runAnalyzeArticle(db)
+
+  assert.deepEqual(Object.keys(analyses), ['mock/alpha', 'mock/beta'])
+  assert.equal(analyses['mock/alpha']?.scores[1].score, 0.4)
+  assert.equal(runs['mock/beta'].repaired, false)
+  assert.equal(db.table('ai_scores').length, 6)
+})
+
+test('analyzeArticle repairs an invalid reply with one follow-up call', async () => {
+  mock.setMockReplies('mock/alpha', [
+    { type: 'text', text: responses.partial },
+    { type: 'text', text: responses.valid }
+  ])
+  const db = seedDatabase()
+
+  const { analyses, runs } = await runAnalyzeArticle(db)
+
+  assert.equal(mock.getMockCallCount('mock/alpha'), 2)
+  assert.equal(runs['mock/alpha'].repaired, true)
+  assert.ok(runs['mock/alpha'].validationErrors.some(e => e.includes('sensationalism')))
+  assert.equal(analyses['mock/alpha']?.scores.length, 3)
+})
+
+test('analyzeArticle saves nothing for a model whose repair also fails', async () => {
+  mock.setMockReplies('mock/alpha', [
+    { type: 'text', text: responses.malformed },
+    { type: 'text', text: responses.outOfRange }
+  ])
+  const db = seedDatabase()
+
+  const { analyses, runs } = await runAnalyzeArticle(db)
+
+  assert.equal(analyses['mock/alpha'], null)
+  assert.equal(runs['mock/alpha'].repaired, false)
+  assert.ok(db.table('ai_scores').every(r => r.model_name === 'mock/beta'))
+  assert.equal(db.table('ai_scores').length, 3)
+})
+
+test('analyzeArticle survives a timeout and a provider error on one model each', async () => {
+  // First attempt + AI_MAX_RETRIES retries all fail
+  mock.setMockReplies('mock/alpha', Array(4).fill({ type: 'timeout', afterMs: 20 }))
+  mock.setMockReplies('mock/beta', Array(4).fill({ type: 'error', message: '429 Too Many Requests', status: 429 }))
+  const db = seedDatabase()
+
+  const error = await runAnalyzeArticle(db).catch(e => e)
+  assert.ok(error instanceof ai.AllModelsFailedError)
+  assert.match(error.message, /All AI models failed to analyze/)
+  assert.equal(error.runs['mock/alpha'].errorKind, 'timeout')
+  assert.equal(error.runs['mock/beta'].errorKind, 'rate_limit')
+  assert.equal(error.runs['mock/beta'].retries, 3)
+  assert.equal(mock.getMockCallCount('mock/beta'), 4)
+  assert.equal(db.table('ai_scores').length, 0)
+})
+
+test('analyzeArticle rejects missing fields before calling any model', async () => {
+  const db = seedDatabase()
+  await assert.rejects(
+    ai.analyzeArticle({ mediaId: '', url: article.url, title: article.title, source: article.source, supabaseClient: db as unknown as SupabaseClient }),
+    /Missing required fields/
+  )
+  assert.equal(mock.getMockCallCount('mock/alpha'), 0)
+})
+
+// ---- Article content cache ----
+
+test('getArticleContent scrapes once on a miss and caches text, byline and word count', async () => {
+  const db = seedDatabase()
+  const url = `${stubUrl}/articles/tax-cut`
+
+  const first = await content.getArticleContent({ mediaId: 'media-1', url, supabaseClient: db as unknown as SupabaseClient })
+  const second = await content.getArticleContent({ mediaId: 'media-1', url, supabaseClient: db as unknown as SupabaseClient })
+
+  assert.equal(articlePageHits, 1)
+  assert.equal(db.table('media_content').length, 1)
+  assert.equal(first?.byline, 'Jane Reporter')
+  assert.equal(first?.url_hash, content.hashUrl(url))
+  assert.ok((first?.word_count || 0) > 100)
+  assert.equal(second?.content, first?.content)
+  assert.equal(second?.extracted_at, first?.extracted_at)
+})
+
+test('getArticleContent reuses text cached for the same URL under another media ID', async () => {
+  const db = seedDatabase()
+  const url = `${stubUrl}/articles/tax-cut`
+  await content.getArticleContent({ mediaId: 'media-1', url, supabaseClient: db as unknown as SupabaseClient })
+
+  const copy = await content.getArticleContent({ mediaId: 'media-2', url, supabaseClient: db as unknown as SupabaseClient })
+
+  assert.equal(articlePageHits, 1)
+  assert.equal(copy?.media_id, 'media-2')
+  assert.deepEqual(db.table('media_content').map(r => r.media_id), ['media-1', 'media-2'])
+})
+
+test('getArticleContent re-scrapes with forceRefresh and keeps the cache on failure', async () => {
+  const db = seedDatabase()
+  const url = `${stubUrl}/articles/tax-cut`
+  await content.getArticleContent({ mediaId: 'media-1', url, supabaseClient: db as unknown as SupabaseClient })
+  db.table('media_content')[0].extracted_at = '2026-01-01T00:00:00.000Z'
+
+  const refreshed = await content.getArticleContent({ mediaId: 'media-1', url, supabaseClient: db as unknown as SupabaseClient, forceRefresh: true })
+  assert.equal(articlePageHits, 2)
+  assert.notEqual(refreshed?.extracted_at, '2026-01-01T00:00:00.000Z')
+
+  // Unreachable page → cached copy is still returned
+  const fallback = await content.getArticleContent({ mediaId: 'media-1', url: `${stubUrl}/missing`, supabaseClient: db as unknown as SupabaseClient, forceRefresh: true })
+  assert.equal(fallback?.extracted_at, refreshed?.extracted_at)
+})
+
+test('analyzeArticle analyzes cached content without scraping the URL', async () => {
+  const db = seedDatabase()
+  db.table('media_content').push({
+    media_id: article.mediaId,
+    url: article.url,
+    url_hash: content.hashUrl(article.url),
+    title: article.title,
+    byline: null,
+    content: article.content,
+    word_count: 70,
+    extracted_at: '2026-10-01T08:00:00.000Z'
+  })
+
+  const result = await ai.analyzeArticle({
+    mediaId: article.mediaId,
+    url: article.url, // example.com is never fetched
+    title: article.title,
+    source: article.source,
+    supabaseClient: db as unknown as SupabaseClient
+  })
+
+  assert.equal(result.contentExtractedAt, '2026-10-01T08:00:00.000Z')
+  assert.equal(db.table('ai_scores').length, 6)
+})
+
+// ---- Long-article chunking ----
+
+function scoredReply(scores: number[], summary = 'Chunk summary', confidences: unknown[] = []) {
+  return JSON.stringify({
+    scores: categoryNames.map((category, i) => ({ category, score: scores[i], explanation: `${category} explanation`, confidence: confidences[i] })),
+    summary
+  })
+}
+
+test('chunkContent packs paragraphs without splitting them', () => {
+  const paragraphs = Array.from({ length: 10 }, (_, i) => `<p>${String(i).repeat(30)}</p>`) // 37 chars each
+  const chunks = chunking.chunkContent(paragraphs.join(''), 100)
+
+  assert.equal(chunks.length, 5)
+  assert.ok(chunks.every(chunk => chunk.length <= 100))
+  assert.ok(chunks.every(chunk => chunk.startsWith('<p>') && chunk.endsWith('</p>')))
+  assert.equal(chunks.join('').replace(/\s/g, ''), paragraphs.join(''))
+})
+
+test('chunkContent splits an oversized paragraph at sentence ends and caps the chunk count', () => {
+  const paragraph = 'This sentence is exactly forty chars ok. '.repeat(20).trim() // ~820 chars, no blank lines
+  const chunks = chunking.chunkContent(paragraph, 100)
+
+  assert.ok(chunks.every(chunk => chunk.length <= 100 && chunk.endsWith('.')))
+  assert.equal(chunking.chunkContent(paragraph, 100, 2).length, 2)
+})
+
+test('aggregateChunkAnalyses uses a length-weighted mean and reports the spread', () => {
+  const first = validation.parseAnalysisResponse(scoredReply([0.5, 0, -0.4], 'First half'), categoryNames).analysis!
+  const second = validation.parseAnalysisResponse(scoredReply([-0.1, 0, 0.8], 'Second half'), categoryNames).analysis!
+
+  const merged = chunking.aggregateChunkAnalyses([{ analysis: first, length: 3000 }, { analysis: second, length: 1000 }], categoryNames)
+
+  assert.deepEqual(merged.scores.map(s => s.score), [0.35, 0, -0.1])
+  assert.deepEqual(merged.scores.map(s => s.spread), [0.6, 0, 1.2])
+  assert.match(merged.scores[0].explanation, /^\[Part 1\/2\] .* \[Part 2\/2\] /)
+  assert.equal(merged.summary, '[Part 1/2] First half [Part 2/2] Second half')
+})
+
+test('aggregateChunkAnalyses weights confidence by length over the chunks that gave one', () => {
+  const first = validation.parseAnalysisResponse(scoredReply([0.5, 0, -0.4], 'First half', [0.9, null, 0.4]), categoryNames).analysis!
+  const second = validation.parseAnalysisResponse(scoredReply([-0.1, 0, 0.8], 'Second half', [0.5, null]), categoryNames).analysis!
+
+  const merged = chunking.aggregateChunkAnalyses([{ analysis: first, length: 3000 }, { analysis: second, length: 1000 }], categoryNames)
+
+  assert.deepEqual(merged.scores.map(s => s.confidence), [0.8, null, 0.4])
+})
+
+test('analyzeArticle chunks long content for chunk-mode models and records the content mode', async () => {
+  const paragraph = `<p>${'The committee met again today to discuss the budget. '.repeat(50)}</p>` // ~2.7k chars
+  const longContent = paragraph.repeat(10) // ~27k chars → 3 chunks at 12000
+  mock.setMockReplies('mock/beta', [
+    { type: 'text', text: scoredReply([0.3, 0.3, 0.3]) },
+    { type: 'text', text: scoredReply([-0.3, 0.3, 0.3]) },
+    { type: 'text', text: scoredReply([0.3, 0.3, 0.3]) }
+  ])
+  const db = seedDatabase()
+
+  const { analyses, runs } = await ai.analyzeArticle({
+    mediaId: article.mediaId,
+    url: article.url,
+    title: article.title,
+    source: article.source,
+    content: longContent,
+    supabaseClient: db as unknown as SupabaseClient
+  })
+
+  // mock/alpha has no budget (whole article), mock/beta has maxContentChars 12000 + chunk mode
+  assert.equal(runs['mock/alpha'].contentMode, 'whole')
+  assert.equal(runs['mock/beta'].contentMode, 'chunked')
+  assert.equal(runs['mock/beta'].chunkCount, 3)
+  assert.equal(mock.getMockCallCount('mock/beta'), 3)
+  assert.equal(analyses['mock/beta']?.scores[0].spread, 0.6)
+
+  const betaRows = db.table('ai_scores').filter(r => r.model_name === 'mock/beta')
+  assert.ok(betaRows.every(r => r.content_mode === 'chunked'))
+  assert.equal(betaRows[0].chunk_spread, 0.6)
+  assert.ok(db.table('ai_scores').filter(r => r.model_name === 'mock/alpha').every(r => r.content_mode === 'whole' && r.chunk_spread === null))
+})
+
+const truncatingModel = {
+  id: 'mock/alpha',
+  provider: 'mock',
+  displayName: 'Truncating mock',
+  color: '',
+  enabled: true,
+  maxContentChars: 1000
+} as const
+
+test('runModel truncates when a model has no chunk mode', async () => {
+  const run = await ai.runModel('x'.repeat(17000), biasCategories, truncatingModel)
+
+  assert.equal(run.contentMode, 'truncated')
+  assert.equal(run.omittedChars, 17000 - 1000)
+  assert.equal(mock.getMockCallCount('mock/alpha'), 1)
+})
+
+test('runModel counts the text dropped before a sentence-boundary cut as omitted', async () => {
+  // 17-char sentences: the cut ends after sentence 58 (986 chars, trailing space dropped)
+  const run = await ai.runModel('A sentence here. '.repeat(1000), biasCategories, truncatingModel)
+
+  assert.equal(run.contentMode, 'truncated')
+  assert.equal(run.omittedChars, 17000 - 985)
+})
+
+test('runModel records the text left out past the chunk limit', async () => {
+  const paragraph = `<p>${'x'.repeat(90)}</p>` // 97 chars: one paragraph per chunk at 100
+  const run = await ai.runModel(paragraph.repeat(chunking.MAX_CHUNKS + 2), biasCategories, {
+    id: 'mock/alpha',
+    provider: 'mock',
+    displayName: 'Chunking mock',
+    color: '',
+    enabled: true,
+    maxContentChars: 100,
+    longContentMode: 'chunk'
+  })
+
+  assert.equal(run.contentMode, 'chunked')
+  assert.equal(run.chunkCount, chunking.MAX_CHUNKS)
+  assert.equal(run.omittedChars, 2 * paragraph.length)
+  assert.equal(mock.getMockCallCount('mock/alpha'), chunking.MAX_CHUNKS)
+})
+
+test('runModel starts no chunk after the deadline and drops the partial run', async () => {
+  const paragraph = `<p>${'x'.repeat(90)}</p>`
+  // The first chunk's request hangs past the deadline, then its retry succeeds
+  mock.setMockReplies('mock/alpha', [{ type: 'timeout', afterMs: 40 }])
+  const run = await ai.runModel(paragraph.repeat(3), biasCategories, {
+    id: 'mock/alpha',
+    provider: 'mock',
+    displayName: 'Chunking mock',
+    color: '',
+    enabled: true,
+    maxContentChars: 100,
+    longContentMode: 'chunk'
+  }, undefined, undefined, Date.now() + 20)
+
+  assert.equal(run.analysis, null)
+  assert.equal(run.errorKind, 'deadline')
+  assert.equal(mock.getMockCallCount('mock/alpha'), 2)
+})
+
+// ---- Evidence quotes ----
+
+test('articlePlainText turns extracted HTML into paragraphs of text', () => {
+  const text = evidence.articlePlainText('<div><h1>Title</h1><p>First  &amp; <b>bold</b>.</p><p>It&rsquo;s second.</p></div>')
+  assert.equal(text, "Title\n\nFirst & bold.\n\nIt's second.")
+})
+
+test('locateQuote tolerates whitespace, curly quotes and wrapping quotation marks', () => {
+  const text = 'The minister said: it’s a fair deal.\n\nCritics   disagreed strongly.'
+
+  const curly = evidence.locateQuote('"it\'s a fair deal."', text)
+  assert.deepEqual(curly, { quote: 'it’s a fair deal.', start: 19, end: 36 })
+
+  const spaced = evidence.locateQuote('a fair deal. Critics disagreed', text)
+  assert.equal(text.substring(spaced!.start, spaced!.end), 'a fair deal.\n\nCritics   disagreed')
+
+  assert.equal(evidence.locateQuote('Critics agreed strongly', text), null)
+  assert.equal(evidence.locateQuote('Critics', text), null) // too short to count as evidence
+})
+
+test('analyzeArticle saves located quotes with offsets and discards invented ones', async () => {
+  mock.setMockReplies('mock/alpha', [{ type: 'text', text: responses.withQuotes }])
+  const db = seedDatabase()
+
+  const { analyses } = await runAnalyzeArticle(db)
+
+  const text = evidence.articlePlainText(article.content)
+  const [political, economic, sensationalism] = analyses['mock/alpha']!.scores
+  assert.deepEqual(political.evidence?.map(e => e.quote), ['Opposition leaders called the vote a giveaway to large firms'])
+  assert.equal(text.substring(economic.evidence![0].start, economic.evidence![0].end), 'The finance minister said the measure would unlock new business investment.')
+  assert.deepEqual(sensationalism.evidence, [])
+
+  const savedRow = db.table('ai_scores').find(r => r.model_name === 'mock/alpha' && r.category_id === 'cat-political')
+  assert.deepEqual(savedRow?.evidence, political.evidence)
+})
+
+// ---- Analysis run records ----
+
+test('analyzeArticle records a run per model and links scores to it', async () => {
+  mock.setMockReplies('mock/alpha', [
+    { type: 'text', text: responses.partial },
+    { type: 'text', text: responses.valid }
+  ])
+  mock.setMockReplies('mock/beta', Array(4).fill({ type: 'error', message: '503 Service Unavailable', status: 503 }))
+  const db = seedDatabase()
+
+  const { runs } = await runAnalyzeArticle(db)
+
+  const runRows = db.table('analysis_runs')
+  assert.equal(runRows.length, 2)
+
+  const alphaRun = runRows.find(r => r.model_name === 'mock/alpha')!
+  assert.equal(alphaRun.parse_outcome, 'repaired')
+  assert.deepEqual(alphaRun.raw_responses, [responses.partial, responses.valid])
+  assert.equal(alphaRun.prompt_version, 'builtin-strict@v2')
+  assert.equal(alphaRun.category_set_version, prompts.categorySetVersion(biasCategories))
+  assert.equal(alphaRun.content_mode, 'whole')
+  assert.equal(alphaRun.content_chars, article.content.length)
+  assert.equal(alphaRun.omitted_chars, 0)
+  assert.ok((alphaRun.prompt_tokens as number) > 0 && (alphaRun.completion_tokens as number) > 0)
+  assert.equal(runs['mock/alpha'].analysisRunId, alphaRun.id)
+
+  const betaRun = runRows.find(r => r.model_name === 'mock/beta')!
+  assert.equal(betaRun.parse_outcome, 'error')
+  assert.equal(betaRun.error_message, '503 Service Unavailable')
+  assert.equal(betaRun.error_kind, 'server_error')
+  assert.equal(betaRun.retry_count, 3)
+
+  assert.ok(db.table('ai_scores').every(r => r.analysis_run_id === alphaRun.id))
+})
+
+test('analyzeArticle records runs even when every model fails', async () => {
+  mock.setMockReplies('mock/alpha', [{ type: 'text', text: responses.notJson }, { type: 'text', text: responses.notJson }])
+  mock.setMockReplies('mock/beta', [{ type: 'error', message: 'boom' }])
+  const db = seedDatabase()
+
+  await assert.rejects(runAnalyzeArticle(db), /All AI models failed/)
+  assert.deepEqual(db.table('analysis_runs').map(r => r.parse_outcome).sort(), ['error', 'invalid'])
+})
+
+test('prompt hash ignores article content but tracks categories and output rules', () => {
+  const hash = prompts.promptTemplateHash(biasCategories)
+  assert.equal(hash, prompts.promptTemplateHash([...biasCategories]))
+  assert.notEqual(hash, prompts.promptTemplateHash(biasCategories, prompts.BUILTIN_STRICT_PROMPT_TEMPLATE))
+  assert.notEqual(hash, prompts.promptTemplateHash(biasCategories.slice(0, 2)))
+  assert.equal(prompts.categorySetVersion(biasCategories), prompts.categorySetVersion([...biasCategories].reverse()))
+})
+
+// ---- Prompt templates ----
+
+test('buildAnalysisPrompt fills placeholders but leaves placeholder text in the article alone', () => {
+  const template = {
+    id: null,
+    name: 'terse',
+    version: 1,
+    provider: null,
+    template: 'Rate {{category_list}}.\n{{article_content}}\n{{example_scores}}'
   }
+  const prompt = prompts.buildAnalysisPrompt('Body mentions {{category_list}} literally.', biasCategories, template)
 
-  return results
+  assert.ok(prompt.startsWith('Rate political, economic, sensationalism.\nBody mentions {{category_list}} literally.'))
+  assert.ok(prompt.includes('"category": "sensationalism"'))
+  // The example payload is the same for every version: no confidence value for models to copy
+  assert.ok(!prompt.includes('confidence'))
+  assert.match(prompts.buildAnalysisPrompt('Body', biasCategories), /Add a "confidence" field to each score/)
+  assert.deepEqual(prompts.findTemplateProblems(template.template), [])
+  assert.deepEqual(prompts.findTemplateProblems('Score {{category_list}} {{tone}}'), [
+    'missing {{article_content}} placeholder',
+    'unknown placeholder {{tone}}'
+  ])
+})
+
+function addPromptTemplate(db: InMemorySupabase, row: Record<string, unknown>) {
+  db.table('prompt_templates').push({ id: `tpl-${row.name}-${row.version}`, is_active: true, provider: null, ...row })
 }
 
-// Main test function
-async function main() {
-  const supabase = supabaseAdmin
-
-  // Fetch the most recent single article from media
-  const { data: articles, error } = await supabase
-    .from('media')
-    .select('*')
-    .limit(1)
-    .order('published_at', { ascending: false })
-
-  if (error || !articles || articles.length === 0) {
-    console.error('No articles found or error fetching:', error)
-    return
+test('analyzeArticle uses the active prompt template and records its version on every score', async () => {
+  const db = seedDatabase()
+  addPromptTemplate(db, { name: 'bias-analysis', version: 2, provider: 'mock', template: 'V2 prompt for {{category_list}}:\n{{article_content}}' })
+  addPromptTemplate(db, { name: 'bias-analysis', version: 3, provider: 'gemini', template: 'Gemini only {{article_content}}' })
+
+  await runAnalyzeArticle(db)
+
+  assert.ok(mock.getMockPrompts('mock/alpha')[0].startsWith('V2 prompt for political, economic, sensationalism:'))
+  const runRows = db.table('analysis_runs')
+  assert.ok(runRows.every(r => r.prompt_version === 'bias-analysis@v2' && r.prompt_template_id === 'tpl-bias-analysis-2'))
+  assert.ok(db.table('ai_scores').every(r => r.prompt_version === 'bias-analysis@v2'))
+})
+
+test('analyzeArticle falls back to the built-in template when the active row is unusable', async () => {
+  const db = seedDatabase()
+  addPromptTemplate(db, { name: 'broken', version: 1, provider: 'mock', template: 'No article here {{tone}}' })
+
+  await runAnalyzeArticle(db)
+
+  assert.equal(mock.getMockPrompts('mock/alpha')[0], prompts.buildAnalysisPrompt(article.content, biasCategories, prompts.BUILTIN_STRICT_PROMPT_TEMPLATE))
+  assert.ok(db.table('ai_scores').every(r => r.prompt_version === 'builtin-strict@v2'))
+})
+
+test('analyzeArticle promptTemplate override runs every model on that variant (A/B)', async () => {
+  const db = seedDatabase()
+  addPromptTemplate(db, { name: 'bias-analysis', version: 2, provider: 'mock', template: 'Active {{article_content}}' })
+  const variant = { id: 'tpl-variant', name: 'bias-analysis', version: 4, provider: null, template: 'Variant {{article_content}}' }
+
+  await ai.analyzeArticle({ ...article, supabaseClient: db as unknown as SupabaseClient, promptTemplate: variant })
+
+  assert.ok(mock.getMockPrompts('mock/alpha')[0].startsWith('Variant '))
+  assert.ok(mock.getMockPrompts('mock/beta')[0].startsWith('Variant '))
+  assert.ok(db.table('analysis_runs').every(r => r.prompt_version === 'bias-analysis@v4' && r.prompt_template_id === 'tpl-variant'))
+})
+
+// ---- Retries, timeouts and circuit breaking ----
+
+test('classifyProviderError sorts SDK errors and reads retry hints', () => {
+  const groq429 = Object.assign(new Error('Rate limit reached. Please try again in 1m2.5s.'), { status: 429 })
+  assert.deepEqual(
+    [resilience.classifyProviderError(groq429).kind, resilience.classifyProviderError(groq429).retryAfterMs],
+    ['rate_limit', 62500]
+  )
+  const withHeader = Object.assign(new Error('Too Many Requests'), { status: 429, headers: { 'retry-after': '2' } })
+  assert.equal(resilience.classifyProviderError(withHeader).retryAfterMs, 2000)
+  const gemini = new Error('{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[{"retryDelay":"17s"}]}}')
+  assert.deepEqual([resilience.classifyProviderError(gemini).kind, resilience.classifyProviderError(gemini).retryAfterMs], ['rate_limit', 17000])
+
+  assert.equal(resilience.classifyProviderError(new Error('fetch failed')).kind, 'server_error')
+  assert.equal(resilience.classifyProviderError(Object.assign(new Error('Bad Gateway'), { status: 502 })).kind, 'server_error')
+  assert.equal(resilience.classifyProviderError(Object.assign(new Error('Invalid API key'), { status: 401 })).kind, 'client_error')
+  assert.equal(resilience.classifyProviderError(new Error('Response blocked by safety settings')).kind, 'content_filter')
+  assert.equal(resilience.classifyProviderError(Object.assign(new Error('aborted'), { name: 'AbortError' })).kind, 'timeout')
+})
+
+test('retries recover from transient errors, non-retryable errors fail fast', async () => {
+  mock.setMockReplies('mock/alpha', [
+    { type: 'error', message: '429 Too Many Requests', status: 429 },
+    { type: 'error', message: '503 Service Unavailable', status: 503 },
+    { type: 'text', text: responses.valid }
+  ])
+  mock.setMockReplies('mock/beta', [{ type: 'error', message: 'Response blocked by content filter' }])
+  const db = seedDatabase()
+
+  const { runs } = await runAnalyzeArticle(db)
+
+  assert.equal(runs['mock/alpha'].retries, 2)
+  assert.equal(runs['mock/alpha'].errorKind, null)
+  assert.equal(runs['mock/beta'].errorKind, 'content_filter')
+  assert.equal(mock.getMockCallCount('mock/beta'), 1)
+})
+
+test('retry-after is honored, and one longer than the max wait gives up at once', async () => {
+  mock.setMockReplies('mock/alpha', [{ type: 'error', message: 'slow down', status: 429, retryAfterMs: 40 }, { type: 'text', text: responses.valid }])
+  mock.setMockReplies('mock/beta', [{ type: 'error', message: 'daily quota', status: 429, retryAfterMs: 3600000 }])
+  const db = seedDatabase()
+
+  const startedAt = Date.now()
+  const { runs } = await runAnalyzeArticle(db)
+
+  assert.ok(Date.now() - startedAt >= 40)
+  assert.ok(runs['mock/alpha'].analysis)
+  assert.equal(runs['mock/beta'].errorKind, 'rate_limit')
+  assert.equal(mock.getMockCallCount('mock/beta'), 1)
+})
+
+test('requests that exceed the provider timeout are cut off and classified', async () => {
+  process.env.AI_REQUEST_TIMEOUT_MS = '30'
+  process.env.AI_MAX_RETRIES = '0'
+  try {
+    mock.setMockReplies('mock/alpha', [{ type: 'timeout', afterMs: 2000 }])
+    const startedAt = Date.now()
+    const run = await ai.runModel(article.content, biasCategories, mockModel('mock/alpha'))
+
+    assert.ok(Date.now() - startedAt < 1000)
+    assert.equal(run.errorKind, 'timeout')
+    assert.match(run.error || '', /timed out after 30ms/)
+  } finally {
+    process.env.AI_REQUEST_TIMEOUT_MS = ''
+    process.env.AI_MAX_RETRIES = '3'
+  }
+})
+
+test('circuit breaker skips a failing provider for the rest of the batch', async () => {
+  const serverErrors = Array(4).fill({ type: 'error', message: '503 Service Unavailable', status: 503 })
+  mock.setMockReplies('mock/alpha', serverErrors)
+  mock.setMockReplies('mock/beta', serverErrors)
+  const db = seedDatabase()
+  const circuitBreaker = new resilience.CircuitBreaker(2)
+  const analyze = () => ai.analyzeArticle({ ...article, supabaseClient: db as unknown as SupabaseClient, circuitBreaker })
+
+  await assert.rejects(analyze(), /All AI models failed/)
+  assert.equal(circuitBreaker.isOpen('mock'), true)
+
+  const error = await analyze().catch(e => e)
+  assert.equal(error.runs['mock/alpha'].errorKind, 'circuit_open')
+  assert.equal(mock.getMockCallCount('mock/alpha'), 4) // no new requests
+  assert.equal(db.table('analysis_runs').filter(r => r.error_kind === 'circuit_open').length, 2)
+})
+
+test('circuit breaker ignores parse errors and resets on success', () => {
+  const breaker = new resilience.CircuitBreaker(2)
+  breaker.record('groq', 'parse_error')
+  breaker.record('groq', 'parse_error')
+  assert.equal(breaker.isOpen('groq'), false)
+
+  breaker.record('groq', 'rate_limit')
+  breaker.record('groq', null)
+  breaker.record('groq', 'timeout')
+  assert.equal(breaker.isOpen('groq'), false)
+  breaker.record('groq', 'server_error')
+  assert.equal(breaker.isOpen('groq'), true)
+  assert.equal(breaker.isOpen('gemini'), false)
+})
+
+// ---- Analysis job queue ----
+
+// Text that shares no shingles with any other ID's, so articles don't cluster as copies
+function distinctArticleHtml(id: string): string {
+  return `<p>${Array.from({ length: 40 }, (_, i) => `${id}w${i}`).join(' ')}.</p>`
+}
+
+// Media rows (URLs on the stub's article page) with their own cached text
+function seedMedia(db: InMemorySupabase, ids: string[]) {
+  for (const id of ids) {
+    const url = `${stubUrl}/articles/${id}`
+    db.table('media').push({ id, title: `Article ${id}`, url, source: 'Example News' })
+    db.table('media_content').push({ media_id: id, url, url_hash: content.hashUrl(url), content: distinctArticleHtml(id), extracted_at: new Date().toISOString() })
+  }
+}
+
+function runWorker(db: InMemorySupabase, options: { maxJobs?: number; workerId?: string } = {}) {
+  return jobs.runAnalysisWorker({ supabaseClient: db as unknown as SupabaseClient, delayBetweenJobsMs: 0, ...options })
+}
+
+test('enqueueAnalysisJobs skips articles that already have an open job', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+
+  assert.equal(await jobs.enqueueAnalysisJobs(['a', 'b'], client), 2)
+  assert.equal(await jobs.enqueueAnalysisJobs(['b', 'c', 'c'], client), 1)
+  assert.deepEqual(db.table('analysis_jobs').map(j => j.media_id).sort(), ['a', 'b', 'c'])
+  assert.ok(db.table('analysis_jobs').every(j => j.status === 'pending' && j.attempts === 0))
+})
+
+test('worker drains a bounded slice per run until every article is scored', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1', 'm2', 'm3'])
+  await jobs.enqueueAnalysisJobs(['m1', 'm2', 'm3'], db as unknown as SupabaseClient)
+
+  const first = await runWorker(db, { maxJobs: 2 })
+  assert.equal(first.jobsSucceeded, 2)
+  assert.equal(first.jobsPending, 1)
+
+  const second = await runWorker(db, { maxJobs: 2 })
+  assert.equal(second.jobsClaimed, 1)
+  assert.equal(second.jobsPending, 0)
+
+  assert.ok(db.table('analysis_jobs').every(j => j.status === 'succeeded' && j.locked_by === null && j.completed_at))
+  assert.equal(db.table('ai_scores').length, 3 * 2 * biasCategories.length)
+})
+
+test('failed models are retried later without re-running the ones that succeeded', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1'])
+  await jobs.enqueueAnalysisJobs(['m1'], db as unknown as SupabaseClient)
+  mock.setMockReplies('mock/beta', [{ type: 'error', message: 'Invalid API key', status: 401 }])
+
+  const first = await runWorker(db)
+  const job = db.table('analysis_jobs')[0]
+  assert.equal(first.jobsRetrying, 1)
+  assert.equal(job.status, 'pending')
+  assert.ok((job.next_attempt_at as string) > new Date().toISOString())
+  const modelStatus = job.model_status as Record<string, { status: string; errorKind: string | null }>
+  assert.equal(modelStatus['mock/alpha'].status, 'succeeded')
+  assert.deepEqual([modelStatus['mock/beta'].status, modelStatus['mock/beta'].errorKind], ['failed', 'client_error'])
+
+  // Not due yet
+  assert.equal((await runWorker(db)).jobsClaimed, 0)
+
+  job.next_attempt_at = new Date(Date.now() - 1000).toISOString()
+  await runWorker(db)
+
+  assert.equal(job.status, 'succeeded')
+  assert.equal(job.attempts, 2)
+  assert.equal(mock.getMockCallCount('mock/alpha'), 1)
+  assert.equal(db.table('ai_scores').filter(r => r.model_name === 'mock/beta').length, biasCategories.length)
+  assert.equal(db.table('ai_scores').filter(r => r.model_name === 'mock/alpha').length, biasCategories.length)
+})
+
+test('a model whose scores could not be saved is retried by the job', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1'])
+  await jobs.enqueueAnalysisJobs(['m1'], db as unknown as SupabaseClient)
+  // Fails the first model's save only
+  db.injectError('save_model_scores', 'rpc', { code: '57014', message: 'canceling statement due to statement timeout' })
+
+  await runWorker(db)
+
+  const job = db.table('analysis_jobs')[0]
+  const modelStatus = job.model_status as Record<string, { status: string }>
+  const failed = Object.keys(modelStatus).filter(id => modelStatus[id].status === 'failed')
+  assert.equal(job.status, 'pending')
+  assert.equal(failed.length, 1)
+  assert.equal(db.table('ai_scores').filter(r => r.model_name === failed[0]).length, 0)
+  assert.equal(db.table('ai_scores').length, biasCategories.length)
+})
+
+test('a job past the worker deadline starts no model calls and is retried', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  seedMedia(db, ['m1'])
+  await jobs.enqueueAnalysisJobs(['m1'], client)
+  const [job] = await jobs.claimAnalysisJobs(client, { workerId: 'w1' })
+
+  assert.equal(await jobs.processAnalysisJob(job, { supabaseClient: client, deadline: Date.now() }), 'pending')
+
+  const modelStatus = db.table('analysis_jobs')[0].model_status as Record<string, { status: string; errorKind: string | null }>
+  assert.ok(Object.values(modelStatus).every(m => m.status === 'failed' && m.errorKind === 'deadline'))
+  assert.equal(mock.getMockCallCount('mock/alpha') + mock.getMockCallCount('mock/beta'), 0)
+  assert.ok(db.table('analysis_runs').every(r => r.error_kind === 'deadline'))
+})
+
+test('jobs fail for good after max attempts or when the article is gone', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1'])
+  await jobs.enqueueAnalysisJobs(['m1', 'archived'], db as unknown as SupabaseClient, { maxAttempts: 1 })
+  mock.setMockReplies('mock/alpha', [{ type: 'text', text: responses.notJson }, { type: 'text', text: responses.notJson }])
+
+  const result = await runWorker(db)
+
+  assert.equal(result.jobsFailed, 2)
+  const byMedia = Object.fromEntries(db.table('analysis_jobs').map(j => [j.media_id, j]))
+  assert.equal(byMedia['archived'].last_error, 'Article no longer exists')
+  assert.equal(byMedia['m1'].status, 'failed')
+  assert.match(byMedia['m1'].last_error as string, /mock\/alpha/)
+})
+
+test('claims respect live leases, reclaim expired ones and lose compare-and-set races', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  await jobs.enqueueAnalysisJobs(['m1', 'm2'], client)
+
+  const [claimed] = await jobs.claimAnalysisJobs(client, { workerId: 'w1' })
+  assert.equal(claimed.status, 'running')
+  assert.equal(claimed.locked_by, 'w1')
+
+  // w2 can only take the other job while w1's lease is live
+  const [other] = await jobs.claimAnalysisJobs(client, { workerId: 'w2', limit: 5 })
+  assert.notEqual(other.id, claimed.id)
+  assert.equal((await jobs.claimAnalysisJobs(client, { workerId: 'w3' })).length, 0)
+
+  // w1 dies: its lease expires and w3 takes over
+  db.table('analysis_jobs').find(j => j.id === claimed.id)!.locked_until = new Date(Date.now() - 1000).toISOString()
+  const [reclaimed] = await jobs.claimAnalysisJobs(client, { workerId: 'w3' })
+  assert.equal(reclaimed.id, claimed.id)
+  assert.equal(reclaimed.attempts, 2)
+
+  // A stale claim (same attempts value w1 saw) matches nothing
+  const stale = await client.from('analysis_jobs').update({ locked_by: 'w1' }).eq('id', claimed.id).eq('attempts', 1).select('id')
+  assert.deepEqual(stale.data, [])
+})
+
+// ---- Selective re-analysis ----
+
+function runReanalysis(db: InMemorySupabase, filters: Record<string, unknown>, dryRun = false) {
+  const { filters: parsed, errors } = reanalysis.parseReanalysisFilters(filters)
+  assert.deepEqual(errors, [])
+  return reanalysis.runReanalysis(parsed!, { supabaseClient: db as unknown as SupabaseClient, dryRun })
+}
+
+test('parseReanalysisFilters rejects bad input with a message per field', () => {
+  const { filters, errors } = reanalysis.parseReanalysisFilters({
+    mediaIds: 'm1', from: 'yesterday', scope: 'everything', limit: 0, modelIds: ['nope/model']
+  })
+  assert.equal(filters, null)
+  assert.equal(errors.length, 5)
+  assert.ok(errors.some(e => /Unknown or disabled models: nope\/model/.test(e)))
+})
+
+test('re-analysis re-runs only the chosen model and versions its scores', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1'])
+  await jobs.enqueueAnalysisJobs(['m1'], db as unknown as SupabaseClient)
+  await runWorker(db)
+
+  const result = await runReanalysis(db, { mediaIds: ['m1'], modelIds: ['mock/beta'] })
+
+  assert.equal(result.tasksSucceeded, 1)
+  assert.equal(mock.getMockCallCount('mock/alpha'), 1)
+  const current = db.table('ai_scores').filter(r => r.is_current)
+  assert.equal(current.length, 2 * biasCategories.length)
+  assert.ok(current.filter(r => r.model_name === 'mock/beta').every(r => r.score_version === 2))
+  assert.ok(current.filter(r => r.model_name === 'mock/alpha').every(r => r.score_version === 1))
+})
+
+test('missingOnly scores just the gaps, on archived articles too', async () => {
+  const db = seedDatabase()
+  db.table('archived_media').push({ id: 'old', title: 'Old article', url: `${stubUrl}/articles/old`, source: 'Example News' })
+  // alpha scored everything but sensationalism, beta never ran
+  for (const categoryId of ['cat-political', 'cat-economic']) {
+    db.table('archived_ai_scores').push({ media_id: 'old', category_id: categoryId, model_name: 'mock/alpha', score: 0, score_version: 1, is_current: true })
+  }
+
+  const plan = await runReanalysis(db, { missingOnly: true, scope: 'archived' }, true)
+  assert.deepEqual(plan.tasks.map(t => [t.modelIds, t.categoryIds]), [
+    [['mock/alpha'], ['cat-sensationalism']],
+    [['mock/beta'], ['cat-political', 'cat-economic', 'cat-sensationalism']]
+  ])
+  assert.equal(mock.getMockCallCount('mock/alpha'), 0)
+  assert.equal(db.table('archived_ai_scores').length, 2)
+
+  const result = await runReanalysis(db, { missingOnly: true, scope: 'archived' })
+  assert.equal(result.tasksSucceeded, 2)
+  assert.equal(db.table('ai_scores').length, 0)
+  assert.equal(db.table('archived_ai_scores').filter(r => r.is_current).length, 2 * biasCategories.length)
+
+  // Nothing left to do
+  assert.equal((await runReanalysis(db, { missingOnly: true, scope: 'archived' }, true)).tasks.length, 0)
+})
+
+// ---- Calibration benchmark ----
+
+test('calibration metrics: MAE, correlation, sign agreement and per-category bias', () => {
+  const metrics = calibrationMetrics.computeCalibrationMetrics([
+    { category: 'political', expected: -0.5, predicted: -0.3 },
+    { category: 'political', expected: 0.5, predicted: 0.7 },
+    { category: 'economic', expected: 0.05, predicted: -0.4 }
+  ])
+
+  assert.equal(metrics.n, 3)
+  assert.equal(metrics.mae, 0.2833)
+  assert.equal(metrics.signAgreement, 0.6667)
+  assert.equal(metrics.correlation, 0.7878)
+  assert.deepEqual(metrics.byCategory.political, { n: 2, mae: 0.2, bias: 0.2 })
+  assert.deepEqual(metrics.byCategory.economic, { n: 1, mae: 0.45, bias: -0.45 })
+
+  const empty = calibrationMetrics.computeCalibrationMetrics([])
+  assert.deepEqual([empty.mae, empty.correlation, empty.signAgreement], [null, null, null])
+})
+
+test('runCalibration scores the gold set from cached content and stores a run per model', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  db.table('gold_set_articles').push({
+    id: 'gold-1',
+    url: `${stubUrl}/articles/gold-1`,
+    title: 'Gold article',
+    expected_scores: { political: -0.4, economic: 0.4 } // sensationalism not labeled
+  })
+  mock.setMockReplies('mock/alpha', [{ type: 'text', text: responses.valid }])
+
+  const report = await calibration.runCalibration({ supabaseClient: client })
+
+  const [alpha, beta] = report.models
+  assert.deepEqual([alpha.metrics.n, alpha.metrics.mae, alpha.metrics.correlation, alpha.metrics.signAgreement], [2, 0.1, 1, 1])
+  assert.deepEqual([beta.metrics.mae, beta.metrics.correlation, beta.metrics.signAgreement], [0.4, null, 0])
+  assert.equal(alpha.previous, null)
+  assert.equal(db.table('calibration_runs').length, 2)
+  assert.equal(db.table('ai_scores').length, 0)
+
+  // Second run: same cached text, compared with the stored run
+  const again = await calibration.runCalibration({ supabaseClient: client, models: [mockModel('mock/beta')], save: false })
+  assert.equal(articlePageHits, 1)
+  assert.equal(again.models[0].previous?.mae, 0.4)
+  assert.equal(db.table('calibration_runs').length, 2)
+})
+
+// ---- Model offsets (calibrated scores) ----
+
+test('computeModelTendencies averages deviation from the ensemble over complete groups only', () => {
+  const tendencies = modelOffsets.computeModelTendencies([
+    { mediaId: 'a', model: 'm1', category: 'political', score: 0.4 },
+    { mediaId: 'a', model: 'm2', category: 'political', score: 0.0 },
+    { mediaId: 'b', model: 'm1', category: 'political', score: 0.2 },
+    { mediaId: 'b', model: 'm2', category: 'political', score: 0.2 },
+    { mediaId: 'c', model: 'm1', category: 'political', score: 0.9 } // m2 missing: skipped
+  ], ['m1', 'm2'])
+
+  assert.deepEqual(tendencies.m1.political, { deviation: 0.1, count: 2 })
+  assert.deepEqual(tendencies.m2.political, { deviation: -0.1, count: 2 })
+})
+
+test('calibrated averages subtract each model offset and stay in range', () => {
+  const offsets = { m1: { political: 0.1 }, m2: { political: -0.1 } }
+  const scores = [{ model: 'm1', category: 'political', score: 0.5 }]
+  assert.equal(aggregation.averageCategoryScores(scores)[0].avgScore, 0.5)
+  assert.equal(aggregation.averageCategoryScores(scores, { offsets })[0].avgScore, 0.4)
+  assert.equal(modelOffsets.calibrateScore(-0.95, 0.1), -1)
+})
+
+test('averages report spread, model count, confidence and disagreement', () => {
+  const [political, economic] = aggregation.averageCategoryScores([
+    { model: 'm1', category: 'political', score: 0.6, confidence: 0.9 },
+    { model: 'm2', category: 'political', score: -0.2, confidence: 0.5 },
+    { model: 'm1', category: 'economic', score: 0.1 },
+    { model: 'm2', category: 'economic', score: 0.3, confidence: null }
+  ])
+
+  assert.equal(political.modelCount, 2)
+  assert.ok(Math.abs(political.stdDev - 0.4) < 1e-9)
+  assert.ok(Math.abs(political.avgConfidence! - 0.7) < 1e-9)
+  assert.equal(political.disagree, true)
+  assert.ok(Math.abs(economic.stdDev - 0.1) < 1e-9)
+  assert.equal(economic.avgConfidence, null)
+  assert.equal(economic.disagree, false)
+  assert.equal(aggregation.averageCategoryScores([{ model: 'm1', category: 'political', score: 0.9 }])[0].disagree, false)
+})
+
+test('refreshModelOffsets stores offsets and loadModelOffsets skips thin samples', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  // alpha scores political 0.2 above beta on 5 articles, economic on only 2
+  for (let i = 0; i < 5; i++) {
+    db.table('ai_scores').push(
+      { media_id: `m${i}`, category_id: 'cat-political', model_name: 'mock/alpha', score: 0.3, is_current: true },
+      { media_id: `m${i}`, category_id: 'cat-political', model_name: 'mock/beta', score: 0.1, is_current: true },
+      { media_id: `m${i}`, category_id: 'cat-political', model_name: 'mock/beta', score: 0.9, is_current: false }
+    )
+  }
+  for (let i = 0; i < 2; i++) {
+    db.table('archived_ai_scores').push(
+      { media_id: `old${i}`, category_id: 'cat-economic', model_name: 'mock/alpha', score: 0, is_current: true },
+      { media_id: `old${i}`, category_id: 'cat-economic', model_name: 'mock/beta', score: 0.4, is_current: true }
+    )
+  }
+
+  for (const table of ['ai_scores', 'archived_ai_scores']) {
+    db.table(table).forEach((row, i) => { row.id = `${table}-${String(i).padStart(2, '0')}` })
   }
 
-  const article = articles[0]
-  console.log('Testing article:', article.title)
-  console.log('URL:', article.url)
-  console.log('Content snippet:', article.description?.slice(0, 200), '...')
+  const result = await offsetsLib.refreshModelOffsets(client)
+  assert.deepEqual(result, { scoresRead: 14, offsetsSaved: 4 })
+  const political = () => db.table('model_offsets').find(r => r.model_name === 'mock/alpha' && r.category_id === 'cat-political')!
+  assert.equal(Math.round((political().offset as number) * 100) / 100, 0.1)
+  assert.equal(political().sample_size, 5)
+
+  // Recomputing replaces the rows instead of adding more; small pages read every score
+  assert.deepEqual(await offsetsLib.refreshModelOffsets(client, 4), { scoresRead: 14, offsetsSaved: 4 })
+  assert.equal(db.table('model_offsets').length, 4)
+  assert.equal(political().sample_size, 5)
+
+  const offsets = await offsetsLib.loadModelOffsets(client)
+  assert.deepEqual(Object.keys(offsets).sort(), ['mock/alpha', 'mock/beta'])
+  assert.deepEqual(Object.keys(offsets['mock/alpha']), ['political'])
+})
+
+// ---- Ensemble aggregation ----
+
+test('aggregation modes resist an outlier model', () => {
+  const scores = [
+    { model: 'm1', score: 0.1 }, { model: 'm2', score: 0.2 }, { model: 'm3', score: 0.3 },
+    { model: 'm4', score: 1.0 }, { model: 'm5', score: 0 }
+  ]
+  const close = (actual: number, expected: number) => assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`)
+
+  close(aggregation.aggregateScores(scores, 'mean'), 0.32)
+  close(aggregation.aggregateScores(scores, 'median'), 0.2)
+  close(aggregation.aggregateScores(scores.slice(0, 4), 'median'), 0.25)
+  close(aggregation.aggregateScores(scores, 'trimmed'), 0.2)
+  close(aggregation.aggregateScores(scores.slice(0, 2), 'trimmed'), 0.15) // too few to trim
+  close(aggregation.aggregateScores(scores, 'weighted', { m4: 0.1 }), 0.7 / 4.1)
+  close(aggregation.aggregateScores(scores, 'weighted'), 0.32) // no weights = mean
+
+  const [political] = aggregation.averageCategoryScores(scores.map(s => ({ ...s, category: 'political' })), { mode: 'median' })
+  close(political.avgScore, 0.2)
+  assert.equal(political.modelCount, 5)
+  assert.equal(aggregation.parseAggregationMode('bogus'), 'mean')
+})
+
+test('loadReliabilityWeights prefers benchmark MAE and falls back to ensemble agreement', async () => {
+  const weights = aggregation.reliabilityWeights({ a: 0.05, b: 0.15 })
+  assert.ok(Math.abs(weights.a - 4 / 3) < 1e-9 && Math.abs(weights.b - 2 / 3) < 1e-9)
+
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  db.setTable('model_offsets', [
+    { model_name: 'mock/alpha', category_id: 'cat-political', offset: 0.05, sample_size: 10 },
+    { model_name: 'mock/alpha', category_id: 'cat-economic', offset: -0.05, sample_size: 10 },
+    { model_name: 'mock/beta', category_id: 'cat-political', offset: -0.15, sample_size: 10 },
+    { model_name: 'mock/beta', category_id: 'cat-economic', offset: 0.9, sample_size: 2 } // too few samples
+  ])
+  const agreement = await weightsLib.loadReliabilityWeights(client)
+  assert.equal(agreement.source, 'agreement')
+  assert.ok(agreement.weights['mock/alpha'] > agreement.weights['mock/beta'])
+
+  db.setTable('calibration_runs', [
+    { model_name: 'mock/alpha', mae: 0.4, created_at: '2026-10-01T00:00:00Z' },
+    { model_name: 'mock/alpha', mae: 0.15, created_at: '2026-10-10T00:00:00Z' },
+    { model_name: 'mock/beta', mae: null, created_at: '2026-10-12T00:00:00Z' },
+    { model_name: 'mock/beta', mae: 0.05, created_at: '2026-10-05T00:00:00Z' }
+  ])
+  const calibrated = await weightsLib.loadReliabilityWeights(client)
+  assert.equal(calibrated.source, 'calibration')
+  assert.ok(Math.abs(calibrated.weights['mock/beta'] - 4 / 3) < 1e-9)
+})
+
+// ---- Sentence annotations (heatmap) ----
+
+test('splitSentences keeps offsets, joins short fragments and stops at the cap', () => {
+  const text = 'Mr. Smith spoke at length today. Critics were furious!\n\nA new paragraph "with a quote."'
+  const split = sentences.splitSentences(text)
+  assert.deepEqual(split.map(s => s.text), [
+    'Mr. Smith spoke at length today.',
+    'Critics were furious!',
+    'A new paragraph "with a quote."'
+  ])
+  assert.ok(split.every(s => text.substring(s.start, s.end) === s.text))
+  assert.equal(sentences.splitSentences(text, 2).length, 2)
+
+  const reply = JSON.stringify({ annotations: [{ sentence: 4, category: 'Political', score: 0.5 }, { sentence: 1, category: 'political', score: 2 }] })
+  const { annotations, errors } = sentences.parseAnnotationResponse(reply, 3, categoryNames)
+  assert.equal(annotations, null)
+  assert.equal(errors.length, 2)
+  assert.match(errors[0], /sentence 4 \(expected 1-3\)/)
+})
+
+test('annotateArticle repairs an invalid reply, stores offsets once and renders a heatmap', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  const html = '<p>The senator heroically crushed the reckless opposition. The vote was 52 to 48.</p><p>Markets fell sharply on the news.</p>'
+  db.table('media').push({ id: article.mediaId, url: article.url })
+  db.table('media_content').push({ media_id: article.mediaId, url: article.url, url_hash: content.hashUrl(article.url), content: html })
+  mock.setMockReplies('mock/alpha', [
+    { type: 'text', text: '{"annotations": [{"sentence": 9, "category": "political", "score": 0.7}]}' },
+    { type: 'text', text: '{"annotations": [{"sentence": 1, "category": "political", "score": 0.7, "reason": "Loaded words"}, {"sentence": 3, "category": "economic", "score": 0}]}' }
+  ])
+  const alpha = models.MODEL_REGISTRY.find(m => m.id === 'mock/alpha')!
+
+  const result = await annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha })
+  assert.deepEqual(result, { mediaId: article.mediaId, modelId: 'mock/alpha', sentences: 3, annotations: 1, cached: false })
+  assert.equal(mock.getMockCallCount('mock/alpha'), 2)
 
-  // Define your bias categories
-  const biasCategories = ['political', 'economic', 'social', 'cultural']
+  // Already annotated: no model call
+  const again = await annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha })
+  assert.equal(again.cached, true)
+  assert.equal(mock.getMockCallCount('mock/alpha'), 2)
 
-  // Analyze article with all models
-  const allResults = await analyzeWithAllModels(article.description || '', biasCategories)
+  const text = evidence.articlePlainText(html)
+  const { spans, annotatedSentences } = await annotationsLib.loadPassageAnnotations(article.mediaId, client)
+  assert.equal(annotatedSentences, 3)
+  assert.equal(spans.length, 1)
+  assert.equal(text.substring(spans[0].start, spans[0].end), 'The senator heroically crushed the reckless opposition.')
 
-  // Print nicely
-  console.log('\n=== All Model Analysis Results ===')
-  for (const { model, data } of allResults) {
-    console.log(`\nModel: ${model}`)
-    if (!data) {
-      console.log('No valid output from this model.')
-      continue
+  const segments = sentences.buildHeatmapSegments(text, [...spans, { ...spans[0], modelName: 'mock/beta', score: 0.3 }], 'political')
+  assert.deepEqual(segments.map(s => s.score), [0.5, null])
+  assert.equal(segments.map(s => s.text).join(''), text)
+  await assert.rejects(
+    annotationsLib.annotateArticle({ mediaId: 'missing', supabaseClient: client, model: alpha }),
+    annotationsLib.AnnotationUnavailableError
+  )
+})
+
+test('annotateArticle makes one model call per article per cooldown unless forced', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  const html = '<p>The senator heroically crushed the reckless opposition. The vote was 52 to 48.</p>'
+  db.table('media').push({ id: article.mediaId, url: article.url })
+  db.table('media_content').push({ media_id: article.mediaId, url: article.url, url_hash: content.hashUrl(article.url), content: html })
+  mock.setMockReplies('mock/alpha', [
+    { type: 'text', text: 'not json' },
+    { type: 'text', text: 'still not json' },
+    { type: 'text', text: '{"annotations": []}' }
+  ])
+  const alpha = models.MODEL_REGISTRY.find(m => m.id === 'mock/alpha')!
+
+  // A failed attempt still starts the cooldown, so retrying can't run up model calls
+  await assert.rejects(annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha }))
+  assert.ok(db.table('media')[0].annotation_requested_at)
+  await assert.rejects(
+    annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha }),
+    annotationsLib.AnnotationThrottledError
+  )
+  assert.equal(mock.getMockCallCount('mock/alpha'), 2)
+
+  // Past the cooldown readers can try again; force never waits
+  db.table('media')[0].annotation_requested_at = new Date(Date.now() - (annotationsLib.ANNOTATION_COOLDOWN_MINUTES + 1) * 60 * 1000).toISOString()
+  const result = await annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha })
+  assert.equal(result.annotations, 0)
+  const forced = await annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha, force: true })
+  assert.equal(forced.cached, false)
+
+  // Annotated with nothing flagged is not the same as never annotated
+  assert.deepEqual(await annotationsLib.loadPassageAnnotations(article.mediaId, client), { spans: [], annotatedSentences: 2 })
+  assert.deepEqual(await annotationsLib.loadPassageAnnotations('missing', client), { spans: [], annotatedSentences: 0 })
+})
+
+test('annotateArticle starts the cooldown before it scrapes the article', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  const url = `${stubUrl}/unreachable-article`
+  db.table('media').push({ id: article.mediaId, url })
+  const alpha = models.MODEL_REGISTRY.find(m => m.id === 'mock/alpha')!
+  const scrapes = () => stubRequests.filter(r => r.path === '/unreachable-article').length
+  const before = scrapes()
+
+  // Nothing cached and the page fails: no text, but the attempt still counts
+  await assert.rejects(
+    annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha }),
+    annotationsLib.AnnotationUnavailableError
+  )
+  assert.ok(scrapes() > before)
+  assert.ok(db.table('media')[0].annotation_requested_at)
+
+  const afterFirst = scrapes()
+  await assert.rejects(
+    annotationsLib.annotateArticle({ mediaId: article.mediaId, supabaseClient: client, model: alpha }),
+    annotationsLib.AnnotationThrottledError
+  )
+  assert.equal(scrapes(), afterFirst)
+  assert.equal(mock.getMockCallCount('mock/alpha'), 0)
+})
+
+test('computeTextFeatures counts loaded terms, hedges, attributed quotes and passive voice', () => {
+  const text = [
+    'The senator slammed the reckless plan in a shocking speech.',
+    '"This budget is a disaster for working families," she said on Monday.',
+    'The bill was quickly passed by the committee.',
+    'Critics say it could raise taxes, and it reportedly faces a veto.',
+    '"Nobody ever consulted us about any of this" was painted on a banner outside.'
+  ].join(' ')
+  const features = textFeatures.computeTextFeatures(text)
+
+  assert.equal(features.sentenceCount, 5)
+  assert.equal(features.loadedTermCount, 4)  // slammed, reckless, shocking, disaster
+  assert.deepEqual(features.topLoadedTerms.map(t => t.term), ['disaster', 'reckless', 'shocking', 'slammed'])
+  assert.equal(features.hedgeCount, 3)       // critics say, could, reportedly
+  assert.equal(features.quoteCount, 2)
+  assert.equal(features.attributedQuoteRatio, 0.5)
+  assert.equal(features.passiveVoiceRate, 0.4)  // "was quickly passed", "was painted"
+  assert.equal(features.sourceCitations, 1)
+  assert.equal(features.loadedTermDensity, Math.round(4 / features.wordCount * 100000) / 100)
+
+  // Whole words only, and no quotes means no ratio
+  const plain = textFeatures.computeTextFeatures('A ripsaw and a bolder claim.')
+  assert.equal(plain.loadedTermCount, 0)
+  assert.equal(plain.attributedQuoteRatio, null)
+})
+
+test('analyzeArticle stores text features before the models run, even when all fail', async () => {
+  mock.setMockReplies('mock/alpha', [{ type: 'error', message: 'boom' }])
+  mock.setMockReplies('mock/beta', [{ type: 'error', message: 'boom' }])
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+
+  await assert.rejects(runAnalyzeArticle(db), /All AI models failed/)
+  const stored = await featuresLib.loadTextFeatures(article.mediaId, client)
+  assert.ok(stored)
+  assert.equal(stored.lexiconVersion, 'lexicon@v1')
+  const { lexiconVersion, computedAt, ...features } = stored
+  assert.ok(lexiconVersion && computedAt)
+  assert.deepEqual(features, textFeatures.computeTextFeatures(evidence.articlePlainText(article.content)))
+
+  // A failed write is logged, never thrown
+  db.injectError('article_features', 'upsert', { code: '57014', message: 'timeout' })
+  assert.equal(await featuresLib.saveTextFeatures(article.mediaId, 'Some text.', client), null)
+  assert.equal(await featuresLib.loadTextFeatures('missing', client), null)
+})
+
+test('GNews source normalizes articles, dedupes by ID and skips a failing category', async () => {
+  gnewsRequests.length = 0
+  gnewsPages.world = { articles: [
+    { id: 'g1', title: 'Summit opens', url: 'https://news.example/summit', source: { name: 'Example News' }, publishedAt: '2026-10-19T08:00:00Z' },
+    { id: 'g2', title: 'No URL' }
+  ] }
+  gnewsPages.business = { articles: [
+    { id: 'g1', title: 'Summit opens', url: 'https://news.example/summit', source: { name: 'Example News' } },
+    { id: 'g3', title: 'Rates hold', url: 'https://other.example/rates', image: 'https://other.example/img.jpg' }
+  ] }
+  const source = gnews.createGNewsSource({ apiKey: 'k', baseUrl: stubUrl, maxPerCategory: 25, requestDelayMs: 0 })
+
+  const articles = await source.fetchArticles([
+    { id: 'nc-world', name: 'world' },
+    { id: 'nc-business', name: 'business' },
+    { id: 'nc-sports', name: 'sports' }
+  ])
+  assert.equal(gnewsRequests.length, 3)
+  assert.equal(gnewsRequests[0].get('max'), '25')
+  assert.deepEqual(articles.map(a => a.externalId), ['g1', 'g3'])
+  assert.deepEqual(articles[1], {
+    sourceId: 'gnews',
+    externalId: 'g3',
+    title: 'Rates hold',
+    url: 'https://other.example/rates',
+    source: 'other.example',
+    imageUrl: 'https://other.example/img.jpg',
+    description: null,
+    publishedAt: null,
+    categoryId: 'nc-business'
+  })
+  assert.throws(() => gnews.createGNewsSource({ apiKey: 'k', endpoint: 'search' }), /requires a query/)
+})
+
+test('ingestFromSources inserts each URL once and survives a failing source and rejected rows', async () => {
+  const db = new InMemorySupabase({ news_categories: [{ id: 'nc-world', name: 'world' }] })
+  db.addUniqueConstraint('media', ['url'])
+  db.table('media').push({ id: 'm-old', title: 'Old', url: 'https://news.example/old' })
+  const fetched = (url: string, title: string) => ({
+    sourceId: 'fixture', externalId: null, title, url, source: 'Example', imageUrl: null,
+    description: null, publishedAt: null, categoryId: 'nc-world'
+  })
+  const sources = [
+    { id: 'fixture', displayName: 'Fixture', fetchArticles: async () => [fetched('https://news.example/a', 'A'), fetched('https://news.example/old', 'Old again')] },
+    { id: 'broken', displayName: 'Broken', fetchArticles: async (): Promise<never> => { throw new Error('feed down') } },
+    { id: 'second', displayName: 'Second', fetchArticles: async () => [fetched('https://news.example/a', 'A elsewhere'), fetched('https://news.example/b', 'B')] }
+  ]
+
+  const inserted = await newsSources.ingestFromSources(sources, db as unknown as SupabaseClient)
+  assert.deepEqual(inserted.map(a => a.title), ['A', 'B'])
+  assert.equal(db.table('media').length, 3)
+  assert.ok(db.table('media').every(row => row.media_type === 'article' || row.id === 'm-old'))
+})
+
+test('parseFeed reads RSS and Atom items, unescaping CDATA, entities and HTML', () => {
+  const rss = feedParser.parseFeed(fs.readFileSync(path.join(feedFixturesDir, 'rss.xml'), 'utf8'))
+  assert.equal(rss.format, 'rss')
+  assert.equal(rss.title, 'The Daily Ledger - Politics')
+  assert.deepEqual(rss.items.map(i => i.title), [
+    'Senate passes budget after all-night session',
+    'Governor & mayor clash over transit "overhaul"',
+    'Old story from last week'
+  ])
+  assert.deepEqual(rss.items[0], {
+    title: 'Senate passes budget after all-night session',
+    link: 'https://ledger.example/politics/senate-budget',
+    guid: 'ledger-48213',
+    description: 'The chamber voted 52–48 on the spending plan early Sunday.',
+    publishedAt: '2026-10-18T06:30:00.000Z',
+    imageUrl: 'https://cdn.ledger.example/senate.jpg'
+  })
+  assert.equal(rss.items[1].link, 'https://ledger.example/politics/transit-clash') // permalink guid
+  assert.equal(rss.items[1].imageUrl, 'https://cdn.ledger.example/transit.jpg')
+
+  const atom = feedParser.parseFeed(fs.readFileSync(path.join(feedFixturesDir, 'atom.xml'), 'utf8'))
+  assert.equal(atom.format, 'atom')
+  assert.equal(atom.title, 'Harbor Times')
+  assert.deepEqual(atom.items.map(i => [i.title, i.link, i.publishedAt, i.imageUrl]), [
+    ['Port strike enters third day', 'https://harbor.example/news/port-strike?utm_source=rss', '2026-10-19T11:45:00.000Z', 'https://harbor.example/img/port.png'],
+    ['Council approves waterfront rezoning', 'https://harbor.example/news/rezoning', '2026-10-18T16:20:00.000Z', null]
+  ])
+  assert.equal(atom.items[1].description, 'The vote was 7 to 2.')
+  assert.throws(() => feedParser.parseFeed('<html><body>Not a feed</body></html>'), /Not an RSS or Atom feed/)
+})
+
+test('RSS source polls due feeds only, drops items seen last poll and records each outcome', async () => {
+  feedRequests.length = 0
+  const now = new Date('2026-10-19T12:00:00Z')
+  const feed = (id: string, file: string, extra: Record<string, unknown> = {}) => ({
+    id, outlet_name: `Outlet ${id}`, feed_url: `${stubUrl}/feeds/${file}`, category_id: 'nc-world',
+    enabled: true, poll_interval_minutes: 60, last_polled_at: null, ...extra
+  })
+  const db = new InMemorySupabase({
+    news_categories: [{ id: 'nc-world', name: 'world' }],
+    news_feeds: [
+      feed('ledger', 'rss.xml', { last_polled_at: '2026-10-15T00:00:00Z' }),
+      feed('harbor', 'atom.xml'),
+      feed('recent', 'rss.xml', { last_polled_at: '2026-10-19T11:30:00Z' }),
+      feed('off', 'rss.xml', { enabled: false }),
+      feed('gone', 'missing.xml')
+    ]
+  })
+  const client = db as unknown as SupabaseClient
+  const source = rssFeeds.createRssSource({ supabaseClient: client, now: () => now })
+
+  const inserted = await newsSources.ingestFromSources([source], client)
+  assert.equal(feedRequests.length, 3) // ledger, harbor, gone
+  assert.deepEqual(inserted.map(a => a.source).sort(), ['Outlet harbor', 'Outlet harbor', 'Outlet ledger', 'Outlet ledger'])
+  assert.ok(!db.table('media').some(row => row.title === 'Old story from last week'))
+  assert.equal(db.table('media').find(row => row.url === 'https://ledger.example/politics/senate-budget')?.category_id, 'nc-world')
+
+  const byId = new Map(db.table('news_feeds').map(row => [row.id, row]))
+  assert.equal(byId.get('ledger')?.last_status, 'ok')
+  assert.equal(byId.get('ledger')?.last_item_count, 2)
+  assert.equal(byId.get('gone')?.last_status, 'error')
+  assert.match(String(byId.get('gone')?.last_error), /HTTP 404/)
+  assert.equal(byId.get('gone')?.last_polled_at, now.toISOString())
+  assert.equal(byId.get('recent')?.last_polled_at, '2026-10-19T11:30:00Z')
+})
+
+test('canonicalizeUrl strips tracking and unwraps AMP viewers; urlKey matches variants of one story', () => {
+  assert.equal(
+    canonicalUrl.canonicalizeUrl('https://WWW.Example.com/news/story?utm_source=rss&b=2&fbclid=x&a=1#comments'),
+    'https://www.example.com/news/story?a=1&b=2'
+  )
+  assert.equal(
+    canonicalUrl.canonicalizeUrl('https://www-example-com.cdn.ampproject.org/c/s/www.example.com/news/story/amp?usqp=mq331AQ'),
+    'https://www.example.com/news/story/amp'
+  )
+  assert.equal(canonicalUrl.canonicalizeUrl('not a url'), 'not a url')
+
+  const key = canonicalUrl.urlKey('https://example.com/news/story')
+  assert.equal(key, 'example.com/news/story')
+  for (const variant of [
+    'http://www.example.com/news/story/',
+    'https://example.com/news/story/amp/?utm_campaign=daily',
+    'https://amp.example.com/news/story?outputType=amp',
+    'https://www.google.com/amp/s/www.example.com/news/story.amp',
+    'https://example.com/news/story#top'
+  ]) {
+    assert.equal(canonicalUrl.urlKey(variant), key, variant)
+  }
+  assert.notEqual(canonicalUrl.urlKey('https://example.com/news/story?id=2'), key)
+})
+
+test('ingestion skips stories already stored and stored stories are found with their current scores', async () => {
+  const db = seedDatabase()
+  db.addUniqueConstraint('media', ['url_key'])
+  const client = db as unknown as SupabaseClient
+  db.table('media').push({ id: 'm-live', title: 'Live', url: 'https://example.com/live', url_key: 'example.com/live' })
+  db.table('archived_media').push({ id: 'm-old', title: 'Old', url: 'https://example.com/old', url_key: 'example.com/old', source: 'Example' })
+  db.table('archived_ai_scores').push(
+    { media_id: 'm-old', model_name: 'mock/alpha', category_id: 'cat-political', score: '0.4', explanation: 'Leans', confidence: 0.7, evidence: [], is_current: true },
+    { media_id: 'm-old', model_name: 'mock/alpha', category_id: 'cat-economic', score: '0.9', explanation: 'Superseded', confidence: null, evidence: [], is_current: false }
+  )
+  const fetched = (url: string) => ({
+    sourceId: 'fixture', externalId: null, title: url, url, source: 'Example', imageUrl: null,
+    description: null, publishedAt: null, categoryId: null
+  })
+
+  const inserted = await newsSources.ingestArticles([
+    fetched('https://www.example.com/live/?utm_source=gnews'),
+    fetched('http://example.com/old/amp'),
+    fetched('https://example.com/new?utm_medium=rss&page=2'),
+    fetched('https://example.com/new?page=2&fbclid=abc')
+  ], client)
+  assert.equal(inserted.length, 1)
+  assert.equal(inserted[0].url, 'https://example.com/new?page=2')
+  assert.equal(db.table('media').find(row => row.id === inserted[0].id)?.url_key, 'example.com/new?page=2')
+
+  const existing = await existingArticles.findExistingArticle(['https://www.google.com/amp/s/example.com/old'], client)
+  assert.deepEqual(existing, { id: 'm-old', title: 'Old', url: 'https://example.com/old', source: 'Example', archived: true })
+  assert.deepEqual(await existingArticles.loadStoredAnalyses(existing!, client), {
+    'mock/alpha': { scores: [{ category: 'political', score: 0.4, explanation: 'Leans', confidence: 0.7, evidence: [] }], summary: '' }
+  })
+  assert.equal(await existingArticles.findExistingArticle(['https://example.com/unknown'], client), null)
+})
+
+test('backfillUrlKeys fills missing keys and reports duplicate stories instead of failing', async () => {
+  const db = new InMemorySupabase({
+    media: [
+      { id: 'a', url: 'https://example.com/story?utm_source=x' },
+      { id: 'b', url: 'https://www.example.com/story/' },
+      { id: 'c', url: 'https://example.com/other', url_key: 'example.com/other' }
+    ],
+    archived_media: [{ id: 'd', url: 'https://example.com/story' }]
+  })
+  db.addUniqueConstraint('media', ['url_key'])
+
+  const results = await existingArticles.backfillUrlKeys(db as unknown as SupabaseClient, 2)
+  assert.deepEqual(results.map(r => [r.table, r.scanned, r.updated, r.duplicates.map(d => d.id)]), [
+    ['media', 3, 1, ['b']],
+    ['archived_media', 1, 1, []]
+  ])
+  assert.deepEqual(db.table('media').map(row => row.url_key ?? null), ['example.com/story', null, 'example.com/other'])
+})
+
+// A wire story and a lightly edited syndicated copy (new first line, extra closing paragraph)
+const wireStory = [
+  'Lawmakers in the state capital approved a sweeping overhaul of the transit budget late on Thursday',
+  'after weeks of negotiations between the governor and legislative leaders over fare increases.',
+  'The measure shifts two hundred million dollars from highway maintenance to bus and rail service,',
+  'expands discounted fares for students and seniors, and creates an oversight board to review spending.',
+  'Supporters said the plan would reduce crowding on the busiest lines and speed up long delayed repairs,',
+  'while opponents warned that rural drivers would pay the price through deteriorating roads and bridges.',
+  'The governor is expected to sign the bill next week, according to a spokesperson for her office.'
+].join(' ')
+const syndicatedCopy = `CAPITAL CITY (Wire) - ${wireStory} Local officials said they would study how the changes affect riders in the county.`
+const unrelatedStory = [
+  'The city zoo welcomed a pair of red panda cubs this spring, the first births of the species there in a decade.',
+  'Keepers said the cubs were healthy and would make their public debut once the weather warms in early summer,',
+  'and visitors will be able to vote on names for the animals through the zoo website over the coming month.'
+].join(' ')
+
+test('minhash signatures estimate similarity and band near-duplicates together', () => {
+  const signature = (text: string) => minhash.minhashSignature(minhash.shingles(text))
+  const wire = signature(wireStory)
+  assert.deepEqual(wire, signature(wireStory))  // deterministic
+  assert.equal(wire.length, minhash.SIGNATURE_SIZE)
+
+  const copy = signature(syndicatedCopy.replace(/ the /g, ' THE '))  // case is ignored
+  const unrelated = signature(unrelatedStory)
+  assert.ok(minhash.signatureSimilarity(wire, copy) >= minhash.NEAR_DUPLICATE_THRESHOLD)
+  assert.ok(minhash.signatureSimilarity(wire, unrelated) < 0.1)
+
+  const sharedBands = (a: number[], b: number[]) => minhash.lshBandKeys(a).filter(key => minhash.lshBandKeys(b).includes(key)).length
+  assert.ok(sharedBands(wire, copy) > 0)
+  assert.equal(sharedBands(wire, unrelated), 0)
+  assert.ok(minhash.shingles('Too short to compare.').size < minhash.MIN_SHINGLES)
+})
+
+test('clusterArticle groups copies under the earliest article and is idempotent', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  db.table('media').push(
+    { id: 'copy', title: 'Copy', published_at: '2026-10-19T10:00:00Z' },
+    { id: 'wire', title: 'Wire', published_at: '2026-10-19T08:00:00Z' },
+    { id: 'zoo', title: 'Zoo', published_at: '2026-10-19T09:00:00Z' }
+  )
+
+  // The copy arrives first and stands alone until the wire original shows up
+  const first = await clusters.clusterArticle({ mediaId: 'copy', text: syndicatedCopy, supabaseClient: client })
+  assert.deepEqual([first?.clusterId, first?.isOriginal], [null, true])
+  assert.equal((await clusters.clusterArticle({ mediaId: 'zoo', text: unrelatedStory, supabaseClient: client }))?.clusterId, null)
+
+  const wire = await clusters.clusterArticle({ mediaId: 'wire', text: wireStory, supabaseClient: client })
+  assert.ok(wire?.clusterId)
+  assert.deepEqual([wire.originalMediaId, wire.isOriginal, wire.memberCount], ['wire', true, 2])
+  assert.ok(wire.similarity! >= minhash.NEAR_DUPLICATE_THRESHOLD)
+
+  const byId = new Map(db.table('media').map(row => [row.id, row]))
+  assert.deepEqual([byId.get('copy')?.is_syndicated, byId.get('copy')?.story_cluster_id], [true, wire.clusterId])
+  assert.deepEqual([byId.get('wire')?.is_syndicated, byId.get('zoo')?.is_syndicated], [false, undefined])
+  assert.equal(db.table('story_clusters')[0].original_media_id, 'wire')
+
+  // Already fingerprinted: same assignment, nothing recomputed
+  const again = await clusters.clusterArticle({ mediaId: 'copy', text: 'ignored', supabaseClient: client })
+  assert.deepEqual([again?.clusterId, again?.originalMediaId, again?.isOriginal], [wire.clusterId, 'wire', false])
+  assert.equal(db.table('article_fingerprints').length, 3)
+  assert.equal(await clusters.clusterArticle({ mediaId: 'short', text: 'Too short.', supabaseClient: client }), null)
+})
+
+test('refreshCluster reports an emptied cluster apart from failed writes', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  db.table('media').push({ id: 'wire', title: 'Wire', published_at: '2026-10-19T08:00:00Z' })
+  db.table('story_clusters').push({ id: 'cluster-1', original_media_id: 'wire', member_count: 2 })
+  db.table('article_fingerprints').push({ media_id: 'wire', cluster_id: 'cluster-1' }, { media_id: 'archived', cluster_id: 'cluster-1' })
+
+  db.injectError('media', 'update', { code: '08006', message: 'connection failure' })
+  await assert.rejects(clusters.refreshCluster('cluster-1', client), (error: Error) =>
+    !(error instanceof clusters.EmptyClusterError) && /connection failure/.test(error.message))
+  db.injectError('story_clusters', 'update', { code: '08006', message: 'connection failure' })
+  await assert.rejects(clusters.refreshCluster('cluster-1', client), /Failed to update story cluster/)
+
+  db.setTable('media', [])
+  await assert.rejects(clusters.refreshCluster('cluster-1', client), clusters.EmptyClusterError)
+})
+
+test('the worker scores a story once and skips its syndicated copies', async () => {
+  const db = seedDatabase()
+  seedMedia(db, ['m1', 'm2'])
+  db.table('media_content').forEach(row => { row.content = `<p>${row.media_id === 'm1' ? wireStory : syndicatedCopy}</p>` })
+  db.table('media')[0].published_at = '2026-10-19T08:00:00Z'
+  db.table('media')[1].published_at = '2026-10-19T09:00:00Z'
+  await jobs.enqueueAnalysisJobs(['m1', 'm2'], db as unknown as SupabaseClient)
+
+  const result = await runWorker(db)
+  assert.equal(result.jobsSucceeded, 2)
+  assert.deepEqual(Array.from(new Set(db.table('ai_scores').map(r => r.media_id))), ['m1'])
+  assert.equal(mock.getMockCallCount('mock/alpha'), 1)
+  assert.equal(db.table('media')[1].is_syndicated, true)
+})
+
+// Three outlets' own reports of one event: few shared phrases, same names and numbers
+const transitReports = [
+  {
+    id: 'ev-daily', source: 'Daily Ledger', publishedAt: '2026-10-16T20:00:00Z',
+    title: 'Legislature passes transit budget overhaul shifting $200 million to buses and rail',
+    text: 'State lawmakers voted 61-38 on Thursday to move $200 million from highway maintenance into bus and rail service, ending a standoff with Governor Alvarez over fare increases.'
+  },
+  {
+    id: 'ev-herald', source: 'Evening Herald', publishedAt: '2026-10-17T07:30:00Z',
+    title: 'Rural drivers lose out as Alvarez wins transit budget fight',
+    text: 'Highway crews face cuts after the legislature approved Governor Alvarez\'s transit budget overhaul, diverting $200 million from road maintenance to buses and rail.'
+  },
+  {
+    id: 'ev-post', source: 'Metro Post', publishedAt: '2026-10-17T12:00:00Z',
+    title: 'Riders cheer as transit budget sends $200 million to buses and rail',
+    text: 'Transit advocates celebrated the overhaul approved by the legislature, which adds $200 million for bus and rail service and discounted fares for students.'
+  }
+]
+
+test('groupEvents links reports of one event across outlets within the time window', () => {
+  const zoo = { id: 'ev-zoo', source: 'Daily Ledger', publishedAt: '2026-10-17T09:00:00Z', title: 'City zoo welcomes red panda cubs', text: unrelatedStory }
+  // Same event, but long after the window closed
+  const late = { ...transitReports[1], id: 'ev-late', source: 'Weekly Review', publishedAt: '2026-10-22T09:00:00Z' }
+  // One outlet twice is not a comparison
+  const solo = [
+    { id: 'ev-solo1', source: 'Gazette', publishedAt: '2026-10-17T10:00:00Z', title: 'Harbor bridge closes for inspection of cracked cables', text: 'Engineers closed the harbor bridge to inspect cracked suspension cables.' },
+    { id: 'ev-solo2', source: 'Gazette', publishedAt: '2026-10-17T14:00:00Z', title: 'Harbor bridge stays closed as cable inspection continues', text: 'The harbor bridge remained closed while engineers inspected cracked cables.' }
+  ]
+  const shuffled = [late, transitReports[2], zoo, ...solo, transitReports[0], transitReports[1]]
+
+  assert.deepEqual(newsEvents.groupEvents(shuffled), [['ev-daily', 'ev-herald', 'ev-post']])
+  assert.deepEqual(newsEvents.groupEvents(shuffled, { windowHours: 24 * 7 }), [['ev-daily', 'ev-herald', 'ev-post', 'ev-late']])
+
+  const terms = newsEvents.eventTerms('Tariffs rise', 'The tariff was said to rise')
+  assert.equal(terms.get('tariff'), newsEvents.TITLE_WEIGHT + 1)
+  assert.equal(terms.has('said'), false)
+})
+
+test('refreshNewsEvents stores events across active and archived articles and keeps their ids', async () => {
+  const db = seedDatabase()
+  const client = db as unknown as SupabaseClient
+  const now = new Date('2026-10-18T00:00:00Z')
+  const row = (report: typeof transitReports[number]) => ({
+    id: report.id, title: report.title, description: report.text, source: report.source,
+    published_at: report.publishedAt, created_at: report.publishedAt, user_analyzed: false, is_syndicated: false
+  })
+  db.table('archived_media').push(row(transitReports[0]))
+  // The Herald's text is only in its cached lead; the full body is never read
+  db.table('media').push(
+    { ...row(transitReports[1]), description: null },
+    { ...row(transitReports[1]), id: 'ev-copy', source: 'Wire Reprint', is_syndicated: true },
+    { id: 'ev-zoo', title: 'City zoo welcomes red panda cubs', description: unrelatedStory, source: 'Metro Post', published_at: '2026-10-17T09:00:00Z', created_at: '2026-10-17T09:00:00Z', user_analyzed: false, is_syndicated: false }
+  )
+
+  db.table('media_content').push({ media_id: 'ev-herald', content: `<p>${unrelatedStory}</p>`, content_lead: `<p>${transitReports[1].text}</p>` })
+
+  // Pages of 2: every page is read
+  const first = await eventsLib.refreshNewsEvents({ supabaseClient: client, now, pageSize: 2 })
+  assert.deepEqual([first.articlesConsidered, first.eventsCreated, first.articlesAssigned], [3, 1, 2])
+  const [event] = db.table('news_events')
+  assert.deepEqual([event.title, event.article_count, event.outlet_count], [transitReports[0].title, 2, 2])
+  assert.equal(db.table('archived_media')[0].event_id, event.id)
+  assert.deepEqual(db.table('media').map(r => r.event_id ?? null), [event.id, null, null])
+
+  // A third outlet joins the same event; nothing else moves
+  db.table('media').push(row(transitReports[2]))
+  const second = await eventsLib.refreshNewsEvents({ supabaseClient: client, now })
+  assert.deepEqual([second.eventsCreated, second.eventsUpdated, second.articlesAssigned], [0, 1, 1])
+  assert.equal(db.table('news_events').length, 1)
+  assert.deepEqual([db.table('news_events')[0].outlet_count, db.table('news_events')[0].last_published_at], [3, transitReports[2].publishedAt])
+
+  // Coverage edited beyond recognition: the event has no members left and is removed
+  for (const r of [...db.table('media'), ...db.table('archived_media')]) r.title = r.description = String(r.id).replace('ev-', '')
+  const third = await eventsLib.refreshNewsEvents({ supabaseClient: client, now })
+  assert.deepEqual([third.eventsDeleted, db.table('news_events').length], [1, 0])
+  assert.ok(db.table('media').every(r => (r.event_id ?? null) === null))
+})
+
+test('categorySpreads ranks categories by how far apart the outlets scored them', () => {
+  const spreads = newsEvents.categorySpreads([
+    [{ category: 'political', avgScore: -0.6 }, { category: 'economic', avgScore: 0.1 }],
+    [{ category: 'political', avgScore: 0.4 }, { category: 'economic', avgScore: 0.2 }, { category: 'sensationalism', avgScore: 0.9 }]
+  ])
+  assert.deepEqual(spreads.map(s => s.category), ['political', 'economic'])
+  assert.deepEqual([spreads[0].min, spreads[0].max, spreads[0].articleCount], [-0.6, 0.4, 2])
+  assert.ok(Math.abs(spreads[0].spread - 1) < 1e-9)
+})
+
+// ---- analyzeWithGroq / analyzeWithGemini against the HTTP stub ----
+
+test('analyzeWithGroq cleans <think> tags from the API reply', async () => {
+  queueStubReplies(responses.thinkTags)
+  const run = await ai.analyzeWithGroq(article.content, biasCategories, 'qwen/qwen3-32b', 12000)
+
+  assert.equal(run.analysis?.scores[0].score, -0.2)
+  assert.equal(run.repaired, false)
+  assert.equal(stubRequests.length, 1)
+  assert.equal(stubRequests[0].body.model, 'qwen/qwen3-32b')
+})
+
+test('analyzeWithGroq sends a repair conversation after an invalid reply', async () => {
+  queueStubReplies(responses.duplicate, responses.fenced)
+  const run = await ai.analyzeWithGroq(article.content, biasCategories, 'openai/gpt-oss-120b', 12000)
+
+  assert.equal(run.repaired, true)
+  assert.deepEqual(run.rawResponses, [responses.duplicate, responses.fenced])
+  assert.deepEqual(run.usage, { promptTokens: 200, completionTokens: 100 })
+  assert.equal(stubRequests.length, 2)
+  const messages = stubRequests[1].body.messages as Array<{ role: string; content: string }>
+  assert.deepEqual(messages.map(m => m.role), ['user', 'assistant', 'user'])
+  assert.equal(messages[1].content, responses.duplicate)
+  assert.match(messages[2].content, /scored more than once/)
+})
+
+test('analyzeWithGroq truncates content to maxContentChars in the prompt', async () => {
+  queueStubReplies(responses.valid)
+  const longContent = `${'word '.repeat(4000)}END_MARKER`
+  await ai.analyzeWithGroq(longContent, biasCategories, 'qwen/qwen3-32b', 12000)
+
+  const messages = stubRequests[0].body.messages as Array<{ content: string }>
+  assert.ok(!messages[0].content.includes('END_MARKER'))
+})
+
+test('analyzeWithGroq returns a null analysis on API errors after retrying', async () => {
+  queueStubReplies() // nothing queued → stub answers HTTP 500
+  const run = await ai.analyzeWithGroq(article.content, biasCategories, 'qwen/qwen3-32b', 12000)
+  assert.equal(run.analysis, null)
+  assert.equal(run.errorKind, 'server_error')
+  assert.equal(run.retries, 3)
+  assert.equal(stubRequests.length, 4)
+})
+
+test('analyzeWithGroq recovers when a retry succeeds', async () => {
+  stubFailuresBeforeReply = 1
+  queueStubReplies(responses.valid)
+  const run = await ai.analyzeWithGroq(article.content, biasCategories, 'qwen/qwen3-32b', 12000)
+  assert.ok(run.analysis)
+  assert.equal(run.retries, 1)
+  assert.equal(stubRequests.length, 2)
+})
+
+test('analyzeWithGemini parses a fenced reply', async () => {
+  queueStubReplies(responses.fenced)
+  const run = await ai.analyzeWithGemini(article.content, biasCategories, ['gemini-2.5-flash'])
+
+  assert.deepEqual(run.analysis?.scores.map(s => s.category), categoryNames)
+  assert.match(stubRequests[0].path, /gemini-2\.5-flash:generateContent/)
+})
+
+test('analyzeWithGemini falls back to the next model when repair fails', async () => {
+  queueStubReplies(responses.notJson, responses.partial, responses.prose)
+  const run = await ai.analyzeWithGemini(article.content, biasCategories, ['gemini-2.5-flash', 'gemini-2.5-flash-lite'])
+
+  assert.ok(run.analysis)
+  assert.equal(run.repaired, false)
+  assert.match(run.validationErrors[0], /not valid JSON/)
+  assert.equal(run.rawResponses.length, 3)
+  assert.deepEqual(run.usage, { promptTokens: 300, completionTokens: 150 })
+  assert.equal(stubRequests.length, 3)
+  assert.match(stubRequests[2].path, /gemini-2\.5-flash-lite:generateContent/)
+})
+
+// ---- Runner ----
+
+async function main() {
+  await new Promise<void>(resolve => stubServer.listen(0, '127.0.0.1', resolve))
+  stubUrl = `http://127.0.0.1:${(stubServer.address() as AddressInfo).port}`
+
+  process.env.MOCK_AI = 'true'
+  process.env.GROQ_API_KEY = 'test-key'
+  process.env.GROQ_BASE_URL = stubUrl
+  process.env.GEMINI_API_KEY = 'test-key'
+  process.env.GOOGLE_GEMINI_BASE_URL = stubUrl
+  process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://127.0.0.1:54321'
+  process.env.SUPABASE_SECRET_KEY ||= 'test-key'
+  // Real retry counts, tiny backoff
+  process.env.AI_MAX_RETRIES = '3'
+  process.env.AI_RETRY_BASE_DELAY_MS = '1'
+  process.env.AI_RETRY_MAX_DELAY_MS = '50'
+
+  ai = await import('../lib/ai')
+  mock = await import('../lib/mockProvider')
+  validation = await import('../utils/validateAnalysis')
+  content = await import('../lib/articleContent')
+  chunking = await import('../utils/chunkContent')
+  evidence = await import('../utils/evidence')
+  prompts = await import('../lib/prompts')
+  resilience = await import('../lib/providerResilience')
+  models = await import('../lib/models')
+  jobs = await import('../lib/analysisJobs')
+  reanalysis = await import('../lib/reanalysis')
+  calibration = await import('../lib/calibration')
+  calibrationMetrics = await import('../utils/calibrationMetrics')
+  modelOffsets = await import('../utils/modelOffsets')
+  offsetsLib = await import('../lib/modelOffsets')
+  aggregation = await import('../utils/aggregation')
+  weightsLib = await import('../lib/modelWeights')
+  sentences = await import('../utils/passageAnnotations')
+  annotationsLib = await import('../lib/passageAnnotations')
+  textFeatures = await import('../utils/textFeatures')
+  featuresLib = await import('../lib/textFeatures')
+  gnews = await import('../lib/gnews')
+  newsSources = await import('../lib/newsSources')
+  feedParser = await import('../utils/feedParser')
+  rssFeeds = await import('../lib/rssFeeds')
+  canonicalUrl = await import('../utils/canonicalUrl')
+  existingArticles = await import('../lib/existingArticles')
+  minhash = await import('../utils/minhash')
+  clusters = await import('../lib/storyClusters')
+  newsEvents = await import('../utils/newsEvents')
+  eventsLib = await import('../lib/newsEvents')
+
+  const verbose = process.env.VERBOSE === 'true'
+  const original = { log: console.log, warn: console.warn, error: console.error }
+  let passed = 0
+  let failed = 0
+
+  for (const { name, fn } of tests) {
+    mock.resetMockProvider()
+    articlePageHits = 0
+    stubFailuresBeforeReply = 0
+    const logs: string[] = []
+    if (!verbose) {
+      console.log = console.warn = console.error = (...args: unknown[]) => { logs.push(args.map(String).join(' ')) }
     }
-    console.log('Summary:', data.summary)
-    console.log('Scores:')
-    for (const score of data.scores) {
-      console.log(`  ${score.category}: ${score.score}`)
+
+    try {
+      await fn()
+      Object.assign(console, original)
+      console.log(`✓ ${name}`)
+      passed++
+    } catch (error) {
+      Object.assign(console, original)
+      console.error(`❌ ${name}`)
+      console.error(error)
+      if (logs.length > 0) console.error(`--- pipeline logs ---\n${logs.join('\n')}`)
+      failed++
     }
   }
+
+  stubServer.close()
+  console.log(`\n${passed} passed, ${failed} failed`)
+  process.exit(failed > 0 ? 1 : 0)
 }
 
-// Run the test
-main().then(() => console.log('\nTest complete.'))
+main()
@@ -0,0 +1,318 @@
+/**
+ * In-memory stand-in for the Supabase client used by scripts/test.ts
+ *
+ * Supports the query-builder subset our lib/ code uses:
+ * select / insert / upsert / update / delete, eq / neq / in / lt / lte / gt / gte / is,
+ * order / limit / range, single / maybeSingle, and { count: 'exact', head: true }.
+ * rpc() calls functions registered with defineFunction (see sqlFunctions.ts), which
+ * stand in for the SQL functions in supabase/migrations.
+ *
+ * Limitations: nested relation selects (e.g. `bias_categories(name)`) are NOT resolved -
+ * rows come back with their own columns only. Pass it where a SupabaseClient is expected
+ * with `db as unknown as SupabaseClient`.
+ */
+
+import { randomUUID } from 'crypto'
+
+export type Row = Record<string, unknown>
+type Filter = (row: Row) => boolean
+export type QueryError = { code: string; message: string }
+type QueryResult = { data: unknown; error: QueryError | null; count: number | null }
+type Action = 'select' | 'insert' | 'upsert' | 'update' | 'delete' | 'rpc'
+
+class QueryBuilder implements PromiseLike<QueryResult> {
+  private action: Action = 'select'
+  private payload: Row[] = []
+  private updateValues: Row = {}
+  private onConflict: string[] = []
+  private filters: Filter[] = []
+  private orderBy: { column: string; ascending: boolean } | null = null
+  private rangeFrom = 0
+  private rangeTo: number | null = null
+  private singleMode: 'single' | 'maybeSingle' | null = null
+  private returning = false
+  private countExact = false
+  private headOnly = false
+
+  constructor(private db: InMemorySupabase, private table: string) {}
+
+  select(_columns?: string, options: { count?: 'exact'; head?: boolean } = {}) {
+    if (this.action !== 'select') {
+      this.returning = true
+    }
+    this.countExact = options.count === 'exact'
+    this.headOnly = !!options.head
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    return this
+  }
+
+  upsert(rows: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert'
+    this.payload = Array.isArray(rows) ? rows : [rows]
+    this.onConflict = (options.onConflict || 'id').split(',').map(c => c.trim())
+    return this
+  }
+
+  update(values: Row) {
+    this.action = 'update'
+    this.updateValues = values
+    return this
+  }
+
+  delete() {
+    this.action = 'delete'
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value)
+    return this
+  }
+
+  neq(column: string, value: unknown) {
+    this.filters.push(row => row[column] !== value)
+    return this
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]))
+    return this
+  }
+
+  lt(column: string, value: unknown) {
+    this.filters.push(row => compare(row[column], value) < 0)
+    return this
+  }
+
+  lte(column: string, value: unknown) {
+    this.filters.push(row => compare(row[column], value) <= 0)
+    return this
+  }
+
+  gt(column: string, value: unknown) {
+    this.filters.push(row => compare(row[column], value) > 0)
+    return this
+  }
+
+  gte(column: string, value: unknown) {
+    this.filters.push(row => compare(row[column], value) >= 0)
+    return this
+  }
+
+  is(column: string, value: null | boolean) {
+    this.filters.push(row => (row[column] ?? null) === value)
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.orderBy = { column, ascending: options.ascending !== false }
+    return this
+  }
+
+  limit(count: number) {
+    this.rangeTo = this.rangeFrom + count - 1
+    return this
+  }
+
+  range(from: number, to: number) {
+    this.rangeFrom = from
+    this.rangeTo = to
+    return this
+  }
+
+  single() {
+    this.singleMode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.singleMode = 'maybeSingle'
+    return this
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected)
+  }
+
+  private execute(): QueryResult {
+    const injected = this.db.takeInjectedError(this.table, this.action)
+    if (injected) {
+      return { data: null, error: injected, count: null }
+    }
+
+    const rows = this.db.table(this.table)
+    let affected: Row[] = []
+
+    if (this.action === 'insert' || this.action === 'upsert') {
+      for (const input of this.payload) {
+        const row: Row = { ...input }
+        if (row.id === undefined) row.id = randomUUID()
+        if (row.created_at === undefined) row.created_at = new Date().toISOString()
+
+        const existing = this.action === 'upsert'
+          ? rows.find(r => this.onConflict.every(c => r[c] === row[c]))
+          : undefined
+
+        if (existing) {
+          Object.assign(existing, input)
+          affected.push(existing)
+          continue
+        }
+
+        const violation = this.db.findUniqueViolation(this.table, row)
+        if (violation) {
+          return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint "${violation}"` }, count: null }
+        }
+
+        rows.push(row)
+        affected.push(row)
+      }
+    } else {
+      affected = rows.filter(row => this.filters.every(f => f(row)))
+
+      if (this.action === 'update') {
+        for (const row of affected) {
+          const violation = this.db.findUniqueViolation(this.table, { ...row, ...this.updateValues }, row)
+          if (violation) {
+            return { data: null, error: { code: '23505', message: `duplicate key value violates unique constraint "${violation}"` }, count: null }
+          }
+        }
+        affected.forEach(row => Object.assign(row, this.updateValues))
+      } else if (this.action === 'delete') {
+        this.db.setTable(this.table, rows.filter(row => !affected.includes(row)))
+      }
+    }
+
+    if (this.action !== 'select' && !this.returning) {
+      return { data: null, error: null, count: null }
+    }
+
+    const count = affected.length
+    let result = [...affected]
+
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy
+      result.sort((a, b) => compare(a[column], b[column]) * (ascending ? 1 : -1))
+    }
+
+    result = result.slice(this.rangeFrom, this.rangeTo === null ? undefined : this.rangeTo + 1)
+    const copies = result.map(row => ({ ...row }))
+
+    if (this.headOnly) {
+      return { data: null, error: null, count }
+    }
+
+    if (this.singleMode) {
+      if (copies.length === 1) return { data: copies[0], error: null, count: this.countExact ? count : null }
+      if (copies.length === 0 && this.singleMode === 'maybeSingle') return { data: null, error: null, count: null }
+      return { data: null, error: { code: 'PGRST116', message: `Expected 1 row, got ${copies.length}` }, count: null }
+    }
+
+    return { data: copies, error: null, count: this.countExact ? count : null }
+  }
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0
+  if (a === null || a === undefined) return -1
+  if (b === null || b === undefined) return 1
+  return (a as number | string) < (b as number | string) ? -1 : 1
+}
+
+export class InMemorySupabase {
+  private tables = new Map<string, Row[]>()
+  private uniqueConstraints = new Map<string, Array<{ columns: string[]; where?: (row: Row) => boolean }>>()
+  private injectedErrors: Array<{ table: string; action: Action; error: QueryError }> = []
+  private functions = new Map<string, (args: Row) => unknown>()
+
+  constructor(seed: Record<string, Row[]> = {}) {
+    for (const [name, rows] of Object.entries(seed)) {
+      this.tables.set(name, rows.map(row => ({ ...row })))
+    }
+  }
+
+  from(table: string) {
+    return new QueryBuilder(this, table)
+  }
+
+  /**
+   * Call a function registered with defineFunction, like supabase.rpc()
+   * The function runs in one step, so calls never interleave (as if in a transaction).
+   */
+  rpc(name: string, args: Row = {}): PromiseLike<QueryResult> {
+    return Promise.resolve().then(() => {
+      const injected = this.takeInjectedError(name, 'rpc')
+      if (injected) {
+        return { data: null, error: injected, count: null }
+      }
+      const fn = this.functions.get(name)
+      if (!fn) {
+        return { data: null, error: { code: 'PGRST202', message: `Could not find the function ${name}` }, count: null }
+      }
+      try {
+        return { data: fn(args) ?? null, error: null, count: null }
+      } catch (error) {
+        // Functions throw a QueryError after undoing their own writes
+        return { data: null, error: error as QueryError, count: null }
+      }
+    })
+  }
+
+  /** Register a function for rpc(); it throws a QueryError to fail */
+  defineFunction(name: string, fn: (args: Row) => unknown): void {
+    this.functions.set(name, fn)
+  }
+
+  /** Direct access to a table's rows for assertions */
+  table(name: string): Row[] {
+    if (!this.tables.has(name)) this.tables.set(name, [])
+    return this.tables.get(name)!
+  }
+
+  setTable(name: string, rows: Row[]): void {
+    this.tables.set(name, rows)
+  }
+
+  /**
+   * Reject inserts and updates that duplicate these columns with PostgreSQL's 23505
+   * `where` makes it a partial unique index: only rows it accepts are checked
+   */
+  addUniqueConstraint(table: string, columns: string[], where?: (row: Row) => boolean): void {
+    const constraints = this.uniqueConstraints.get(table) || []
+    constraints.push({ columns, where })
+    this.uniqueConstraints.set(table, constraints)
+  }
+
+  /** Like Postgres, null values never conflict; `self` is the row being updated */
+  findUniqueViolation(table: string, row: Row, self?: Row): string | null {
+    for (const { columns, where } of this.uniqueConstraints.get(table) || []) {
+      if (columns.some(c => row[c] === null || row[c] === undefined)) continue
+      if (where && !where(row)) continue
+      if (this.table(table).some(existing =>
+        existing !== self && (!where || where(existing)) && columns.every(c => existing[c] === row[c])
+      )) {
+        return `${table}_${columns.join('_')}_key`
+      }
+    }
+    return null
+  }
+
+  /** Make the next matching query fail with this error (table = function name for 'rpc') */
+  injectError(table: string, action: Action, error: QueryError): void {
+    this.injectedErrors.push({ table, action, error })
+  }
+
+  takeInjectedError(table: string, action: Action): QueryError | null {
+    const index = this.injectedErrors.findIndex(e => e.table === table && e.action === action)
+    if (index === -1) return null
+    return this.injectedErrors.splice(index, 1)[0].error
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * JavaScript stand-ins for the SQL functions in supabase/migrations, registered on an
+ * InMemorySupabase so lib/ code that calls supabase.rpc() can run in scripts/test.ts
+ *
+ * Each one follows its SQL definition step by step. Keep them in sync with the migration.
+ */
+
+import { randomUUID } from 'crypto'
+import type { InMemorySupabase, QueryError, Row } from './inMemorySupabase'
+
+// Like a raised exception: rpc() returns it as the query error
+function fail(code: string, message: string): never {
+  const error: QueryError = { code, message }
+  throw error
+}
+
+export function defineSqlFunctions(db: InMemorySupabase): void {
+  // 20261019148000_save_model_scores.sql
+  db.defineFunction('save_model_scores', args => {
+    const table = args.score_table as string
+    const mediaId = args.target_media_id
+    const modelName = args.target_model_name
+    const run = args.run as Row | null
+    const scores = (args.scores as Row[] | null) || []
+    if (table !== 'ai_scores' && table !== 'archived_ai_scores') {
+      fail('P0001', `Unknown score table: ${table}`)
+    }
+
+    const now = new Date().toISOString()
+    const runId = run ? randomUUID() : null
+    if (run) db.table('analysis_runs').push({ ...run, id: runId, created_at: now })
+    if (scores.length === 0) return runId
+
+    const rows = db.table(table)
+    const categoryIds = new Set(scores.map(score => score.category_id))
+    const mine = rows.filter(row => row.media_id === mediaId && row.model_name === modelName)
+    const retired = mine.filter(row => row.is_current && categoryIds.has(row.category_id))
+    retired.forEach(row => { row.is_current = false })
+
+    const inserted: Row[] = []
+    for (const score of scores) {
+      const versions = mine.filter(row => row.category_id === score.category_id).map(row => (row.score_version as number | null) ?? 1)
+      const row: Row = {
+        ...score,
+        id: randomUUID(),
+        created_at: now,
+        media_id: mediaId,
+        model_name: modelName,
+        analysis_run_id: runId,
+        score_version: Math.max(0, ...versions) + 1,
+        is_current: true
+      }
+      const violation = db.findUniqueViolation(table, row)
+      if (violation) {
+        // Roll back the whole transaction
+        retired.forEach(r => { r.is_current = true })
+        db.setTable(table, rows.filter(r => !inserted.includes(r)))
+        db.setTable('analysis_runs', db.table('analysis_runs').filter(r => r.id !== runId))
+        fail('23505', `duplicate key value violates unique constraint "${violation}"`)
+      }
+      rows.push(row)
+      inserted.push(row)
+    }
+    return runId
+  })
+}
@@ -0,0 +1,19 @@
+-- Article content cache (lib/articleContent.ts)
+-- One row per media ID with the exact text the models analyzed.
+-- No FK to media: archived articles keep their ID in archived_media and keep their text.
+
+create table if not exists media_content (
+  media_id uuid primary key,
+  url text not null,
+  url_hash text not null,          -- sha256(url), for lookups when the same URL is stored twice
+  title text,
+  byline text,
+  content text not null,           -- extract() output (HTML), sent to the models as-is
+  word_count integer not null default 0,
+  extracted_at timestamptz not null default now()
+);
+
+create index if not exists media_content_url_hash_idx on media_content (url_hash);
+
+-- Written and read only by server code using the service role key
+alter table media_content enable row level security;
@@ -0,0 +1,15 @@
+-- Record how much of the article each model saw (lib/ai.ts runModel)
+--   whole     - full article fit the model's context budget
+--   truncated - cut to maxContentChars
+--   chunked   - scored in paragraph chunks, score = length-weighted mean
+-- chunk_spread = max - min of the per-chunk scores (null unless chunked)
+
+alter table ai_scores
+  add column if not exists content_mode text not null default 'whole'
+    check (content_mode in ('whole', 'truncated', 'chunked')),
+  add column if not exists chunk_spread double precision;
+
+alter table archived_ai_scores
+  add column if not exists content_mode text not null default 'whole'
+    check (content_mode in ('whole', 'truncated', 'chunked')),
+  add column if not exists chunk_spread double precision;
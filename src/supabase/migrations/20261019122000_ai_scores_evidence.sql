@@ -0,0 +1,13 @@
+-- Evidence quotes per score (utils/evidence.ts)
+-- evidence = [{ "quote": "...", "start": 120, "end": 188 }, ...]
+-- Offsets index into the plain text of media_content.content (articlePlainText).
+
+alter table ai_scores
+  add column if not exists evidence jsonb not null default '[]'::jsonb;
+
+alter table archived_ai_scores
+  add column if not exists evidence jsonb not null default '[]'::jsonb;
+
+-- The article detail page reads cached text to highlight quotes
+create policy "Public read access" on media_content
+  for select using (true);
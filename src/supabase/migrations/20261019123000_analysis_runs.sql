@@ -0,0 +1,34 @@
+-- One row per model per article analysis (lib/analysisRuns.ts), including failed runs.
+-- No FK to media: like media_content, runs outlive archiving.
+
+create table if not exists analysis_runs (
+  id uuid primary key default gen_random_uuid(),
+  media_id uuid not null,
+  model_name text not null,
+  prompt_version text not null,          -- PROMPT_VERSION in lib/prompts.ts
+  prompt_hash text,                      -- hash of the prompt template (instructions + categories, no article)
+  category_set_version text not null,    -- hash of bias_categories names + descriptions
+  content_mode text not null check (content_mode in ('whole', 'truncated', 'chunked')),
+  content_chars integer not null,
+  chunk_count integer not null default 1,
+  latency_ms integer not null,
+  prompt_tokens integer,                 -- null = provider didn't report usage
+  completion_tokens integer,
+  raw_responses jsonb not null default '[]'::jsonb, -- every reply, repair replies included
+  parse_outcome text not null check (parse_outcome in ('valid', 'repaired', 'invalid', 'error')),
+  validation_errors jsonb not null default '[]'::jsonb,
+  error_message text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists analysis_runs_media_id_idx on analysis_runs (media_id);
+create index if not exists analysis_runs_model_prompt_idx on analysis_runs (model_name, prompt_version);
+
+alter table analysis_runs enable row level security;
+
+-- Link each score to the run that produced it
+alter table ai_scores
+  add column if not exists analysis_run_id uuid references analysis_runs (id) on delete set null;
+
+alter table archived_ai_scores
+  add column if not exists analysis_run_id uuid references analysis_runs (id) on delete set null;
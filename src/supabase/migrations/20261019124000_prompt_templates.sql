@@ -0,0 +1,127 @@
+-- Named, versioned scoring prompt templates (lib/promptTemplates.ts).
+-- Placeholders: {{article_content}}, {{category_instructions}}, {{category_list}}, {{example_scores}}.
+-- provider = null applies to every provider without its own active row.
+
+create table if not exists prompt_templates (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  version integer not null check (version > 0),
+  provider text,                         -- gemini / groq / openai-compatible / mock, null = any
+  template text not null,
+  description text,
+  is_active boolean not null default false,
+  created_at timestamptz not null default now(),
+  unique (name, version)
+);
+
+-- At most one active template per provider (and one shared)
+create unique index if not exists prompt_templates_one_active_per_provider
+  on prompt_templates (coalesce(provider, '*'))
+  where is_active;
+
+alter table prompt_templates enable row level security;
+
+-- Seed v1 with the built-in prompts from lib/prompts.ts
+insert into prompt_templates (name, version, provider, template, description, is_active) values
+  ('bias-analysis', 1, 'gemini', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'Initial prompt (plain JSON rules)', true),
+  ('bias-analysis-strict', 1, 'groq', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
+DO NOT include <think> tags or reasoning - output ONLY the JSON object.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'Initial prompt, forbids <think> tags', true),
+  ('bias-analysis-strict-local', 1, 'openai-compatible', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
+DO NOT include <think> tags or reasoning - output ONLY the JSON object.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'Initial prompt, forbids <think> tags', true)
+on conflict (name, version) do nothing;
+
+-- Which template version produced each score (A/B comparisons across prompt variants)
+alter table ai_scores add column if not exists prompt_version text;
+alter table archived_ai_scores add column if not exists prompt_version text;
+
+alter table analysis_runs
+  add column if not exists prompt_template_id uuid references prompt_templates (id) on delete set null;
+
+create index if not exists ai_scores_prompt_version_idx on ai_scores (prompt_version);
@@ -0,0 +1,10 @@
+-- Why a run failed and how many requests were retried (lib/providerResilience.ts)
+
+alter table analysis_runs
+  add column if not exists error_kind text check (error_kind in (
+    'rate_limit', 'timeout', 'server_error', 'content_filter', 'parse_error', 'client_error', 'circuit_open', 'unknown'
+  )),
+  add column if not exists retry_count integer not null default 0;
+
+create index if not exists analysis_runs_error_kind_idx on analysis_runs (model_name, error_kind)
+  where error_kind is not null;
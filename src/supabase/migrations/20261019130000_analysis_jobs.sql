@@ -0,0 +1,29 @@
+-- Durable analysis queue (lib/analysisJobs.ts): one job per article, drained by
+-- /api/cron/analysis-jobs. No FK to media: jobs for archived articles just fail.
+
+create table if not exists analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  media_id uuid not null,
+  status text not null default 'pending' check (status in ('pending', 'running', 'succeeded', 'failed')),
+  attempts integer not null default 0,
+  max_attempts integer not null default 5,
+  next_attempt_at timestamptz not null default now(),
+  locked_by text,                        -- worker holding the lease
+  locked_until timestamptz,              -- lease expiry; expired running jobs are reclaimed
+  model_status jsonb not null default '{}'::jsonb, -- { "<model id>": { status, attempts, errorKind, analysisRunId } }
+  last_error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+-- At most one open job per article
+create unique index if not exists analysis_jobs_one_open_per_media
+  on analysis_jobs (media_id)
+  where status in ('pending', 'running');
+
+-- Claim queries: due pending jobs and expired leases
+create index if not exists analysis_jobs_due_idx on analysis_jobs (next_attempt_at) where status = 'pending';
+create index if not exists analysis_jobs_lease_idx on analysis_jobs (locked_until) where status = 'running';
+
+alter table analysis_jobs enable row level security;
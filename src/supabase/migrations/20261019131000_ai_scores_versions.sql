@@ -0,0 +1,14 @@
+-- Versioned scores: re-analysis writes score_version = previous + 1 for the same
+-- (article, category, model) and clears is_current on the rows it replaces.
+-- Pages read is_current = true only.
+
+alter table ai_scores
+  add column if not exists score_version integer not null default 1,
+  add column if not exists is_current boolean not null default true;
+
+alter table archived_ai_scores
+  add column if not exists score_version integer not null default 1,
+  add column if not exists is_current boolean not null default true;
+
+create index if not exists ai_scores_current_idx on ai_scores (media_id, model_name) where is_current;
+create index if not exists archived_ai_scores_current_idx on archived_ai_scores (media_id, model_name) where is_current;
@@ -0,0 +1,61 @@
+-- One row per (article, category, model, score_version) in ai_scores and archived_ai_scores.
+--
+-- Before score versions, every /api/ai_analyze call inserted another full set of rows,
+-- and 20261019131000 gave all of them score_version 1. Collapse those duplicates first:
+--   1. keep the newest row of each (media_id, category_id, model_name, score_version)
+--   2. mark only the highest version of each (media_id, category_id, model_name) current
+-- then add the unique key saveModelScores upserts on.
+
+-- ai_scores
+delete from ai_scores s
+using (
+  select id, row_number() over (
+    partition by media_id, category_id, model_name, score_version
+    order by created_at desc, id desc
+  ) as rn
+  from ai_scores
+) ranked
+where s.id = ranked.id and ranked.rn > 1;
+
+update ai_scores s
+set is_current = (s.score_version = latest.max_version)
+from (
+  select media_id, category_id, model_name, max(score_version) as max_version
+  from ai_scores
+  group by media_id, category_id, model_name
+) latest
+where s.media_id = latest.media_id
+  and s.category_id = latest.category_id
+  and s.model_name = latest.model_name
+  and s.is_current is distinct from (s.score_version = latest.max_version);
+
+alter table ai_scores
+  add constraint ai_scores_media_category_model_version_key
+  unique (media_id, category_id, model_name, score_version);
+
+-- archived_ai_scores (same steps)
+delete from archived_ai_scores s
+using (
+  select id, row_number() over (
+    partition by media_id, category_id, model_name, score_version
+    order by created_at desc, id desc
+  ) as rn
+  from archived_ai_scores
+) ranked
+where s.id = ranked.id and ranked.rn > 1;
+
+update archived_ai_scores s
+set is_current = (s.score_version = latest.max_version)
+from (
+  select media_id, category_id, model_name, max(score_version) as max_version
+  from archived_ai_scores
+  group by media_id, category_id, model_name
+) latest
+where s.media_id = latest.media_id
+  and s.category_id = latest.category_id
+  and s.model_name = latest.model_name
+  and s.is_current is distinct from (s.score_version = latest.max_version);
+
+alter table archived_ai_scores
+  add constraint archived_ai_scores_media_category_model_version_key
+  unique (media_id, category_id, model_name, score_version);
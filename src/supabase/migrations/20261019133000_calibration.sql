@@ -0,0 +1,37 @@
+-- Calibration benchmark (lib/calibration.ts)
+
+-- Human-labeled gold set. expected_scores maps bias category name → label (-1..+1);
+-- a labeler may leave categories out. The id doubles as the media_content cache key,
+-- so the benchmark always scores the same extracted text.
+create table if not exists gold_set_articles (
+  id uuid primary key default gen_random_uuid(),
+  url text not null unique,
+  title text,
+  source text,
+  expected_scores jsonb not null,
+  labeled_by text,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+-- One row per model per benchmark run
+create table if not exists calibration_runs (
+  id uuid primary key default gen_random_uuid(),
+  benchmark_id uuid not null,            -- groups the models of one run
+  model_name text not null,
+  prompt_version text not null,
+  category_set_version text not null,
+  gold_set_size integer not null,
+  articles_scored integer not null,
+  score_pairs integer not null,          -- (article, category) pairs compared
+  mae double precision,                  -- null = nothing to compare
+  correlation double precision,
+  sign_agreement double precision,
+  category_metrics jsonb not null default '{}'::jsonb, -- { category: { n, mae, bias } }
+  created_at timestamptz not null default now()
+);
+
+create index if not exists calibration_runs_model_created_idx on calibration_runs (model_name, created_at desc);
+
+alter table gold_set_articles enable row level security;
+alter table calibration_runs enable row level security;
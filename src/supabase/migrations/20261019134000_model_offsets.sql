@@ -0,0 +1,18 @@
+-- Per-model, per-category offsets (lib/modelOffsets.ts): a model's mean deviation from
+-- the ensemble, recomputed by the daily cron. Calibrated scores subtract the offset.
+
+create table if not exists model_offsets (
+  model_name text not null,
+  category_id uuid not null references bias_categories (id) on delete cascade,
+  "offset" double precision not null,  -- mean (model score - ensemble mean)
+  sample_size integer not null,        -- (article, category) comparisons behind it
+  computed_at timestamptz not null default now(),
+  primary key (model_name, category_id)
+);
+
+-- Pages (including the client-side dashboard) read offsets; only the service role writes
+alter table model_offsets enable row level security;
+
+create policy "Model offsets are readable by everyone"
+  on model_offsets for select
+  using (true);
@@ -0,0 +1,10 @@
+-- Self-reported model confidence (0..1) for each score. Null when the model
+-- didn't give one (rows from before prompt v2, or replies that left it out).
+
+alter table ai_scores
+  add column if not exists confidence numeric
+    check (confidence is null or (confidence >= 0 and confidence <= 1));
+
+alter table archived_ai_scores
+  add column if not exists confidence numeric
+    check (confidence is null or (confidence >= 0 and confidence <= 1));
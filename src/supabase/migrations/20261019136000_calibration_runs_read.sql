@@ -0,0 +1,7 @@
+-- Reliability-weighted averages (lib/modelWeights.ts) read each model's latest
+-- benchmark MAE from pages, including the client-side dashboard. Only the
+-- service role writes runs; the gold set itself stays private.
+
+create policy "Calibration runs are readable by everyone"
+  on calibration_runs for select
+  using (true);
@@ -0,0 +1,22 @@
+-- Sentence-level bias annotations for the article heatmap (lib/passageAnnotations.ts).
+-- One row per (article, model). annotations holds the flagged sentences:
+--   [{ sentence, start, end, category_id, score, reason }]
+-- start/end index into the article's plain text (utils/evidence.ts articlePlainText).
+-- No FK to media: like media_content, annotations outlive archiving.
+
+create table if not exists passage_annotations (
+  media_id uuid not null,
+  model_name text not null,
+  prompt_version text not null,          -- ANNOTATION_PROMPT_VERSION in lib/prompts.ts
+  sentence_count integer not null,       -- sentences sent to the model
+  annotations jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  primary key (media_id, model_name)
+);
+
+-- The article page reads annotations; only the service role writes
+alter table passage_annotations enable row level security;
+
+create policy "Passage annotations are readable by everyone"
+  on passage_annotations for select
+  using (true);
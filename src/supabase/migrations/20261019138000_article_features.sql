@@ -0,0 +1,27 @@
+-- Lexicon text features per article (lib/textFeatures.ts): a deterministic baseline
+-- computed from the cached text with no model. Recomputed on every analysis.
+-- No FK to media: like media_content, features outlive archiving.
+
+create table if not exists article_features (
+  media_id uuid primary key,
+  lexicon_version text not null,          -- LEXICON_VERSION in utils/lexicon.ts
+  word_count integer not null,
+  sentence_count integer not null,
+  loaded_term_count integer not null,
+  loaded_term_density double precision not null,  -- per 1,000 words
+  top_loaded_terms jsonb not null default '[]'::jsonb, -- [{ term, count }]
+  hedge_count integer not null,
+  hedging_density double precision not null,      -- per 1,000 words
+  quote_count integer not null,
+  attributed_quote_ratio double precision,        -- null = no direct quotes
+  passive_voice_rate double precision not null,
+  source_citations integer not null,
+  computed_at timestamptz not null default now()
+);
+
+-- The article page reads features; only the service role writes
+alter table article_features enable row level security;
+
+create policy "Article features are readable by everyone"
+  on article_features for select
+  using (true);
@@ -0,0 +1,22 @@
+-- Curated RSS/Atom outlet feeds (lib/rssFeeds.ts), polled by the daily ingestion cron.
+-- Feeds are managed by admins; each poll records its outcome on the row.
+
+create table if not exists news_feeds (
+  id uuid primary key default gen_random_uuid(),
+  outlet_name text not null,                 -- stored as media.source
+  feed_url text not null unique,
+  category_id uuid references news_categories (id) on delete set null, -- media.category_id for every item
+  enabled boolean not null default true,
+  poll_interval_minutes integer not null default 60 check (poll_interval_minutes > 0),
+  last_polled_at timestamptz,
+  last_status text check (last_status in ('ok', 'error')),
+  last_error text,
+  last_item_count integer,
+  created_at timestamptz not null default now()
+);
+
+-- Due-feed query: enabled feeds by last poll
+create index if not exists news_feeds_enabled_idx on news_feeds (last_polled_at) where enabled;
+
+-- Service role only (no public policies)
+alter table news_feeds enable row level security;
@@ -0,0 +1,12 @@
+-- Canonical URL key (urlKey() in utils/canonicalUrl.ts) for cross-source de-duplication.
+-- Set on insert by ingestion and /api/ai_analyze; fill existing rows with
+-- scripts/backfillUrlKeys.ts. Rows left null are duplicates reported by the backfill.
+
+alter table media add column if not exists url_key text;
+alter table archived_media add column if not exists url_key text;
+
+-- One active row per story
+create unique index if not exists media_url_key_unique on media (url_key);
+
+-- Archived rows are looked up by key too, but an article archived twice shouldn't fail the archive cron
+create index if not exists archived_media_url_key_idx on archived_media (url_key);
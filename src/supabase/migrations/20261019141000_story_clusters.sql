@@ -0,0 +1,50 @@
+-- Near-duplicate story clusters (lib/storyClusters.ts): syndicated wire copies of one
+-- story are grouped, the earliest active article is the original, the rest are marked
+-- is_syndicated so /articles can collapse them and the analysis worker can skip them.
+
+create table if not exists story_clusters (
+  id uuid primary key default gen_random_uuid(),
+  original_media_id uuid not null,       -- no FK: clusters outlive archiving
+  member_count integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- MinHash signature per article (utils/minhash.ts); no FK to media, like media_content
+create table if not exists article_fingerprints (
+  media_id uuid primary key,
+  signature jsonb not null,               -- SIGNATURE_SIZE 32-bit hashes
+  shingle_count integer not null,
+  cluster_id uuid references story_clusters (id) on delete set null,
+  similarity double precision,            -- estimated Jaccard with the article it matched (null = first of its cluster)
+  computed_at timestamptz not null default now()
+);
+
+create index if not exists article_fingerprints_cluster_idx on article_fingerprints (cluster_id);
+
+-- LSH band keys: articles sharing a key are candidate near-duplicates
+create table if not exists fingerprint_bands (
+  band_key text not null,
+  media_id uuid not null,
+  primary key (band_key, media_id)
+);
+
+create index if not exists fingerprint_bands_media_idx on fingerprint_bands (media_id);
+
+alter table media
+  add column if not exists story_cluster_id uuid references story_clusters (id) on delete set null,
+  add column if not exists is_syndicated boolean not null default false;
+alter table archived_media
+  add column if not exists story_cluster_id uuid,
+  add column if not exists is_syndicated boolean not null default false;
+
+create index if not exists media_story_cluster_idx on media (story_cluster_id);
+
+-- Pages read clusters; fingerprints and bands are service role only
+alter table story_clusters enable row level security;
+alter table article_fingerprints enable row level security;
+alter table fingerprint_bands enable row level security;
+
+create policy "Story clusters are readable by everyone"
+  on story_clusters for select
+  using (true);
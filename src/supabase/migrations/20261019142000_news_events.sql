@@ -0,0 +1,28 @@
+-- News events (lib/newsEvents.ts): each outlet's own report of one real-world event,
+-- grouped by title/lead similarity within a publish-time window, so /stories/[id]
+-- can line up how each outlet framed it.
+
+create table if not exists news_events (
+  id uuid primary key default gen_random_uuid(),
+  title text not null,                   -- headline of the earliest article
+  first_published_at timestamptz,
+  last_published_at timestamptz,
+  article_count integer not null default 0,
+  outlet_count integer not null default 0,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table media
+  add column if not exists event_id uuid references news_events (id) on delete set null;
+alter table archived_media
+  add column if not exists event_id uuid;  -- no FK, like story_cluster_id
+
+create index if not exists media_event_idx on media (event_id);
+create index if not exists archived_media_event_idx on archived_media (event_id);
+
+alter table news_events enable row level security;
+
+create policy "News events are readable by everyone"
+  on news_events for select
+  using (true);
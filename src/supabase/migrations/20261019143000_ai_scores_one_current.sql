@@ -0,0 +1,39 @@
+-- At most one current score per (article, category, model) in ai_scores and
+-- archived_ai_scores. saveModelScores clears the old row before writing the new one,
+-- so an interrupted or concurrent save fails with a unique violation instead of
+-- leaving two current rows.
+--
+-- Repair any group that already has more (or no) current rows first: the highest
+-- score_version is current, every other version is not.
+
+update ai_scores s
+set is_current = (s.score_version = latest.max_version)
+from (
+  select media_id, category_id, model_name, max(score_version) as max_version
+  from ai_scores
+  group by media_id, category_id, model_name
+) latest
+where s.media_id = latest.media_id
+  and s.category_id = latest.category_id
+  and s.model_name = latest.model_name
+  and s.is_current is distinct from (s.score_version = latest.max_version);
+
+create unique index if not exists ai_scores_one_current_key
+  on ai_scores (media_id, category_id, model_name)
+  where is_current;
+
+update archived_ai_scores s
+set is_current = (s.score_version = latest.max_version)
+from (
+  select media_id, category_id, model_name, max(score_version) as max_version
+  from archived_ai_scores
+  group by media_id, category_id, model_name
+) latest
+where s.media_id = latest.media_id
+  and s.category_id = latest.category_id
+  and s.model_name = latest.model_name
+  and s.is_current is distinct from (s.score_version = latest.max_version);
+
+create unique index if not exists archived_ai_scores_one_current_key
+  on archived_ai_scores (media_id, category_id, model_name)
+  where is_current;
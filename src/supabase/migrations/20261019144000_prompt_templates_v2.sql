@@ -0,0 +1,119 @@
+-- v2 of the seeded scoring templates: v1 plus the self-reported confidence instruction
+-- (utils/validateAnalysis.ts keeps a 0..1 "confidence" per score). Scores record
+-- bias-analysis@v2 etc., so results before and after the change can be told apart.
+--
+-- v2 is activated only where the seeded v1 is still the active template; a provider
+-- switched to another template by hand keeps it.
+
+insert into prompt_templates (name, version, provider, template, description, is_active) values
+  ('bias-analysis', 2, 'gemini', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Add a "confidence" field to each score: a number from 0 to 1 for how clearly the article supports that score (low for short or ambiguous articles)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'v1 + self-reported confidence per score', false),
+  ('bias-analysis-strict', 2, 'groq', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Add a "confidence" field to each score: a number from 0 to 1 for how clearly the article supports that score (low for short or ambiguous articles)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
+DO NOT include <think> tags or reasoning - output ONLY the JSON object.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'v1 + self-reported confidence per score, forbids <think> tags', false),
+  ('bias-analysis-strict-local', 2, 'openai-compatible', $prompt$
+You are an expert media bias analyst. Analyze this article for bias across multiple categories.
+
+Article content:
+{{article_content}}
+
+SCORING INSTRUCTIONS:
+Score each bias category from -1 to +1 using the scales defined below.
+
+{{category_instructions}}
+
+Categories to score: {{category_list}}
+
+IMPORTANT:
+- You MUST score ALL categories listed above: {{category_list}}
+- Be precise with scores (use decimals like 0.3, -0.7, etc.)
+- Each category should be scored independently
+- Provide a brief, specific explanation for each score
+- Support each score with 1-3 quotes copied word-for-word from the article (no paraphrasing, no ellipses)
+- Add a "confidence" field to each score: a number from 0 to 1 for how clearly the article supports that score (low for short or ambiguous articles)
+- Base your analysis ONLY on the article content provided
+
+Return ONLY valid JSON with no markdown, no code blocks, no extra text, no XML tags.
+DO NOT include <think> tags or reasoning - output ONLY the JSON object.
+Format:
+{
+  "scores": [
+{{example_scores}}
+  ],
+  "summary": "One sentence summary of overall bias"
+}
+$prompt$, 'v1 + self-reported confidence per score, forbids <think> tags', false)
+on conflict (name, version) do nothing;
+
+-- One active template per provider: retire v1 before activating v2
+do $$
+declare
+  seeded record;
+begin
+  for seeded in
+    select name from prompt_templates
+    where version = 1 and is_active
+      and name in ('bias-analysis', 'bias-analysis-strict', 'bias-analysis-strict-local')
+  loop
+    update prompt_templates set is_active = false where name = seeded.name and version = 1;
+    update prompt_templates set is_active = true where name = seeded.name and version = 2;
+  end loop;
+end $$;
@@ -0,0 +1,5 @@
+-- Characters of the article a model never saw (lib/ai.ts runModel): the part cut
+-- off by truncation, or the chunks past MAX_CHUNKS in chunked mode. 0 = whole article.
+
+alter table analysis_runs
+  add column if not exists omitted_chars integer not null default 0;
@@ -0,0 +1,6 @@
+-- Last time an article was sent to a model for sentence annotations
+-- (lib/passageAnnotations.ts). /api/annotate is public, so a reader can only
+-- trigger one model call per article per cooldown, whether it succeeds or not.
+
+alter table media
+  add column if not exists annotation_requested_at timestamptz;
@@ -0,0 +1,14 @@
+-- Lead of a cached article for event grouping (lib/newsEvents.ts), so the refresh
+-- doesn't download every article body. PostgREST exposes a function taking the row
+-- as a computed column: select('media_id, content_lead') on media_content.
+--
+-- 4000 characters of extracted HTML comfortably hold the LEAD_WORDS (150) words
+-- that groupEvents reads (utils/newsEvents.ts).
+
+create or replace function content_lead(media_content)
+returns text
+language sql
+stable
+as $$
+  select left($1.content, 4000)
+$$;
@@ -0,0 +1,80 @@
+-- One model's analysis of one article, saved in a single transaction
+-- (lib/ai.ts saveModelScores): the analysis_runs row, then the model's scores as the
+-- next score_version of each category, with is_current cleared on the rows they replace.
+-- Returns the run id (null when no run is given).
+--
+-- Saves of the same (table, article, model) take turns on a transaction-scoped advisory
+-- lock. The second save waits, then sees the first one's rows and saves the version
+-- after them instead of the same version.
+
+create or replace function save_model_scores(
+  score_table text,
+  target_media_id uuid,
+  target_model_name text,
+  run jsonb,
+  scores jsonb
+)
+returns uuid
+language plpgsql
+as $$
+declare
+  run_id uuid;
+begin
+  if score_table not in ('ai_scores', 'archived_ai_scores') then
+    raise exception 'Unknown score table: %', score_table;
+  end if;
+
+  perform pg_advisory_xact_lock(hashtext(format('%s:%s:%s', score_table, target_media_id, target_model_name)));
+
+  if run is not null then
+    insert into analysis_runs (
+      media_id, model_name, prompt_version, prompt_template_id, prompt_hash, category_set_version,
+      content_mode, content_chars, chunk_count, omitted_chars, latency_ms, prompt_tokens,
+      completion_tokens, raw_responses, parse_outcome, validation_errors, error_message,
+      error_kind, retry_count
+    )
+    select
+      r.media_id, r.model_name, r.prompt_version, r.prompt_template_id, r.prompt_hash, r.category_set_version,
+      r.content_mode, r.content_chars, r.chunk_count, r.omitted_chars, r.latency_ms, r.prompt_tokens,
+      r.completion_tokens, r.raw_responses, r.parse_outcome, r.validation_errors, r.error_message,
+      r.error_kind, r.retry_count
+    from jsonb_populate_record(null::analysis_runs, run) r
+    returning id into run_id;
+  end if;
+
+  if coalesce(jsonb_array_length(scores), 0) = 0 then
+    return run_id;
+  end if;
+
+  -- Retire the current rows first: the one-current index rejects the new rows otherwise
+  execute format(
+    'update %1$I set is_current = false
+     where media_id = $1 and model_name = $2 and is_current
+       and category_id in (select s.category_id from jsonb_populate_recordset(null::%1$I, $3) s)',
+    score_table
+  ) using target_media_id, target_model_name, scores;
+
+  -- Rows saved before score versions have a null version and count as version 1
+  execute format(
+    'insert into %1$I (
+       media_id, category_id, model_name, score, explanation, content_mode, chunk_spread,
+       confidence, evidence, analysis_run_id, prompt_version, score_version, is_current
+     )
+     select
+       $1, s.category_id, $2, s.score, s.explanation, s.content_mode, s.chunk_spread,
+       s.confidence, s.evidence, $4, s.prompt_version,
+       coalesce((
+         select max(coalesce(p.score_version, 1)) from %1$I p
+         where p.media_id = $1 and p.model_name = $2 and p.category_id = s.category_id
+       ), 0) + 1,
+       true
+     from jsonb_populate_recordset(null::%1$I, $3) s',
+    score_table
+  ) using target_media_id, target_model_name, scores, run_id;
+
+  return run_id;
+end;
+$$;
+
+-- Only the service role writes scores
+revoke execute on function save_model_scores(text, uuid, text, jsonb, jsonb) from public, anon, authenticated;
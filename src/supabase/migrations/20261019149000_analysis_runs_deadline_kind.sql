@@ -0,0 +1,7 @@
+-- Runs skipped because the job worker's time budget ran out (lib/analysisJobs.ts)
+
+alter table analysis_runs
+  drop constraint if exists analysis_runs_error_kind_check,
+  add constraint analysis_runs_error_kind_check check (error_kind in (
+    'rate_limit', 'timeout', 'server_error', 'content_filter', 'parse_error', 'client_error', 'circuit_open', 'deadline', 'unknown'
+  ));
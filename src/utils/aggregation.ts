@@ -0,0 +1,147 @@
+/**
+ * Ensemble Aggregation
+ *
+ * Turns the per-model scores for one article into one score per category.
+ * Every page averages through averageCategoryScores so the modes behave the same
+ * everywhere:
+ *
+ * - mean: plain arithmetic mean (the default, and the only mode before)
+ * - median: middle score, ignores a single outlier model entirely
+ * - trimmed: drops the highest and lowest TRIM_FRACTION of scores (at least one
+ *   each when there are 3 or more) and averages the rest
+ * - weighted: reliability-weighted mean, weights from lib/modelWeights.ts
+ *
+ * Averages also report their uncertainty (standard deviation across models,
+ * model count, self-reported confidence) so pages can show when models disagree.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import { calibrateScore, ModelOffsets } from '@/utils/modelOffsets'
+
+export type AggregationMode = 'mean' | 'median' | 'trimmed' | 'weighted'
+
+export const AGGREGATION_MODES: AggregationMode[] = ['mean', 'median', 'trimmed', 'weighted']
+
+export const DEFAULT_AGGREGATION_MODE: AggregationMode = 'mean'
+
+// Share of scores cut from each end by the trimmed mean
+export const TRIM_FRACTION = 0.2
+
+// Added to a model's error before inverting it, so a near-perfect model can't take all the weight
+export const RELIABILITY_ERROR_FLOOR = 0.05
+
+// Model scores this far apart (standard deviation) are shown as "models disagree"
+export const DISAGREEMENT_STD_DEV = 0.25
+
+// model ID → relative weight (1 = average reliability)
+export type ModelWeights = Record<string, number>
+
+export interface ModelScore {
+  model: string | null
+  score: number
+}
+
+export interface AggregationOptions {
+  mode?: AggregationMode
+  offsets?: ModelOffsets | null // subtracted before aggregating (calibrated scores)
+  weights?: ModelWeights | null // used by 'weighted'; models without a weight count as 1
+}
+
+export interface CategoryAverage {
+  category: string
+  avgScore: number
+  modelCount: number
+  stdDev: number                // spread of the model scores around their mean
+  avgConfidence: number | null  // mean self-reported confidence (null = no model gave one)
+  disagree: boolean
+}
+
+export function parseAggregationMode(value: string | string[] | undefined): AggregationMode {
+  return AGGREGATION_MODES.find(mode => mode === value) ?? DEFAULT_AGGREGATION_MODE
+}
+
+/**
+ * Combine one category's model scores into a single score
+ * Returns 0 for an empty list.
+ */
+export function aggregateScores(
+  scores: ModelScore[],
+  mode: AggregationMode = DEFAULT_AGGREGATION_MODE,
+  weights: ModelWeights | null = null
+): number {
+  if (scores.length === 0) return 0
+  const values = scores.map(s => s.score)
+  const mean = (list: number[]) => list.reduce((sum, v) => sum + v, 0) / list.length
+
+  switch (mode) {
+    case 'median': {
+      const sorted = [...values].sort((a, b) => a - b)
+      const middle = Math.floor(sorted.length / 2)
+      return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+    }
+    case 'trimmed': {
+      const sorted = [...values].sort((a, b) => a - b)
+      const cut = sorted.length >= 3 ? Math.max(1, Math.floor(sorted.length * TRIM_FRACTION)) : 0
+      return mean(sorted.slice(cut, sorted.length - cut))
+    }
+    case 'weighted': {
+      const weightOf = (model: string | null) => (model ? weights?.[model] : undefined) ?? 1
+      const totalWeight = scores.reduce((sum, s) => sum + weightOf(s.model), 0)
+      if (totalWeight <= 0) return mean(values)
+      return scores.reduce((sum, s) => sum + s.score * weightOf(s.model), 0) / totalWeight
+    }
+    default:
+      return mean(values)
+  }
+}
+
+/**
+ * Relative weights from each model's typical error (calibration MAE, or mean
+ * absolute deviation from the ensemble), normalized so the average weight is 1
+ */
+export function reliabilityWeights(errors: Record<string, number>): ModelWeights {
+  const raw = Object.entries(errors)
+    .filter(([, error]) => Number.isFinite(error) && error >= 0)
+    .map(([model, error]) => [model, 1 / (error + RELIABILITY_ERROR_FLOOR)] as const)
+  if (raw.length === 0) return {}
+
+  const meanWeight = raw.reduce((sum, [, weight]) => sum + weight, 0) / raw.length
+  return Object.fromEntries(raw.map(([model, weight]) => [model, weight / meanWeight]))
+}
+
+/**
+ * Per-category aggregate across models, optionally calibrated with `offsets`
+ * (models or categories without an offset are aggregated as-is)
+ *
+ * `disagree` marks spreads of DISAGREEMENT_STD_DEV or more.
+ */
+export function averageCategoryScores(
+  scores: Array<{ model: string | null; category: string | null | undefined; score: number; confidence?: number | null }>,
+  { mode = DEFAULT_AGGREGATION_MODE, offsets = null, weights = null }: AggregationOptions = {}
+): CategoryAverage[] {
+  const byCategory = new Map<string, { scores: ModelScore[]; confidences: number[] }>()
+  for (const { model, category, score, confidence } of scores) {
+    if (!category) continue
+    const offset = model ? offsets?.[model]?.[category] : undefined
+    const entry = byCategory.get(category) || { scores: [], confidences: [] }
+    entry.scores.push({ model, score: calibrateScore(Number(score), offset) })
+    if (confidence !== null && confidence !== undefined) entry.confidences.push(Number(confidence))
+    byCategory.set(category, entry)
+  }
+
+  return Array.from(byCategory.entries()).map(([category, { scores: modelScores, confidences }]) => {
+    const values = modelScores.map(s => s.score)
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length
+    // Population standard deviation: 0 for a single model
+    const stdDev = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length)
+    return {
+      category,
+      avgScore: aggregateScores(modelScores, mode, weights),
+      modelCount: values.length,
+      stdDev,
+      avgConfidence: confidences.length > 0 ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length : null,
+      disagree: values.length > 1 && stdDev >= DISAGREEMENT_STD_DEV
+    }
+  })
+}
@@ -0,0 +1,99 @@
+/**
+ * Calibration Metrics
+ *
+ * Compares model scores against human gold labels for the same article and
+ * category (lib/calibration.ts). Agreement between models says nothing about
+ * whether either is right - these numbers do.
+ *
+ * - MAE: mean |predicted - expected| on the -1..+1 scale
+ * - Correlation: Pearson r (does the model rank articles like the labelers?)
+ * - Sign agreement: share of scores on the same side (left / neutral / right)
+ * - Bias per category: mean (predicted - expected), > 0 = model scores higher than humans
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+// Scores this close to 0 count as neutral for sign agreement
+export const NEUTRAL_BAND = 0.1
+
+export interface ScorePair {
+  category: string
+  expected: number  // gold label
+  predicted: number // model score
+}
+
+export interface CategoryMetrics {
+  n: number
+  mae: number
+  bias: number
+}
+
+export interface CalibrationMetrics {
+  n: number
+  mae: number | null           // null = no pairs
+  correlation: number | null   // null = fewer than 2 pairs or no variance
+  signAgreement: number | null // 0..1
+  byCategory: Record<string, CategoryMetrics>
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+export function scoreSign(score: number): -1 | 0 | 1 {
+  if (Math.abs(score) < NEUTRAL_BAND) return 0
+  return score > 0 ? 1 : -1
+}
+
+/**
+ * Pearson correlation (null when either side has no variance)
+ */
+export function pearsonCorrelation(xs: number[], ys: number[]): number | null {
+  if (xs.length < 2 || xs.length !== ys.length) return null
+  const meanX = mean(xs)
+  const meanY = mean(ys)
+
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  xs.forEach((x, i) => {
+    covariance += (x - meanX) * (ys[i] - meanY)
+    varianceX += (x - meanX) ** 2
+    varianceY += (ys[i] - meanY) ** 2
+  })
+
+  if (varianceX === 0 || varianceY === 0) return null
+  return covariance / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * All metrics for one model's (expected, predicted) pairs
+ */
+export function computeCalibrationMetrics(pairs: ScorePair[]): CalibrationMetrics {
+  const byCategory: Record<string, CategoryMetrics> = {}
+  for (const category of new Set(pairs.map(p => p.category))) {
+    const errors = pairs.filter(p => p.category === category).map(p => p.predicted - p.expected)
+    byCategory[category] = {
+      n: errors.length,
+      mae: round(mean(errors.map(Math.abs))),
+      bias: round(mean(errors))
+    }
+  }
+
+  if (pairs.length === 0) {
+    return { n: 0, mae: null, correlation: null, signAgreement: null, byCategory }
+  }
+
+  const correlation = pearsonCorrelation(pairs.map(p => p.expected), pairs.map(p => p.predicted))
+  return {
+    n: pairs.length,
+    mae: round(mean(pairs.map(p => Math.abs(p.predicted - p.expected)))),
+    correlation: correlation === null ? null : round(correlation),
+    signAgreement: round(pairs.filter(p => scoreSign(p.expected) === scoreSign(p.predicted)).length / pairs.length),
+    byCategory
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * URL Canonicalization
+ *
+ * The same story reaches us under many URLs: tracking parameters from feeds and
+ * newsletters, AMP pages, Google's AMP viewer, http vs https, with or without www.
+ *
+ * - canonicalizeUrl: a cleaned, still-working URL to store in media.url
+ *   (tracking noise and AMP viewer wrappers removed, nothing guessed)
+ * - urlKey: a matching key stored in media.url_key (unique). Goes further than
+ *   canonicalizeUrl (drops scheme, www., trailing slash and AMP path markers),
+ *   so the key is never used as a link.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+// Query parameters that only track where a click came from
+// (generic names like "id" or "cid" are left alone: some sites use them for the article itself)
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'yclid', 'twclid', 'igshid', 'mc_cid', 'mc_eid',
+  'ref', 'ref_src', 'ref_url', 'referrer', 'cmpid', 'ocid', 'smid', 'smtyp', 'taid', 'partner',
+  'guccounter', 'guce_referrer', 'guce_referrer_sig', 'ito', 'sr_share', 'ncid',
+  '_ga', '_gl', 'outputtype', 'amp', 'amp_js_v', 'usqp'
+])
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'hsa_', 'mkt_', 'itm_', 'at_']
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix))
+}
+
+/**
+ * The publisher URL behind an AMP cache or viewer URL, or null if it isn't one
+ *   https://www-example-com.cdn.ampproject.org/c/s/www.example.com/story → https://www.example.com/story
+ *   https://www.google.com/amp/s/www.example.com/story                  → https://www.example.com/story
+ */
+function unwrapAmpViewer(url: URL): string | null {
+  const cache = url.hostname.endsWith('.cdn.ampproject.org') && url.pathname.match(/^\/(?:[cvi]\/)+(s\/)?(.+)$/)
+  const viewer = /^(www\.)?google\.[a-z.]+$/.test(url.hostname) && url.pathname.match(/^\/amp\/(s\/)?(.+)$/)
+  const match = cache || viewer
+  if (!match) return null
+  return `${match[1] ? 'https' : 'http'}://${match[2]}${url.search}`
+}
+
+/**
+ * Clean URL for storage: tracking parameters, fragment and default port removed,
+ * host lowercased, AMP cache/viewer URLs unwrapped to the publisher URL.
+ * Returns the input unchanged if it isn't an http(s) URL.
+ */
+export function canonicalizeUrl(input: string): string {
+  let url: URL
+  try {
+    url = new URL(input.trim())
+  } catch {
+    return input.trim()
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return input.trim()
+
+  const unwrapped = unwrapAmpViewer(url)
+  if (unwrapped && unwrapped !== input) return canonicalizeUrl(unwrapped)
+
+  url.hash = ''
+  const params = Array.from(url.searchParams.entries()).filter(([name]) => !isTrackingParam(name))
+  params.sort(([a], [b]) => a.localeCompare(b))
+  url.search = new URLSearchParams(params).toString()
+  // new URL() already lowercases the host and drops default ports
+  return url.toString()
+}
+
+/**
+ * Matching key for de-duplication: canonicalizeUrl, then scheme, www., AMP path
+ * markers (/amp, .amp, amp. subdomain) and trailing slashes dropped
+ *   https://www.example.com/news/story/amp/?utm_source=x → example.com/news/story
+ */
+export function urlKey(input: string): string {
+  const canonical = canonicalizeUrl(input)
+  let url: URL
+  try {
+    url = new URL(canonical)
+  } catch {
+    return canonical.toLowerCase()
+  }
+
+  const host = url.hostname.replace(/^(www\d*|amp)\./, '')
+  const path = url.pathname
+    .replace(/\/amp\/?$/i, '')
+    .replace(/\.amp(\.html?)?$/i, (_, ext) => ext || '')
+    .replace(/\/+$/, '')
+  const port = url.port ? `:${url.port}` : ''
+  return `${host}${port}${path}${url.search}`
+}
@@ -0,0 +1,129 @@
+/**
+ * Long-Article Chunking
+ *
+ * Splits article content on paragraph boundaries into chunks that fit a model's
+ * context budget, and merges the per-chunk analyses back into one AIAnalysis.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import type { AIAnalysis, AIScore } from '@/lib/ai'
+
+// Upper bound on chunks per article (each chunk is one API call per model)
+export const MAX_CHUNKS = 6
+
+export interface ChunkAnalysis {
+  analysis: AIAnalysis
+  length: number // chunk length in chars, used as the aggregation weight
+}
+
+/**
+ * Split content into paragraphs
+ * Content from extract() is HTML, so </p> closes a paragraph as well as blank lines
+ */
+function splitParagraphs(content: string): string[] {
+  return content
+    .split(/(?<=<\/p>)|\n\s*\n/i)
+    .map(p => p.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Split a single oversized paragraph at sentence ends (hard cut if there are none)
+ */
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  const pieces: string[] = []
+  let rest = paragraph
+
+  while (rest.length > maxChars) {
+    const window = rest.substring(0, maxChars)
+    const lastSentenceEnd = Math.max(
+      window.lastIndexOf('. '),
+      window.lastIndexOf('! '),
+      window.lastIndexOf('? ')
+    )
+    const cut = lastSentenceEnd > 0 ? lastSentenceEnd + 1 : maxChars
+    pieces.push(rest.substring(0, cut).trim())
+    rest = rest.substring(cut).trim()
+  }
+
+  if (rest) pieces.push(rest)
+  return pieces
+}
+
+/**
+ * Pack paragraphs into chunks of at most maxChars
+ *
+ * @param content - Full article content
+ * @param maxChars - Context budget per chunk (ModelConfig.maxContentChars)
+ * @param maxChunks - Chunks beyond this are dropped (the caller logs it)
+ */
+export function chunkContent(content: string, maxChars: number, maxChunks = MAX_CHUNKS): string[] {
+  const chunks: string[] = []
+  let current = ''
+
+  for (const paragraph of splitParagraphs(content)) {
+    for (const piece of splitLongParagraph(paragraph, maxChars)) {
+      const joined = current ? `${current}\n\n${piece}` : piece
+
+      if (joined.length <= maxChars) {
+        current = joined
+      } else {
+        chunks.push(current)
+        current = piece
+      }
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks.slice(0, maxChunks)
+}
+
+/**
+ * Merge per-chunk analyses into one AIAnalysis
+ *
+ * - score: length-weighted mean of the chunk scores (rounded to 2 decimals)
+ * - spread: max - min chunk score, so a piece that swings between framings is visible
+ * - explanation / summary: per-chunk texts labelled "Part i/n"
+ * - quotes: all chunks' quotes (located in the full article later)
+ *
+ * Categories missing from a chunk are averaged over the chunks that scored them.
+ */
+export function aggregateChunkAnalyses(chunks: ChunkAnalysis[], categoryNames: string[]): AIAnalysis {
+  const scores: AIScore[] = []
+
+  for (const category of categoryNames) {
+    const parts = chunks
+      .map((chunk, index) => ({ index, length: chunk.length, score: chunk.analysis.scores.find(s => s.category === category) }))
+      .filter((part): part is { index: number; length: number; score: AIScore } => !!part.score)
+
+    if (parts.length === 0) continue
+
+    const totalLength = parts.reduce((sum, part) => sum + part.length, 0)
+    const weightedMean = parts.reduce((sum, part) => sum + part.score.score * part.length, 0) / totalLength
+    const values = parts.map(part => part.score.score)
+    const confident = parts.filter(part => typeof part.score.confidence === 'number')
+    const confidenceLength = confident.reduce((sum, part) => sum + part.length, 0)
+
+    scores.push({
+      category,
+      score: Math.round(weightedMean * 100) / 100,
+      explanation: parts
+        .map(part => `[Part ${part.index + 1}/${chunks.length}] ${part.score.explanation}`)
+        .join(' '),
+      spread: Math.round((Math.max(...values) - Math.min(...values)) * 100) / 100,
+      // Length-weighted like the score, over the chunks that reported one
+      confidence: confident.length > 0
+        ? Math.round(confident.reduce((sum, part) => sum + part.score.confidence! * part.length, 0) / confidenceLength * 100) / 100
+        : null,
+      quotes: [...new Set(parts.flatMap(part => part.score.quotes || []))]
+    })
+  }
+
+  return {
+    scores,
+    summary: chunks
+      .map((chunk, index) => `[Part ${index + 1}/${chunks.length}] ${chunk.analysis.summary}`)
+      .join(' ')
+  }
+}
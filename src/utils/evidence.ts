@@ -0,0 +1,99 @@
+/**
+ * Evidence Quotes
+ *
+ * Models cite verbatim quotes for each score (AIScore.quotes). Before saving, each
+ * quote is located in the article's plain text and turned into an EvidenceQuote with
+ * character offsets. Quotes that don't actually appear in the article are discarded.
+ *
+ * Offsets index into articlePlainText(content), the same text the article detail
+ * page renders, so highlights line up without re-searching.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import type { AIAnalysis, EvidenceQuote } from '@/lib/ai'
+
+// Per score - more than this is usually the model pasting whole paragraphs
+export const MAX_QUOTES_PER_SCORE = 3
+
+// Shorter quotes ("the", "said") match anywhere and prove nothing
+const MIN_QUOTE_LENGTH = 12
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  rsquo: "'", lsquo: "'", rdquo: '"', ldquo: '"', mdash: '—', ndash: '–', hellip: '…'
+}
+
+/**
+ * Readable text of extracted article HTML
+ * Block elements become paragraph breaks, tags are dropped and entities decoded
+ */
+export function articlePlainText(html: string): string {
+  return html
+    .replace(/<\/(p|h[1-6]|li|blockquote|div)>|<br\s*\/?>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&([a-z]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match)
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Curly quotes → straight, so "it’s" in the article matches "it's" from the model (same length)
+function straightenQuotes(text: string): string {
+  return text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"')
+}
+
+/**
+ * Find a quote in the article text, tolerating whitespace and curly-quote differences
+ * Returns null if the quote is not verbatim in the text
+ */
+export function locateQuote(quote: string, text: string): EvidenceQuote | null {
+  const cleaned = straightenQuotes(quote)
+    .trim()
+    .replace(/^["']+|["']+$/g, '') // models often wrap quotes in quotation marks
+    .replace(/^(\.\.\.|…)|(\.\.\.|…)$/g, '')
+    .trim()
+
+  if (cleaned.length < MIN_QUOTE_LENGTH) return null
+
+  const haystack = straightenQuotes(text)
+  const words = cleaned.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  const match = new RegExp(words.join('\\s+')).exec(haystack)
+
+  if (!match) return null
+
+  return {
+    quote: text.substring(match.index, match.index + match[0].length),
+    start: match.index,
+    end: match.index + match[0].length
+  }
+}
+
+/**
+ * Locate every score's quotes and store the ones found as score.evidence
+ * Mutates and returns the analysis; discarded = quotes not found in the text
+ */
+export function attachEvidence(analysis: AIAnalysis, text: string): { analysis: AIAnalysis; discarded: number } {
+  let discarded = 0
+
+  for (const score of analysis.scores) {
+    const evidence: EvidenceQuote[] = []
+
+    for (const quote of score.quotes || []) {
+      const located = locateQuote(quote, text)
+      if (!located) {
+        discarded++
+        continue
+      }
+      if (evidence.length < MAX_QUOTES_PER_SCORE && !evidence.some(e => e.start === located.start)) {
+        evidence.push(located)
+      }
+    }
+
+    score.evidence = evidence
+  }
+
+  return { analysis, discarded }
+}
@@ -0,0 +1,157 @@
+/**
+ * RSS / Atom Feed Parser
+ *
+ * Reads the subset of RSS 2.0 and Atom 1.0 that news outlets actually publish:
+ * per item a title, link, ID, summary, publish date and lead image. Good enough
+ * for ingestion without an XML dependency; anything fancier (namespaced
+ * extensions, multiple enclosures) is ignored.
+ *
+ * Text fields go through articlePlainText, so CDATA, escaped HTML and entities
+ * all come out as plain text.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import { articlePlainText } from '@/utils/evidence'
+
+export interface FeedItem {
+  title: string
+  link: string
+  guid: string | null
+  description: string | null
+  publishedAt: string | null // ISO timestamp
+  imageUrl: string | null
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom'
+  title: string | null
+  items: FeedItem[]
+}
+
+// Longer summaries are cut here (media.description is a teaser, not the article)
+const MAX_DESCRIPTION_CHARS = 500
+
+function escapeTag(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Contents of every <tag>...</tag> (not self-closing ones)
+function elements(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*?)?(?<!/)>([\\s\\S]*?)</${escapeTag(tag)}>`, 'gi')
+  return Array.from(xml.matchAll(pattern), match => match[1])
+}
+
+// Opening (or self-closing) tags with their attributes, for <link href>, <enclosure url>...
+function openingTags(xml: string, tag: string): string[] {
+  return Array.from(xml.matchAll(new RegExp(`<${escapeTag(tag)}(?:\\s[^>]*)?>`, 'gi')), match => match[0])
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${escapeTag(name)}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i'))
+  return match ? decodeXml(match[1] ?? match[2]) : null
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&(lt|gt|quot|apos);/g, (_, name) => ({ lt: '<', gt: '>', quot: '"', apos: "'" })[name as 'lt'])
+    .replace(/&amp;/g, '&')
+}
+
+// Plain text of the first <tag>: CDATA unwrapped, XML unescaped, then any HTML stripped
+function textOf(xml: string, tag: string): string | null {
+  const raw = elements(xml, tag)[0]
+  if (raw === undefined) return null
+  const cdata = raw.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  const text = articlePlainText(cdata ? cdata[1] : decodeXml(raw))
+  return text || null
+}
+
+function isoDate(value: string | null): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date.toISOString()
+}
+
+function truncate(text: string | null): string | null {
+  if (!text || text.length <= MAX_DESCRIPTION_CHARS) return text
+  return text.substring(0, MAX_DESCRIPTION_CHARS - 1).trimEnd() + '…'
+}
+
+function isHttpUrl(value: string | null): value is string {
+  return !!value && /^https?:\/\//i.test(value)
+}
+
+// Lead image: <media:content medium="image">, <media:thumbnail>, or an image enclosure
+function imageOf(xml: string): string | null {
+  const candidates = [
+    ...openingTags(xml, 'media:content').filter(tag =>
+      attribute(tag, 'medium') === 'image' || (attribute(tag, 'type') || '').startsWith('image/')),
+    ...openingTags(xml, 'media:thumbnail'),
+    ...openingTags(xml, 'enclosure').filter(tag => (attribute(tag, 'type') || '').startsWith('image/'))
+  ]
+  const url = candidates.map(tag => attribute(tag, 'url')).find(isHttpUrl)
+  return url || null
+}
+
+function rssItem(xml: string): FeedItem | null {
+  const guid = textOf(xml, 'guid')
+  const link = [textOf(xml, 'link'), guid].find(isHttpUrl)
+  const title = textOf(xml, 'title')
+  if (!title || !link) return null
+  return {
+    title,
+    link,
+    guid,
+    description: truncate(textOf(xml, 'description') || textOf(xml, 'content:encoded')),
+    publishedAt: isoDate(textOf(xml, 'pubDate') || textOf(xml, 'dc:date')),
+    imageUrl: imageOf(xml)
+  }
+}
+
+function atomEntry(xml: string): FeedItem | null {
+  const links = openingTags(xml, 'link')
+  const alternate = links.find(tag => (attribute(tag, 'rel') || 'alternate') === 'alternate')
+  const link = alternate ? attribute(alternate, 'href') : null
+  const title = textOf(xml, 'title')
+  if (!title || !isHttpUrl(link)) return null
+  const enclosure = links.find(tag => attribute(tag, 'rel') === 'enclosure' && (attribute(tag, 'type') || '').startsWith('image/'))
+  return {
+    title,
+    link,
+    guid: textOf(xml, 'id'),
+    description: truncate(textOf(xml, 'summary') || textOf(xml, 'content')),
+    publishedAt: isoDate(textOf(xml, 'published') || textOf(xml, 'updated')),
+    imageUrl: imageOf(xml) || (enclosure ? attribute(enclosure, 'href') : null)
+  }
+}
+
+/**
+ * Parse an RSS 2.0 or Atom 1.0 document
+ * Items without a title or an http(s) link are skipped. Throws if the document is neither format.
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  if (/<rss[\s>]|<rdf:RDF[\s>]/i.test(xml)) {
+    const items = elements(xml, 'item')
+    const channel = xml.replace(/<item[\s>][\s\S]*?<\/item>/gi, '')
+    return {
+      format: 'rss',
+      title: textOf(channel, 'title'),
+      items: items.map(rssItem).filter((item): item is FeedItem => item !== null)
+    }
+  }
+
+  if (/<feed[\s>]/i.test(xml)) {
+    const entries = elements(xml, 'entry')
+    const header = xml.replace(/<entry[\s>][\s\S]*?<\/entry>/gi, '')
+    return {
+      format: 'atom',
+      title: textOf(header, 'title'),
+      items: entries.map(atomEntry).filter((item): item is FeedItem => item !== null)
+    }
+  }
+
+  throw new Error('Not an RSS or Atom feed')
+}
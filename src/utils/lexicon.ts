@@ -0,0 +1,69 @@
+/**
+ * Word lists for the lexicon analyzer (utils/textFeatures.ts)
+ *
+ * Hand-curated for English news copy. Terms are lowercase and matched as whole
+ * words or phrases, so list every inflection that matters ("slams", "slammed").
+ * Bump LEXICON_VERSION whenever a list changes: stored features record the
+ * version they were computed with.
+ */
+
+export const LEXICON_VERSION = 'lexicon@v1'
+
+// Emotive or judgmental wording a neutral report would avoid
+export const LOADED_TERMS = [
+  // Conflict verbs in place of "criticized" / "said"
+  'slams', 'slammed', 'blasts', 'blasted', 'rips', 'ripped', 'torches', 'torched',
+  'lashes out', 'lashed out', 'rails against', 'railed against', 'destroys', 'destroyed',
+  'eviscerates', 'eviscerated', 'annihilates', 'annihilated', 'obliterates', 'obliterated',
+  'humiliates', 'humiliated', 'rants', 'ranted', 'fumes', 'fumed', 'scoffs', 'scoffed',
+  'admits', 'admitted', 'claims', 'claimed', 'insists', 'insisted',
+  // Disaster and alarm
+  'chaos', 'chaotic', 'crisis', 'catastrophe', 'catastrophic', 'disaster', 'disastrous',
+  'devastating', 'meltdown', 'firestorm', 'bombshell', 'explosive', 'shocking', 'stunning',
+  'alarming', 'terrifying', 'nightmare', 'apocalyptic', 'collapse', 'crumbling', 'spiraling',
+  'skyrocketing', 'skyrocketed', 'plummeting', 'plummeted', 'soaring', 'unprecedented',
+  // Moral judgment
+  'outrageous', 'outrage', 'disgraceful', 'shameful', 'shameless', 'despicable', 'vile',
+  'evil', 'sinister', 'corrupt', 'corruption', 'scandal', 'scandalous', 'heinous', 'appalling',
+  'reckless', 'radical', 'extremist', 'extreme', 'dangerous', 'fringe', 'far-left', 'far-right',
+  'regime', 'thugs', 'mob', 'elites', 'elitist', 'propaganda', 'brainwashed', 'woke',
+  'so-called', 'controversial', 'embattled', 'disgraced', 'infamous', 'notorious',
+  // Praise
+  'heroic', 'heroically', 'brave', 'courageous', 'visionary', 'brilliant', 'masterful',
+  'triumph', 'triumphant', 'landmark', 'historic', 'game-changer', 'game-changing',
+  'bold', 'fearless', 'patriotic', 'champion', 'beloved',
+  // Intensifiers
+  'absolutely', 'utterly', 'totally', 'completely', 'blatantly', 'blatant', 'brazen',
+  'brazenly', 'staggering', 'massive', 'huge', 'incredible', 'unbelievable', 'insane',
+  'ridiculous', 'absurd', 'laughable', 'pathetic'
+]
+
+// Hedges and weasel wording that soften or obscure a claim
+export const HEDGING_TERMS = [
+  'may', 'might', 'could', 'possibly', 'perhaps', 'reportedly', 'allegedly', 'apparently',
+  'seemingly', 'arguably', 'likely', 'unlikely', 'probably', 'presumably', 'supposedly',
+  'suggests', 'suggested', 'appears to', 'appeared to', 'seems to', 'seemed to',
+  'some say', 'some argue', 'critics say', 'experts say', 'many believe', 'it is believed',
+  'it is thought', 'sources say', 'people familiar', 'is said to', 'are said to',
+  'to some extent', 'in some ways', 'somewhat', 'relatively', 'largely', 'unclear',
+  'not yet known', 'remains to be seen'
+]
+
+// Verbs and phrases that attribute a statement to a source
+export const ATTRIBUTION_TERMS = [
+  'said', 'says', 'told', 'tells', 'stated', 'states', 'according to', 'added', 'adds',
+  'wrote', 'writes', 'explained', 'noted', 'argued', 'asked', 'replied', 'responded',
+  'testified', 'announced', 'confirmed', 'denied', 'in a statement', 'spokesperson',
+  'spokesman', 'spokeswoman', 'reported', 'reports'
+]
+
+// Irregular past participles for the passive-voice check ("was given", "were hit")
+export const IRREGULAR_PARTICIPLES = [
+  'begun', 'bitten', 'blown', 'born', 'bought', 'brought', 'built', 'caught',
+  'chosen', 'cut', 'done', 'drawn', 'driven', 'eaten', 'fallen', 'felt', 'forgiven',
+  'forgotten', 'found', 'frozen', 'given', 'gone', 'grown', 'heard', 'held', 'hidden', 'hit',
+  'hurt', 'kept', 'known', 'laid', 'led', 'left', 'lent', 'lost', 'made', 'meant', 'met',
+  'paid', 'put', 'read', 'ridden', 'run', 'said', 'seen', 'sent', 'set', 'shaken', 'shot',
+  'shown', 'shut', 'sold', 'spent', 'spoken', 'stolen', 'struck', 'sung', 'sworn', 'taken',
+  'taught', 'thought', 'thrown', 'told', 'torn', 'understood', 'woken', 'won', 'worn', 'written'
+]
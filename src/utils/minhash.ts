@@ -0,0 +1,88 @@
+/**
+ * Near-Duplicate Detection (shingling + MinHash)
+ *
+ * Syndicated wire stories differ from each other only by a headline tweak, a byline
+ * or a trailing paragraph. Comparing sets of word 5-grams ("shingles") catches that;
+ * MinHash compresses each set into a fixed-size signature whose agreement rate
+ * estimates the Jaccard similarity, and banding the signature (LSH) finds candidate
+ * pairs without comparing every article with every other one.
+ *
+ * Same text in → same signature out (seeded hashes, no randomness), so signatures
+ * can be stored and compared across runs.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+export const SHINGLE_SIZE = 5             // words per shingle
+export const SIGNATURE_SIZE = 128         // hash functions per signature
+export const LSH_BANDS = 32               // bands of SIGNATURE_SIZE / LSH_BANDS rows each
+export const NEAR_DUPLICATE_THRESHOLD = 0.7 // estimated Jaccard at which two articles are the same story
+export const MIN_SHINGLES = 20            // shorter texts (teasers, paywalls) are too small to compare
+
+// murmur3 finalizer: a fast, well-mixed 32-bit hash of a 32-bit value
+function mix32(value: number): number {
+  let h = value >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b)
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+// FNV-1a over a string's UTF-16 code units
+function hashString(text: string): number {
+  let h = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    h = Math.imul(h ^ text.charCodeAt(i), 0x01000193)
+  }
+  return h >>> 0
+}
+
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(i * 0x9e3779b9 + 1))
+
+/**
+ * Hashed word shingles of a text (lowercased, punctuation ignored)
+ */
+export function shingles(text: string, size = SHINGLE_SIZE): Set<number> {
+  const words = text.replace(/[‘’]/g, "'").toLowerCase().match(/[a-z0-9]+(?:'[a-z]+)?/g) || []
+  const result = new Set<number>()
+  for (let i = 0; i + size <= words.length; i++) {
+    result.add(hashString(words.slice(i, i + size).join(' ')))
+  }
+  return result
+}
+
+/**
+ * MinHash signature: for each seeded hash, the minimum over all shingles
+ */
+export function minhashSignature(shingleSet: Set<number>): number[] {
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff)
+  for (const shingle of shingleSet) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature
+}
+
+/**
+ * Estimated Jaccard similarity: share of signature positions that agree
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0
+  let same = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) same++
+  }
+  return same / a.length
+}
+
+/**
+ * LSH band keys: two signatures sharing any key are candidate near-duplicates
+ * With 32 bands of 4 rows, pairs at 0.7 similarity share a band ~99.9% of the time.
+ */
+export function lshBandKeys(signature: number[]): string[] {
+  const rows = Math.floor(signature.length / LSH_BANDS)
+  return Array.from({ length: LSH_BANDS }, (_, band) =>
+    `${band}:${hashString(signature.slice(band * rows, (band + 1) * rows).join(',')).toString(36)}`
+  )
+}
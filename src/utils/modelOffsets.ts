@@ -0,0 +1,78 @@
+/**
+ * Model Tendencies and Calibrated Scores
+ *
+ * A model's tendency in a category is its mean deviation from the ensemble
+ * (the average of every model's score for the same article and category).
+ * The homepage and dashboard display tendencies; lib/modelOffsets.ts stores
+ * them per model and category as offsets.
+ *
+ * A calibrated score subtracts the model's offset before averaging, so a model
+ * that always scores +0.15 higher than the others stops pulling every average up.
+ * Averaging itself lives in utils/aggregation.ts.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+// Fewer (article, category) comparisons than this and the offset is mostly noise
+export const MIN_OFFSET_SAMPLES = 5
+
+export interface ScoreObservation {
+  mediaId: string
+  model: string
+  category: string // category name or ID - used only as a grouping key
+  score: number
+}
+
+export interface ModelTendency {
+  deviation: number // mean (model score - ensemble mean)
+  count: number     // (article, category) comparisons
+}
+
+// model ID → category → tendency
+export type ModelTendencies = Record<string, Record<string, ModelTendency>>
+
+// model ID → category name → offset to subtract
+export type ModelOffsets = Record<string, Record<string, number>>
+
+/**
+ * Mean deviation of each model from the ensemble, per category
+ *
+ * Only (article, category) groups scored by at least `minModels` of `modelIds`
+ * count (default: all of them, so every model is compared against the same ensemble).
+ */
+export function computeModelTendencies(
+  observations: ScoreObservation[],
+  modelIds: string[],
+  { minModels = modelIds.length }: { minModels?: number } = {}
+): ModelTendencies {
+  const tendencies: ModelTendencies = Object.fromEntries(modelIds.map(model => [model, {}]))
+
+  const groups = new Map<string, ScoreObservation[]>()
+  for (const observation of observations) {
+    if (!observation.category || !modelIds.includes(observation.model)) continue
+    const key = `${observation.mediaId}|${observation.category}`
+    groups.set(key, [...(groups.get(key) || []), observation])
+  }
+
+  for (const group of groups.values()) {
+    if (group.length < minModels) continue
+    const ensembleMean = group.reduce((sum, o) => sum + o.score, 0) / group.length
+
+    for (const { model, category, score } of group) {
+      const tendency = tendencies[model][category] || { deviation: 0, count: 0 }
+      // Running mean
+      tendency.count += 1
+      tendency.deviation += (score - ensembleMean - tendency.deviation) / tendency.count
+      tendencies[model][category] = tendency
+    }
+  }
+
+  return tendencies
+}
+
+/**
+ * Score with the model's systematic lean removed, kept on the -1..+1 scale
+ */
+export function calibrateScore(score: number, offset = 0): number {
+  return Math.max(-1, Math.min(1, score - offset))
+}
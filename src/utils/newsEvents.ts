@@ -0,0 +1,178 @@
+/**
+ * News Event Grouping
+ *
+ * Different outlets writing their own reports of one event share few word
+ * sequences (so MinHash in utils/minhash.ts misses them) but share the names,
+ * places and numbers that make up the event. Each article becomes a TF-IDF vector
+ * of its title (weighted TITLE_WEIGHT times) plus the lead of its text; articles
+ * published within EVENT_WINDOW_HOURS of each other whose vectors reach
+ * EVENT_SIMILARITY_THRESHOLD cosine similarity are linked, and linked articles
+ * form one event (connected components).
+ *
+ * Same articles in → same groups out, in a stable order.
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+export const EVENT_WINDOW_HOURS = 48          // max publish-time gap between two linked articles
+export const EVENT_SIMILARITY_THRESHOLD = 0.25 // TF-IDF cosine at which two articles cover the same event
+export const TITLE_WEIGHT = 2                 // a headline term counts as much as two lead terms
+export const LEAD_WORDS = 150                 // lead paragraphs state the event; bodies drift into background
+export const MIN_EVENT_OUTLETS = 2            // an event covered by one outlet has nothing to compare
+
+export interface EventCandidate {
+  id: string
+  source: string | null
+  title: string
+  text: string           // description and/or plain text; only the first LEAD_WORDS words are used
+  publishedAt: string    // ISO timestamp (callers fall back to the stored time)
+}
+
+// Function words and newsroom boilerplate that say nothing about the event
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'him', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'get',
+  'let', 'she', 'too', 'use', 'that', 'with', 'have', 'this', 'will', 'your', 'from', 'they', 'been',
+  'were', 'said', 'says', 'each', 'which', 'their', 'there', 'what', 'when', 'where', 'would', 'could',
+  'should', 'about', 'after', 'before', 'over', 'into', 'than', 'then', 'them', 'these', 'those',
+  'some', 'more', 'most', 'other', 'also', 'just', 'only', 'very', 'while', 'being', 'such', 'here',
+  'because', 'between', 'during', 'against', 'under', 'again', 'still', 'even', 'many', 'much',
+  'week', 'year', 'years', 'today', 'yesterday', 'monday', 'tuesday', 'wednesday', 'thursday',
+  'friday', 'saturday', 'sunday', 'according', 'told', 'report', 'reported', 'reports', 'news',
+  'latest', 'update', 'live', 'watch', 'video', 'read'
+])
+
+/**
+ * Event terms of an article: lowercase words of 3+ characters, stop words dropped,
+ * plural "-s" trimmed so "tariffs" matches "tariff". Headline terms count TITLE_WEIGHT times.
+ */
+export function eventTerms(title: string, text: string): Map<string, number> {
+  const terms = new Map<string, number>()
+  const add = (source: string, weight: number, limit: number) => {
+    const words = source.toLowerCase().match(/[a-z0-9]+/g) || []
+    for (const word of words.slice(0, limit)) {
+      if (word.length < 3 || STOP_WORDS.has(word)) continue
+      const term = word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word
+      terms.set(term, (terms.get(term) || 0) + weight)
+    }
+  }
+  add(title, TITLE_WEIGHT, Number.POSITIVE_INFINITY)
+  add(text, 1, LEAD_WORDS)
+  return terms
+}
+
+// Term weights scaled by inverse document frequency and normalized to unit length
+function tfidfVectors(termCounts: Array<Map<string, number>>): Array<Map<string, number>> {
+  const documentFrequency = new Map<string, number>()
+  for (const terms of termCounts) {
+    for (const term of terms.keys()) documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+  }
+
+  return termCounts.map(terms => {
+    const vector = new Map<string, number>()
+    let norm = 0
+    for (const [term, count] of terms) {
+      const weight = count * Math.log(1 + termCounts.length / documentFrequency.get(term)!)
+      vector.set(term, weight)
+      norm += weight * weight
+    }
+    norm = Math.sqrt(norm)
+    if (norm > 0) {
+      for (const [term, weight] of vector) vector.set(term, weight / norm)
+    }
+    return vector
+  })
+}
+
+/**
+ * Cosine similarity of two unit-length vectors (0 = nothing shared, 1 = same terms)
+ */
+export function cosineSimilarity(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a]
+  let dot = 0
+  for (const [term, weight] of small) {
+    const other = large.get(term)
+    if (other) dot += weight * other
+  }
+  return Math.min(1, dot)
+}
+
+/**
+ * Group articles into events
+ *
+ * Returns groups of article ids (each sorted by publish time) that span at least
+ * MIN_EVENT_OUTLETS distinct outlets, earliest group first. Articles left out
+ * belong to no event.
+ */
+export function groupEvents(
+  candidates: EventCandidate[],
+  {
+    windowHours = EVENT_WINDOW_HOURS,
+    threshold = EVENT_SIMILARITY_THRESHOLD
+  }: { windowHours?: number; threshold?: number } = {}
+): string[][] {
+  const ordered = [...candidates].sort((a, b) => a.publishedAt.localeCompare(b.publishedAt) || a.id.localeCompare(b.id))
+  const vectors = tfidfVectors(ordered.map(c => eventTerms(c.title, c.text)))
+  const times = ordered.map(c => new Date(c.publishedAt).getTime())
+  const windowMs = windowHours * 60 * 60 * 1000
+
+  // Union-find over the ordered indices
+  const parent = ordered.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  for (let i = 0; i < ordered.length; i++) {
+    // Sorted by time: stop once the next article is outside the window
+    for (let j = i + 1; j < ordered.length && times[j] - times[i] <= windowMs; j++) {
+      if (cosineSimilarity(vectors[i], vectors[j]) >= threshold) {
+        const [rootI, rootJ] = [find(i), find(j)]
+        if (rootI !== rootJ) parent[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ)
+      }
+    }
+  }
+
+  const groups = new Map<number, EventCandidate[]>()
+  ordered.forEach((candidate, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) || []), candidate])
+  })
+
+  return Array.from(groups.values())
+    .filter(members => new Set(members.map(m => (m.source || m.id).toLowerCase())).size >= MIN_EVENT_OUTLETS)
+    .map(members => members.map(m => m.id))
+}
+
+export interface CategorySpread {
+  category: string
+  min: number
+  max: number
+  spread: number         // max - min: how differently the outlets framed the event
+  articleCount: number   // articles with a score in this category
+}
+
+/**
+ * Range of the per-article averaged scores in each category, widest first
+ * Categories scored for fewer than two articles have nothing to compare and are left out.
+ */
+export function categorySpreads(articles: Array<Array<{ category: string; avgScore: number }>>): CategorySpread[] {
+  const scoresByCategory = new Map<string, number[]>()
+  for (const averages of articles) {
+    for (const { category, avgScore } of averages) {
+      scoresByCategory.set(category, [...(scoresByCategory.get(category) || []), avgScore])
+    }
+  }
+
+  return Array.from(scoresByCategory.entries())
+    .filter(([, scores]) => scores.length >= 2)
+    .map(([category, scores]) => {
+      const min = Math.min(...scores)
+      const max = Math.max(...scores)
+      return { category, min, max, spread: max - min, articleCount: scores.length }
+    })
+    .sort((a, b) => b.spread - a.spread || a.category.localeCompare(b.category))
+}
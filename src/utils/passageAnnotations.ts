@@ -0,0 +1,186 @@
+/**
+ * Sentence-Level Annotations
+ *
+ * For the article heatmap, the cached article text is split into numbered
+ * sentences and a model flags the ones that lean, with a category and a -1..+1
+ * score (lib/passageAnnotations.ts). Sentence offsets index into
+ * articlePlainText(content), the same text the detail page renders, like
+ * evidence quotes (utils/evidence.ts).
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import { extractJsonText } from '@/utils/validateAnalysis'
+
+// Longer articles are annotated up to this sentence (keeps the prompt and reply bounded)
+export const MAX_ANNOTATED_SENTENCES = 150
+
+// Fragments shorter than this ("Mr.", "U.S.") are joined to the next one in the same paragraph
+const MIN_SENTENCE_LENGTH = 20
+
+export interface Sentence {
+  index: number // 1-based, the number shown to the model
+  text: string
+  start: number
+  end: number
+}
+
+export interface SentenceAnnotation {
+  sentence: number
+  category: string // canonical category name
+  score: number    // -1..+1, sign = direction
+  reason: string
+}
+
+export interface AnnotationValidation {
+  annotations: SentenceAnnotation[] | null // null when errors is non-empty
+  errors: string[]
+}
+
+// One stored annotation with its offsets, as the heatmap reads it
+export interface AnnotationSpan {
+  modelName: string
+  category: string
+  start: number
+  end: number
+  score: number
+  reason: string | null
+}
+
+export interface HeatSegment {
+  text: string
+  score: number | null      // mean of the models that flagged this sentence (null = not flagged)
+  spans: AnnotationSpan[]
+}
+
+/**
+ * Split plain article text into sentences with character offsets
+ * Splits at sentence-ending punctuation and at paragraph breaks.
+ */
+export function splitSentences(text: string, maxSentences = MAX_ANNOTATED_SENTENCES): Sentence[] {
+  const raw: Array<{ start: number; end: number }> = []
+  for (const match of text.matchAll(/[^.!?\n]+(?:[.!?]+["'”’)\]]*)?/g)) {
+    const leading = match[0].length - match[0].trimStart().length
+    const trimmed = match[0].trim()
+    if (!/\w/.test(trimmed)) continue
+    const start = match.index! + leading
+    raw.push({ start, end: start + trimmed.length })
+  }
+
+  const merged: Array<{ start: number; end: number }> = []
+  for (const part of raw) {
+    const last = merged[merged.length - 1]
+    const sameParagraph = last && !text.substring(last.end, part.start).includes('\n')
+    if (last && sameParagraph && last.end - last.start < MIN_SENTENCE_LENGTH) {
+      last.end = part.end
+    } else {
+      merged.push({ ...part })
+    }
+  }
+
+  return merged.slice(0, maxSentences).map((part, i) => ({
+    index: i + 1,
+    text: text.substring(part.start, part.end),
+    start: part.start,
+    end: part.end
+  }))
+}
+
+/**
+ * Clean, parse and validate an annotation reply
+ * Category names are matched case-insensitively; zero scores are dropped (not biased).
+ */
+export function parseAnnotationResponse(
+  text: string,
+  sentenceCount: number,
+  categoryNames: string[]
+): AnnotationValidation {
+  let data: unknown
+  try {
+    data = JSON.parse(extractJsonText(text))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { annotations: null, errors: [`Response is not valid JSON: ${message}`] }
+  }
+
+  const entries = data && typeof data === 'object' ? (data as { annotations?: unknown }).annotations : undefined
+  if (!Array.isArray(entries)) {
+    return { annotations: null, errors: ['Response must be a JSON object with an "annotations" array'] }
+  }
+
+  const canonicalNames = new Map(categoryNames.map(name => [name.toLowerCase(), name]))
+  const errors: string[] = []
+  const seen = new Set<string>()
+  const annotations: SentenceAnnotation[] = []
+
+  entries.forEach((entry, index) => {
+    const { sentence, category, score, reason } = (entry && typeof entry === 'object' ? entry : {}) as {
+      sentence?: unknown
+      category?: unknown
+      score?: unknown
+      reason?: unknown
+    }
+
+    if (typeof sentence !== 'number' || !Number.isInteger(sentence) || sentence < 1 || sentence > sentenceCount) {
+      errors.push(`annotations[${index}] has sentence ${JSON.stringify(sentence)} (expected 1-${sentenceCount})`)
+      return
+    }
+
+    const categoryName = typeof category === 'string' ? canonicalNames.get(category.trim().toLowerCase()) : undefined
+    if (!categoryName) {
+      errors.push(`annotations[${index}] has unknown category ${JSON.stringify(category)} (expected one of: ${categoryNames.join(', ')})`)
+      return
+    }
+
+    if (typeof score !== 'number' || !Number.isFinite(score) || score < -1 || score > 1) {
+      errors.push(`annotations[${index}] score must be a number between -1 and +1, got ${JSON.stringify(score)}`)
+      return
+    }
+
+    const key = `${sentence}|${categoryName}`
+    if (seen.has(key)) {
+      errors.push(`Sentence ${sentence} is flagged for "${categoryName}" more than once`)
+      return
+    }
+    seen.add(key)
+
+    if (score === 0) return
+    annotations.push({ sentence, category: categoryName, score, reason: typeof reason === 'string' ? reason.trim() : '' })
+  })
+
+  if (errors.length > 0) {
+    return { annotations: null, errors }
+  }
+  return { annotations, errors: [] }
+}
+
+/**
+ * Split the article text into plain and flagged segments for one category
+ * Spans for the same sentence from several models are merged into one segment
+ * scored with their mean.
+ */
+export function buildHeatmapSegments(text: string, spans: AnnotationSpan[], category: string): HeatSegment[] {
+  const bySentence = new Map<string, AnnotationSpan[]>()
+  for (const span of spans) {
+    if (span.category !== category || span.start < 0 || span.end > text.length || span.start >= span.end) continue
+    const key = `${span.start}:${span.end}`
+    bySentence.set(key, [...(bySentence.get(key) || []), span])
+  }
+
+  const groups = Array.from(bySentence.values()).sort((a, b) => a[0].start - b[0].start)
+  const segments: HeatSegment[] = []
+  let cursor = 0
+  for (const group of groups) {
+    const { start, end } = group[0]
+    if (start < cursor) continue // overlaps the previous sentence (text changed between runs)
+    if (start > cursor) segments.push({ text: text.substring(cursor, start), score: null, spans: [] })
+    segments.push({
+      text: text.substring(start, end),
+      score: group.reduce((sum, span) => sum + span.score, 0) / group.length,
+      spans: group
+    })
+    cursor = end
+  }
+  if (cursor < text.length) segments.push({ text: text.substring(cursor), score: null, spans: [] })
+  return segments
+}
@@ -0,0 +1,114 @@
+/**
+ * Lexicon Text Features
+ *
+ * A deterministic baseline that needs no model: counts computed straight from the
+ * article's plain text with the word lists in utils/lexicon.ts.
+ *
+ * - loaded term density: emotive/judgmental terms per 1,000 words
+ * - hedging density: hedges and weasel phrases per 1,000 words
+ * - attributed quote ratio: share of direct quotes with an attribution ("said",
+ *   "according to"...) within ATTRIBUTION_WINDOW characters
+ * - passive voice rate: share of sentences with a be-verb + past participle
+ * - source citations: attribution phrases anywhere in the text
+ *
+ * Same text in → same numbers out, so features are comparable across articles
+ * and over time (as long as LEXICON_VERSION is the same).
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import { ATTRIBUTION_TERMS, HEDGING_TERMS, IRREGULAR_PARTICIPLES, LOADED_TERMS } from '@/utils/lexicon'
+import { splitSentences } from '@/utils/passageAnnotations'
+
+// Characters before or after a quote searched for its attribution
+export const ATTRIBUTION_WINDOW = 100
+
+// Quotes shorter than this are scare quotes or titles, not statements
+const MIN_QUOTE_LENGTH = 12
+
+// Loaded terms listed on the detail page
+const TOP_TERMS = 10
+
+export interface TextFeatures {
+  wordCount: number
+  sentenceCount: number
+  loadedTermCount: number
+  loadedTermDensity: number                         // per 1,000 words
+  topLoadedTerms: Array<{ term: string; count: number }>
+  hedgeCount: number
+  hedgingDensity: number                            // per 1,000 words
+  quoteCount: number
+  attributedQuoteRatio: number | null               // null = no direct quotes
+  passiveVoiceRate: number                          // 0..1 of sentences
+  sourceCitations: number
+}
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Whole-word / whole-phrase matcher ("rips" must not match "ripsaw", "far-left" is one term)
+function termPattern(terms: string[]): RegExp {
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegex)
+  return new RegExp(`(?<![\\w-])(?:${alternatives.join('|')})(?![\\w-])`, 'g')
+}
+
+const LOADED_PATTERN = termPattern(LOADED_TERMS)
+const HEDGING_PATTERN = termPattern(HEDGING_TERMS)
+const ATTRIBUTION_PATTERN = termPattern(ATTRIBUTION_TERMS)
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:am|is|are|was|were|be|been|being)\\s+(?:\\w+ly\\s+)?(?:\\w+ed|${IRREGULAR_PARTICIPLES.join('|')})\\b`,
+  'i'
+)
+
+function matchesOf(pattern: RegExp, text: string): string[] {
+  return Array.from(text.matchAll(pattern), match => match[0])
+}
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places
+
+/**
+ * Compute every feature for an article's plain text (articlePlainText output)
+ */
+export function computeTextFeatures(text: string): TextFeatures {
+  // Straight quotes and lowercase: same length as the input, so positions line up
+  const normalized = text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').toLowerCase()
+  const wordCount = (normalized.match(/[a-z0-9][a-z0-9'-]*/g) || []).length
+  const perThousandWords = (count: number) => (wordCount > 0 ? round((count / wordCount) * 1000, 2) : 0)
+
+  const loaded = matchesOf(LOADED_PATTERN, normalized)
+  const termCounts = new Map<string, number>()
+  for (const term of loaded) termCounts.set(term, (termCounts.get(term) || 0) + 1)
+  const topLoadedTerms = Array.from(termCounts.entries())
+    .map(([term, count]) => ({ term, count }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, TOP_TERMS)
+
+  const hedges = matchesOf(HEDGING_PATTERN, normalized)
+
+  const quotes = Array.from(normalized.matchAll(new RegExp(`"[^"\\n]{${MIN_QUOTE_LENGTH},}?"`, 'g')))
+  const attributed = quotes.filter(quote => {
+    const start = quote.index!
+    const end = start + quote[0].length
+    const around = normalized.substring(Math.max(0, start - ATTRIBUTION_WINDOW), start) + ' ' +
+      normalized.substring(end, end + ATTRIBUTION_WINDOW)
+    return matchesOf(ATTRIBUTION_PATTERN, around).length > 0
+  })
+
+  const sentences = splitSentences(text, Number.POSITIVE_INFINITY)
+  const passiveSentences = sentences.filter(sentence => PASSIVE_PATTERN.test(sentence.text))
+
+  return {
+    wordCount,
+    sentenceCount: sentences.length,
+    loadedTermCount: loaded.length,
+    loadedTermDensity: perThousandWords(loaded.length),
+    topLoadedTerms,
+    hedgeCount: hedges.length,
+    hedgingDensity: perThousandWords(hedges.length),
+    quoteCount: quotes.length,
+    attributedQuoteRatio: quotes.length > 0 ? round(attributed.length / quotes.length, 3) : null,
+    passiveVoiceRate: sentences.length > 0 ? round(passiveSentences.length / sentences.length, 3) : 0,
+    sourceCitations: matchesOf(ATTRIBUTION_PATTERN, normalized).length
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * AI Response Validation
+ *
+ * Turns raw model text into a checked AIAnalysis instead of casting JSON.parse.
+ * A valid analysis has every bias category exactly once, each with a numeric
+ * score in -1..+1 and a string explanation, plus a string summary.
+ * Evidence quotes and self-reported confidence are optional (see utils/evidence.ts).
+ *
+ * Pure functions only (no API or database calls) so they can run anywhere.
+ */
+
+import type { AIAnalysis, AIScore } from '@/lib/ai'
+
+export interface ValidationResult {
+  analysis: AIAnalysis | null // null when errors is non-empty
+  errors: string[]            // human-readable problems, sent back to the model in repair prompts
+}
+
+/**
+ * Strip markdown code fences, <think> blocks and surrounding prose
+ * so only the JSON object is left
+ */
+export function extractJsonText(text: string): string {
+  let jsonText = text.trim()
+
+  // Remove <think> tags (Qwen sometimes includes these)
+  jsonText = jsonText.replace(/<think>[\s\S]*?<\/think>/g, '').trim()
+
+  // Remove markdown code blocks
+  jsonText = jsonText
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim()
+
+  // Extract JSON if there's extra text before/after
+  const jsonMatch = jsonText.match(/\{[\s\S]*\}/)
+  if (jsonMatch) {
+    jsonText = jsonMatch[0]
+  }
+
+  return jsonText
+}
+
+/**
+ * Check a parsed model reply against the expected category set
+ *
+ * Category names are matched case-insensitively and normalized to the
+ * database spelling so saveModelScores can find them.
+ *
+ * @param data - Parsed JSON (unknown shape)
+ * @param categoryNames - Names from bias_categories, in display order
+ */
+export function validateAnalysis(data: unknown, categoryNames: string[]): ValidationResult {
+  const errors: string[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { analysis: null, errors: ['Response must be a JSON object with "scores" and "summary"'] }
+  }
+
+  const { scores, summary } = data as { scores?: unknown; summary?: unknown }
+
+  if (typeof summary !== 'string' || summary.trim() === '') {
+    errors.push('"summary" must be a non-empty string')
+  }
+
+  if (!Array.isArray(scores)) {
+    errors.push('"scores" must be an array')
+    return { analysis: null, errors }
+  }
+
+  const canonicalNames = new Map(categoryNames.map(name => [name.toLowerCase(), name]))
+  const seen = new Map<string, AIScore>()
+
+  scores.forEach((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      errors.push(`scores[${index}] must be an object`)
+      return
+    }
+
+    const { category, score, explanation, quotes, confidence } = entry as {
+      category?: unknown
+      score?: unknown
+      explanation?: unknown
+      quotes?: unknown
+      confidence?: unknown
+    }
+
+    const categoryName = typeof category === 'string'
+      ? canonicalNames.get(category.trim().toLowerCase())
+      : undefined
+
+    if (!categoryName) {
+      errors.push(`scores[${index}] has unknown category ${JSON.stringify(category)} (expected one of: ${categoryNames.join(', ')})`)
+      return
+    }
+
+    if (seen.has(categoryName)) {
+      errors.push(`Category "${categoryName}" is scored more than once`)
+      return
+    }
+
+    if (typeof score !== 'number' || !Number.isFinite(score)) {
+      errors.push(`Score for "${categoryName}" must be a number, got ${JSON.stringify(score)}`)
+      return
+    }
+
+    if (score < -1 || score > 1) {
+      errors.push(`Score for "${categoryName}" must be between -1 and +1, got ${score}`)
+      return
+    }
+
+    if (typeof explanation !== 'string') {
+      errors.push(`Explanation for "${categoryName}" must be a string`)
+      return
+    }
+
+    // Quotes are optional: non-string entries are dropped rather than failing the reply,
+    // and attachEvidence() later discards any that aren't in the article
+    const quoteList = Array.isArray(quotes)
+      ? quotes.filter((q): q is string => typeof q === 'string' && q.trim() !== '').map(q => q.trim())
+      : []
+
+    // Confidence is optional too: anything but a number in 0..1 is treated as not given
+    const confidenceValue = typeof confidence === 'number' && confidence >= 0 && confidence <= 1 ? confidence : null
+
+    seen.set(categoryName, { category: categoryName, score, explanation, quotes: quoteList, confidence: confidenceValue })
+  })
+
+  for (const name of categoryNames) {
+    if (!seen.has(name) && !errors.some(e => e.includes(`"${name}"`))) {
+      errors.push(`Missing score for category "${name}"`)
+    }
+  }
+
+  if (errors.length > 0) {
+    return { analysis: null, errors }
+  }
+
+  return {
+    analysis: {
+      scores: categoryNames.map(name => seen.get(name)!),
+      summary: (summary as string).trim()
+    },
+    errors: []
+  }
+}
+
+/**
+ * Clean, parse and validate raw model text in one step
+ */
+export function parseAnalysisResponse(text: string, categoryNames: string[]): ValidationResult {
+  let data: unknown
+  try {
+    data = JSON.parse(extractJsonText(text))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error'
+    return { analysis: null, errors: [`Response is not valid JSON: ${message}`] }
+  }
+
+  return validateAnalysis(data, categoryNames)
+}